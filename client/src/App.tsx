@@ -13,6 +13,8 @@ import ProjectDetail from "@/pages/project-detail";
 import Dashboards from "@/pages/dashboards";
 import DashboardBuilder from "@/pages/dashboard-builder";
 import DashboardPreview from "@/pages/dashboard-preview";
+import DataSources from "@/pages/data-sources";
+import DataSourceDetail from "@/pages/data-source-detail";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -34,6 +36,8 @@ function Router() {
           <Route path="/dashboards" component={Dashboards} />
           <Route path="/dashboard-builder/:id" component={DashboardBuilder} />
           <Route path="/dashboard-preview/:id" component={DashboardPreview} />
+          <Route path="/data-sources" component={DataSources} />
+          <Route path="/data-source/:id" component={DataSourceDetail} />
         </>
       )}
       <Route component={NotFound} />
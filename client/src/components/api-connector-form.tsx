@@ -0,0 +1,318 @@
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertCircle, Plus, RefreshCw, Trash2, Zap } from "lucide-react";
+
+type AuthScheme = "none" | "bearer" | "basic" | "apiKey";
+type PaginationStrategy = "none" | "page" | "cursor" | "link";
+
+// Flat form state; `toApiSource` turns it into the shape the server validates
+export interface ApiSourceDraft {
+  url: string;
+  headers: { name: string; value: string }[];
+  authScheme: AuthScheme;
+  token: string;
+  username: string;
+  password: string;
+  keyName: string;
+  keyValue: string;
+  keyIn: "header" | "query";
+  pagination: PaginationStrategy;
+  pageParam: string;
+  pageSizeParam: string;
+  pageSize: string;
+  cursorParam: string;
+  cursorPath: string;
+  recordsPath: string;
+  arrayMode: "join" | "explode";
+}
+
+interface ApiPreview {
+  columns: string[];
+  rows: Record<string, string | number | boolean | null>[];
+  rowCount: number;
+  hasMore: boolean;
+}
+
+interface ApiConnectorFormProps {
+  value: ApiSourceDraft;
+  onChange: (value: ApiSourceDraft) => void;
+  organizationId: number;
+}
+
+export const emptyApiSource: ApiSourceDraft = {
+  url: "",
+  headers: [],
+  authScheme: "none",
+  token: "",
+  username: "",
+  password: "",
+  keyName: "X-API-Key",
+  keyValue: "",
+  keyIn: "header",
+  pagination: "none",
+  pageParam: "page",
+  pageSizeParam: "",
+  pageSize: "",
+  cursorParam: "cursor",
+  cursorPath: "$.next",
+  recordsPath: "$",
+  arrayMode: "join",
+};
+
+export function toApiSource(draft: ApiSourceDraft) {
+  const auth =
+    draft.authScheme === "bearer" ? { scheme: "bearer", token: draft.token }
+    : draft.authScheme === "basic" ? { scheme: "basic", username: draft.username, password: draft.password }
+    : draft.authScheme === "apiKey" ? { scheme: "apiKey", name: draft.keyName, value: draft.keyValue, in: draft.keyIn }
+    : { scheme: "none" };
+
+  const pagination =
+    draft.pagination === "page" ? {
+      strategy: "page",
+      pageParam: draft.pageParam,
+      pageSizeParam: draft.pageSizeParam || undefined,
+      pageSize: draft.pageSize ? parseInt(draft.pageSize) : undefined,
+    }
+    : draft.pagination === "cursor" ? { strategy: "cursor", cursorParam: draft.cursorParam, cursorPath: draft.cursorPath }
+    : { strategy: draft.pagination };
+
+  const headers = Object.fromEntries(
+    draft.headers.filter(header => header.name.trim()).map(header => [header.name.trim(), header.value]),
+  );
+
+  return { url: draft.url, headers, auth, pagination, recordsPath: draft.recordsPath, arrayMode: draft.arrayMode };
+}
+
+export default function ApiConnectorForm({ value, onChange, organizationId }: ApiConnectorFormProps) {
+  const set = (changes: Partial<ApiSourceDraft>) => onChange({ ...value, ...changes });
+
+  const setHeader = (index: number, changes: Partial<{ name: string; value: string }>) =>
+    set({ headers: value.headers.map((header, i) => (i === index ? { ...header, ...changes } : header)) });
+
+  const previewMutation = useMutation({
+    mutationFn: (): Promise<ApiPreview> =>
+      apiRequest("/api/connectors/api/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...toApiSource(value), organizationId }),
+      }),
+  });
+
+  const preview = previewMutation.data;
+
+  return (
+    <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-1">
+      <div>
+        <Label htmlFor="apiUrl">URL</Label>
+        <Input
+          id="apiUrl"
+          placeholder="https://metrics.internal/api/v1/orders"
+          value={value.url}
+          onChange={(e) => set({ url: e.target.value })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Headers</Label>
+          <Button variant="ghost" size="sm" onClick={() => set({ headers: [...value.headers, { name: "", value: "" }] })}>
+            <Plus className="h-3 w-3 mr-1" />
+            Add Header
+          </Button>
+        </div>
+        {value.headers.map((header, index) => (
+          <div key={index} className="flex space-x-2">
+            <Input placeholder="Name" value={header.name} onChange={(e) => setHeader(index, { name: e.target.value })} />
+            <Input placeholder="Value" value={header.value} onChange={(e) => setHeader(index, { value: e.target.value })} />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => set({ headers: value.headers.filter((_, i) => i !== index) })}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label>Authentication</Label>
+          <Select value={value.authScheme} onValueChange={(authScheme) => set({ authScheme: authScheme as AuthScheme })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None</SelectItem>
+              <SelectItem value="bearer">Bearer token</SelectItem>
+              <SelectItem value="basic">Basic (username and password)</SelectItem>
+              <SelectItem value="apiKey">API key</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>Pagination</Label>
+          <Select value={value.pagination} onValueChange={(pagination) => set({ pagination: pagination as PaginationStrategy })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Single request</SelectItem>
+              <SelectItem value="page">Page number</SelectItem>
+              <SelectItem value="cursor">Cursor</SelectItem>
+              <SelectItem value="link">Link header</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {value.authScheme === "bearer" && (
+        <div>
+          <Label htmlFor="apiToken">Token</Label>
+          <Input id="apiToken" type="password" value={value.token} onChange={(e) => set({ token: e.target.value })} />
+        </div>
+      )}
+      {value.authScheme === "basic" && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="apiUsername">Username</Label>
+            <Input id="apiUsername" value={value.username} onChange={(e) => set({ username: e.target.value })} />
+          </div>
+          <div>
+            <Label htmlFor="apiPassword">Password</Label>
+            <Input id="apiPassword" type="password" value={value.password} onChange={(e) => set({ password: e.target.value })} />
+          </div>
+        </div>
+      )}
+      {value.authScheme === "apiKey" && (
+        <div className="grid grid-cols-3 gap-3">
+          <div>
+            <Label htmlFor="apiKeyName">Key name</Label>
+            <Input id="apiKeyName" value={value.keyName} onChange={(e) => set({ keyName: e.target.value })} />
+          </div>
+          <div>
+            <Label htmlFor="apiKeyValue">Key</Label>
+            <Input id="apiKeyValue" type="password" value={value.keyValue} onChange={(e) => set({ keyValue: e.target.value })} />
+          </div>
+          <div>
+            <Label>Send in</Label>
+            <Select value={value.keyIn} onValueChange={(keyIn) => set({ keyIn: keyIn as "header" | "query" })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="header">Header</SelectItem>
+                <SelectItem value="query">Query string</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+
+      {value.pagination === "page" && (
+        <div className="grid grid-cols-3 gap-3">
+          <div>
+            <Label htmlFor="pageParam">Page parameter</Label>
+            <Input id="pageParam" value={value.pageParam} onChange={(e) => set({ pageParam: e.target.value })} />
+          </div>
+          <div>
+            <Label htmlFor="pageSizeParam">Page size parameter</Label>
+            <Input id="pageSizeParam" placeholder="Optional" value={value.pageSizeParam} onChange={(e) => set({ pageSizeParam: e.target.value })} />
+          </div>
+          <div>
+            <Label htmlFor="pageSize">Page size</Label>
+            <Input id="pageSize" type="number" placeholder="Optional" value={value.pageSize} onChange={(e) => set({ pageSize: e.target.value })} />
+          </div>
+        </div>
+      )}
+      {value.pagination === "cursor" && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="cursorParam">Cursor parameter</Label>
+            <Input id="cursorParam" value={value.cursorParam} onChange={(e) => set({ cursorParam: e.target.value })} />
+          </div>
+          <div>
+            <Label htmlFor="cursorPath">Next cursor (JSONPath)</Label>
+            <Input id="cursorPath" className="font-mono" value={value.cursorPath} onChange={(e) => set({ cursorPath: e.target.value })} />
+          </div>
+        </div>
+      )}
+
+      <div>
+        <Label htmlFor="recordsPath">Records (JSONPath)</Label>
+        <Input
+          id="recordsPath"
+          className="font-mono"
+          placeholder="$.data.items"
+          value={value.recordsPath}
+          onChange={(e) => set({ recordsPath: e.target.value })}
+        />
+        <p className="text-xs text-gray-500 mt-1">Use $ when the response itself is the list of records.</p>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Nested lists</Label>
+        <RadioGroup value={value.arrayMode} onValueChange={(arrayMode) => set({ arrayMode: arrayMode as "join" | "explode" })}>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="join" id="api-array-join" />
+            <Label htmlFor="api-array-join" className="font-normal">Join into text (one row per record)</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="explode" id="api-array-explode" />
+            <Label htmlFor="api-array-explode" className="font-normal">Explode into rows (one row per list item)</Label>
+          </div>
+        </RadioGroup>
+      </div>
+
+      <Button variant="outline" onClick={() => previewMutation.mutate()} disabled={previewMutation.isPending || !value.url}>
+        {previewMutation.isPending ? <RefreshCw className="h-4 w-4 mr-2 animate-spin" /> : <Zap className="h-4 w-4 mr-2" />}
+        Fetch Now
+      </Button>
+
+      {previewMutation.isError && (
+        <p className="flex items-center text-sm text-red-600">
+          <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+          {previewMutation.error.message}
+        </p>
+      )}
+      {preview && (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">
+            {preview.rowCount.toLocaleString()} rows on the first page
+            {preview.hasMore ? "; more pages will be fetched on import." : "."}
+          </p>
+          {preview.columns.length > 0 && (
+            <div className="border rounded-lg overflow-auto max-h-60">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    {preview.columns.map((column) => (
+                      <TableHead key={column} className="whitespace-nowrap">{column}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.rows.map((row, index) => (
+                    <TableRow key={index}>
+                      {preview.columns.map((column) => (
+                        <TableCell key={column} className="whitespace-nowrap">
+                          {row[column] === null || row[column] === undefined ? "" : String(row[column])}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+import { useState } from "react";
+import { useQueries, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import type { ColumnSchema, DataSource } from "@shared/schema";
+
+type JoinType = "inner" | "left" | "full";
+
+interface BlendInputDraft {
+  dataSourceId: string;
+  rename: Record<string, string>;
+}
+
+interface BlendJoinDraft extends BlendInputDraft {
+  type: JoinType;
+  on: { left: string; right: string }[];
+}
+
+export interface BlendDraft {
+  base: BlendInputDraft;
+  joins: BlendJoinDraft[];
+}
+
+interface BlendFormProps {
+  value: BlendDraft;
+  onChange: (value: BlendDraft) => void;
+  organizationId: number;
+}
+
+const emptyJoin: BlendJoinDraft = { dataSourceId: "", rename: {}, type: "left", on: [{ left: "", right: "" }] };
+
+export const emptyBlend: BlendDraft = {
+  base: { dataSourceId: "", rename: {} },
+  joins: [emptyJoin],
+};
+
+const joinLabels: Record<JoinType, string> = {
+  inner: "Only matching rows",
+  left: "Keep all rows so far",
+  full: "Keep all rows of both",
+};
+
+function toInput(draft: BlendInputDraft) {
+  const rename = Object.fromEntries(
+    Object.entries(draft.rename).filter(([, name]) => name.trim()).map(([column, name]) => [column, name.trim()]),
+  );
+  return { dataSourceId: parseInt(draft.dataSourceId), rename };
+}
+
+export function toBlendDefinition(draft: BlendDraft) {
+  return {
+    base: toInput(draft.base),
+    joins: draft.joins.map(join => ({ ...toInput(join), type: join.type, on: join.on })),
+  };
+}
+
+export function isBlendComplete(draft: BlendDraft) {
+  return !!draft.base.dataSourceId && draft.joins.every(join =>
+    join.dataSourceId && join.on.length > 0 && join.on.every(key => key.left && key.right),
+  );
+}
+
+const renamed = (schema: ColumnSchema[] | undefined, rename: Record<string, string>) =>
+  (schema ?? []).map(column => rename[column.name]?.trim() || column.name);
+
+function ColumnRenames({ schema, value, onChange }: {
+  schema: ColumnSchema[] | undefined;
+  value: Record<string, string>;
+  onChange: (rename: Record<string, string>) => void;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+  if (!schema) return null;
+
+  return (
+    <div>
+      <Button variant="ghost" size="sm" className="px-0 text-indigo-600" onClick={() => setIsOpen(!isOpen)}>
+        {isOpen ? "Hide column names" : "Rename columns"}
+      </Button>
+      {isOpen && (
+        <div className="grid grid-cols-2 gap-2 mt-1">
+          {schema.map((column) => (
+            <Input
+              key={column.name}
+              placeholder={column.name}
+              value={value[column.name] ?? ""}
+              onChange={(e) => onChange({ ...value, [column.name]: e.target.value })}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function BlendForm({ value, onChange, organizationId }: BlendFormProps) {
+  const { data: dataSources } = useQuery<DataSource[]>({
+    queryKey: ["/api/data-sources", { organizationId }],
+  });
+
+  const inputs = [value.base, ...value.joins];
+  const schemas = useQueries({
+    queries: inputs.map(input => ({
+      queryKey: [`/api/data-sources/${input.dataSourceId}/schema`],
+      enabled: !!input.dataSourceId,
+    })),
+  }).map(result => result.data as ColumnSchema[] | undefined);
+
+  const nameOf = (id: string) => dataSources?.find(dataSource => String(dataSource.id) === id)?.name ?? "";
+
+  // Columns available to each join, named as the server will name them: keys with
+  // the same name on both sides merge and clashing names get the source's name added
+  const columnsBefore: string[][] = [];
+  let columns = renamed(schemas[0], value.base.rename);
+  value.joins.forEach((join, i) => {
+    columnsBefore.push(columns);
+    const merged = new Set(join.on.filter(key => key.left && key.left === key.right).map(key => key.right));
+    const taken = new Set(columns);
+    const added: string[] = [];
+    for (const name of renamed(schemas[i + 1], join.rename)) {
+      if (merged.has(name)) continue;
+      let as = name;
+      for (let n = 2; taken.has(as); n++) {
+        as = n === 2 ? `${name} (${nameOf(join.dataSourceId)})` : `${name} (${nameOf(join.dataSourceId)} ${n})`;
+      }
+      taken.add(as);
+      added.push(as);
+    }
+    columns = [...columns, ...added];
+  });
+
+  const setJoin = (index: number, changes: Partial<BlendJoinDraft>) =>
+    onChange({ ...value, joins: value.joins.map((join, i) => (i === index ? { ...join, ...changes } : join)) });
+
+  const setKey = (index: number, keyIndex: number, changes: Partial<{ left: string; right: string }>) =>
+    setJoin(index, { on: value.joins[index].on.map((key, i) => (i === keyIndex ? { ...key, ...changes } : key)) });
+
+  const sourceSelect = (selected: string, onSelect: (id: string) => void) => (
+    <Select value={selected} onValueChange={onSelect}>
+      <SelectTrigger>
+        <SelectValue placeholder="Choose a data source" />
+      </SelectTrigger>
+      <SelectContent>
+        {(dataSources || []).map((dataSource) => (
+          <SelectItem key={dataSource.id} value={String(dataSource.id)}>{dataSource.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const columnSelect = (options: string[], selected: string, onSelect: (column: string) => void) => (
+    <Select value={selected} onValueChange={onSelect}>
+      <SelectTrigger>
+        <SelectValue placeholder="Column" />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((column) => (
+          <SelectItem key={column} value={column}>{column}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-1">
+      <div>
+        <Label>Start from</Label>
+        {sourceSelect(value.base.dataSourceId, (dataSourceId) => onChange({ ...value, base: { dataSourceId, rename: {} } }))}
+        <ColumnRenames
+          schema={schemas[0]}
+          value={value.base.rename}
+          onChange={(rename) => onChange({ ...value, base: { ...value.base, rename } })}
+        />
+      </div>
+
+      {value.joins.map((join, index) => (
+        <div key={index} className="border rounded-lg p-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <Label>Join</Label>
+            {value.joins.length > 1 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onChange({ ...value, joins: value.joins.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            {sourceSelect(join.dataSourceId, (dataSourceId) =>
+              setJoin(index, { dataSourceId, rename: {}, on: [{ left: "", right: "" }] }))}
+            <Select value={join.type} onValueChange={(type) => setJoin(index, { type: type as JoinType })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(joinLabels) as JoinType[]).map((type) => (
+                  <SelectItem key={type} value={type}>{joinLabels[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs text-gray-500">Matching columns</Label>
+            {join.on.map((key, keyIndex) => (
+              <div key={keyIndex} className="flex items-center space-x-2">
+                {columnSelect(columnsBefore[index], key.left, (left) => setKey(index, keyIndex, { left }))}
+                <span className="text-gray-400">=</span>
+                {columnSelect(renamed(schemas[index + 1], join.rename), key.right, (right) => setKey(index, keyIndex, { right }))}
+                {join.on.length > 1 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setJoin(index, { on: join.on.filter((_, i) => i !== keyIndex) })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setJoin(index, { on: [...join.on, { left: "", right: "" }] })}
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Add Key
+            </Button>
+          </div>
+
+          <ColumnRenames
+            schema={schemas[index + 1]}
+            value={join.rename}
+            onChange={(rename) => setJoin(index, { rename })}
+          />
+        </div>
+      ))}
+
+      <Button variant="outline" onClick={() => onChange({ ...value, joins: [...value.joins, emptyJoin] })}>
+        <Plus className="h-4 w-4 mr-2" />
+        Join Another Source
+      </Button>
+
+      {columns.length > 0 && (
+        <p className="text-xs text-gray-500">
+          {columns.length} columns: {columns.join(", ")}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Calculator, Plus, Trash2 } from "lucide-react";
+import type { CalculatedField, CalculatedFieldStatus, ColumnSchema, ColumnType, DataSource } from "@shared/schema";
+
+interface CalculatedFieldsProps {
+  isOpen: boolean;
+  onClose: () => void;
+  dataSource: DataSource;
+}
+
+interface FormulaFunction {
+  name: string;
+  description: string;
+}
+
+interface FormulaPreview {
+  type: ColumnType;
+  values: unknown[];
+}
+
+interface FieldDraft extends CalculatedField {
+  preview?: FormulaPreview;
+  error?: string | null;
+}
+
+// Plain names can be typed as they are; anything else goes in brackets
+const columnReference = (name: string) => (/^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : `[${name}]`);
+
+const formatValue = (value: unknown) => (value === null || value === undefined ? "empty" : String(value));
+
+export default function CalculatedFieldsSheet({ isOpen, onClose, dataSource }: CalculatedFieldsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [fields, setFields] = useState<FieldDraft[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [showFunctions, setShowFunctions] = useState(false);
+
+  const { data: saved } = useQuery<CalculatedFieldStatus[]>({
+    queryKey: [`/api/data-sources/${dataSource.id}/calculated-fields`],
+    enabled: isOpen,
+  });
+
+  const { data: schema } = useQuery<ColumnSchema[]>({
+    queryKey: [`/api/data-sources/${dataSource.id}/schema`],
+    enabled: isOpen,
+  });
+
+  const { data: functions } = useQuery<FormulaFunction[]>({
+    queryKey: ["/api/formulas/functions"],
+    enabled: isOpen,
+  });
+
+  // Start from the saved fields each time the sheet opens
+  useEffect(() => {
+    if (!isOpen || !saved) return;
+    setFields(saved.map(({ name, formula, error }) => ({ name, formula, error })));
+    setActiveIndex(0);
+  }, [isOpen, saved]);
+
+  const columns = (schema || []).filter(column => !column.formula);
+
+  const setField = (index: number, changes: Partial<FieldDraft>) =>
+    setFields(fields.map((field, i) => (i === index ? { ...field, ...changes } : field)));
+
+  const insertColumn = (name: string) => {
+    const field = fields[activeIndex];
+    if (!field) return;
+    const separator = field.formula && !field.formula.endsWith(" ") ? " " : "";
+    setField(activeIndex, { formula: `${field.formula}${separator}${columnReference(name)}`, preview: undefined, error: null });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async (index: number): Promise<FormulaPreview> => {
+      return await apiRequest(`/api/data-sources/${dataSource.id}/formulas/preview`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          formula: fields[index].formula,
+          fields: fields.slice(0, index).map(({ name, formula }) => ({ name, formula })),
+        }),
+      });
+    },
+    onSuccess: (preview, index) => setField(index, { preview, error: null }),
+    onError: (error, index) => setField(index, { preview: undefined, error: error.message }),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(`/api/data-sources/${dataSource.id}/calculated-fields`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ fields: fields.map(({ name, formula }) => ({ name, formula })) }),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/data-sources/${dataSource.id}/calculated-fields`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/data-sources/${dataSource.id}/schema`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/data-sources/${dataSource.id}/rows`] });
+      toast({
+        title: "Calculated Fields Saved",
+        description: "The fields are available to every block using this data source.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save calculated fields",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isComplete = fields.every(field => field.name.trim() && field.formula.trim());
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-[32rem] sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Calculated Fields</SheetTitle>
+          <SheetDescription>
+            Columns computed from the others, like margin = profit / revenue. Each field can use the ones above it.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-4">
+          {fields.map((field, index) => (
+            <div
+              key={index}
+              className={`border rounded-lg p-3 space-y-2 ${index === activeIndex ? "border-indigo-400" : ""}`}
+              onFocus={() => setActiveIndex(index)}
+            >
+              <div className="flex items-center space-x-2">
+                <Input
+                  placeholder="Field name"
+                  value={field.name}
+                  onChange={(e) => setField(index, { name: e.target.value })}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setFields(fields.filter((_, i) => i !== index));
+                    setActiveIndex(0);
+                  }}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <Textarea
+                className="font-mono text-sm"
+                rows={2}
+                placeholder='IF(region = "North", revenue * 1.1, revenue)'
+                value={field.formula}
+                onChange={(e) => setField(index, { formula: e.target.value, preview: undefined, error: null })}
+              />
+              <div className="flex items-start justify-between">
+                <div className="text-xs min-w-0">
+                  {field.error ? (
+                    <p className="text-red-600 break-words">{field.error}</p>
+                  ) : field.preview ? (
+                    <div className="space-y-1">
+                      <Badge variant="secondary">{field.preview.type}</Badge>
+                      <p className="text-gray-500 truncate">
+                        {field.preview.values.length > 0 ? field.preview.values.map(formatValue).join(", ") : "No rows to preview"}
+                      </p>
+                    </div>
+                  ) : null}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => previewMutation.mutate(index)}
+                  disabled={!field.formula.trim() || previewMutation.isPending}
+                >
+                  Check
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          <Button
+            variant="outline"
+            onClick={() => {
+              setFields([...fields, { name: "", formula: "" }]);
+              setActiveIndex(fields.length);
+            }}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Field
+          </Button>
+
+          {fields.length === 0 && (
+            <div className="text-center py-6">
+              <Calculator className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+              <p className="text-sm text-gray-500">No calculated fields yet.</p>
+            </div>
+          )}
+
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!isComplete || saveMutation.isPending}
+            className="w-full bg-indigo-600 hover:bg-indigo-700"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Fields"}
+          </Button>
+        </div>
+
+        <div className="mt-8 space-y-4">
+          <div>
+            <Label>Columns</Label>
+            <p className="text-xs text-gray-500 mb-2">Click to add to the formula.</p>
+            <div className="flex flex-wrap gap-1">
+              {columns.map((column) => (
+                <button
+                  key={column.name}
+                  className="text-xs border rounded px-2 py-1 hover:bg-gray-50"
+                  onClick={() => insertColumn(column.name)}
+                  title={column.type}
+                >
+                  {column.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <Button variant="ghost" size="sm" className="px-0 text-indigo-600" onClick={() => setShowFunctions(!showFunctions)}>
+              {showFunctions ? "Hide functions" : "Show functions"}
+            </Button>
+            {showFunctions && (
+              <div className="space-y-1 mt-1">
+                <p className="text-xs text-gray-500">
+                  Operators: + - * / % for numbers, &amp; to join text, = != &lt; &lt;= &gt; &gt;=, AND, OR, NOT.
+                </p>
+                {(functions || []).map((fn) => (
+                  <p key={fn.name} className="text-xs text-gray-700 font-mono">{fn.description}</p>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
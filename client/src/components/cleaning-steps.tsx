@@ -0,0 +1,399 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Plus, Trash2, Wand2 } from "lucide-react";
+import { columnTypes, queryFilterOperators, type DataSource, type Transform, type TransformKind } from "@shared/schema";
+
+interface CleaningStepsProps {
+  isOpen: boolean;
+  onClose: () => void;
+  dataSource: DataSource;
+}
+
+interface TransformsState {
+  transforms: Transform[];
+  sourceColumns: string[];
+  columns: string[];
+}
+
+type FilterOperator = typeof queryFilterOperators[number];
+
+// Sources whose rows are pulled from an external system or other sources rather than uploaded
+const CONNECTOR_TYPES = ["database", "api", "blend"];
+
+const stepLabels: Record<TransformKind, string> = {
+  trim: "Trim whitespace",
+  change_type: "Change type",
+  fill_nulls: "Fill empty cells",
+  drop_duplicates: "Drop duplicates",
+  split_column: "Split column",
+  merge_columns: "Merge columns",
+  find_replace: "Find and replace",
+  filter_rows: "Filter rows",
+  unpivot: "Unpivot",
+};
+
+const operatorLabels: Record<FilterOperator, string> = {
+  eq: "=", neq: "!=", gt: ">", gte: ">=", lt: "<", lte: "<=", in: "in", not_in: "not in",
+  between: "between", contains: "contains", is_null: "is empty", is_not_null: "is not empty",
+};
+
+const newStep = (kind: TransformKind): Transform => {
+  switch (kind) {
+    case "trim": return { kind };
+    case "change_type": return { kind, column: "", type: "text" };
+    case "fill_nulls": return { kind, column: "", value: "" };
+    case "drop_duplicates": return { kind };
+    case "split_column": return { kind, column: "", separator: ",", into: ["", ""], keepOriginal: false };
+    case "merge_columns": return { kind, columns: [], separator: " ", into: "", keepOriginals: false };
+    case "find_replace": return { kind, find: "", replace: "", matchCase: false, wholeCell: false };
+    case "filter_rows": return { kind, column: "", operator: "eq", value: "", keep: true };
+    case "unpivot": return { kind, columns: [], nameColumn: "attribute", valueColumn: "value" };
+  }
+};
+
+// Column names after a step, as the server works them out
+function columnsAfter(step: Transform, columns: string[]): string[] {
+  switch (step.kind) {
+    case "split_column": {
+      const index = columns.indexOf(step.column);
+      if (index === -1) return columns;
+      const next = [...columns];
+      next.splice(index + (step.keepOriginal ? 1 : 0), step.keepOriginal ? 0 : 1, ...step.into.filter(Boolean));
+      return next;
+    }
+    case "merge_columns": {
+      if (!step.into) return columns;
+      const next = columns.filter(name => step.keepOriginals || !step.columns.includes(name));
+      return [...next, step.into];
+    }
+    case "unpivot":
+      return step.columns.length === 0
+        ? columns
+        : [...columns.filter(name => !step.columns.includes(name)), step.nameColumn, step.valueColumn];
+    default:
+      return columns;
+  }
+}
+
+const listValue = (value: unknown) => (Array.isArray(value) ? value.join(", ") : value == null ? "" : String(value));
+
+export default function CleaningStepsSheet({ isOpen, onClose, dataSource }: CleaningStepsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [steps, setSteps] = useState<Transform[]>([]);
+  const isConnector = CONNECTOR_TYPES.includes(dataSource.type);
+
+  const { data: saved } = useQuery<TransformsState>({
+    queryKey: [`/api/data-sources/${dataSource.id}/transforms`],
+    enabled: isOpen,
+  });
+
+  // Start from the saved steps each time the sheet opens
+  useEffect(() => {
+    if (isOpen && saved) setSteps(saved.transforms);
+  }, [isOpen, saved]);
+
+  const available: string[][] = [];
+  let columns = saved?.sourceColumns ?? [];
+  for (const step of steps) {
+    available.push(columns);
+    columns = columnsAfter(step, columns);
+  }
+
+  const setStep = (index: number, step: Transform) => setSteps(steps.map((s, i) => (i === index ? step : s)));
+
+  const move = (index: number, by: number) => {
+    const next = [...steps];
+    [next[index], next[index + by]] = [next[index + by], next[index]];
+    setSteps(next);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (apply: boolean): Promise<TransformsState> => {
+      return await apiRequest(`/api/data-sources/${dataSource.id}/transforms`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ transforms: steps, apply }),
+      });
+    },
+    onSuccess: (_, apply) => {
+      if (apply) {
+        queryClient.invalidateQueries({ queryKey: ["/api/data-sources"] });
+        queryClient.invalidateQueries({
+          predicate: (query) => String(query.queryKey[0]).startsWith(`/api/data-sources/${dataSource.id}`),
+        });
+      } else {
+        queryClient.invalidateQueries({ queryKey: [`/api/data-sources/${dataSource.id}/transforms`] });
+        queryClient.invalidateQueries({ queryKey: [`/api/data-sources/${dataSource.id}`] });
+      }
+      toast({
+        title: "Cleaning Steps Saved",
+        description: apply
+          ? "The source was refreshed with the new steps."
+          : isConnector ? "They will be applied on the next refresh." : "They will be applied to every new upload.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save cleaning steps",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const columnSelect = (options: string[], selected: string, onSelect: (column: string) => void) => (
+    <Select value={selected} onValueChange={onSelect}>
+      <SelectTrigger>
+        <SelectValue placeholder="Column" />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((column) => (
+          <SelectItem key={column} value={column}>{column}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  // Toggles for steps over several columns; none chosen means all of them where allowed
+  const columnToggles = (options: string[], selected: string[], onChange: (columns: string[]) => void) => (
+    <div className="flex flex-wrap gap-1">
+      {options.map((column) => (
+        <button
+          key={column}
+          className={`text-xs border rounded px-2 py-1 ${selected.includes(column) ? "bg-indigo-50 border-indigo-400" : "hover:bg-gray-50"}`}
+          onClick={() => onChange(selected.includes(column) ? selected.filter(c => c !== column) : [...selected, column])}
+        >
+          {column}
+        </button>
+      ))}
+    </div>
+  );
+
+  const toggle = (label: string, checked: boolean, onChange: (checked: boolean) => void) => (
+    <div className="flex items-center space-x-2">
+      <Switch checked={checked} onCheckedChange={onChange} />
+      <Label className="text-xs">{label}</Label>
+    </div>
+  );
+
+  const stepFields = (step: Transform, index: number) => {
+    const options = available[index] ?? [];
+    switch (step.kind) {
+      case "trim":
+      case "drop_duplicates":
+        return (
+          <div className="space-y-1">
+            <p className="text-xs text-gray-500">
+              {step.kind === "trim" ? "Columns to trim; none chosen trims every column." : "Columns that must match; none chosen compares whole rows."}
+            </p>
+            {columnToggles(options, step.columns ?? [], (columns) => setStep(index, { ...step, columns: columns.length > 0 ? columns : undefined }))}
+          </div>
+        );
+      case "change_type":
+        return (
+          <div className="grid grid-cols-2 gap-2">
+            {columnSelect(options, step.column, (column) => setStep(index, { ...step, column }))}
+            <Select value={step.type} onValueChange={(type) => setStep(index, { ...step, type: type as typeof step.type })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {columnTypes.map((type) => (
+                  <SelectItem key={type} value={type}>{type}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        );
+      case "fill_nulls":
+        return (
+          <div className="grid grid-cols-2 gap-2">
+            {columnSelect(options, step.column, (column) => setStep(index, { ...step, column }))}
+            <Input placeholder="Fill with" value={String(step.value)} onChange={(e) => setStep(index, { ...step, value: e.target.value })} />
+          </div>
+        );
+      case "split_column":
+        return (
+          <div className="space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+              {columnSelect(options, step.column, (column) => setStep(index, { ...step, column }))}
+              <Input placeholder="Separator" value={step.separator} onChange={(e) => setStep(index, { ...step, separator: e.target.value })} />
+            </div>
+            <Input
+              placeholder="New column names, e.g. first, last"
+              value={step.into.join(", ")}
+              onChange={(e) => setStep(index, { ...step, into: e.target.value.split(",").map(name => name.trim()) })}
+            />
+            {toggle("Keep the original column", step.keepOriginal, (keepOriginal) => setStep(index, { ...step, keepOriginal }))}
+          </div>
+        );
+      case "merge_columns":
+        return (
+          <div className="space-y-2">
+            {columnToggles(options, step.columns, (columns) => setStep(index, { ...step, columns }))}
+            <div className="grid grid-cols-2 gap-2">
+              <Input placeholder="New column name" value={step.into} onChange={(e) => setStep(index, { ...step, into: e.target.value })} />
+              <Input placeholder="Separator" value={step.separator} onChange={(e) => setStep(index, { ...step, separator: e.target.value })} />
+            </div>
+            {toggle("Keep the original columns", step.keepOriginals, (keepOriginals) => setStep(index, { ...step, keepOriginals }))}
+          </div>
+        );
+      case "find_replace":
+        return (
+          <div className="space-y-2">
+            <Select value={step.column ?? "*"} onValueChange={(column) => setStep(index, { ...step, column: column === "*" ? undefined : column })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="*">Every column</SelectItem>
+                {options.map((column) => (
+                  <SelectItem key={column} value={column}>{column}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="grid grid-cols-2 gap-2">
+              <Input placeholder="Find" value={step.find} onChange={(e) => setStep(index, { ...step, find: e.target.value })} />
+              <Input placeholder="Replace with" value={step.replace} onChange={(e) => setStep(index, { ...step, replace: e.target.value })} />
+            </div>
+            <div className="flex space-x-4">
+              {toggle("Match case", step.matchCase, (matchCase) => setStep(index, { ...step, matchCase }))}
+              {toggle("Whole cell only", step.wholeCell, (wholeCell) => setStep(index, { ...step, wholeCell }))}
+            </div>
+          </div>
+        );
+      case "filter_rows": {
+        const needsValue = step.operator !== "is_null" && step.operator !== "is_not_null";
+        const isList = ["in", "not_in", "between"].includes(step.operator);
+        return (
+          <div className="space-y-2">
+            <div className="grid grid-cols-3 gap-2">
+              {columnSelect(options, step.column, (column) => setStep(index, { ...step, column }))}
+              <Select value={step.operator} onValueChange={(operator) => setStep(index, { ...step, operator: operator as FilterOperator })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {queryFilterOperators.map((operator) => (
+                    <SelectItem key={operator} value={operator}>{operatorLabels[operator]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {needsValue && (
+                <Input
+                  placeholder={isList ? "a, b" : "Value"}
+                  value={listValue(step.value)}
+                  onChange={(e) => setStep(index, {
+                    ...step,
+                    value: isList ? e.target.value.split(",").map(part => part.trim()) : e.target.value,
+                  })}
+                />
+              )}
+            </div>
+            {toggle(step.keep ? "Keep matching rows" : "Drop matching rows", step.keep, (keep) => setStep(index, { ...step, keep }))}
+          </div>
+        );
+      }
+      case "unpivot":
+        return (
+          <div className="space-y-2">
+            <p className="text-xs text-gray-500">Columns to turn into rows, e.g. one column per month.</p>
+            {columnToggles(options, step.columns, (columns) => setStep(index, { ...step, columns }))}
+            <div className="grid grid-cols-2 gap-2">
+              <Input placeholder="Name column" value={step.nameColumn} onChange={(e) => setStep(index, { ...step, nameColumn: e.target.value })} />
+              <Input placeholder="Value column" value={step.valueColumn} onChange={(e) => setStep(index, { ...step, valueColumn: e.target.value })} />
+            </div>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-[36rem] sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Cleaning Steps</SheetTitle>
+          <SheetDescription>
+            Applied in order to every {isConnector ? "refresh" : "upload"} before the rows are stored.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-4">
+          {steps.map((step, index) => (
+            <div key={index} className="border rounded-lg p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>{index + 1}. {stepLabels[step.kind]}</Label>
+                <div className="flex">
+                  <Button variant="ghost" size="sm" disabled={index === 0} onClick={() => move(index, -1)}>
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" disabled={index === steps.length - 1} onClick={() => move(index, 1)}>
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setSteps(steps.filter((_, i) => i !== index))}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              {stepFields(step, index)}
+            </div>
+          ))}
+
+          {steps.length === 0 && (
+            <div className="text-center py-6">
+              <Wand2 className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+              <p className="text-sm text-gray-500">No cleaning steps yet.</p>
+            </div>
+          )}
+
+          <Select value="" onValueChange={(kind) => setSteps([...steps, newStep(kind as TransformKind)])}>
+            <SelectTrigger>
+              <div className="flex items-center">
+                <Plus className="h-4 w-4 mr-2" />
+                <SelectValue placeholder="Add a step" />
+              </div>
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(stepLabels) as TransformKind[]).map((kind) => (
+                <SelectItem key={kind} value={kind}>{stepLabels[kind]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {columns.length > 0 && (
+            <p className="text-xs text-gray-500">Result columns: {columns.join(", ")}</p>
+          )}
+
+          <div className="flex space-x-2">
+            <Button
+              variant={isConnector ? "outline" : "default"}
+              onClick={() => saveMutation.mutate(false)}
+              disabled={saveMutation.isPending}
+              className={isConnector ? "flex-1" : "flex-1 bg-indigo-600 hover:bg-indigo-700"}
+            >
+              {saveMutation.isPending && !saveMutation.variables ? "Saving..." : "Save Steps"}
+            </Button>
+            {isConnector && (
+              <Button
+                onClick={() => saveMutation.mutate(true)}
+                disabled={saveMutation.isPending}
+                className="flex-1 bg-indigo-600 hover:bg-indigo-700"
+              >
+                {saveMutation.isPending && saveMutation.variables ? "Refreshing..." : "Save and Refresh"}
+              </Button>
+            )}
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,164 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid } from "recharts";
+import { Loader2 } from "lucide-react";
+import { columnTypes, type ColumnSchema, type ColumnType } from "@shared/schema";
+
+interface ColumnStats {
+  column: ColumnSchema;
+  histogram?: { start: number; end: number; count: number }[];
+  timeline?: { period: string; count: number }[];
+  topValues?: { value: string; count: number }[];
+  otherCount?: number;
+}
+
+interface ColumnStatsPanelProps {
+  dataSourceId: number;
+  column: ColumnSchema;
+}
+
+const formatNumber = (value: number) =>
+  Math.abs(value) >= 1000 ? value.toLocaleString(undefined, { maximumFractionDigits: 0 }) : Number(value.toFixed(2)).toString();
+
+export default function ColumnStatsPanel({ dataSourceId, column }: ColumnStatsPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: stats, isLoading } = useQuery<ColumnStats>({
+    queryKey: [`/api/data-sources/${dataSourceId}/columns/${encodeURIComponent(column.name)}/stats`],
+  });
+
+  const overrideTypeMutation = useMutation({
+    mutationFn: async (type: ColumnType) => {
+      return await apiRequest(`/api/data-sources/${dataSourceId}/schema`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ overrides: { [column.name]: type } }),
+      });
+    },
+    onSuccess: (_, type) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/data-sources/${dataSourceId}/rows`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/data-sources/${dataSourceId}/schema`] });
+      queryClient.invalidateQueries({
+        queryKey: [`/api/data-sources/${dataSourceId}/columns/${encodeURIComponent(column.name)}/stats`],
+      });
+      toast({
+        title: "Column type updated",
+        description: `${column.name} is now treated as ${type}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update column type",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Calculated fields are profiled along with their stats
+  const profile = column.formula ? stats?.column : column;
+
+  const chartData = stats?.histogram
+    ? stats.histogram.map(bin => ({ name: `${formatNumber(bin.start)}–${formatNumber(bin.end)}`, value: bin.count }))
+    : stats?.timeline
+      ? stats.timeline.map(point => ({ name: point.period, value: point.count }))
+      : (stats?.topValues || []).map(item => ({ name: item.value, value: item.count }));
+
+  return (
+    <div className="space-y-4 w-80">
+      <div>
+        <h4 className="font-medium text-gray-900 truncate">{column.name}</h4>
+        <div className="flex items-center justify-between mt-2">
+          <span className="text-sm text-gray-600">Type</span>
+          <Select
+            value={column.type}
+            onValueChange={(value) => overrideTypeMutation.mutate(value as ColumnType)}
+            disabled={overrideTypeMutation.isPending || !!column.formula}
+          >
+            <SelectTrigger className="w-36 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {columnTypes.map(type => (
+                <SelectItem key={type} value={type}>
+                  {type}{type === column.detectedType ? " (detected)" : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {column.formula && (
+        <p className="text-xs text-gray-500 font-mono break-words">= {column.formula}</p>
+      )}
+
+      {profile && (
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          <div className="bg-gray-50 rounded p-2">
+            <p className="text-gray-500 text-xs">Empty</p>
+            <p className="font-medium">{(profile.nullRate * 100).toFixed(1)}%</p>
+          </div>
+          <div className="bg-gray-50 rounded p-2">
+            <p className="text-gray-500 text-xs">Distinct</p>
+            <p className="font-medium">{profile.cardinality.toLocaleString()}</p>
+          </div>
+          {profile.min !== null && (
+            <div className="bg-gray-50 rounded p-2">
+              <p className="text-gray-500 text-xs">Min</p>
+              <p className="font-medium truncate">{typeof profile.min === "number" ? formatNumber(profile.min) : profile.min}</p>
+            </div>
+          )}
+          {profile.max !== null && (
+            <div className="bg-gray-50 rounded p-2">
+              <p className="text-gray-500 text-xs">Max</p>
+              <p className="font-medium truncate">{typeof profile.max === "number" ? formatNumber(profile.max) : profile.max}</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-40">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : chartData.length > 0 ? (
+        <div>
+          <p className="text-xs text-gray-500 mb-1">
+            {stats?.histogram ? "Distribution" : stats?.timeline ? "Rows per month" : "Top values"}
+          </p>
+          <ChartContainer
+            config={{ value: { label: "Rows", color: "#4F46E5" } }}
+            className="h-40 w-full"
+          >
+            <BarChart data={chartData} layout={stats?.topValues ? "vertical" : "horizontal"}>
+              <CartesianGrid strokeDasharray="3 3" />
+              {stats?.topValues ? (
+                <>
+                  <XAxis type="number" tick={{ fontSize: 10 }} axisLine={false} tickLine={false} />
+                  <YAxis type="category" dataKey="name" width={80} tick={{ fontSize: 10 }} axisLine={false} tickLine={false} />
+                </>
+              ) : (
+                <>
+                  <XAxis dataKey="name" tick={{ fontSize: 10 }} axisLine={false} tickLine={false} />
+                  <YAxis tick={{ fontSize: 10 }} axisLine={false} tickLine={false} />
+                </>
+              )}
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="value" fill="#4F46E5" radius={[2, 2, 0, 0]} />
+            </BarChart>
+          </ChartContainer>
+          {!!stats?.otherCount && (
+            <p className="text-xs text-gray-500 mt-1">+{stats.otherCount.toLocaleString()} rows with other values</p>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">No values to chart.</p>
+      )}
+    </div>
+  );
+}
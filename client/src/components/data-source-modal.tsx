@@ -8,6 +8,9 @@ import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import DatabaseConnectorForm, { emptyDatabaseSource, type DatabaseSourceDraft } from "@/components/database-connector-form";
+import ApiConnectorForm, { emptyApiSource, toApiSource, type ApiSourceDraft } from "@/components/api-connector-form";
+import BlendForm, { emptyBlend, isBlendComplete, toBlendDefinition, type BlendDraft } from "@/components/blend-form";
 import { 
   X, 
   Upload, 
@@ -18,6 +21,8 @@ import {
   Check,
   FileText,
   Database,
+  Globe,
+  Combine,
   Sparkles
 } from "lucide-react";
 
@@ -35,18 +40,20 @@ export default function DataSourceModal({ isOpen, onClose }: DataSourceModalProp
     file: null as File | null,
     syntheticPrompt: ""
   });
+  const [databaseSource, setDatabaseSource] = useState<DatabaseSourceDraft>(emptyDatabaseSource);
+  const [apiSource, setApiSource] = useState<ApiSourceDraft>(emptyApiSource);
+  const [blend, setBlend] = useState<BlendDraft>(emptyBlend);
   const [isGenerating, setIsGenerating] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   const createDataSourceMutation = useMutation({
     mutationFn: async (dataSourceData: any) => {
-      const response = await apiRequest("/api/data-sources", {
+      return await apiRequest("/api/data-sources", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(dataSourceData),
       });
-      return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/data-sources"] });
@@ -70,7 +77,7 @@ export default function DataSourceModal({ isOpen, onClose }: DataSourceModalProp
       const response = await apiRequest("/api/ai/generate-synthetic-data", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ prompt }),
+        body: JSON.stringify({ prompt, organizationId: 1 }),
       });
       return response.json();
     },
@@ -101,6 +108,9 @@ export default function DataSourceModal({ isOpen, onClose }: DataSourceModalProp
       file: null,
       syntheticPrompt: ""
     });
+    setDatabaseSource(emptyDatabaseSource);
+    setApiSource(emptyApiSource);
+    setBlend(emptyBlend);
     setIsGenerating(false);
     onClose();
   };
@@ -138,6 +148,36 @@ export default function DataSourceModal({ isOpen, onClose }: DataSourceModalProp
           return;
         }
         handleSubmit();
+      } else if (formData.type === "database") {
+        if (!databaseSource.table && !databaseSource.query?.trim()) {
+          toast({
+            title: "Error",
+            description: "Please choose a table or enter a query",
+            variant: "destructive",
+          });
+          return;
+        }
+        handleSubmit();
+      } else if (formData.type === "api") {
+        if (!apiSource.url.trim()) {
+          toast({
+            title: "Error",
+            description: "Please enter the API URL",
+            variant: "destructive",
+          });
+          return;
+        }
+        handleSubmit();
+      } else if (formData.type === "blend") {
+        if (!isBlendComplete(blend)) {
+          toast({
+            title: "Error",
+            description: "Please choose the data sources to join and the columns they match on",
+            variant: "destructive",
+          });
+          return;
+        }
+        handleSubmit();
       } else {
         if (!formData.content.trim()) {
           toast({
@@ -166,6 +206,36 @@ export default function DataSourceModal({ isOpen, onClose }: DataSourceModalProp
   };
 
   const handleSubmit = () => {
+    if (formData.type === "database") {
+      createDataSourceMutation.mutate({
+        name: formData.name,
+        type: "database",
+        organizationId: 1,
+        config: databaseSource,
+      });
+      return;
+    }
+
+    if (formData.type === "api") {
+      createDataSourceMutation.mutate({
+        name: formData.name,
+        type: "api",
+        organizationId: 1,
+        config: toApiSource(apiSource),
+      });
+      return;
+    }
+
+    if (formData.type === "blend") {
+      createDataSourceMutation.mutate({
+        name: formData.name,
+        type: "blend",
+        organizationId: 1,
+        config: toBlendDefinition(blend),
+      });
+      return;
+    }
+
     let content = formData.content;
     let config: any = {
       inputMethod: formData.type
@@ -236,7 +306,7 @@ export default function DataSourceModal({ isOpen, onClose }: DataSourceModalProp
 
               <div>
                 <Label>Data Input Method</Label>
-                <div className="grid grid-cols-3 gap-4 mt-2">
+                <div className="grid grid-cols-2 gap-4 mt-2">
                   <Card 
                     className={`cursor-pointer transition-all ${formData.type === "manual" ? "ring-2 ring-blue-500 bg-blue-50" : "hover:shadow-md"}`}
                     onClick={() => setFormData(prev => ({ ...prev, type: "manual" }))}
@@ -272,6 +342,39 @@ export default function DataSourceModal({ isOpen, onClose }: DataSourceModalProp
                       <p className="text-xs text-gray-600">AI-generated sample data</p>
                     </CardContent>
                   </Card>
+
+                  <Card 
+                    className={`cursor-pointer transition-all ${formData.type === "database" ? "ring-2 ring-orange-500 bg-orange-50" : "hover:shadow-md"}`}
+                    onClick={() => setFormData(prev => ({ ...prev, type: "database" }))}
+                  >
+                    <CardContent className="p-4 text-center">
+                      <Database className="h-8 w-8 mx-auto mb-2 text-orange-600" />
+                      <h3 className="font-medium text-sm">Database</h3>
+                      <p className="text-xs text-gray-600">PostgreSQL or MySQL table or query</p>
+                    </CardContent>
+                  </Card>
+
+                  <Card 
+                    className={`cursor-pointer transition-all ${formData.type === "api" ? "ring-2 ring-teal-500 bg-teal-50" : "hover:shadow-md"}`}
+                    onClick={() => setFormData(prev => ({ ...prev, type: "api" }))}
+                  >
+                    <CardContent className="p-4 text-center">
+                      <Globe className="h-8 w-8 mx-auto mb-2 text-teal-600" />
+                      <h3 className="font-medium text-sm">HTTP API</h3>
+                      <p className="text-xs text-gray-600">Records from a JSON endpoint</p>
+                    </CardContent>
+                  </Card>
+
+                  <Card 
+                    className={`cursor-pointer transition-all ${formData.type === "blend" ? "ring-2 ring-pink-500 bg-pink-50" : "hover:shadow-md"}`}
+                    onClick={() => setFormData(prev => ({ ...prev, type: "blend" }))}
+                  >
+                    <CardContent className="p-4 text-center">
+                      <Combine className="h-8 w-8 mx-auto mb-2 text-pink-600" />
+                      <h3 className="font-medium text-sm">Blend</h3>
+                      <p className="text-xs text-gray-600">Join existing data sources on shared columns</p>
+                    </CardContent>
+                  </Card>
                 </div>
               </div>
             </div>
@@ -340,6 +443,18 @@ export default function DataSourceModal({ isOpen, onClose }: DataSourceModalProp
                 </div>
               )}
 
+              {formData.type === "database" && (
+                <DatabaseConnectorForm value={databaseSource} onChange={setDatabaseSource} organizationId={1} />
+              )}
+
+              {formData.type === "api" && (
+                <ApiConnectorForm value={apiSource} onChange={setApiSource} organizationId={1} />
+              )}
+
+              {formData.type === "blend" && (
+                <BlendForm value={blend} onChange={setBlend} organizationId={1} />
+              )}
+
               {formData.type === "synthetic" && (
                 <div>
                   <Label>Data Description</Label>
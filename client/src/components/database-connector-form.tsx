@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CheckCircle, AlertCircle, RefreshCw, Table2, Eye } from "lucide-react";
+import type { DatabaseSource } from "@shared/schema";
+
+interface DatabaseTable {
+  schema: string | null;
+  name: string;
+  type: "table" | "view";
+}
+
+type Connection = DatabaseSource["connection"];
+
+export interface DatabaseSourceDraft {
+  connection: Connection;
+  table?: { schema?: string; name: string };
+  query?: string;
+}
+
+interface DatabaseConnectorFormProps {
+  value: DatabaseSourceDraft;
+  onChange: (value: DatabaseSourceDraft) => void;
+  organizationId: number;
+}
+
+export const emptyDatabaseSource: DatabaseSourceDraft = {
+  connection: { engine: "postgres", host: "localhost", database: "", user: "", password: "", ssl: false, skipCertificateCheck: false },
+};
+
+const defaultPorts = { postgres: 5432, mysql: 3306 };
+
+const tableKey = (table: { schema?: string | null; name: string }) =>
+  table.schema ? `${table.schema}.${table.name}` : table.name;
+
+export default function DatabaseConnectorForm({ value, onChange, organizationId }: DatabaseConnectorFormProps) {
+  const [tables, setTables] = useState<DatabaseTable[]>([]);
+  const [mode, setMode] = useState<"table" | "query">(value.query ? "query" : "table");
+  const { connection } = value;
+
+  const setConnection = (changes: Partial<Connection>) => {
+    onChange({ ...value, connection: { ...connection, ...changes } });
+    testMutation.reset();
+  };
+
+  const postConnection = (url: string) =>
+    apiRequest(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...connection, organizationId }),
+    });
+
+  const testMutation = useMutation({
+    mutationFn: (): Promise<{ version: string }> => postConnection("/api/connectors/database/test"),
+  });
+
+  const tablesMutation = useMutation({
+    mutationFn: (): Promise<DatabaseTable[]> => postConnection("/api/connectors/database/tables"),
+    onSuccess: (result) => setTables(result),
+  });
+
+  const selectTable = (key: string) => {
+    const table = tables.find(t => tableKey(t) === key);
+    if (table) {
+      onChange({ ...value, table: { schema: table.schema ?? undefined, name: table.name }, query: undefined });
+    }
+  };
+
+  const switchMode = (next: string) => {
+    setMode(next as "table" | "query");
+    onChange({ ...value, table: undefined, query: undefined });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <Label>Engine</Label>
+          <Select
+            value={connection.engine}
+            onValueChange={(engine) => setConnection({ engine: engine as Connection["engine"] })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="postgres">PostgreSQL</SelectItem>
+              <SelectItem value="mysql">MySQL</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="dbHost">Host</Label>
+          <Input id="dbHost" value={connection.host} onChange={(e) => setConnection({ host: e.target.value })} />
+        </div>
+        <div>
+          <Label htmlFor="dbPort">Port</Label>
+          <Input
+            id="dbPort"
+            type="number"
+            placeholder={String(defaultPorts[connection.engine])}
+            value={connection.port ?? ""}
+            onChange={(e) => setConnection({ port: e.target.value ? parseInt(e.target.value) : undefined })}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <Label htmlFor="dbName">Database</Label>
+          <Input id="dbName" value={connection.database} onChange={(e) => setConnection({ database: e.target.value })} />
+        </div>
+        <div>
+          <Label htmlFor="dbUser">User</Label>
+          <Input id="dbUser" value={connection.user} onChange={(e) => setConnection({ user: e.target.value })} />
+        </div>
+        <div>
+          <Label htmlFor="dbPassword">Password</Label>
+          <Input
+            id="dbPassword"
+            type="password"
+            autoComplete="new-password"
+            value={connection.password ?? ""}
+            onChange={(e) => setConnection({ password: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Switch id="dbSsl" checked={connection.ssl} onCheckedChange={(ssl) => setConnection({ ssl })} />
+          <Label htmlFor="dbSsl" className="font-normal">Use SSL</Label>
+          {connection.ssl && (
+            <>
+              <Switch
+                id="dbSkipCertificateCheck"
+                className="ml-4"
+                checked={connection.skipCertificateCheck}
+                onCheckedChange={(skipCertificateCheck) => setConnection({ skipCertificateCheck })}
+              />
+              <Label htmlFor="dbSkipCertificateCheck" className="font-normal">Skip certificate check</Label>
+            </>
+          )}
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => testMutation.mutate()}
+          disabled={testMutation.isPending || !connection.host || !connection.database || !connection.user}
+        >
+          {testMutation.isPending && <RefreshCw className="h-4 w-4 mr-2 animate-spin" />}
+          Test Connection
+        </Button>
+      </div>
+
+      {testMutation.isSuccess && (
+        <p className="flex items-center text-sm text-green-700">
+          <CheckCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+          <span className="truncate">Connected: {testMutation.data.version}</span>
+        </p>
+      )}
+      {testMutation.isError && (
+        <p className="flex items-center text-sm text-red-600">
+          <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+          {testMutation.error.message}
+        </p>
+      )}
+      <p className="text-xs text-gray-500">Credentials are stored encrypted and are never shown again.</p>
+
+      <Tabs value={mode} onValueChange={switchMode}>
+        <TabsList className="grid w-full grid-cols-2">
+          <TabsTrigger value="table">Table or view</TabsTrigger>
+          <TabsTrigger value="query">SQL query</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="table" className="space-y-2">
+          <div className="flex space-x-2">
+            <Select
+              value={value.table ? tableKey(value.table) : undefined}
+              onValueChange={selectTable}
+              disabled={tables.length === 0}
+            >
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder={tables.length === 0 ? "Load tables first" : "Choose a table"} />
+              </SelectTrigger>
+              <SelectContent>
+                {tables.map((table) => (
+                  <SelectItem key={tableKey(table)} value={tableKey(table)}>
+                    <span className="flex items-center">
+                      {table.type === "view" ? <Eye className="h-3 w-3 mr-2" /> : <Table2 className="h-3 w-3 mr-2" />}
+                      {tableKey(table)}
+                    </span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              onClick={() => tablesMutation.mutate()}
+              disabled={tablesMutation.isPending || !connection.host || !connection.database || !connection.user}
+            >
+              {tablesMutation.isPending ? <RefreshCw className="h-4 w-4 animate-spin" /> : "Load Tables"}
+            </Button>
+          </div>
+          {tablesMutation.isError && <p className="text-sm text-red-600">{tablesMutation.error.message}</p>}
+        </TabsContent>
+
+        <TabsContent value="query" className="space-y-1">
+          <Textarea
+            placeholder="SELECT region, SUM(amount) AS revenue FROM orders GROUP BY region"
+            value={value.query ?? ""}
+            onChange={(e) => onChange({ ...value, table: undefined, query: e.target.value || undefined })}
+            className="min-h-[120px] font-mono text-sm"
+          />
+          <p className="text-xs text-gray-500">Runs in a read-only transaction. Only a single SELECT is allowed.</p>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import {
   Sparkles, 
   FileText, 
   BarChart3, 
+  Grid3X3, 
+  Table, 
   TrendingUp, 
   Database, 
   Eye, 
@@ -18,6 +20,8 @@ interface DraggableToolbarProps {
   onAIClick: () => void;
   onTextClick: () => void;
   onChartClick: () => void;
+  onPivotClick: () => void;
+  onTableClick: () => void;
   onInsightsClick: () => void;
   onDataClick: () => void;
   onAgentClick: () => void;
@@ -31,6 +35,8 @@ export default function DraggableToolbar({
   onAIClick,
   onTextClick,
   onChartClick,
+  onPivotClick,
+  onTableClick,
   onInsightsClick,
   onDataClick,
   onAgentClick,
@@ -175,6 +181,34 @@ export default function DraggableToolbar({
         <span className="ml-1 text-sm">Chart</span>
       </Button>
 
+      {/* Pivot */}
+      <Button
+        variant="ghost"
+        size="sm"
+        className="text-gray-600 hover:text-gray-800"
+        onClick={(e) => {
+          e.stopPropagation();
+          onPivotClick();
+        }}
+      >
+        <Grid3X3 className="h-4 w-4" />
+        <span className="ml-1 text-sm">Pivot</span>
+      </Button>
+
+      {/* Table */}
+      <Button
+        variant="ghost"
+        size="sm"
+        className="text-gray-600 hover:text-gray-800"
+        onClick={(e) => {
+          e.stopPropagation();
+          onTableClick();
+        }}
+      >
+        <Table className="h-4 w-4" />
+        <span className="ml-1 text-sm">Table</span>
+      </Button>
+
       {/* Insights */}
       <Button
         variant="ghost"
@@ -2,6 +2,7 @@ import { useState, useRef, useEffect } from "react";
 import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { postEventStream } from "@/lib/event-stream";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -21,7 +22,9 @@ import {
   TrendingUp,
   MessageCircle,
   History,
-  Trash2
+  Trash2,
+  Square,
+  Wrench
 } from "lucide-react";
 import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, LineChart as RechartsLineChart, Line, PieChart as RechartsPieChart, Cell, Pie } from "recharts";
 
@@ -38,6 +41,9 @@ interface ChatMessage {
   content: string;
   timestamp: Date;
   charts?: ChartData[];
+  steps?: AgentStep[]; // The tool calls the agent made for this answer
+  streaming?: boolean; // The answer is still arriving
+  cancelled?: boolean; // The user stopped the answer before it was done
 }
 
 interface ChartData {
@@ -51,6 +57,15 @@ interface ChartData {
   colors?: string[];
 }
 
+interface AgentStep {
+  step: number;
+  tool: string;
+  input: unknown;
+  output?: unknown;
+  error?: string;
+  durationMs: number;
+}
+
 interface Conversation {
   id: string;
   title: string;
@@ -65,11 +80,46 @@ interface EpesiMessage {
   createdAt: string;
   metadata?: {
     charts?: ChartData[];
+    steps?: AgentStep[];
+    cancelled?: boolean;
   };
 }
 
 const COLORS = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#06b6d4', '#84cc16', '#f97316'];
 
+// The fields of a JSON object the server sent, or none
+function fieldsOf(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+// Charts and steps arrive as the server recorded them
+const isChartData = (value: unknown): value is ChartData => {
+  const fields = fieldsOf(value);
+  return typeof fields.id === 'string' && typeof fields.type === 'string' && Array.isArray(fields.data);
+};
+
+const isAgentStep = (value: unknown): value is AgentStep => {
+  const fields = fieldsOf(value);
+  return typeof fields.step === 'number' && typeof fields.tool === 'string';
+};
+
+// One line for each tool call, e.g. "Ran a query on Sales: 12 rows"
+function describeStep(step: AgentStep): string {
+  const output = fieldsOf(step.output);
+  switch (step.tool) {
+    case 'list_data_sources':
+      return step.error ? 'Listing data sources failed' : `Found ${Array.isArray(step.output) ? step.output.length : 0} data sources`;
+    case 'describe_schema':
+      return step.error ? 'Reading columns failed' : `Read the columns of ${String(output.name ?? '')}`;
+    case 'run_query':
+      return step.error ? 'Query failed' : `Ran a query: ${Number(output.totalRows ?? 0)} rows`;
+    case 'create_block':
+      return step.error ? 'Adding a block failed' : `Added "${String(output.title ?? '')}" to the dashboard`;
+    default:
+      return step.tool;
+  }
+}
+
 export default function EpesiAgentModal({ 
   isOpen, 
   onClose, 
@@ -83,6 +133,8 @@ export default function EpesiAgentModal({
   const [isResizing, setIsResizing] = useState(false);
   const [currentConversationId, setCurrentConversationId] = useState<string | null>(null);
   const [showHistory, setShowHistory] = useState(false);
+  const [streamingMessage, setStreamingMessage] = useState<ChatMessage | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const modalRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
@@ -132,7 +184,9 @@ export default function EpesiAgentModal({
         type: msg.role,
         content: msg.content,
         timestamp: new Date(msg.createdAt),
-        charts: msg.metadata?.charts || []
+        charts: msg.metadata?.charts || [],
+        steps: msg.metadata?.steps || [],
+        cancelled: msg.metadata?.cancelled
       }));
       setMessages(chatMessages);
     } else if (!currentConversationId) {
@@ -195,29 +249,60 @@ export default function EpesiAgentModal({
     };
   }, [isResizing]);
 
+  // Answers stream in: each query the agent runs, the text as it's written
+  // and each chart once it's ready. Stopping keeps what arrived so far.
   const generateChartsMutation = useMutation({
     mutationFn: async ({ prompt }: { prompt: string }) => {
-      console.log("Epesi Agent mutation called with:", { prompt, dashboardId, conversationId: currentConversationId });
-      const response = await apiRequest('/api/epesi-agent/chat', {
-        method: 'POST',
-        body: { prompt, dashboardId, conversationId: currentConversationId }
-      });
-      return response;
+      const abort = new AbortController();
+      abortRef.current = abort;
+      let conversationId = currentConversationId;
+      let reply: ChatMessage = {
+        id: `reply_${Date.now()}`,
+        type: 'assistant',
+        content: "",
+        timestamp: new Date(),
+        charts: [],
+        steps: [],
+        streaming: true
+      };
+      setStreamingMessage(reply);
+
+      try {
+        await postEventStream('/api/epesi-agent/chat/stream', { prompt, dashboardId, conversationId: currentConversationId }, (event, data) => {
+          const fields = fieldsOf(data);
+          if (event === 'conversation' && typeof fields.conversationId === 'string') {
+            conversationId = fields.conversationId;
+          } else if (event === 'text' && typeof fields.text === 'string') {
+            reply = { ...reply, content: reply.content + fields.text };
+          } else if (event === 'chart' && isChartData(data)) {
+            reply = { ...reply, charts: [...(reply.charts || []), data] };
+          } else if (event === 'step' && isAgentStep(data)) {
+            reply = { ...reply, steps: [...(reply.steps || []), data] };
+            if (data.tool === 'create_block' && !data.error) {
+              queryClient.invalidateQueries({ queryKey: [`/api/dashboards/${dashboardId}/blocks`] });
+              onBlockAdded?.();
+            }
+          } else if (event === 'error') {
+            throw new Error(typeof fields.message === 'string' ? fields.message : 'Failed to process your request');
+          }
+          setStreamingMessage(reply);
+        }, abort.signal);
+      } catch (error) {
+        if (!abort.signal.aborted) throw error;
+        reply = { ...reply, cancelled: true };
+      } finally {
+        abortRef.current = null;
+      }
+      return { reply: { ...reply, streaming: false }, conversationId };
     },
-    onSuccess: (data) => {
+    onSuccess: ({ reply, conversationId }) => {
       // Update conversation ID if it was returned
-      if (data.conversationId && !currentConversationId) {
-        setCurrentConversationId(data.conversationId);
+      if (conversationId && !currentConversationId) {
+        setCurrentConversationId(conversationId);
       }
       
-      const newMessage: ChatMessage = {
-        id: Date.now().toString(),
-        type: 'assistant',
-        content: data.response,
-        timestamp: new Date(),
-        charts: data.charts || []
-      };
-      setMessages(prev => [...prev, newMessage]);
+      setStreamingMessage(null);
+      setMessages(prev => [...prev, reply]);
       setIsLoading(false);
       
       // Invalidate conversation queries to refresh data
@@ -225,7 +310,7 @@ export default function EpesiAgentModal({
         queryKey: ['/api/dashboards', dashboardId, 'conversations']
       });
       queryClient.invalidateQueries({
-        queryKey: ['/api/conversations', data.conversationId, 'messages']
+        queryKey: ['/api/conversations', conversationId, 'messages']
       });
     },
     onError: (error) => {
@@ -244,6 +329,7 @@ export default function EpesiAgentModal({
         description: errorMessage,
         variant: "destructive",
       });
+      setStreamingMessage(null);
       setIsLoading(false);
     },
   });
@@ -305,6 +391,10 @@ export default function EpesiAgentModal({
     generateChartsMutation.mutate({ prompt: inputMessage });
   };
 
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -503,7 +593,7 @@ export default function EpesiAgentModal({
         {/* Messages */}
         <ScrollArea className="flex-1 p-4">
           <div className="space-y-4">
-            {messages.map((message) => (
+            {[...messages, ...(streamingMessage?.content || streamingMessage?.charts?.length || streamingMessage?.steps?.length ? [streamingMessage] : [])].map((message) => (
               <div
                 key={message.id}
                 className={`flex ${message.type === 'user' ? 'justify-end' : 'justify-start'}`}
@@ -525,7 +615,24 @@ export default function EpesiAgentModal({
                       {message.type === 'user' ? 'You' : 'Epesi Agent'}
                     </span>
                   </div>
+                  {message.steps && message.steps.length > 0 && (
+                    <ul className="mb-2 space-y-1">
+                      {message.steps.map((step) => (
+                        <li
+                          key={step.step}
+                          className={`flex items-center space-x-1 text-xs ${step.error ? 'text-red-600' : 'text-gray-500'}`}
+                          title={step.error}
+                        >
+                          <Wrench className="h-3 w-3" />
+                          <span>{describeStep(step)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                   <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                  {message.cancelled && (
+                    <Badge variant="outline" className="mt-2 text-xs">Stopped</Badge>
+                  )}
                   
                   {/* Charts */}
                   {message.charts && message.charts.length > 0 && (
@@ -585,7 +692,13 @@ export default function EpesiAgentModal({
                   </div>
                   <div className="flex items-center space-x-2 mt-2">
                     <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
-                    <span className="text-sm text-gray-600">Analyzing and generating charts...</span>
+                    <span className="text-sm text-gray-600">
+                      {streamingMessage?.content
+                        ? "Generating charts..."
+                        : streamingMessage?.steps?.length
+                          ? "Querying your data..."
+                          : "Analyzing and generating charts..."}
+                    </span>
                   </div>
                 </div>
               </div>
@@ -605,13 +718,19 @@ export default function EpesiAgentModal({
               className="flex-1 min-h-[40px] max-h-[120px] resize-none"
               disabled={isLoading}
             />
-            <Button
-              onClick={handleSendMessage}
-              disabled={isLoading || !inputMessage.trim()}
-              className="bg-blue-600 hover:bg-blue-700"
-            >
-              <Send className="h-4 w-4" />
-            </Button>
+            {isLoading ? (
+              <Button onClick={handleStop} variant="outline" title="Stop generating">
+                <Square className="h-4 w-4" />
+              </Button>
+            ) : (
+              <Button
+                onClick={handleSendMessage}
+                disabled={!inputMessage.trim()}
+                className="bg-blue-600 hover:bg-blue-700"
+              >
+                <Send className="h-4 w-4" />
+              </Button>
+            )}
           </div>
         </div>
       </div>
@@ -2,10 +2,15 @@ import { useState, useRef } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { uploadInChunks } from "@/lib/chunkedUpload";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
-import { CloudUpload, X, File, CheckCircle } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CloudUpload, X, File, CheckCircle, Sheet } from "lucide-react";
 
 interface FileUploadModalProps {
   isOpen: boolean;
@@ -13,10 +18,29 @@ interface FileUploadModalProps {
   organizationId?: number;
 }
 
+interface SheetSummary {
+  name: string;
+  rowCount: number;
+  columnCount: number;
+}
+
+interface RecordPath {
+  path: string;
+  count: number;
+  keys: string[];
+}
+
+type ArrayMode = "explode" | "join";
+
+// Select items can't have an empty value, so the top-level array gets a stand-in
+const TOP_LEVEL_PATH = "$";
+
+const MAX_FILE_SIZE = 2 * 1024 * 1024 * 1024;
+
 const supportedFormats = [
   { ext: ".csv", desc: "CSV files" },
-  { ext: ".xlsx, .xls", desc: "Excel files" },
-  { ext: ".json", desc: "JSON files" },
+  { ext: ".xlsx", desc: "Excel files" },
+  { ext: ".json, .ndjson", desc: "JSON files" },
   { ext: ".tsv", desc: "TSV files" },
 ];
 
@@ -29,6 +53,17 @@ export default function FileUploadModal({
   const [uploadProgress, setUploadProgress] = useState(0);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadComplete, setUploadComplete] = useState(false);
+  const [sheets, setSheets] = useState<SheetSummary[]>([]);
+  const [selectedSheets, setSelectedSheets] = useState<string[]>([]);
+  const [isLoadingSheets, setIsLoadingSheets] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [recordPaths, setRecordPaths] = useState<RecordPath[]>([]);
+  const [recordsPath, setRecordsPath] = useState(TOP_LEVEL_PATH);
+  const [arrayMode, setArrayMode] = useState<ArrayMode>("join");
+  const [isLoadingPaths, setIsLoadingPaths] = useState(false);
+  // Set once the file is on the server; workbooks and JSON documents are sent
+  // early to list their sheets or record arrays
+  const [uploadId, setUploadId] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   const { toast } = useToast();
@@ -36,11 +71,25 @@ export default function FileUploadModal({
 
   const uploadMutation = useMutation({
     mutationFn: async (file: File) => {
+      const id = uploadId ?? await uploadInChunks(file, (fraction) => setUploadProgress(fraction * 100));
+      setUploadId(id);
+      setUploadProgress(100);
+      setIsProcessing(true);
+
       const formData = new FormData();
-      formData.append("file", file);
+      formData.append("uploadId", id);
       formData.append("name", file.name);
       formData.append("type", getFileType(file.name));
       formData.append("organizationId", organizationId?.toString() || "");
+      if (getFileType(file.name) === "excel") {
+        formData.append("sheets", JSON.stringify(selectedSheets));
+      }
+      if (getFileType(file.name) === "json") {
+        formData.append("arrayMode", arrayMode);
+        if (recordsPath !== TOP_LEVEL_PATH) {
+          formData.append("recordsPath", recordsPath);
+        }
+      }
 
       const response = await fetch("/api/data-sources", {
         method: "POST",
@@ -57,7 +106,7 @@ export default function FileUploadModal({
     },
     onSuccess: () => {
       setUploadComplete(true);
-      setUploadProgress(100);
+      setIsProcessing(false);
       
       toast({
         title: "Upload Complete!",
@@ -74,7 +123,10 @@ export default function FileUploadModal({
     },
     onError: (error) => {
       setIsUploading(false);
+      setIsProcessing(false);
       setUploadProgress(0);
+      // The server discards the file after a failed import, so a retry sends it again
+      setUploadId(null);
       
       if (isUnauthorizedError(error)) {
         toast({
@@ -90,7 +142,7 @@ export default function FileUploadModal({
       
       toast({
         title: "Upload Failed",
-        description: "Failed to upload file. Please try again.",
+        description: error.message || "Failed to upload file. Please try again.",
         variant: "destructive",
       });
     },
@@ -100,20 +152,113 @@ export default function FileUploadModal({
     const ext = filename.toLowerCase().split('.').pop();
     switch (ext) {
       case 'csv': return 'csv';
-      case 'json': return 'json';
-      case 'xlsx':
-      case 'xls': return 'excel';
+      case 'json':
+      case 'ndjson':
+      case 'jsonl': return 'json';
+      case 'xlsx': return 'excel';
       case 'tsv': return 'tsv';
       default: return 'unknown';
     }
   };
 
   const isValidFileType = (file: File): boolean => {
-    const validExtensions = ['csv', 'json', 'xlsx', 'xls', 'tsv'];
+    const validExtensions = ['csv', 'json', 'ndjson', 'jsonl', 'xlsx', 'tsv'];
     const ext = file.name.toLowerCase().split('.').pop();
     return validExtensions.includes(ext || '');
   };
 
+  const loadSheets = async (file: File) => {
+    setIsLoadingSheets(true);
+    try {
+      const id = await uploadInChunks(file, (fraction) => setUploadProgress(fraction * 100));
+      setUploadId(id);
+
+      const formData = new FormData();
+      formData.append("uploadId", id);
+
+      const response = await fetch("/api/data-sources/sheets", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        throw new Error(`${response.status}: ${text}`);
+      }
+
+      const workbookSheets: SheetSummary[] = await response.json();
+      setSheets(workbookSheets);
+      setSelectedSheets(workbookSheets.slice(0, 1).map(sheet => sheet.name));
+    } catch (error) {
+      toast({
+        title: "Unreadable Workbook",
+        description: "Could not read the sheets in this Excel file.",
+        variant: "destructive",
+      });
+      clearSelectedFile();
+    } finally {
+      setIsLoadingSheets(false);
+      setUploadProgress(0);
+    }
+  };
+
+  const loadRecordPaths = async (file: File) => {
+    setIsLoadingPaths(true);
+    try {
+      const id = await uploadInChunks(file, (fraction) => setUploadProgress(fraction * 100));
+      setUploadId(id);
+
+      const formData = new FormData();
+      formData.append("uploadId", id);
+
+      const response = await fetch("/api/data-sources/json-paths", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        throw new Error(`${response.status}: ${text}`);
+      }
+
+      const { paths }: { paths: RecordPath[] } = await response.json();
+      setRecordPaths(paths);
+      // Paths come largest first, which is usually the records array
+      setRecordsPath(paths[0]?.path || TOP_LEVEL_PATH);
+    } catch (error) {
+      toast({
+        title: "Unreadable JSON",
+        description: error instanceof Error ? error.message : "Could not read this JSON file.",
+        variant: "destructive",
+      });
+      clearSelectedFile();
+    } finally {
+      setIsLoadingPaths(false);
+      setUploadProgress(0);
+    }
+  };
+
+  const toggleSheet = (name: string, checked: boolean) => {
+    setSelectedSheets(prev =>
+      checked ? [...prev, name] : prev.filter(sheet => sheet !== name)
+    );
+  };
+
+  const clearSelectedFile = () => {
+    if (uploadId && !uploadComplete) {
+      // Free the server copy of a file that won't be imported
+      fetch(`/api/uploads/${uploadId}`, { method: "DELETE", credentials: "include" }).catch(() => {});
+    }
+    setSelectedFile(null);
+    setSheets([]);
+    setSelectedSheets([]);
+    setRecordPaths([]);
+    setRecordsPath(TOP_LEVEL_PATH);
+    setUploadId(null);
+  };
+
   const handleFileSelect = (file: File) => {
     if (!isValidFileType(file)) {
       toast({
@@ -124,16 +269,28 @@ export default function FileUploadModal({
       return;
     }
 
-    if (file.size > 10 * 1024 * 1024) { // 10MB limit
+    if (file.size > MAX_FILE_SIZE) {
       toast({
         title: "File Too Large",
-        description: "File size must be less than 10MB.",
+        description: "File size must be less than 2GB.",
         variant: "destructive",
       });
       return;
     }
 
     setSelectedFile(file);
+    setSheets([]);
+    setSelectedSheets([]);
+    setRecordPaths([]);
+    setRecordsPath(TOP_LEVEL_PATH);
+    setUploadId(null);
+    if (getFileType(file.name) === "excel") {
+      loadSheets(file);
+    }
+    // NDJSON has one record per line, so there is no path to choose
+    if (file.name.toLowerCase().endsWith(".json")) {
+      loadRecordPaths(file);
+    }
   };
 
   const handleDrop = (e: React.DragEvent) => {
@@ -167,29 +324,27 @@ export default function FileUploadModal({
       return;
     }
 
-    setIsUploading(true);
-    setUploadProgress(0);
-    
-    // Simulate upload progress
-    const progressInterval = setInterval(() => {
-      setUploadProgress(prev => {
-        if (prev >= 90) {
-          clearInterval(progressInterval);
-          return prev;
-        }
-        return prev + Math.random() * 15;
+    if (getFileType(selectedFile.name) === "excel" && selectedSheets.length === 0) {
+      toast({
+        title: "No Sheets Selected",
+        description: "Select at least one sheet to import.",
+        variant: "destructive",
       });
-    }, 200);
+      return;
+    }
 
+    setIsUploading(true);
+    setUploadProgress(uploadId ? 100 : 0);
     uploadMutation.mutate(selectedFile);
   };
 
   const handleClose = () => {
     if (!isUploading) {
-      setSelectedFile(null);
+      clearSelectedFile();
       setUploadProgress(0);
       setUploadComplete(false);
       setIsUploading(false);
+      setIsProcessing(false);
       if (fileInputRef.current) {
         fileInputRef.current.value = "";
       }
@@ -251,7 +406,7 @@ export default function FileUploadModal({
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={() => setSelectedFile(null)}
+                    onClick={clearSelectedFile}
                   >
                     Remove
                   </Button>
@@ -275,11 +430,94 @@ export default function FileUploadModal({
             )}
           </div>
 
+          {/* Sheet Selection */}
+          {selectedFile && getFileType(selectedFile.name) === "excel" && !uploadComplete && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-gray-900">Sheets to import</p>
+              {isLoadingSheets ? (
+                <div className="space-y-2">
+                  <p className="text-sm text-gray-500">Reading workbook... {Math.round(uploadProgress)}%</p>
+                  <Progress value={uploadProgress} className="h-2" />
+                </div>
+              ) : (
+                <div className="space-y-2 max-h-40 overflow-y-auto">
+                  {sheets.map((sheet) => (
+                    <label key={sheet.name} className="flex items-center space-x-3 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={selectedSheets.includes(sheet.name)}
+                        onCheckedChange={(checked) => toggleSheet(sheet.name, checked === true)}
+                        disabled={isUploading}
+                      />
+                      <Sheet className="h-4 w-4 text-green-600" />
+                      <span className="text-gray-900">{sheet.name}</span>
+                      <span className="text-gray-500">
+                        {sheet.rowCount} rows, {sheet.columnCount} columns
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              )}
+              {selectedSheets.length > 1 && (
+                <p className="text-xs text-gray-500">Each selected sheet becomes its own data source.</p>
+              )}
+            </div>
+          )}
+
+          {/* JSON Options */}
+          {selectedFile && getFileType(selectedFile.name) === "json" && !uploadComplete && (
+            <div className="space-y-4">
+              {isLoadingPaths ? (
+                <div className="space-y-2">
+                  <p className="text-sm text-gray-500">Reading JSON... {Math.round(uploadProgress)}%</p>
+                  <Progress value={uploadProgress} className="h-2" />
+                </div>
+              ) : recordPaths.length > 1 || (recordPaths.length === 1 && recordPaths[0].path !== "") ? (
+                <div className="space-y-2">
+                  <Label>Records</Label>
+                  <Select value={recordsPath} onValueChange={setRecordsPath} disabled={isUploading}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {recordPaths.map((recordPath) => (
+                        <SelectItem key={recordPath.path} value={recordPath.path || TOP_LEVEL_PATH}>
+                          {recordPath.path || "Top-level array"} ({recordPath.count.toLocaleString()} records)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-gray-500">
+                    Fields: {recordPaths.find(p => (p.path || TOP_LEVEL_PATH) === recordsPath)?.keys.join(", ")}
+                  </p>
+                </div>
+              ) : null}
+
+              <div className="space-y-2">
+                <Label>Nested lists</Label>
+                <RadioGroup
+                  value={arrayMode}
+                  onValueChange={(value) => setArrayMode(value as ArrayMode)}
+                  disabled={isUploading}
+                >
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="join" id="array-join" />
+                    <Label htmlFor="array-join" className="font-normal">Join into text (one row per record)</Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="explode" id="array-explode" />
+                    <Label htmlFor="array-explode" className="font-normal">Explode into rows (one row per list item)</Label>
+                  </div>
+                </RadioGroup>
+                <p className="text-xs text-gray-500">Nested objects become columns such as customer.name.</p>
+              </div>
+            </div>
+          )}
+
           {/* Upload Progress */}
           {isUploading && (
             <div className="space-y-2">
               <div className="flex items-center justify-between text-sm">
-                <span className="text-gray-600">Uploading...</span>
+                <span className="text-gray-600">{isProcessing ? "Processing rows..." : "Uploading..."}</span>
                 <span className="text-gray-600">{Math.round(uploadProgress)}%</span>
               </div>
               <Progress value={uploadProgress} className="h-2" />
@@ -297,7 +535,7 @@ export default function FileUploadModal({
                 </li>
               ))}
             </ul>
-            <p className="text-xs text-gray-500 mt-2">Maximum file size: 10MB</p>
+            <p className="text-xs text-gray-500 mt-2">Maximum file size: 2GB. Interrupted uploads resume where they stopped.</p>
           </div>
           
           {/* Action Buttons */}
@@ -311,7 +549,7 @@ export default function FileUploadModal({
             </Button>
             <Button
               onClick={handleUpload}
-              disabled={!selectedFile || isUploading || uploadComplete}
+              disabled={!selectedFile || isUploading || uploadComplete || isLoadingSheets || isLoadingPaths}
               className="bg-indigo-600 hover:bg-indigo-700"
             >
               {isUploading ? (
@@ -332,7 +570,7 @@ export default function FileUploadModal({
         <input
           ref={fileInputRef}
           type="file"
-          accept=".csv,.json,.xlsx,.xls,.tsv"
+          accept=".csv,.json,.ndjson,.jsonl,.xlsx,.tsv"
           onChange={handleFileInputChange}
           className="hidden"
         />
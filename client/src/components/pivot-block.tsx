@@ -0,0 +1,758 @@
+import { Fragment, useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatQueryValue } from "@/lib/format";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  ArrowDown,
+  ArrowUp,
+  ChevronDown,
+  ChevronRight,
+  Edit3,
+  Grid3X3,
+  Loader2,
+  Plus,
+  Settings2,
+  Trash2,
+} from "lucide-react";
+import {
+  pivotConfigSchema,
+  queryAggregations,
+  timeBuckets,
+  type Block,
+  type ColumnSchema,
+  type DataSource,
+  type PivotConfig,
+  type QueryColumn,
+  type QueryResult,
+  type SemanticDimension,
+  type SemanticMetric,
+  type TimeBucket,
+} from "@shared/schema";
+
+type Cell = QueryResult["rows"][number][string];
+type Aggregation = typeof queryAggregations[number];
+
+interface PivotNode {
+  key: string;
+  path: Cell[];
+  children: PivotNode[];
+}
+
+interface PivotData {
+  rowDimensions: QueryColumn[];
+  columnDimensions: QueryColumn[];
+  measures: QueryColumn[];
+  columnKeys: Cell[][];
+  tree: PivotNode[];
+  values: Map<string, Cell[]>;
+  truncated: boolean;
+}
+
+// Measure values of a row path under a column path; null stands for the total
+// across all columns
+const valueKey = (rowPath: Cell[], columnPath: Cell[] | null) => JSON.stringify([rowPath, columnPath]);
+
+function compareCells(a: Cell, b: Cell): number {
+  if (a === b) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+}
+
+function comparePaths(a: Cell[], b: Cell[]): number {
+  for (let i = 0; i < a.length; i++) {
+    const order = compareCells(a[i], b[i]);
+    if (order !== 0) return order;
+  }
+  return 0;
+}
+
+// Runs one query per level of row nesting, with and without the column
+// dimensions, so that subtotals and totals are aggregated by the server like
+// any other cell instead of being summed here
+async function fetchPivot(config: PivotConfig): Promise<PivotData> {
+  const { rows, columns } = config;
+  const levels: { depth: number; withColumns: boolean }[] = [];
+  for (let depth = 0; depth <= rows.length; depth++) {
+    const total = depth === 0 && rows.length > 0;
+    if (columns.length > 0 && (!total || config.grandTotals)) levels.push({ depth, withColumns: true });
+    if ((columns.length === 0 || config.grandTotals) && (!total || config.grandTotals)) levels.push({ depth, withColumns: false });
+  }
+
+  const results: QueryResult[] = await Promise.all(levels.map(({ depth, withColumns }) =>
+    apiRequest("/api/query", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        dataSourceId: config.dataSourceId,
+        dimensions: [...rows.slice(0, depth), ...(withColumns ? columns : [])],
+        measures: config.measures,
+        filters: config.filters,
+      }),
+    })));
+
+  const values = new Map<string, Cell[]>();
+  const tree: PivotNode[] = [];
+  const nodes = new Map<string, PivotNode>();
+  const columnKeys = new Map<string, Cell[]>();
+  let rowDimensions: QueryColumn[] = [];
+  let columnDimensions: QueryColumn[] = [];
+  let measures: QueryColumn[] = [];
+
+  results.forEach((result, i) => {
+    const { depth, withColumns } = levels[i];
+    const dimensions = result.columns.filter(column => column.role === "dimension");
+    measures = result.columns.filter(column => column.role === "measure");
+    if (depth === rows.length) rowDimensions = dimensions.slice(0, depth);
+    if (withColumns) columnDimensions = dimensions.slice(depth);
+
+    for (const row of result.rows) {
+      const rowPath = dimensions.slice(0, depth).map(column => row[column.name]);
+      const columnPath = withColumns ? dimensions.slice(depth).map(column => row[column.name]) : null;
+      values.set(valueKey(rowPath, columnPath), measures.map(column => row[column.name]));
+      if (columnPath) columnKeys.set(JSON.stringify(columnPath), columnPath);
+
+      // The deepest results list every row group, in the server's order
+      if (depth === rows.length) {
+        let siblings = tree;
+        rowPath.forEach((_, level) => {
+          const path = rowPath.slice(0, level + 1);
+          const key = JSON.stringify(path);
+          let node = nodes.get(key);
+          if (!node) {
+            node = { key, path, children: [] };
+            nodes.set(key, node);
+            siblings.push(node);
+          }
+          siblings = node.children;
+        });
+      }
+    }
+  });
+
+  return {
+    rowDimensions,
+    columnDimensions,
+    measures,
+    columnKeys: Array.from(columnKeys.values()).sort(comparePaths),
+    tree,
+    values,
+    truncated: results.some(result => result.totalRows > result.rows.length),
+  };
+}
+
+interface PivotTableProps {
+  config: PivotConfig;
+  refetchInterval?: number | false;
+}
+
+export function PivotTable({ config, refetchInterval = false }: PivotTableProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const { data, isLoading, error } = useQuery<PivotData>({
+    queryKey: ["/api/query", "pivot", config],
+    queryFn: () => fetchPivot(config),
+    refetchInterval,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="h-32 flex items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="h-32 flex items-center justify-center text-sm text-red-600 text-center px-4">
+        {error instanceof Error ? error.message : "Failed to load the pivot table"}
+      </div>
+    );
+  }
+
+  const { rowDimensions, columnDimensions, measures, columnKeys, tree, values } = data;
+  const columnGroups: (Cell[] | null)[] = columnDimensions.length > 0
+    ? [...columnKeys, ...(config.grandTotals ? [null] : [])]
+    : [null];
+
+  const toggle = (key: string) => {
+    const next = new Set(collapsed);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    setCollapsed(next);
+  };
+
+  const parents: string[] = [];
+  const collectParents = (nodes: PivotNode[]) => nodes.forEach(node => {
+    if (node.children.length > 0) {
+      parents.push(node.key);
+      collectParents(node.children);
+    }
+  });
+  collectParents(tree);
+
+  const valueCells = (rowPath: Cell[], emphasis: string) => columnGroups.flatMap((columnPath, group) =>
+    measures.map((measure, m) => (
+      <td
+        key={`${group}-${m}`}
+        className={`px-3 py-1.5 text-right tabular-nums whitespace-nowrap ${emphasis} ${columnPath === null && columnDimensions.length > 0 ? "bg-gray-50" : ""}`}
+      >
+        {formatQueryValue(values.get(valueKey(rowPath, columnPath))?.[m], measure)}
+      </td>
+    )));
+
+  const label = (node: PivotNode) => formatQueryValue(node.path[node.path.length - 1], rowDimensions[node.path.length - 1]);
+
+  const renderNode = (node: PivotNode): JSX.Element => {
+    const depth = node.path.length - 1;
+    const isParent = node.children.length > 0;
+    const isOpen = isParent && !collapsed.has(node.key);
+    return (
+      <Fragment key={node.key}>
+        <tr className="border-b border-gray-100 hover:bg-gray-50">
+          <td className="px-3 py-1.5 whitespace-nowrap" style={{ paddingLeft: `${0.75 + depth * 1.25}rem` }}>
+            {isParent ? (
+              <button className="flex items-center font-medium text-gray-900" onClick={() => toggle(node.key)}>
+                {isOpen ? <ChevronDown className="h-3.5 w-3.5 mr-1" /> : <ChevronRight className="h-3.5 w-3.5 mr-1" />}
+                {label(node)}
+              </button>
+            ) : (
+              <span className="text-gray-700">{label(node)}</span>
+            )}
+          </td>
+          {isOpen ? columnGroups.flatMap((_, group) => measures.map((__, m) => <td key={`${group}-${m}`} />)) : valueCells(node.path, isParent ? "font-medium" : "")}
+        </tr>
+        {isOpen && node.children.map(renderNode)}
+        {isOpen && config.subtotals && (
+          <tr className="border-b border-gray-200 bg-gray-50/60">
+            <td className="px-3 py-1.5 font-medium text-gray-700 whitespace-nowrap" style={{ paddingLeft: `${0.75 + depth * 1.25}rem` }}>
+              Total {label(node)}
+            </td>
+            {valueCells(node.path, "font-medium")}
+          </tr>
+        )}
+      </Fragment>
+    );
+  };
+
+  // Adjacent column paths sharing a prefix get one header cell per level
+  const headerSpans = (level: number) => {
+    const spans: { path: Cell[]; count: number }[] = [];
+    for (const path of columnKeys) {
+      const last = spans[spans.length - 1];
+      if (last && comparePaths(last.path.slice(0, level + 1), path.slice(0, level + 1)) === 0) last.count++;
+      else spans.push({ path, count: 1 });
+    }
+    return spans;
+  };
+
+  const rowHeader = rowDimensions.map(column => column.name).join(" › ") || "";
+
+  return (
+    <div>
+      {parents.length > 0 && (
+        <div className="flex justify-end space-x-1 mb-2">
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setCollapsed(new Set())}>
+            Expand all
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setCollapsed(new Set(parents))}>
+            Collapse all
+          </Button>
+        </div>
+      )}
+      <div className="overflow-auto max-h-[32rem] border rounded-lg">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 sticky top-0">
+            {columnDimensions.map((dimension, level) => (
+              <tr key={dimension.name} className="border-b border-gray-200">
+                {level === 0 && (
+                  <th rowSpan={columnDimensions.length + 1} className="px-3 py-2 text-left font-medium text-gray-600 align-bottom whitespace-nowrap">
+                    {rowHeader}
+                  </th>
+                )}
+                {headerSpans(level).map(({ path, count }) => (
+                  <th key={JSON.stringify(path.slice(0, level + 1))} colSpan={count * measures.length} className="px-3 py-2 text-center font-medium text-gray-700 whitespace-nowrap border-l border-gray-200">
+                    {formatQueryValue(path[level], dimension)}
+                  </th>
+                ))}
+                {level === 0 && config.grandTotals && (
+                  <th rowSpan={columnDimensions.length} colSpan={measures.length} className="px-3 py-2 text-center font-semibold text-gray-700 border-l border-gray-200 bg-gray-100">
+                    Total
+                  </th>
+                )}
+              </tr>
+            ))}
+            <tr className="border-b border-gray-200">
+              {columnDimensions.length === 0 && (
+                <th className="px-3 py-2 text-left font-medium text-gray-600 whitespace-nowrap">{rowHeader}</th>
+              )}
+              {columnGroups.flatMap((_, group) => measures.map(measure => (
+                <th key={`${group}-${measure.name}`} className="px-3 py-2 text-right font-medium text-gray-600 whitespace-nowrap" title={measure.description}>
+                  {measure.name}
+                </th>
+              )))}
+            </tr>
+          </thead>
+          <tbody>
+            {tree.map(renderNode)}
+            {(config.grandTotals || config.rows.length === 0) && (
+              <tr className="bg-gray-100 border-t-2 border-gray-300">
+                <td className="px-3 py-2 font-semibold text-gray-900">{config.rows.length === 0 ? "Total" : "Grand total"}</td>
+                {valueCells([], "font-semibold")}
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      {data.truncated && (
+        <p className="text-xs text-amber-600 mt-2">Some groups are not shown; add filters or fewer dimensions.</p>
+      )}
+    </div>
+  );
+}
+
+// Editor state: fields are "column:<name>" or "dimension:<id>", measures a
+// semantic metric id or "custom" for an aggregation written here
+interface FieldDraft {
+  field: string;
+  bucket: TimeBucket | "none";
+}
+
+interface MeasureDraft {
+  source: string;
+  aggregation: Aggregation;
+  column: string;
+  percentile: string;
+  label: string;
+}
+
+interface PivotDraft {
+  dataSourceId: string;
+  rows: FieldDraft[];
+  columns: FieldDraft[];
+  measures: MeasureDraft[];
+  subtotals: boolean;
+  grandTotals: boolean;
+}
+
+const emptyMeasure: MeasureDraft = { source: "custom", aggregation: "sum", column: "", percentile: "90", label: "" };
+
+function toFieldDraft(dimension: PivotConfig["rows"][number]): FieldDraft {
+  if (typeof dimension === "string") return { field: `column:${dimension}`, bucket: "none" };
+  if ("dimension" in dimension) return { field: `dimension:${dimension.dimension}`, bucket: dimension.bucket ?? "none" };
+  return { field: `column:${dimension.column}`, bucket: dimension.bucket ?? "none" };
+}
+
+function toDimension({ field, bucket }: FieldDraft): PivotConfig["rows"][number] {
+  const [kind, ...rest] = field.split(":");
+  const name = rest.join(":");
+  const bucketed = bucket === "none" ? undefined : bucket;
+  if (kind === "dimension") return { dimension: parseInt(name), bucket: bucketed };
+  return bucketed ? { column: name, bucket: bucketed } : name;
+}
+
+function toDraft(config: PivotConfig | undefined): PivotDraft {
+  if (!config) {
+    return { dataSourceId: "", rows: [], columns: [], measures: [{ ...emptyMeasure }], subtotals: true, grandTotals: true };
+  }
+  return {
+    dataSourceId: String(config.dataSourceId),
+    rows: config.rows.map(toFieldDraft),
+    columns: config.columns.map(toFieldDraft),
+    measures: config.measures.map(measure => "metric" in measure
+      ? { ...emptyMeasure, source: String(measure.metric), label: measure.as ?? "" }
+      : {
+        source: "custom",
+        aggregation: measure.aggregation,
+        column: measure.column ?? "",
+        percentile: String(measure.percentile ?? 90),
+        label: measure.as ?? "",
+      }),
+    subtotals: config.subtotals,
+    grandTotals: config.grandTotals,
+  };
+}
+
+interface PivotSettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+  config: PivotConfig | undefined;
+  dataSources: DataSource[];
+  onSave: (config: PivotConfig) => void;
+}
+
+function PivotSettingsSheet({ isOpen, onClose, config, dataSources, onSave }: PivotSettingsProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<PivotDraft>(() => toDraft(config));
+
+  useEffect(() => {
+    if (isOpen) setDraft(toDraft(config));
+  }, [isOpen, config]);
+
+  const dataSource = dataSources.find(source => String(source.id) === draft.dataSourceId);
+
+  const { data: schema } = useQuery<ColumnSchema[]>({
+    queryKey: [`/api/data-sources/${draft.dataSourceId}/schema`],
+    enabled: isOpen && !!draft.dataSourceId,
+  });
+
+  const { data: metrics } = useQuery<SemanticMetric[]>({
+    queryKey: ["/api/semantic-metrics", { organizationId: dataSource?.organizationId }],
+    enabled: isOpen && !!dataSource,
+  });
+
+  const { data: dimensions } = useQuery<SemanticDimension[]>({
+    queryKey: ["/api/semantic-dimensions", { organizationId: dataSource?.organizationId }],
+    enabled: isOpen && !!dataSource,
+  });
+
+  const sourceMetrics = (metrics ?? []).filter(metric => String(metric.dataSourceId) === draft.dataSourceId);
+  const sourceDimensions = (dimensions ?? []).filter(dimension => String(dimension.dataSourceId) === draft.dataSourceId);
+
+  const isDateField = (field: string) => {
+    const column = schema?.find(c => `column:${c.name}` === field);
+    return column?.type === "date" || column?.type === "datetime";
+  };
+
+  const handleSave = () => {
+    const parsed = pivotConfigSchema.safeParse({
+      dataSourceId: parseInt(draft.dataSourceId),
+      rows: draft.rows.map(toDimension),
+      columns: draft.columns.map(toDimension),
+      measures: draft.measures.map(measure => measure.source !== "custom"
+        ? { metric: parseInt(measure.source), as: measure.label.trim() || undefined }
+        : {
+          aggregation: measure.aggregation,
+          column: measure.column || undefined,
+          percentile: measure.aggregation === "percentile" ? parseFloat(measure.percentile) : undefined,
+          as: measure.label.trim() || undefined,
+        }),
+      filters: config?.dataSourceId === parseInt(draft.dataSourceId) ? config.filters : [],
+      subtotals: draft.subtotals,
+      grandTotals: draft.grandTotals,
+    });
+    if (!parsed.success) {
+      toast({
+        title: "Invalid pivot",
+        description: parsed.error.errors[0]?.message ?? "Check the rows, columns and measures",
+        variant: "destructive",
+      });
+      return;
+    }
+    onSave(parsed.data);
+    onClose();
+  };
+
+  const fieldList = (title: string, key: "rows" | "columns", max: number) => {
+    const fields = draft[key];
+    const setFields = (next: FieldDraft[]) => setDraft({ ...draft, [key]: next });
+    const move = (index: number, offset: number) => {
+      const next = [...fields];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      setFields(next);
+    };
+    return (
+      <div className="space-y-2">
+        <Label>{title}</Label>
+        {fields.map((field, index) => (
+          <div key={index} className="flex items-center space-x-2">
+            <Select
+              value={field.field}
+              onValueChange={(value) => setFields(fields.map((f, i) => (i === index ? { field: value, bucket: "none" } : f)))}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Field" />
+              </SelectTrigger>
+              <SelectContent>
+                {sourceDimensions.map((dimension) => (
+                  <SelectItem key={`dimension-${dimension.id}`} value={`dimension:${dimension.id}`}>{dimension.name}</SelectItem>
+                ))}
+                {(schema ?? []).map((column) => (
+                  <SelectItem key={column.name} value={`column:${column.name}`}>{column.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {isDateField(field.field) && (
+              <Select
+                value={field.bucket}
+                onValueChange={(bucket) => setFields(fields.map((f, i) => (i === index ? { ...f, bucket: bucket as FieldDraft["bucket"] } : f)))}
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Exact</SelectItem>
+                  {timeBuckets.map((bucket) => (
+                    <SelectItem key={bucket} value={bucket}>By {bucket}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button variant="ghost" size="sm" disabled={index === 0} onClick={() => move(index, -1)}>
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" disabled={index === fields.length - 1} onClick={() => move(index, 1)}>
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setFields(fields.filter((_, i) => i !== index))}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={!draft.dataSourceId || fields.length >= max}
+          onClick={() => setFields([...fields, { field: "", bucket: "none" }])}
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Add {key === "rows" ? "Row" : "Column"}
+        </Button>
+      </div>
+    );
+  };
+
+  const setMeasure = (index: number, changes: Partial<MeasureDraft>) =>
+    setDraft({ ...draft, measures: draft.measures.map((measure, i) => (i === index ? { ...measure, ...changes } : measure)) });
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center">
+            <Settings2 className="h-5 w-5 mr-2 text-indigo-600" />
+            Pivot Settings
+          </SheetTitle>
+          <SheetDescription>
+            Rows nest in the order listed and can be collapsed. Subtotals and totals are computed by the query engine.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-6 mt-6">
+          <div className="space-y-2">
+            <Label>Data Source</Label>
+            <Select
+              value={draft.dataSourceId}
+              onValueChange={(dataSourceId) => setDraft({ ...toDraft(undefined), dataSourceId, subtotals: draft.subtotals, grandTotals: draft.grandTotals })}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a data source" />
+              </SelectTrigger>
+              <SelectContent>
+                {dataSources.map((source) => (
+                  <SelectItem key={source.id} value={String(source.id)}>{source.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {fieldList("Rows", "rows", 5)}
+          {fieldList("Columns", "columns", 3)}
+
+          <div className="space-y-2">
+            <Label>Measures</Label>
+            {draft.measures.map((measure, index) => (
+              <div key={index} className="border rounded-lg p-3 space-y-2">
+                <div className="flex items-center space-x-2">
+                  <Select value={measure.source} onValueChange={(source) => setMeasure(index, { source })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="custom">Aggregate a column</SelectItem>
+                      {sourceMetrics.map((metric) => (
+                        <SelectItem key={metric.id} value={String(metric.id)}>Metric: {metric.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={draft.measures.length === 1}
+                    onClick={() => setDraft({ ...draft, measures: draft.measures.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                {measure.source === "custom" && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <Select value={measure.aggregation} onValueChange={(aggregation) => setMeasure(index, { aggregation: aggregation as Aggregation })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {queryAggregations.map((aggregation) => (
+                          <SelectItem key={aggregation} value={aggregation}>{aggregation}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={measure.column} onValueChange={(column) => setMeasure(index, { column })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder={measure.aggregation === "count" ? "All rows" : "Column"} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(schema ?? []).map((column) => (
+                          <SelectItem key={column.name} value={column.name}>{column.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <div className="flex items-center space-x-2">
+                  {measure.source === "custom" && measure.aggregation === "percentile" && (
+                    <Input
+                      type="number"
+                      className="w-32"
+                      placeholder="Percentile"
+                      value={measure.percentile}
+                      onChange={(e) => setMeasure(index, { percentile: e.target.value })}
+                    />
+                  )}
+                  <Input
+                    placeholder="Label (optional)"
+                    value={measure.label}
+                    onChange={(e) => setMeasure(index, { label: e.target.value })}
+                  />
+                </div>
+              </div>
+            ))}
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={!draft.dataSourceId || draft.measures.length >= 10}
+              onClick={() => setDraft({ ...draft, measures: [...draft.measures, { ...emptyMeasure }] })}
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Add Measure
+            </Button>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="pivot-subtotals">Subtotals for nested rows</Label>
+              <Switch id="pivot-subtotals" checked={draft.subtotals} onCheckedChange={(subtotals) => setDraft({ ...draft, subtotals })} />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="pivot-grand-totals">Grand totals</Label>
+              <Switch id="pivot-grand-totals" checked={draft.grandTotals} onCheckedChange={(grandTotals) => setDraft({ ...draft, grandTotals })} />
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={onClose}>Cancel</Button>
+            <Button
+              className="bg-indigo-600 hover:bg-indigo-700"
+              onClick={handleSave}
+              disabled={
+                !draft.dataSourceId ||
+                [...draft.rows, ...draft.columns].some(field => !field.field) ||
+                draft.measures.some(measure => measure.source === "custom" && measure.aggregation !== "count" && !measure.column)
+              }
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+// The settings saved in a block's content, or undefined until it has been configured
+export function pivotConfigOf(content: unknown): PivotConfig | undefined {
+  const parsed = pivotConfigSchema.safeParse((content as Record<string, unknown> | null)?.pivot);
+  return parsed.success ? parsed.data : undefined;
+}
+
+interface PivotBlockProps {
+  block: Block;
+  dataSources: DataSource[];
+  onDelete: (blockId: string) => void;
+  onUpdate: (blockId: string, updates: Partial<Block>) => void;
+}
+
+export default function PivotBlock({ block, dataSources, onDelete, onUpdate }: PivotBlockProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const config = useMemo(() => pivotConfigOf(block.content), [block.content]);
+
+  const handleSave = (pivot: PivotConfig) => {
+    onUpdate(block.id, { content: { ...(block.content as Record<string, unknown> | null), pivot } });
+  };
+
+  return (
+    <Card className="h-full group relative">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          {isEditing ? (
+            <input
+              type="text"
+              defaultValue={block.title}
+              onBlur={(e) => {
+                onUpdate(block.id, { title: e.target.value });
+                setIsEditing(false);
+              }}
+              onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+              className="text-lg font-medium bg-transparent border-none outline-none focus:ring-2 focus:ring-indigo-500 rounded px-2 py-1"
+              autoFocus
+            />
+          ) : (
+            <CardTitle className="text-lg flex items-center">
+              <Grid3X3 className="h-5 w-5 text-indigo-500 mr-2" />
+              {block.title}
+            </CardTitle>
+          )}
+          <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => setShowSettings(true)}>
+              <Settings2 className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => setIsEditing(true)}>
+              <Edit3 className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0 text-red-600 hover:text-red-700"
+              onClick={() => onDelete(block.id)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        {block.description && (
+          <p className="text-sm text-gray-600">{block.description}</p>
+        )}
+      </CardHeader>
+      <CardContent>
+        {config ? (
+          <PivotTable config={config} />
+        ) : (
+          <div className="h-32 bg-gray-50 rounded-lg flex flex-col items-center justify-center">
+            <Grid3X3 className="h-10 w-10 text-gray-400 mb-2" />
+            <Button variant="outline" size="sm" onClick={() => setShowSettings(true)}>
+              Choose rows, columns and measures
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      <PivotSettingsSheet
+        isOpen={showSettings}
+        onClose={() => setShowSettings(false)}
+        config={config}
+        dataSources={dataSources}
+        onSave={handleSave}
+      />
+    </Card>
+  );
+}
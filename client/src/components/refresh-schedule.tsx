@@ -0,0 +1,203 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Clock } from "lucide-react";
+import type { DataSource, DataSourceRefreshRun, RefreshSchedule as Schedule } from "@shared/schema";
+
+interface RefreshScheduleProps {
+  isOpen: boolean;
+  onClose: () => void;
+  dataSource: DataSource;
+}
+
+type ScheduleKind = "off" | Schedule["kind"];
+
+const statusStyles: Record<string, string> = {
+  success: "bg-green-100 text-green-800",
+  error: "bg-red-100 text-red-800",
+  running: "bg-blue-100 text-blue-800",
+};
+
+const statusLabels: Record<string, string> = {
+  success: "Succeeded",
+  error: "Failed",
+  running: "Running",
+};
+
+export function formatDuration(ms: number | null) {
+  if (ms === null) return "";
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${Math.floor(ms / 60_000)}m ${Math.round((ms % 60_000) / 1000)}s`;
+}
+
+export function describeSchedule(schedule: Schedule | null) {
+  if (!schedule) return "Manual only";
+  if (schedule.kind === "cron") return `Cron ${schedule.expression} (UTC)`;
+  if (schedule.minutes % 1440 === 0) return `Every ${schedule.minutes / 1440} day(s)`;
+  if (schedule.minutes % 60 === 0) return `Every ${schedule.minutes / 60} hour(s)`;
+  return `Every ${schedule.minutes} minutes`;
+}
+
+export function RefreshRunBadge({ run }: { run: DataSourceRefreshRun }) {
+  return <Badge className={statusStyles[run.status]}>{statusLabels[run.status] || run.status}</Badge>;
+}
+
+export default function RefreshScheduleSheet({ isOpen, onClose, dataSource }: RefreshScheduleProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [kind, setKind] = useState<ScheduleKind>("off");
+  const [minutes, setMinutes] = useState("60");
+  const [expression, setExpression] = useState("0 6 * * *");
+
+  // Start from the saved schedule each time the sheet opens
+  useEffect(() => {
+    if (!isOpen) return;
+    const schedule = dataSource.refreshSchedule;
+    setKind(schedule ? schedule.kind : "off");
+    if (schedule?.kind === "interval") setMinutes(String(schedule.minutes));
+    if (schedule?.kind === "cron") setExpression(schedule.expression);
+  }, [isOpen, dataSource.refreshSchedule]);
+
+  const { data: runs, isLoading } = useQuery<DataSourceRefreshRun[]>({
+    queryKey: [`/api/data-sources/${dataSource.id}/refresh-runs`],
+    enabled: isOpen,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const schedule =
+        kind === "interval" ? { kind, minutes: parseInt(minutes) }
+        : kind === "cron" ? { kind, expression: expression.trim() }
+        : null;
+      return await apiRequest(`/api/data-sources/${dataSource.id}/schedule`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ schedule }),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/data-sources"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/data-sources/${dataSource.id}`] });
+      toast({
+        title: "Schedule Saved",
+        description: kind === "off" ? "This source will only refresh when asked." : "Refreshes will run on the new schedule.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save refresh schedule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-96 overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Refresh Schedule</SheetTitle>
+          <SheetDescription>Pull fresh rows from {dataSource.name} automatically.</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-4">
+          <RadioGroup value={kind} onValueChange={(value) => setKind(value as ScheduleKind)}>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="off" id="schedule-off" />
+              <Label htmlFor="schedule-off" className="font-normal">Manual only</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="interval" id="schedule-interval" />
+              <Label htmlFor="schedule-interval" className="font-normal">Every few minutes</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="cron" id="schedule-cron" />
+              <Label htmlFor="schedule-cron" className="font-normal">Cron expression</Label>
+            </div>
+          </RadioGroup>
+
+          {kind === "interval" && (
+            <div>
+              <Label htmlFor="scheduleMinutes">Minutes between refreshes</Label>
+              <Input
+                id="scheduleMinutes"
+                type="number"
+                min={5}
+                value={minutes}
+                onChange={(e) => setMinutes(e.target.value)}
+              />
+              <p className="text-xs text-gray-500 mt-1">At least 5 minutes.</p>
+            </div>
+          )}
+          {kind === "cron" && (
+            <div>
+              <Label htmlFor="scheduleExpression">Expression</Label>
+              <Input
+                id="scheduleExpression"
+                className="font-mono"
+                value={expression}
+                onChange={(e) => setExpression(e.target.value)}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                minute hour day-of-month month day-of-week, in UTC. "0 6 * * 1-5" runs at 06:00 on weekdays.
+              </p>
+            </div>
+          )}
+
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending}
+            className="w-full bg-indigo-600 hover:bg-indigo-700"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Schedule"}
+          </Button>
+
+          {dataSource.refreshSchedule && dataSource.nextRefreshAt && (
+            <p className="text-sm text-gray-600">
+              Next refresh {new Date(dataSource.nextRefreshAt).toLocaleString()}
+            </p>
+          )}
+        </div>
+
+        <div className="mt-8">
+          <h3 className="text-sm font-semibold text-gray-900 mb-3">Recent Runs</h3>
+          {isLoading ? (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-indigo-600 mx-auto"></div>
+            </div>
+          ) : runs && runs.length > 0 ? (
+            <div className="space-y-3">
+              {runs.map((run) => (
+                <div key={run.id} className="border rounded-lg p-3">
+                  <div className="flex items-center justify-between mb-1">
+                    <RefreshRunBadge run={run} />
+                    <span className="text-xs text-gray-500 capitalize">{run.trigger}</span>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {run.startedAt && new Date(run.startedAt).toLocaleString()}
+                    {run.durationMs !== null && ` · ${formatDuration(run.durationMs)}`}
+                    {run.rowCount !== null && ` · ${run.rowCount.toLocaleString()} rows`}
+                  </p>
+                  {run.error && <p className="text-sm text-red-600 mt-1 break-words">{run.error}</p>}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-8">
+              <Clock className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+              <p className="text-sm text-gray-500">No refreshes have run yet.</p>
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
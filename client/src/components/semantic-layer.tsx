@@ -0,0 +1,498 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Pencil, Plus, Ruler, Trash2 } from "lucide-react";
+import {
+  queryAggregations,
+  queryFilterOperators,
+  semanticFormats,
+  timeBuckets,
+  type ColumnSchema,
+  type DataSource,
+  type QueryFilter,
+  type QueryMeasure,
+  type SemanticDimension,
+  type SemanticFormat,
+  type SemanticMetric,
+  type TimeBucket,
+} from "@shared/schema";
+
+interface SemanticLayerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  organizationId: number;
+}
+
+type Aggregation = typeof queryAggregations[number];
+type FilterOperator = typeof queryFilterOperators[number];
+
+interface FilterDraft {
+  column: string;
+  operator: FilterOperator;
+  value: string; // Comma separated for lists and ranges
+}
+
+interface MetricDraft {
+  id?: number;
+  name: string;
+  description: string;
+  dataSourceId: string;
+  format: SemanticFormat;
+  aggregation: Aggregation;
+  column: string;
+  percentile: string;
+  filters: FilterDraft[];
+}
+
+interface DimensionDraft {
+  id?: number;
+  name: string;
+  description: string;
+  dataSourceId: string;
+  format: SemanticFormat;
+  column: string;
+  bucket: TimeBucket | "none";
+}
+
+const emptyMetric: MetricDraft = {
+  name: "", description: "", dataSourceId: "", format: "number", aggregation: "sum", column: "", percentile: "90", filters: [],
+};
+
+const emptyDimension: DimensionDraft = {
+  name: "", description: "", dataSourceId: "", format: "text", column: "", bucket: "none",
+};
+
+const operatorLabels: Record<FilterOperator, string> = {
+  eq: "=", neq: "!=", gt: ">", gte: ">=", lt: "<", lte: "<=", in: "in", not_in: "not in",
+  between: "between", contains: "contains", is_null: "is empty", is_not_null: "is not empty",
+};
+
+const hasNoValue = (operator: FilterOperator) => operator === "is_null" || operator === "is_not_null";
+const hasList = (operator: FilterOperator) => ["in", "not_in", "between"].includes(operator);
+
+// Values are sent as typed; the server converts them to the column's type
+function toFilter({ column, operator, value }: FilterDraft): QueryFilter {
+  if (hasNoValue(operator)) return { column, operator };
+  if (hasList(operator)) return { column, operator, value: value.split(",").map(part => part.trim()) };
+  return { column, operator, value };
+}
+
+function toFilterDraft({ column, operator, value }: QueryFilter): FilterDraft {
+  return { column, operator, value: Array.isArray(value) ? value.join(", ") : value == null ? "" : String(value) };
+}
+
+function describeMeasure(measure: QueryMeasure) {
+  const args = measure.aggregation === "percentile" ? `${measure.column}, ${measure.percentile}` : measure.column ?? "*";
+  const filters = (measure.filters ?? []).map(filter =>
+    `${filter.column} ${operatorLabels[filter.operator]}${hasNoValue(filter.operator) ? "" : ` ${toFilterDraft(filter).value}`}`);
+  return `${measure.aggregation}(${args})${filters.length > 0 ? ` where ${filters.join(" and ")}` : ""}`;
+}
+
+export default function SemanticLayerSheet({ isOpen, onClose, organizationId }: SemanticLayerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [metric, setMetric] = useState<MetricDraft | null>(null);
+  const [dimension, setDimension] = useState<DimensionDraft | null>(null);
+
+  const { data: dataSources } = useQuery<DataSource[]>({
+    queryKey: ["/api/data-sources", { organizationId }],
+    enabled: isOpen,
+  });
+
+  const { data: metrics } = useQuery<SemanticMetric[]>({
+    queryKey: ["/api/semantic-metrics", { organizationId }],
+    enabled: isOpen,
+  });
+
+  const { data: dimensions } = useQuery<SemanticDimension[]>({
+    queryKey: ["/api/semantic-dimensions", { organizationId }],
+    enabled: isOpen,
+  });
+
+  const { data: metricSchema } = useQuery<ColumnSchema[]>({
+    queryKey: [`/api/data-sources/${metric?.dataSourceId}/schema`],
+    enabled: !!metric?.dataSourceId,
+  });
+
+  const { data: dimensionSchema } = useQuery<ColumnSchema[]>({
+    queryKey: [`/api/data-sources/${dimension?.dataSourceId}/schema`],
+    enabled: !!dimension?.dataSourceId,
+  });
+
+  const sourceName = (id: number) => dataSources?.find(dataSource => dataSource.id === id)?.name ?? "";
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to save the definition",
+      variant: "destructive",
+    });
+  };
+
+  const saveMetricMutation = useMutation({
+    mutationFn: async (draft: MetricDraft) => {
+      const definition: QueryMeasure = {
+        aggregation: draft.aggregation,
+        column: draft.column || undefined,
+        percentile: draft.aggregation === "percentile" ? parseFloat(draft.percentile) : undefined,
+        filters: draft.filters.map(toFilter),
+      };
+      return await apiRequest(draft.id ? `/api/semantic-metrics/${draft.id}` : "/api/semantic-metrics", {
+        method: draft.id ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          organizationId,
+          dataSourceId: parseInt(draft.dataSourceId),
+          name: draft.name,
+          description: draft.description || null,
+          format: draft.format,
+          definition,
+        }),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/semantic-metrics", { organizationId }] });
+      setMetric(null);
+      toast({ title: "Metric Saved", description: "Blocks and the Epesi Agent now use this definition." });
+    },
+    onError,
+  });
+
+  const saveDimensionMutation = useMutation({
+    mutationFn: async (draft: DimensionDraft) => {
+      return await apiRequest(draft.id ? `/api/semantic-dimensions/${draft.id}` : "/api/semantic-dimensions", {
+        method: draft.id ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          organizationId,
+          dataSourceId: parseInt(draft.dataSourceId),
+          column: draft.column,
+          name: draft.name,
+          description: draft.description || null,
+          format: draft.format,
+          bucket: draft.bucket === "none" ? null : draft.bucket,
+        }),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/semantic-dimensions", { organizationId }] });
+      setDimension(null);
+      toast({ title: "Dimension Saved", description: "Blocks and the Epesi Agent now use this definition." });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async ({ kind, id }: { kind: "metrics" | "dimensions"; id: number }) => {
+      return await apiRequest(`/api/semantic-${kind}/${id}`, { method: "DELETE" });
+    },
+    onSuccess: (_, { kind }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/semantic-${kind}`, { organizationId }] });
+    },
+    onError,
+  });
+
+  const sourceSelect = (selected: string, onSelect: (id: string) => void) => (
+    <Select value={selected} onValueChange={onSelect}>
+      <SelectTrigger>
+        <SelectValue placeholder="Choose a data source" />
+      </SelectTrigger>
+      <SelectContent>
+        {(dataSources || []).map((dataSource) => (
+          <SelectItem key={dataSource.id} value={String(dataSource.id)}>{dataSource.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const columnSelect = (schema: ColumnSchema[] | undefined, selected: string, onSelect: (column: string) => void, placeholder = "Column") => (
+    <Select value={selected} onValueChange={onSelect}>
+      <SelectTrigger>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {(schema || []).map((column) => (
+          <SelectItem key={column.name} value={column.name}>{column.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const formatSelect = (selected: SemanticFormat, onSelect: (format: SemanticFormat) => void) => (
+    <Select value={selected} onValueChange={(format) => onSelect(format as SemanticFormat)}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {semanticFormats.map((format) => (
+          <SelectItem key={format} value={format}>{format}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const setFilter = (index: number, changes: Partial<FilterDraft>) =>
+    metric && setMetric({ ...metric, filters: metric.filters.map((filter, i) => (i === index ? { ...filter, ...changes } : filter)) });
+
+  const metricForm = metric && (
+    <div className="border rounded-lg p-3 space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <Input placeholder="Name, e.g. Net Revenue" value={metric.name} onChange={(e) => setMetric({ ...metric, name: e.target.value })} />
+        {formatSelect(metric.format, (format) => setMetric({ ...metric, format }))}
+      </div>
+      {sourceSelect(metric.dataSourceId, (dataSourceId) => setMetric({ ...metric, dataSourceId, column: "", filters: [] }))}
+      <div className="grid grid-cols-2 gap-3">
+        <Select value={metric.aggregation} onValueChange={(aggregation) => setMetric({ ...metric, aggregation: aggregation as Aggregation })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {queryAggregations.map((aggregation) => (
+              <SelectItem key={aggregation} value={aggregation}>{aggregation}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {columnSelect(metricSchema, metric.column, (column) => setMetric({ ...metric, column }), metric.aggregation === "count" ? "All rows" : "Column")}
+      </div>
+      {metric.aggregation === "percentile" && (
+        <Input
+          type="number"
+          placeholder="Percentile, e.g. 90"
+          value={metric.percentile}
+          onChange={(e) => setMetric({ ...metric, percentile: e.target.value })}
+        />
+      )}
+
+      <div className="space-y-2">
+        <Label className="text-xs text-gray-500">Only count rows where</Label>
+        {metric.filters.map((filter, index) => (
+          <div key={index} className="flex items-center space-x-2">
+            {columnSelect(metricSchema, filter.column, (column) => setFilter(index, { column }))}
+            <Select value={filter.operator} onValueChange={(operator) => setFilter(index, { operator: operator as FilterOperator })}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {queryFilterOperators.map((operator) => (
+                  <SelectItem key={operator} value={operator}>{operatorLabels[operator]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!hasNoValue(filter.operator) && (
+              <Input
+                placeholder={hasList(filter.operator) ? "a, b" : "Value"}
+                value={filter.value}
+                onChange={(e) => setFilter(index, { value: e.target.value })}
+              />
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setMetric({ ...metric, filters: metric.filters.filter((_, i) => i !== index) })}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={!metric.dataSourceId}
+          onClick={() => setMetric({ ...metric, filters: [...metric.filters, { column: "", operator: "eq", value: "" }] })}
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Add Condition
+        </Button>
+      </div>
+
+      <Textarea
+        rows={2}
+        placeholder="What this metric means"
+        value={metric.description}
+        onChange={(e) => setMetric({ ...metric, description: e.target.value })}
+      />
+      <div className="flex justify-end space-x-2">
+        <Button variant="outline" onClick={() => setMetric(null)}>Cancel</Button>
+        <Button
+          className="bg-indigo-600 hover:bg-indigo-700"
+          onClick={() => saveMetricMutation.mutate(metric)}
+          disabled={
+            !metric.name.trim() || !metric.dataSourceId || (metric.aggregation !== "count" && !metric.column) ||
+            metric.filters.some(filter => !filter.column) || saveMetricMutation.isPending
+          }
+        >
+          {saveMetricMutation.isPending ? "Saving..." : "Save Metric"}
+        </Button>
+      </div>
+    </div>
+  );
+
+  const dateColumn = dimensionSchema?.some(column => column.name === dimension?.column && (column.type === "date" || column.type === "datetime"));
+
+  const dimensionForm = dimension && (
+    <div className="border rounded-lg p-3 space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <Input placeholder="Display name, e.g. Sales Region" value={dimension.name} onChange={(e) => setDimension({ ...dimension, name: e.target.value })} />
+        {formatSelect(dimension.format, (format) => setDimension({ ...dimension, format }))}
+      </div>
+      {sourceSelect(dimension.dataSourceId, (dataSourceId) => setDimension({ ...dimension, dataSourceId, column: "", bucket: "none" }))}
+      <div className="grid grid-cols-2 gap-3">
+        {columnSelect(dimensionSchema, dimension.column, (column) => setDimension({ ...dimension, column, bucket: "none" }))}
+        {dateColumn && (
+          <Select value={dimension.bucket} onValueChange={(bucket) => setDimension({ ...dimension, bucket: bucket as TimeBucket | "none" })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Exact dates</SelectItem>
+              {timeBuckets.map((bucket) => (
+                <SelectItem key={bucket} value={bucket}>By {bucket}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+      <Textarea
+        rows={2}
+        placeholder="What this dimension means"
+        value={dimension.description}
+        onChange={(e) => setDimension({ ...dimension, description: e.target.value })}
+      />
+      <div className="flex justify-end space-x-2">
+        <Button variant="outline" onClick={() => setDimension(null)}>Cancel</Button>
+        <Button
+          className="bg-indigo-600 hover:bg-indigo-700"
+          onClick={() => saveDimensionMutation.mutate(dimension)}
+          disabled={!dimension.name.trim() || !dimension.dataSourceId || !dimension.column || saveDimensionMutation.isPending}
+        >
+          {saveDimensionMutation.isPending ? "Saving..." : "Save Dimension"}
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-[36rem] sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Metrics &amp; Dimensions</SheetTitle>
+          <SheetDescription>
+            Define business terms once so every block and the Epesi Agent report the same numbers.
+          </SheetDescription>
+        </SheetHeader>
+
+        <Tabs defaultValue="metrics" className="mt-6">
+          <TabsList>
+            <TabsTrigger value="metrics">Metrics</TabsTrigger>
+            <TabsTrigger value="dimensions">Dimensions</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="metrics" className="space-y-3">
+            {(metrics || []).map((saved) => (
+              <div key={saved.id} className="border rounded-lg p-3 flex items-start justify-between">
+                <div className="min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <p className="font-medium text-gray-900">{saved.name}</p>
+                    <Badge variant="secondary">{saved.format}</Badge>
+                  </div>
+                  <p className="text-xs text-gray-500 font-mono break-words">{describeMeasure(saved.definition)}</p>
+                  <p className="text-xs text-gray-500">{sourceName(saved.dataSourceId)}{saved.description ? ` · ${saved.description}` : ""}</p>
+                </div>
+                <div className="flex">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setMetric({
+                      id: saved.id,
+                      name: saved.name,
+                      description: saved.description ?? "",
+                      dataSourceId: String(saved.dataSourceId),
+                      format: saved.format as SemanticFormat,
+                      aggregation: saved.definition.aggregation,
+                      column: saved.definition.column ?? "",
+                      percentile: String(saved.definition.percentile ?? 90),
+                      filters: (saved.definition.filters ?? []).map(toFilterDraft),
+                    })}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => deleteMutation.mutate({ kind: "metrics", id: saved.id })}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            {metrics?.length === 0 && !metric && (
+              <div className="text-center py-6">
+                <Ruler className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+                <p className="text-sm text-gray-500">No metrics yet.</p>
+              </div>
+            )}
+            {metricForm || (
+              <Button variant="outline" onClick={() => setMetric(emptyMetric)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Metric
+              </Button>
+            )}
+          </TabsContent>
+
+          <TabsContent value="dimensions" className="space-y-3">
+            {(dimensions || []).map((saved) => (
+              <div key={saved.id} className="border rounded-lg p-3 flex items-start justify-between">
+                <div className="min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <p className="font-medium text-gray-900">{saved.name}</p>
+                    <Badge variant="secondary">{saved.format}</Badge>
+                  </div>
+                  <p className="text-xs text-gray-500 font-mono">{saved.column}{saved.bucket ? ` by ${saved.bucket}` : ""}</p>
+                  <p className="text-xs text-gray-500">{sourceName(saved.dataSourceId)}{saved.description ? ` · ${saved.description}` : ""}</p>
+                </div>
+                <div className="flex">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDimension({
+                      id: saved.id,
+                      name: saved.name,
+                      description: saved.description ?? "",
+                      dataSourceId: String(saved.dataSourceId),
+                      format: saved.format as SemanticFormat,
+                      column: saved.column,
+                      bucket: saved.bucket ?? "none",
+                    })}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => deleteMutation.mutate({ kind: "dimensions", id: saved.id })}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            {dimensions?.length === 0 && !dimension && (
+              <div className="text-center py-6">
+                <Ruler className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+                <p className="text-sm text-gray-500">No dimensions yet.</p>
+              </div>
+            )}
+            {dimensionForm || (
+              <Button variant="outline" onClick={() => setDimension(emptyDimension)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Dimension
+              </Button>
+            )}
+          </TabsContent>
+        </Tabs>
+      </SheetContent>
+    </Sheet>
+  );
+}
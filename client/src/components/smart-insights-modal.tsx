@@ -38,7 +38,9 @@ import {
   LineChart,
   PieChart,
   TrendingUp,
-  Activity
+  Activity,
+  ShieldCheck,
+  ShieldAlert
 } from "lucide-react";
 
 interface SmartInsightsModalProps {
@@ -48,6 +50,21 @@ interface SmartInsightsModalProps {
   onInsightSaved?: () => void;
 }
 
+type VerificationStatus = 'verified' | 'approximate' | 'contradicted' | 'unchecked';
+
+// How the numbers in the insight's sentences compared with its data
+interface InsightVerification {
+  status: VerificationStatus;
+  insights: {
+    text: string;
+    verification: {
+      status: VerificationStatus;
+      claims: { text: string; value: number; status: VerificationStatus; actual?: number }[];
+    };
+  }[];
+  dropped: number; // Sentences removed because the data contradicted them
+}
+
 interface Insight {
   id: string;
   question: string;
@@ -55,6 +72,8 @@ interface Insight {
   chart_type: string;
   insight_category: string;
   chart_payload: any;
+  insights?: string[];
+  verification?: InsightVerification;
   created_at: string;
 }
 
@@ -120,7 +139,7 @@ export default function SmartInsightsModal({
 
   const generateInsightsMutation = useMutation({
     mutationFn: async (count: string) => {
-      const response = await apiRequest("/api/ai/generate-insights", {
+      return await apiRequest("/api/ai/generate-insights", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ 
@@ -128,7 +147,6 @@ export default function SmartInsightsModal({
           count: parseInt(count)
         }),
       });
-      return response.json();
     },
     onSuccess: (data) => {
       const insightsWithTransformedData = data.data.insights.map((insight: Insight) => ({
@@ -154,7 +172,7 @@ export default function SmartInsightsModal({
 
   const saveInsightMutation = useMutation({
     mutationFn: async (insight: InsightWithChartData) => {
-      const response = await apiRequest("/api/blocks", {
+      return await apiRequest("/api/blocks", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -177,7 +195,6 @@ export default function SmartInsightsModal({
           }
         }),
       });
-      return response.json();
     },
     onSuccess: () => {
       toast({
@@ -220,7 +237,7 @@ export default function SmartInsightsModal({
               generatedAt: new Date().toISOString()
             }
           }),
-        }).then(res => res.json())
+        })
       );
       return Promise.all(promises);
     },
@@ -243,7 +260,7 @@ export default function SmartInsightsModal({
 
   const regenerateInsightMutation = useMutation({
     mutationFn: async (index: number) => {
-      const response = await apiRequest("/api/ai/generate-insights", {
+      return await apiRequest("/api/ai/generate-insights", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ 
@@ -252,7 +269,6 @@ export default function SmartInsightsModal({
           regenerateIndex: index
         }),
       });
-      return response.json();
     },
     onSuccess: (data, index) => {
       const newInsight = data.data.insights[0];
@@ -382,6 +398,28 @@ export default function SmartInsightsModal({
     );
   };
 
+  // Insights whose sentences have no numbers that could be checked get no badge
+  const renderVerificationBadge = (verification?: InsightVerification) => {
+    if (!verification || verification.status === 'unchecked') return null;
+    const claims = verification.insights.flatMap(insight => insight.verification.claims);
+    const summary = [
+      `${claims.filter(claim => claim.status === 'verified').length} of ${claims.length} figures match the data exactly`,
+      ...(verification.dropped > 0 ? [`${verification.dropped} removed as contradicted by the data`] : []),
+    ].join('. ');
+
+    return verification.status === 'verified' ? (
+      <Badge variant="outline" className="text-xs border-green-300 bg-green-50 text-green-700" title={summary}>
+        <ShieldCheck className="h-3 w-3 mr-1" />
+        Verified
+      </Badge>
+    ) : (
+      <Badge variant="outline" className="text-xs border-amber-300 bg-amber-50 text-amber-700" title={summary}>
+        <ShieldAlert className="h-3 w-3 mr-1" />
+        Approximate
+      </Badge>
+    );
+  };
+
   const getChartIcon = (chartType: string) => {
     switch (chartType) {
       case 'column':
@@ -535,9 +573,12 @@ export default function SmartInsightsModal({
                           {insight.insight_category}
                         </Badge>
                       </div>
-                      <Badge variant="secondary" className="text-xs">
-                        {insight.chart_type}
-                      </Badge>
+                      <div className="flex items-center space-x-1">
+                        {renderVerificationBadge(insight.verification)}
+                        <Badge variant="secondary" className="text-xs">
+                          {insight.chart_type}
+                        </Badge>
+                      </div>
                     </div>
                     <CardTitle className="text-sm font-medium leading-tight">
                       {insight.question}
@@ -548,6 +589,13 @@ export default function SmartInsightsModal({
                     <p className="text-xs text-gray-600 leading-relaxed">
                       {insight.description}
                     </p>
+                    {insight.verification && insight.verification.dropped > 0 && (
+                      <p className="text-xs text-amber-700">
+                        {insight.verification.dropped === 1
+                          ? "1 statement was removed because the data contradicts it."
+                          : `${insight.verification.dropped} statements were removed because the data contradicts them.`}
+                      </p>
+                    )}
                     <div className="flex space-x-2">
                       <Button
                         size="sm"
@@ -0,0 +1,927 @@
+import { useEffect, useMemo, useState, type CSSProperties } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, throwIfResNotOk } from "@/lib/queryClient";
+import { formatTableValue } from "@/lib/format";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  ArrowDown,
+  ArrowUp,
+  ChevronLeft,
+  ChevronRight,
+  Columns3,
+  Download,
+  Edit3,
+  Filter,
+  Loader2,
+  Plus,
+  Settings2,
+  Table as TableIcon,
+  Trash2,
+} from "lucide-react";
+import {
+  queryAggregations,
+  tableBlockConfigSchema,
+  tableFormats,
+  type Block,
+  type ColumnSchema,
+  type DataSource,
+  type QueryFilter,
+  type TableBlockConfig,
+  type TableColumn,
+  type TableColumnFormat,
+  type TablePage,
+  type TableRule,
+  type TableSort,
+  type TableView as TableViewSpec,
+} from "@shared/schema";
+
+type Aggregation = typeof queryAggregations[number];
+type FilterOperator = "contains" | "eq" | "neq" | "gt" | "gte" | "lt" | "lte" | "is_null" | "is_not_null";
+type ThresholdOperator = Extract<TableRule, { kind: "threshold" }>["operator"];
+
+const filterOperators: Record<FilterOperator, string> = {
+  contains: "contains", eq: "=", neq: "!=", gt: ">", gte: ">=", lt: "<", lte: "<=", is_null: "is empty", is_not_null: "is not empty",
+};
+
+const thresholdOperators: ThresholdOperator[] = ["gt", "gte", "lt", "lte", "eq", "neq"];
+
+const hasNoValue = (operator: string) => operator === "is_null" || operator === "is_not_null";
+
+// The parts of the view a viewer can change without editing the block
+interface ViewState {
+  columns: string[];
+  filters: QueryFilter[];
+  sort?: TableSort;
+}
+
+function viewSpec(config: TableBlockConfig, view: ViewState, offset: number): TableViewSpec {
+  return {
+    dataSourceId: config.dataSourceId,
+    query: config.query,
+    columns: view.columns,
+    filters: view.filters,
+    sort: view.sort,
+    offset,
+    limit: config.pageSize,
+  };
+}
+
+const hexChannels = (color: string) => [1, 3, 5].map(i => parseInt(color.slice(i, i + 2), 16));
+
+function mixColors(from: string, to: string, share: number): string {
+  const a = hexChannels(from);
+  const b = hexChannels(to);
+  return `rgb(${a.map((channel, i) => Math.round(channel + (b[i] - channel) * share)).join(", ")})`;
+}
+
+function matchesThreshold(value: unknown, rule: Extract<TableRule, { kind: "threshold" }>): boolean {
+  if (value === null || value === undefined) return false;
+  const order = typeof value === "number" && typeof rule.value === "number"
+    ? value - rule.value
+    : String(value).localeCompare(String(rule.value), undefined, { numeric: true });
+  switch (rule.operator) {
+    case "eq": return order === 0;
+    case "neq": return order !== 0;
+    case "gt": return order > 0;
+    case "gte": return order >= 0;
+    case "lt": return order < 0;
+    case "lte": return order <= 0;
+  }
+}
+
+// Rules apply in order, so a later color wins over an earlier one; data bars
+// are drawn behind whatever color the cell has
+function cellStyle(rules: TableRule[], column: string, value: unknown, range: TablePage["ranges"][string] | undefined): CSSProperties {
+  const style: CSSProperties = {};
+  for (const rule of rules) {
+    if (rule.column !== column) continue;
+    if (rule.kind === "threshold") {
+      if (!matchesThreshold(value, rule)) continue;
+      style.backgroundColor = rule.color;
+      if (rule.textColor) style.color = rule.textColor;
+    } else if (typeof value === "number" && range) {
+      if (rule.kind === "color_scale") {
+        const share = range.max === range.min ? 1 : (value - range.min) / (range.max - range.min);
+        style.backgroundColor = mixColors(rule.minColor, rule.maxColor, share);
+      } else {
+        // Bars start from zero, or from the minimum when every value is negative
+        const low = Math.min(range.min, 0);
+        const high = Math.max(range.max, 0);
+        const width = high === low ? 0 : ((value - low) / (high - low)) * 100;
+        style.backgroundImage = `linear-gradient(90deg, ${rule.color} ${width}%, transparent ${width}%)`;
+      }
+    }
+  }
+  return style;
+}
+
+async function fetchTablePage(spec: TableViewSpec): Promise<TablePage> {
+  return await apiRequest("/api/table", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(spec),
+  });
+}
+
+interface ColumnFilterProps {
+  column: TableColumn;
+  filter: QueryFilter | undefined;
+  onChange: (filter: QueryFilter | undefined) => void;
+}
+
+function ColumnFilter({ column, filter, onChange }: ColumnFilterProps) {
+  const [open, setOpen] = useState(false);
+  const [operator, setOperator] = useState<FilterOperator>("contains");
+  const [value, setValue] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setOperator((filter?.operator as FilterOperator | undefined) ?? (column.type === "text" || column.type === "category" ? "contains" : "eq"));
+    setValue(filter?.value == null ? "" : String(filter.value));
+  }, [open, filter, column.type]);
+
+  const apply = () => {
+    onChange(hasNoValue(operator) ? { column: column.name, operator } : { column: column.name, operator, value });
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button className={`ml-1 rounded p-0.5 ${filter ? "text-indigo-600" : "text-gray-300 hover:text-gray-500"}`} title="Filter">
+          <Filter className="h-3 w-3" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-2" align="start">
+        <Label className="text-xs text-gray-500">Show rows where {column.name}</Label>
+        <Select value={operator} onValueChange={(next) => setOperator(next as FilterOperator)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(filterOperators) as FilterOperator[]).map((key) => (
+              <SelectItem key={key} value={key}>{filterOperators[key]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {!hasNoValue(operator) && (
+          <Input
+            placeholder="Value"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && apply()}
+            autoFocus
+          />
+        )}
+        <div className="flex justify-end space-x-2">
+          <Button variant="ghost" size="sm" disabled={!filter} onClick={() => { onChange(undefined); setOpen(false); }}>
+            Clear
+          </Button>
+          <Button size="sm" className="bg-indigo-600 hover:bg-indigo-700" disabled={!hasNoValue(operator) && !value.trim()} onClick={apply}>
+            Apply
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+interface TableViewProps {
+  config: TableBlockConfig;
+  // Called with the new columns, filters and sort in the builder, where they
+  // become the block's defaults; viewers elsewhere change only their own view
+  onChange?: (config: TableBlockConfig) => void;
+  refetchInterval?: number | false;
+}
+
+export function TableView({ config, onChange, refetchInterval = false }: TableViewProps) {
+  const { toast } = useToast();
+  const [view, setView] = useState<ViewState>({ columns: config.columns, filters: config.filters, sort: config.sort });
+  const [offset, setOffset] = useState(0);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    setView({ columns: config.columns, filters: config.filters, sort: config.sort });
+    setOffset(0);
+  }, [config]);
+
+  const spec = viewSpec(config, view, offset);
+  const { data: page, isLoading, isFetching, error } = useQuery<TablePage>({
+    queryKey: ["/api/table", spec],
+    queryFn: () => fetchTablePage(spec),
+    placeholderData: (previous) => previous,
+    refetchInterval,
+  });
+
+  const changeView = (next: ViewState) => {
+    setView(next);
+    setOffset(0);
+    onChange?.({ ...config, ...next });
+  };
+
+  const toggleSort = (column: string) => {
+    const sort: TableSort | undefined = view.sort?.column !== column
+      ? { column, direction: "asc" }
+      : view.sort.direction === "asc" ? { column, direction: "desc" } : undefined;
+    changeView({ ...view, sort });
+  };
+
+  const setFilter = (column: string, filter: QueryFilter | undefined) => {
+    const filters = view.filters.filter(f => f.column !== column);
+    changeView({ ...view, filters: filter ? [...filters, filter] : filters });
+  };
+
+  const toggleColumn = (column: string, shown: boolean) => {
+    const current = view.columns.length > 0 ? view.columns : (page?.available ?? []).map(c => c.name);
+    const columns = shown
+      ? (page?.available ?? []).map(c => c.name).filter(name => name === column || current.includes(name))
+      : current.filter(name => name !== column);
+    if (columns.length > 0) changeView({ ...view, columns });
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const response = await fetch("/api/table/export", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(spec),
+      });
+      await throwIfResNotOk(response);
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = /filename="([^"]+)"/.exec(response.headers.get("Content-Disposition") ?? "")?.[1] ?? "table.csv";
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Failed to export the table",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="h-32 flex items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (!page) {
+    return (
+      <div className="h-32 flex items-center justify-center text-sm text-red-600 text-center px-4">
+        {error instanceof Error ? error.message : "Failed to load the table"}
+      </div>
+    );
+  }
+
+  const shown = page.columns.map(c => c.name);
+  const last = Math.min(page.offset + page.rows.length, page.total);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-2 text-xs text-gray-500">
+          {view.filters.length > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => changeView({ ...view, filters: [] })}>
+              Clear {view.filters.length} filter{view.filters.length === 1 ? "" : "s"}
+            </Button>
+          )}
+          {isFetching && <Loader2 className="h-3 w-3 animate-spin" />}
+          {error instanceof Error && <span className="text-red-600">{error.message}</span>}
+        </div>
+        <div className="flex items-center space-x-1">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm" className="h-7 text-xs">
+                <Columns3 className="h-3.5 w-3.5 mr-1" />
+                Columns
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="max-h-72 overflow-y-auto">
+              <DropdownMenuLabel>Shown columns</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {page.available.map((column) => (
+                <DropdownMenuCheckboxItem
+                  key={column.name}
+                  checked={shown.includes(column.name)}
+                  onCheckedChange={(checked) => toggleColumn(column.name, checked === true)}
+                  onSelect={(e) => e.preventDefault()}
+                >
+                  {column.name}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={handleExport} disabled={isExporting}>
+            {isExporting ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" /> : <Download className="h-3.5 w-3.5 mr-1" />}
+            CSV
+          </Button>
+        </div>
+      </div>
+
+      <div className="overflow-auto max-h-[32rem] border rounded-lg">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr className="border-b border-gray-200">
+              {page.columns.map((column) => {
+                const numeric = page.ranges[column.name] !== undefined || ["integer", "decimal", "currency", "percent"].includes(column.type);
+                return (
+                  <th key={column.name} className={`px-3 py-2 font-medium text-gray-600 whitespace-nowrap ${numeric ? "text-right" : "text-left"}`}>
+                    <span className={`inline-flex items-center ${numeric ? "flex-row-reverse" : ""}`}>
+                      <button className="inline-flex items-center hover:text-gray-900" onClick={() => toggleSort(column.name)}>
+                        {column.name}
+                        {view.sort?.column === column.name && (
+                          view.sort.direction === "asc" ? <ArrowUp className="h-3 w-3 ml-1" /> : <ArrowDown className="h-3 w-3 ml-1" />
+                        )}
+                      </button>
+                      <ColumnFilter
+                        column={column}
+                        filter={view.filters.find(f => f.column === column.name)}
+                        onChange={(filter) => setFilter(column.name, filter)}
+                      />
+                    </span>
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {page.rows.map((row, index) => (
+              <tr key={page.offset + index} className="border-b border-gray-100 hover:bg-gray-50/50">
+                {page.columns.map((column) => {
+                  const value = row[column.name];
+                  return (
+                    <td
+                      key={column.name}
+                      className={`px-3 py-1.5 whitespace-nowrap ${typeof value === "number" ? "text-right tabular-nums" : ""}`}
+                      style={cellStyle(config.rules, column.name, value, page.ranges[column.name])}
+                    >
+                      {formatTableValue(value, column, config.formats[column.name])}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            {page.rows.length === 0 && (
+              <tr>
+                <td colSpan={page.columns.length} className="px-3 py-8 text-center text-gray-500">No rows match</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between mt-2 text-xs text-gray-500">
+        <span>{page.total === 0 ? "0 rows" : `${page.offset + 1}–${last} of ${page.total.toLocaleString()}`}</span>
+        <div className="flex items-center space-x-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0"
+            disabled={offset === 0}
+            onClick={() => setOffset(Math.max(offset - config.pageSize, 0))}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0"
+            disabled={offset + config.pageSize >= page.total}
+            onClick={() => setOffset(offset + config.pageSize)}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Editor state. A grouped table shows a query's result: one row per
+// combination of the grouping columns, with the measures alongside.
+interface MeasureDraft {
+  aggregation: Aggregation;
+  column: string;
+}
+
+interface TableDraft {
+  dataSourceId: string;
+  grouped: boolean;
+  groupBy: string[];
+  measures: MeasureDraft[];
+  pageSize: number;
+  formats: Record<string, TableColumnFormat>;
+  rules: TableRule[];
+}
+
+function toDraft(config: TableBlockConfig | undefined): TableDraft {
+  const query = config?.query;
+  return {
+    dataSourceId: config ? String(config.dataSourceId) : "",
+    grouped: !!query,
+    groupBy: (query?.dimensions ?? []).flatMap(dimension => (typeof dimension === "string" ? [dimension] : "column" in dimension ? [dimension.column] : [])),
+    measures: (query?.measures ?? []).flatMap(measure => ("aggregation" in measure ? [{ aggregation: measure.aggregation, column: measure.column ?? "" }] : [])),
+    pageSize: config?.pageSize ?? 25,
+    formats: config?.formats ?? {},
+    rules: config?.rules ?? [],
+  };
+}
+
+function toConfigShape(draft: TableDraft, query: TableBlockConfig["query"]): TableBlockConfig {
+  return {
+    dataSourceId: parseInt(draft.dataSourceId),
+    query,
+    columns: [],
+    filters: [],
+    pageSize: draft.pageSize,
+    formats: draft.formats,
+    rules: draft.rules,
+  };
+}
+
+const newRule = (kind: TableRule["kind"], column: string): TableRule => {
+  switch (kind) {
+    case "color_scale": return { kind, column, minColor: "#f8fafc", maxColor: "#6366f1" };
+    case "threshold": return { kind, column, operator: "gt", value: 0, color: "#fee2e2" };
+    case "data_bar": return { kind, column, color: "#a5b4fc" };
+  }
+};
+
+const ruleLabels: Record<TableRule["kind"], string> = {
+  color_scale: "Color scale",
+  threshold: "Threshold color",
+  data_bar: "Data bar",
+};
+
+interface TableSettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+  config: TableBlockConfig | undefined;
+  dataSources: DataSource[];
+  onSave: (config: TableBlockConfig) => void;
+}
+
+function TableSettingsSheet({ isOpen, onClose, config, dataSources, onSave }: TableSettingsProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<TableDraft>(() => toDraft(config));
+
+  useEffect(() => {
+    if (isOpen) setDraft(toDraft(config));
+  }, [isOpen, config]);
+
+  const { data: schema } = useQuery<ColumnSchema[]>({
+    queryKey: [`/api/data-sources/${draft.dataSourceId}/schema`],
+    enabled: isOpen && !!draft.dataSourceId,
+  });
+
+  const dataSourceId = parseInt(draft.dataSourceId);
+  const measures = draft.measures.filter(measure => measure.aggregation === "count" || measure.column);
+  // Settings of a saved query that the editor doesn't show, like its time zone, are kept
+  const base = config?.query && config.dataSourceId === dataSourceId
+    ? config.query
+    : { filters: [], sort: [], timezone: "UTC", fiscalYearStartMonth: 1 };
+  const query: TableBlockConfig["query"] = draft.grouped && draft.groupBy.length + measures.length > 0
+    ? {
+      ...base,
+      dataSourceId,
+      dimensions: draft.groupBy,
+      measures: measures.map(({ aggregation, column }) => ({ aggregation, column: column || undefined })),
+    }
+    : undefined;
+
+  // The columns the table will have, for formats and rules
+  const preview = viewSpec({ ...toConfigShape(draft, query), pageSize: 1 }, { columns: [], filters: [] }, 0);
+  const { data: previewPage } = useQuery<TablePage>({
+    queryKey: ["/api/table", preview],
+    queryFn: () => fetchTablePage(preview),
+    enabled: isOpen && !!draft.dataSourceId && (!draft.grouped || !!query),
+  });
+  const columns = previewPage?.available ?? [];
+
+  const handleSave = () => {
+    const sameSource = config && config.dataSourceId === dataSourceId && JSON.stringify(config.query) === JSON.stringify(query);
+    const parsed = tableBlockConfigSchema.safeParse({
+      ...toConfigShape(draft, query),
+      // Columns, filters and the sort are kept unless the rows change shape
+      columns: sameSource ? config.columns : [],
+      filters: sameSource ? config.filters : [],
+      sort: sameSource ? config.sort : undefined,
+    });
+    if (!parsed.success) {
+      toast({
+        title: "Invalid table",
+        description: parsed.error.errors[0]?.message ?? "Check the table settings",
+        variant: "destructive",
+      });
+      return;
+    }
+    onSave(parsed.data);
+    onClose();
+  };
+
+  const setFormat = (column: string, changes: Partial<TableColumnFormat>) => {
+    const format: TableColumnFormat = { ...(draft.formats[column] ?? { format: "auto" }), ...changes };
+    const formats = { ...draft.formats, [column]: format };
+    if (format.format === "auto" && format.decimals === undefined && !format.currency) delete formats[column];
+    setDraft({ ...draft, formats });
+  };
+
+  const setRule = (index: number, rule: TableRule) =>
+    setDraft({ ...draft, rules: draft.rules.map((r, i) => (i === index ? rule : r)) });
+
+  const columnSelect = (value: string, onSelect: (column: string) => void, options: string[]) => (
+    <Select value={value} onValueChange={onSelect}>
+      <SelectTrigger>
+        <SelectValue placeholder="Column" />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((name) => (
+          <SelectItem key={name} value={name}>{name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const colorInput = (value: string, onPick: (color: string) => void, title: string) => (
+    <input type="color" value={value} onChange={(e) => onPick(e.target.value)} title={title} className="h-9 w-10 rounded border cursor-pointer" />
+  );
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center">
+            <Settings2 className="h-5 w-5 mr-2 text-indigo-600" />
+            Table Settings
+          </SheetTitle>
+          <SheetDescription>
+            Choose columns, sort and filter from the table itself. Formats and rules apply to every page.
+          </SheetDescription>
+        </SheetHeader>
+
+        <Tabs defaultValue="data" className="mt-6">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="data">Data</TabsTrigger>
+            <TabsTrigger value="formats" disabled={columns.length === 0}>Formats</TabsTrigger>
+            <TabsTrigger value="rules" disabled={columns.length === 0}>Rules</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="data" className="space-y-6 mt-4">
+            <div className="space-y-2">
+              <Label>Data Source</Label>
+              <Select
+                value={draft.dataSourceId}
+                onValueChange={(id) => setDraft({ ...toDraft(undefined), dataSourceId: id, pageSize: draft.pageSize })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a data source" />
+                </SelectTrigger>
+                <SelectContent>
+                  {dataSources.map((source) => (
+                    <SelectItem key={source.id} value={String(source.id)}>{source.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Rows</Label>
+              <Select
+                value={draft.grouped ? "grouped" : "rows"}
+                onValueChange={(mode) => setDraft({ ...draft, grouped: mode === "grouped", formats: {}, rules: [] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="rows">Every row of the data source</SelectItem>
+                  <SelectItem value="grouped">Grouped, with totals per group</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {draft.grouped && (
+              <>
+                <div className="space-y-2">
+                  <Label>Group by</Label>
+                  <div className="grid grid-cols-2 gap-2 max-h-40 overflow-y-auto border rounded-lg p-2">
+                    {(schema ?? []).map((column) => (
+                      <label key={column.name} className="flex items-center space-x-2 text-sm">
+                        <Checkbox
+                          checked={draft.groupBy.includes(column.name)}
+                          onCheckedChange={(checked) => setDraft({
+                            ...draft,
+                            groupBy: checked === true ? [...draft.groupBy, column.name] : draft.groupBy.filter(name => name !== column.name),
+                          })}
+                        />
+                        <span className="truncate">{column.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Measures</Label>
+                  {draft.measures.map((measure, index) => (
+                    <div key={index} className="flex items-center space-x-2">
+                      <Select
+                        value={measure.aggregation}
+                        onValueChange={(aggregation) => setDraft({
+                          ...draft,
+                          measures: draft.measures.map((m, i) => (i === index ? { ...m, aggregation: aggregation as Aggregation } : m)),
+                        })}
+                      >
+                        <SelectTrigger className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {queryAggregations.filter(aggregation => aggregation !== "percentile").map((aggregation) => (
+                            <SelectItem key={aggregation} value={aggregation}>{aggregation}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {columnSelect(
+                        measure.column,
+                        (column) => setDraft({ ...draft, measures: draft.measures.map((m, i) => (i === index ? { ...m, column } : m)) }),
+                        (schema ?? []).map(column => column.name),
+                      )}
+                      <Button variant="ghost" size="sm" onClick={() => setDraft({ ...draft, measures: draft.measures.filter((_, i) => i !== index) })}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={!draft.dataSourceId}
+                    onClick={() => setDraft({ ...draft, measures: [...draft.measures, { aggregation: "sum", column: "" }] })}
+                  >
+                    <Plus className="h-3 w-3 mr-1" />
+                    Add Measure
+                  </Button>
+                </div>
+              </>
+            )}
+
+            <div className="space-y-2">
+              <Label>Rows per page</Label>
+              <Select value={String(draft.pageSize)} onValueChange={(size) => setDraft({ ...draft, pageSize: parseInt(size) })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[10, 25, 50, 100].map((size) => (
+                    <SelectItem key={size} value={String(size)}>{size}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="formats" className="space-y-2 mt-4">
+            {columns.map((column) => {
+              const format = draft.formats[column.name];
+              return (
+                <div key={column.name} className="flex items-center space-x-2">
+                  <span className="text-sm w-32 truncate" title={column.name}>{column.name}</span>
+                  <Select value={format?.format ?? "auto"} onValueChange={(next) => setFormat(column.name, { format: next as TableColumnFormat["format"] })}>
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {tableFormats.map((name) => (
+                        <SelectItem key={name} value={name}>{name === "auto" ? `auto (${column.type})` : name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={10}
+                    className="w-24"
+                    placeholder="Decimals"
+                    value={format?.decimals ?? ""}
+                    onChange={(e) => setFormat(column.name, { decimals: e.target.value === "" ? undefined : Math.min(Math.max(parseInt(e.target.value) || 0, 0), 10) })}
+                  />
+                  {format?.format === "currency" && (
+                    <Input
+                      className="w-20"
+                      placeholder="USD"
+                      maxLength={3}
+                      value={format.currency ?? ""}
+                      onChange={(e) => setFormat(column.name, { currency: e.target.value.toUpperCase() || undefined })}
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </TabsContent>
+
+          <TabsContent value="rules" className="space-y-3 mt-4">
+            {draft.rules.map((rule, index) => (
+              <div key={index} className="border rounded-lg p-3 space-y-2">
+                <div className="flex items-center space-x-2">
+                  <Select value={rule.kind} onValueChange={(kind) => setRule(index, newRule(kind as TableRule["kind"], rule.column))}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(ruleLabels) as TableRule["kind"][]).map((kind) => (
+                        <SelectItem key={kind} value={kind}>{ruleLabels[kind]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {columnSelect(
+                    rule.column,
+                    (column) => setRule(index, { ...rule, column }),
+                    columns.filter(column => rule.kind === "threshold" || previewPage?.ranges[column.name] !== undefined || ["integer", "decimal", "currency", "percent"].includes(column.type)).map(column => column.name),
+                  )}
+                  <Button variant="ghost" size="sm" onClick={() => setDraft({ ...draft, rules: draft.rules.filter((_, i) => i !== index) })}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {rule.kind === "color_scale" && (
+                    <>
+                      <span className="text-xs text-gray-500">Lowest</span>
+                      {colorInput(rule.minColor, (minColor) => setRule(index, { ...rule, minColor }), "Color of the lowest value")}
+                      <span className="text-xs text-gray-500">Highest</span>
+                      {colorInput(rule.maxColor, (maxColor) => setRule(index, { ...rule, maxColor }), "Color of the highest value")}
+                    </>
+                  )}
+                  {rule.kind === "data_bar" && (
+                    <>
+                      <span className="text-xs text-gray-500">Bar</span>
+                      {colorInput(rule.color, (color) => setRule(index, { ...rule, color }), "Bar color")}
+                    </>
+                  )}
+                  {rule.kind === "threshold" && (
+                    <>
+                      <Select value={rule.operator} onValueChange={(operator) => setRule(index, { ...rule, operator: operator as ThresholdOperator })}>
+                        <SelectTrigger className="w-20">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {thresholdOperators.map((operator) => (
+                            <SelectItem key={operator} value={operator}>{filterOperators[operator]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        className="w-28"
+                        value={String(rule.value)}
+                        onChange={(e) => {
+                          const number = Number(e.target.value);
+                          setRule(index, { ...rule, value: e.target.value.trim() !== "" && !isNaN(number) ? number : e.target.value });
+                        }}
+                      />
+                      <span className="text-xs text-gray-500">Fill</span>
+                      {colorInput(rule.color, (color) => setRule(index, { ...rule, color }), "Cell color")}
+                      <span className="text-xs text-gray-500">Text</span>
+                      {colorInput(rule.textColor ?? "#111827", (textColor) => setRule(index, { ...rule, textColor }), "Text color")}
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={draft.rules.length >= 50}
+              onClick={() => setDraft({ ...draft, rules: [...draft.rules, newRule("threshold", "")] })}
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Add Rule
+            </Button>
+          </TabsContent>
+        </Tabs>
+
+        <div className="flex justify-end space-x-2 mt-6">
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            className="bg-indigo-600 hover:bg-indigo-700"
+            onClick={handleSave}
+            disabled={!draft.dataSourceId || (draft.grouped && !query) || draft.rules.some(rule => !rule.column)}
+          >
+            Save
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+// The settings saved in a block's content, or undefined until it has been configured
+export function tableConfigOf(content: unknown): TableBlockConfig | undefined {
+  const parsed = tableBlockConfigSchema.safeParse((content as Record<string, unknown> | null)?.table);
+  return parsed.success ? parsed.data : undefined;
+}
+
+interface TableBlockProps {
+  block: Block;
+  dataSources: DataSource[];
+  onDelete: (blockId: string) => void;
+  onUpdate: (blockId: string, updates: Partial<Block>) => void;
+}
+
+export default function TableBlock({ block, dataSources, onDelete, onUpdate }: TableBlockProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const config = useMemo(() => tableConfigOf(block.content), [block.content]);
+
+  const handleSave = (table: TableBlockConfig) => {
+    onUpdate(block.id, { content: { ...(block.content as Record<string, unknown> | null), table } });
+  };
+
+  return (
+    <Card className="h-full group relative">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          {isEditing ? (
+            <input
+              type="text"
+              defaultValue={block.title}
+              onBlur={(e) => {
+                onUpdate(block.id, { title: e.target.value });
+                setIsEditing(false);
+              }}
+              onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+              className="text-lg font-medium bg-transparent border-none outline-none focus:ring-2 focus:ring-indigo-500 rounded px-2 py-1"
+              autoFocus
+            />
+          ) : (
+            <CardTitle className="text-lg flex items-center">
+              <TableIcon className="h-5 w-5 text-indigo-500 mr-2" />
+              {block.title}
+            </CardTitle>
+          )}
+          <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => setShowSettings(true)}>
+              <Settings2 className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => setIsEditing(true)}>
+              <Edit3 className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0 text-red-600 hover:text-red-700"
+              onClick={() => onDelete(block.id)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        {block.description && (
+          <p className="text-sm text-gray-600">{block.description}</p>
+        )}
+      </CardHeader>
+      <CardContent>
+        {config ? (
+          <TableView config={config} onChange={handleSave} />
+        ) : (
+          <div className="h-32 bg-gray-50 rounded-lg flex flex-col items-center justify-center">
+            <TableIcon className="h-10 w-10 text-gray-400 mb-2" />
+            <Button variant="outline" size="sm" onClick={() => setShowSettings(true)}>
+              Choose a data source
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      <TableSettingsSheet
+        isOpen={showSettings}
+        onClose={() => setShowSettings(false)}
+        config={config}
+        dataSources={dataSources}
+        onSave={handleSave}
+      />
+    </Card>
+  );
+}
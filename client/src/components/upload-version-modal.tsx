@@ -0,0 +1,294 @@
+import { useRef, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Progress } from "@/components/ui/progress";
+import { uploadInChunks } from "@/lib/chunkedUpload";
+import { AlertTriangle, File, Upload } from "lucide-react";
+import type { DataSource } from "@shared/schema";
+
+interface UploadVersionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  dataSource: DataSource;
+}
+
+interface SheetSummary {
+  name: string;
+  rowCount: number;
+  columnCount: number;
+}
+
+type UploadMode = "replace" | "append";
+
+// Thrown for 409 responses so the dialog can list the mismatched columns
+class SchemaConflictError extends Error {
+  constructor(message: string, public conflicts: string[]) {
+    super(message);
+  }
+}
+
+const isExcel = (filename: string) => /\.xlsx$/i.test(filename);
+
+export default function UploadVersionModal({ isOpen, onClose, dataSource }: UploadVersionModalProps) {
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<UploadMode>("replace");
+  const [sheets, setSheets] = useState<SheetSummary[]>([]);
+  const [selectedSheet, setSelectedSheet] = useState<string>("");
+  const [conflicts, setConflicts] = useState<string[]>([]);
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const [uploadId, setUploadId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const id = uploadId ?? await uploadInChunks(file, (fraction) => setUploadProgress(fraction * 100));
+      setUploadId(id);
+
+      const formData = new FormData();
+      formData.append("uploadId", id);
+      formData.append("mode", mode);
+      if (isExcel(file.name) && selectedSheet) {
+        formData.append("sheet", selectedSheet);
+      }
+
+      const response = await fetch(`/api/data-sources/${dataSource.id}/versions`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+
+      if (response.status === 409) {
+        const body = await response.json();
+        throw new SchemaConflictError(body.message, body.conflicts || []);
+      }
+      if (!response.ok) {
+        const text = await response.text();
+        throw new Error(`${response.status}: ${text}`);
+      }
+
+      return response.json();
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "New Version Uploaded",
+        description: `${dataSource.name} is now at version ${result.version.version} with ${result.version.rowCount.toLocaleString()} rows.`,
+      });
+
+      queryClient.invalidateQueries({ queryKey: ["/api/data-sources"] });
+      // Rows, schema, stats and versions of this source all changed
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith(`/api/data-sources/${dataSource.id}`),
+      });
+      handleClose();
+    },
+    onError: (error) => {
+      // The server discards the file after a failed import, so a retry sends it again
+      setUploadId(null);
+      setUploadProgress(0);
+      if (error instanceof SchemaConflictError) {
+        setConflicts(error.conflicts);
+        return;
+      }
+      toast({
+        title: "Upload Failed",
+        description: error.message || "Failed to upload file. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const loadSheets = async (file: File) => {
+    const id = await uploadInChunks(file, (fraction) => setUploadProgress(fraction * 100));
+    setUploadId(id);
+
+    const formData = new FormData();
+    formData.append("uploadId", id);
+
+    const response = await fetch("/api/data-sources/sheets", {
+      method: "POST",
+      body: formData,
+      credentials: "include",
+    });
+    if (!response.ok) {
+      toast({
+        title: "Unreadable Workbook",
+        description: "Could not read the sheets in this Excel file.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const workbookSheets: SheetSummary[] = await response.json();
+    const currentSheet = (dataSource.config as Record<string, any>)?.sheet;
+    setSheets(workbookSheets);
+    setSelectedSheet(
+      workbookSheets.some(sheet => sheet.name === currentSheet) ? currentSheet : workbookSheets[0]?.name || ""
+    );
+  };
+
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setSelectedFile(file);
+    setConflicts([]);
+    setSheets([]);
+    setSelectedSheet("");
+    setUploadId(null);
+    setUploadProgress(0);
+    if (isExcel(file.name)) {
+      loadSheets(file).catch(() => {
+        toast({
+          title: "Upload Failed",
+          description: "Could not upload the workbook. Please try again.",
+          variant: "destructive",
+        });
+      });
+    }
+  };
+
+  const handleClose = () => {
+    if (uploadMutation.isPending) return;
+    setSelectedFile(null);
+    setMode("replace");
+    setSheets([]);
+    setSelectedSheet("");
+    setConflicts([]);
+    setUploadId(null);
+    setUploadProgress(0);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Upload New Version</DialogTitle>
+          <DialogDescription>
+            Blocks using {dataSource.name} will show the new data. Earlier versions can be restored from the version history.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="flex items-center justify-between border rounded-lg p-4">
+            <div className="flex items-center space-x-3 min-w-0">
+              <File className="h-8 w-8 text-indigo-500 flex-shrink-0" />
+              <span className="text-sm text-gray-900 truncate">
+                {selectedFile ? selectedFile.name : "No file selected"}
+              </span>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploadMutation.isPending}
+            >
+              Choose File
+            </Button>
+          </div>
+
+          {uploadProgress > 0 && uploadProgress < 100 && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-gray-600">Uploading...</span>
+                <span className="text-gray-600">{Math.round(uploadProgress)}%</span>
+              </div>
+              <Progress value={uploadProgress} className="h-2" />
+            </div>
+          )}
+
+          {sheets.length > 0 && (
+            <div className="space-y-2">
+              <Label>Sheet</Label>
+              <Select value={selectedSheet} onValueChange={setSelectedSheet}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {sheets.map(sheet => (
+                    <SelectItem key={sheet.name} value={sheet.name}>
+                      {sheet.name} ({sheet.rowCount} rows)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <RadioGroup value={mode} onValueChange={(value) => { setMode(value as UploadMode); setConflicts([]); }}>
+            <label className="flex items-start space-x-3 cursor-pointer">
+              <RadioGroupItem value="replace" className="mt-1" />
+              <div>
+                <p className="text-sm font-medium text-gray-900">Replace all rows</p>
+                <p className="text-sm text-gray-500">The file becomes the full contents of the data source.</p>
+              </div>
+            </label>
+            <label className="flex items-start space-x-3 cursor-pointer">
+              <RadioGroupItem value="append" className="mt-1" />
+              <div>
+                <p className="text-sm font-medium text-gray-900">Append rows</p>
+                <p className="text-sm text-gray-500">The file's rows are added after the existing ones. Its columns must match.</p>
+              </div>
+            </label>
+          </RadioGroup>
+
+          {conflicts.length > 0 && (
+            <div className="rounded-lg border border-red-200 bg-red-50 p-4">
+              <div className="flex items-center space-x-2 text-sm font-medium text-red-800 mb-2">
+                <AlertTriangle className="h-4 w-4" />
+                <span>This file can't be appended</span>
+              </div>
+              <ul className="list-disc list-inside text-sm text-red-700 space-y-1">
+                {conflicts.map(conflict => (
+                  <li key={conflict}>{conflict}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex items-center justify-end space-x-3 pt-4">
+            <Button variant="outline" onClick={handleClose} disabled={uploadMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => selectedFile && uploadMutation.mutate(selectedFile)}
+              disabled={!selectedFile || uploadMutation.isPending}
+              className="bg-indigo-600 hover:bg-indigo-700"
+            >
+              {uploadMutation.isPending ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                  Uploading...
+                </>
+              ) : (
+                <>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Upload
+                </>
+              )}
+            </Button>
+          </div>
+        </div>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.xlsx,.tsv,.txt,.json,.ndjson,.jsonl"
+          onChange={handleFileInputChange}
+          className="hidden"
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
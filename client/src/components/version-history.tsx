@@ -0,0 +1,120 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { History, RotateCcw } from "lucide-react";
+import type { DataSource, DataSourceVersionWithUploader } from "@shared/schema";
+
+interface VersionHistoryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  dataSource: DataSource;
+}
+
+const modeLabels: Record<string, string> = {
+  create: "Initial upload",
+  replace: "Replaced",
+  append: "Appended",
+  refresh: "Refreshed",
+};
+
+const uploaderName = (version: DataSourceVersionWithUploader) => {
+  if (!version.uploadedBy) return "Unknown user";
+  const { firstName, lastName, email } = version.uploadedBy;
+  return [firstName, lastName].filter(Boolean).join(" ") || email;
+};
+
+export default function VersionHistory({ isOpen, onClose, dataSource }: VersionHistoryProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: versions, isLoading } = useQuery<DataSourceVersionWithUploader[]>({
+    queryKey: [`/api/data-sources/${dataSource.id}/versions`],
+    enabled: isOpen,
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (versionId: number) => {
+      return await apiRequest(`/api/data-sources/${dataSource.id}/versions/${versionId}/rollback`, {
+        method: "POST",
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/data-sources"] });
+      // Rows, schema, stats and versions of this source all changed
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith(`/api/data-sources/${dataSource.id}`),
+      });
+      toast({
+        title: "Version Restored",
+        description: `${dataSource.name} has been rolled back.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to roll back data source",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-96 overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Version History</SheetTitle>
+          <SheetDescription>Every upload into {dataSource.name}, newest first.</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-3">
+          {isLoading ? (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-indigo-600 mx-auto"></div>
+            </div>
+          ) : versions && versions.length > 0 ? (
+            versions.map((version) => {
+              const isCurrent = version.id === dataSource.currentVersionId;
+              return (
+                <div key={version.id} className={`border rounded-lg p-4 ${isCurrent ? "border-indigo-300 bg-indigo-50" : ""}`}>
+                  <div className="flex items-center justify-between mb-1">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-gray-900">Version {version.version}</span>
+                      {isCurrent && <Badge className="bg-indigo-600">Current</Badge>}
+                    </div>
+                    {!isCurrent && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => rollbackMutation.mutate(version.id)}
+                        disabled={rollbackMutation.isPending}
+                      >
+                        <RotateCcw className="h-3 w-3 mr-1" />
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    {modeLabels[version.mode] || version.mode} · {version.rowCount.toLocaleString()} rows
+                  </p>
+                  {version.fileName && <p className="text-sm text-gray-500 truncate">{version.fileName}</p>}
+                  <p className="text-xs text-gray-500 mt-1">
+                    {uploaderName(version)}
+                    {version.createdAt && ` · ${new Date(version.createdAt).toLocaleString()}`}
+                  </p>
+                </div>
+              );
+            })
+          ) : (
+            <div className="text-center py-8">
+              <History className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+              <p className="text-sm text-gray-500">No versions recorded yet.</p>
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,89 @@
+import { throwIfResNotOk } from "./queryClient";
+
+// Sends a file to /api/uploads in chunks and resolves with the upload id that
+// data source requests accept in place of a multipart file. Failed chunks are
+// retried after asking the server how much it already has, and an upload of
+// the same file interrupted by a reload picks up where it stopped.
+
+interface UploadSession {
+  id: string;
+  size: number;
+  receivedBytes: number;
+  chunkSize: number;
+}
+
+const MAX_ATTEMPTS = 5;
+const RETRY_DELAY_MS = 1000;
+
+// Remembers unfinished uploads across page reloads
+const resumeKey = (file: File) => `upload:${file.name}:${file.size}:${file.lastModified}`;
+
+async function fetchSession(id: string): Promise<UploadSession | null> {
+  const res = await fetch(`/api/uploads/${id}`, { credentials: "include" });
+  if (res.status === 404) return null;
+  await throwIfResNotOk(res);
+  return res.json();
+}
+
+async function startSession(file: File): Promise<UploadSession> {
+  const saved = localStorage.getItem(resumeKey(file));
+  if (saved) {
+    const session = await fetchSession(saved).catch(() => null);
+    if (session && session.size === file.size) return session;
+    localStorage.removeItem(resumeKey(file));
+  }
+
+  const res = await fetch("/api/uploads", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ fileName: file.name, size: file.size }),
+    credentials: "include",
+  });
+  await throwIfResNotOk(res);
+  const session: UploadSession = await res.json();
+  localStorage.setItem(resumeKey(file), session.id);
+  return session;
+}
+
+export async function uploadInChunks(
+  file: File,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal,
+): Promise<string> {
+  const session = await startSession(file);
+  let offset = session.receivedBytes;
+  let attempts = 0;
+  onProgress?.(file.size === 0 ? 1 : offset / file.size);
+
+  while (offset < file.size) {
+    signal?.throwIfAborted();
+    const chunk = file.slice(offset, offset + session.chunkSize);
+
+    try {
+      const res = await fetch(`/api/uploads/${session.id}/chunks?offset=${offset}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/octet-stream" },
+        body: chunk,
+        credentials: "include",
+        signal,
+      });
+      await throwIfResNotOk(res);
+      const updated: UploadSession = await res.json();
+      offset = updated.receivedBytes;
+      attempts = 0;
+      onProgress?.(offset / file.size);
+    } catch (error) {
+      if (signal?.aborted || ++attempts >= MAX_ATTEMPTS) throw error;
+
+      // Resync with what the server actually stored before trying again
+      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * attempts));
+      const current = await fetchSession(session.id).catch(() => null);
+      if (current) {
+        offset = current.receivedBytes;
+      }
+    }
+  }
+
+  localStorage.removeItem(resumeKey(file));
+  return session.id;
+}
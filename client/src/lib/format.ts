@@ -0,0 +1,82 @@
+import type { QueryColumn, TableColumn, TableColumnFormat } from "@shared/schema";
+
+type QueryValue = string | number | boolean | null | undefined;
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+// Bucketed dates hold the first day of their bucket, so they are labelled by the bucket
+function formatDate(value: string, bucket: QueryColumn["bucket"]): string {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  if (!match) return value;
+  const [, year, month, day] = match;
+  switch (bucket) {
+    case "year":
+      return year;
+    case "quarter":
+      return `Q${Math.floor((parseInt(month) - 1) / 3) + 1} ${year}`;
+    case "month":
+      return `${MONTHS[parseInt(month) - 1]} ${year}`;
+    case "week":
+      return `Week of ${year}-${month}-${day}`;
+    default:
+      return value.length > 10 ? value.replace("T", " ").replace(/\.\d+Z?$|Z$/, "") : value;
+  }
+}
+
+// Formats a cell of a query result by its semantic format, or else its column type.
+// Percents are stored as fractions.
+export function formatQueryValue(value: QueryValue, column: QueryColumn | undefined): string {
+  if (value === null || value === undefined) return "–";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+
+  const kind = column?.format ?? column?.type;
+  if (typeof value === "number") {
+    switch (kind) {
+      case "integer":
+        return Math.round(value).toLocaleString();
+      case "currency":
+        return value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+      case "percent":
+        return value.toLocaleString(undefined, { style: "percent", maximumFractionDigits: 1 });
+      default:
+        return value.toLocaleString(undefined, { maximumFractionDigits: Math.abs(value) >= 1000 ? 0 : 2 });
+    }
+  }
+  return kind === "date" || kind === "datetime" || column?.bucket ? formatDate(value, column?.bucket) : value;
+}
+
+// Formats a table block cell by the format chosen for its column; "auto" falls
+// back to the column type
+export function formatTableValue(value: unknown, column: TableColumn, format?: TableColumnFormat): string {
+  if (value === null || value === undefined || value === "") return "–";
+  const kind = !format || format.format === "auto" ? column.type : format.format;
+  const number = typeof value === "number" ? value : Number(value);
+  const digits = format?.decimals;
+
+  if (kind === "text") return String(value);
+  if (kind === "date" || kind === "datetime") {
+    const date = new Date(String(value));
+    if (isNaN(date.getTime())) return String(value);
+    // Plain dates are stored without a time zone; read them as UTC so they don't shift a day
+    return kind === "date"
+      ? date.toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric", timeZone: /^\d{4}-\d{2}-\d{2}$/.test(String(value)) ? "UTC" : undefined })
+      : date.toLocaleString(undefined, { year: "numeric", month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+  }
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (isNaN(number)) return String(value);
+
+  switch (kind) {
+    case "integer":
+      return number.toLocaleString(undefined, { maximumFractionDigits: digits ?? 0 });
+    case "currency":
+      return number.toLocaleString(undefined, {
+        ...(format?.currency ? { style: "currency", currency: format.currency } : {}),
+        minimumFractionDigits: digits ?? 2,
+        maximumFractionDigits: digits ?? 2,
+      });
+    case "percent":
+      return number.toLocaleString(undefined, { style: "percent", maximumFractionDigits: digits ?? 1, minimumFractionDigits: digits ?? 0 });
+    default:
+      return number.toLocaleString(undefined, { maximumFractionDigits: digits ?? 2, minimumFractionDigits: digits ?? 0 });
+  }
+}
@@ -10,6 +10,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import DraggableToolbar from "@/components/draggable-toolbar";
 import AIBlock from "@/components/ai-block";
+import PivotBlock from "@/components/pivot-block";
+import TableBlock from "@/components/table-block";
 import DataSourceModal from "@/components/data-source-modal";
 import SmartInsightsModal from "@/components/smart-insights-modal";
 import EpesiAgentModal from "@/components/epesi-agent-modal";
@@ -19,7 +21,6 @@ import {
   BarChart3, 
   FileText, 
   Target, 
-  Table, 
   Database, 
   Plus,
   Eye,
@@ -90,12 +91,11 @@ export default function DashboardBuilder() {
   // Mutations
   const createBlockMutation = useMutation({
     mutationFn: async (blockData: any) => {
-      const response = await apiRequest("/api/blocks", {
+      return await apiRequest("/api/blocks", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(blockData),
       });
-      return response.json();
     },
     onSuccess: (newBlock) => {
       setBlocks(prev => [...prev, newBlock]);
@@ -116,12 +116,11 @@ export default function DashboardBuilder() {
 
   const updateBlockMutation = useMutation({
     mutationFn: async ({ blockId, updates }: { blockId: string, updates: Partial<Block> }) => {
-      const response = await apiRequest(`/api/blocks/${blockId}`, {
+      return await apiRequest(`/api/blocks/${blockId}`, {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(updates),
       });
-      return response.json();
     },
     onSuccess: (updatedBlock) => {
       setBlocks(prev => prev.map(block => 
@@ -167,7 +166,7 @@ export default function DashboardBuilder() {
     const newBlock = {
       id: blockId,
       dashboardId: Number(id),
-      title: type === 'ai' ? 'AI Assistant' : `New ${type} Block`,
+      title: type === 'ai' ? 'AI Assistant' : type === 'pivot' ? 'Pivot Table' : type === 'table' ? 'Table' : `New ${type} Block`,
       description: type === 'ai' ? 'Ask AI to generate charts and insights' : `A new ${type} block for your dashboard`,
       type: type,
       size: 4,
@@ -206,6 +205,14 @@ export default function DashboardBuilder() {
     handleCreateBlock('chart');
   };
 
+  const handlePivotClick = () => {
+    handleCreateBlock('pivot');
+  };
+
+  const handleTableClick = () => {
+    handleCreateBlock('table');
+  };
+
   const handleInsightsClick = () => {
     setShowSmartInsightsModal(true);
   };
@@ -348,6 +355,20 @@ export default function DashboardBuilder() {
                     onDelete={handleDeleteBlock}
                     onUpdate={handleUpdateBlock}
                   />
+                ) : block.type === 'pivot' ? (
+                  <PivotBlock
+                    block={block}
+                    dataSources={(dataSources as DataSource[] | undefined) ?? []}
+                    onDelete={handleDeleteBlock}
+                    onUpdate={handleUpdateBlock}
+                  />
+                ) : block.type === 'table' ? (
+                  <TableBlock
+                    block={block}
+                    dataSources={(dataSources as DataSource[] | undefined) ?? []}
+                    onDelete={handleDeleteBlock}
+                    onUpdate={handleUpdateBlock}
+                  />
                 ) : (
                   <Card className="h-full group relative">
                     <CardHeader className="pb-3">
@@ -376,7 +397,6 @@ export default function DashboardBuilder() {
                         {block.type === 'chart' && <BarChart3 className="h-12 w-12 text-gray-400" />}
                         {block.type === 'text' && <FileText className="h-12 w-12 text-gray-400" />}
                         {block.type === 'metric' && <Target className="h-12 w-12 text-gray-400" />}
-                        {block.type === 'table' && <Table className="h-12 w-12 text-gray-400" />}
                         {block.type === 'pie' && <PieChart className="h-12 w-12 text-gray-400" />}
                         {block.type === 'line' && <LineChart className="h-12 w-12 text-gray-400" />}
                         {block.type === 'activity' && <Activity className="h-12 w-12 text-gray-400" />}
@@ -397,6 +417,8 @@ export default function DashboardBuilder() {
         onAIClick={handleAIClick}
         onTextClick={handleTextClick}
         onChartClick={handleChartClick}
+        onPivotClick={handlePivotClick}
+        onTableClick={handleTableClick}
         onInsightsClick={handleInsightsClick}
         onDataClick={handleDataClick}
         onAgentClick={handleAgentClick}
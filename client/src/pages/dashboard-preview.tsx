@@ -23,6 +23,8 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
+import { PivotTable, pivotConfigOf } from "@/components/pivot-block";
+import { TableView, tableConfigOf } from "@/components/table-block";
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
 import {
   BarChart,
@@ -42,7 +44,7 @@ import {
 
 interface Block {
   id: string;
-  type: 'ai' | 'text' | 'chart' | 'data' | 'insights';
+  type: 'ai' | 'text' | 'chart' | 'data' | 'insights' | 'pivot' | 'table';
   title: string;
   position: { x: number; y: number };
   size: { width: number; height: number };
@@ -307,6 +309,8 @@ export default function DashboardPreview() {
   // Render different block types
   const renderBlock = (block: Block) => {
     const gridColSpan = Math.min(Math.max(block.size?.width || 1, 1), 4); // Adjusted for mobile-first grid
+    const pivotConfig = block.type === 'pivot' ? pivotConfigOf(block.content) : undefined;
+    const tableConfig = block.type === 'table' ? tableConfigOf(block.content) : undefined;
     
     return (
       <Card 
@@ -330,6 +334,10 @@ export default function DashboardPreview() {
             <div className="prose prose-sm max-w-none">
               <p className="text-gray-700">{block.content?.text || 'No text content'}</p>
             </div>
+          ) : pivotConfig ? (
+            <PivotTable config={pivotConfig} refetchInterval={autoRefresh ? 60_000 : false} />
+          ) : tableConfig ? (
+            <TableView config={tableConfig} refetchInterval={autoRefresh ? 60_000 : false} />
           ) : block.type === 'insights' ? (
             <div className="space-y-2">
               <h4 className="font-medium text-gray-900">Key Insights</h4>
@@ -0,0 +1,346 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useParams, Link } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import Sidebar from "@/components/sidebar";
+import ColumnStatsPanel from "@/components/column-stats-panel";
+import UploadVersionModal from "@/components/upload-version-modal";
+import VersionHistory from "@/components/version-history";
+import RefreshScheduleSheet from "@/components/refresh-schedule";
+import CalculatedFieldsSheet from "@/components/calculated-fields";
+import CleaningStepsSheet from "@/components/cleaning-steps";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, ArrowDown, ArrowUp, ArrowUpDown, BarChart3, Calculator, ChevronLeft, ChevronRight, Clock, History, RefreshCw, Search, Upload, Wand2 } from "lucide-react";
+import type { ColumnSchema, DataSource, Organization } from "@shared/schema";
+
+interface RowsPage {
+  rows: Record<string, unknown>[];
+  total: number;
+  offset: number;
+  limit: number;
+  columns: ColumnSchema[];
+}
+
+const PAGE_SIZE = 50;
+
+const NUMERIC_TYPES = ["integer", "decimal", "currency", "percent"];
+
+// Sources whose rows are pulled from an external system or other sources rather than uploaded
+const CONNECTOR_TYPES = ["database", "api", "blend"];
+
+export default function DataSourceDetail() {
+  const { id } = useParams();
+  const { isAuthenticated } = useAuth();
+  const [selectedOrganization, setSelectedOrganization] = useState<Organization | null>(null);
+  const [offset, setOffset] = useState(0);
+  const [sort, setSort] = useState<{ column: string; direction: "asc" | "desc" } | null>(null);
+  const [filter, setFilter] = useState("");
+  const [isUploadOpen, setIsUploadOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isScheduleOpen, setIsScheduleOpen] = useState(false);
+  const [isFieldsOpen, setIsFieldsOpen] = useState(false);
+  const [isCleaningOpen, setIsCleaningOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: organizations } = useQuery<Organization[]>({
+    queryKey: ["/api/organizations"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: dataSource, isLoading: dataSourceLoading } = useQuery<DataSource>({
+    queryKey: [`/api/data-sources/${id}`],
+    enabled: !!id,
+  });
+
+  const { data: page, isLoading: rowsLoading } = useQuery<RowsPage>({
+    queryKey: [`/api/data-sources/${id}/rows`, {
+      offset,
+      limit: PAGE_SIZE,
+      sort: sort ? `${sort.column}:${sort.direction}` : undefined,
+      filter: filter || undefined,
+    }],
+    enabled: !!id,
+    placeholderData: (previous) => previous,
+  });
+
+  const refreshMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(`/api/data-sources/${id}/refresh`, { method: "POST" });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/data-sources"] });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith(`/api/data-sources/${id}`),
+      });
+      toast({
+        title: "Data Refreshed",
+        description: "The latest rows were pulled into a new version.",
+      });
+    },
+    onError: (error) => {
+      // The failed run is recorded too
+      queryClient.invalidateQueries({ queryKey: [`/api/data-sources/${id}/refresh-runs`] });
+      toast({
+        title: "Refresh Failed",
+        description: error.message || "Failed to refresh data source",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Set first organization as selected when organizations load
+  useEffect(() => {
+    if (organizations && organizations.length > 0 && !selectedOrganization) {
+      setSelectedOrganization(organizations[0]);
+    }
+  }, [organizations, selectedOrganization]);
+
+  // Go back to the first page whenever the view changes
+  useEffect(() => {
+    setOffset(0);
+  }, [sort, filter]);
+
+  const toggleSort = (column: string) => {
+    setSort(prev => {
+      if (!prev || prev.column !== column) return { column, direction: "asc" };
+      if (prev.direction === "asc") return { column, direction: "desc" };
+      return null;
+    });
+  };
+
+  const formatCell = (value: unknown) => {
+    if (value === null || value === undefined) return <span className="text-gray-300">null</span>;
+    return String(value);
+  };
+
+  if (dataSourceLoading) {
+    return (
+      <div className="flex h-screen">
+        <Sidebar />
+        <div className="flex-1 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!dataSource) {
+    return (
+      <div className="flex h-screen">
+        <Sidebar organizations={organizations || []} selectedOrganization={selectedOrganization} onOrganizationChange={setSelectedOrganization} />
+        <div className="flex-1 flex items-center justify-center">
+          <div className="text-center">
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">Data Source Not Found</h2>
+            <p className="text-gray-600">The data source you're looking for doesn't exist or you don't have access to it.</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const columns = page?.columns || dataSource.schema || [];
+  const total = page?.total || 0;
+  const firstRow = total === 0 ? 0 : offset + 1;
+  const lastRow = Math.min(offset + PAGE_SIZE, total);
+
+  return (
+    <div className="flex h-screen bg-gray-50">
+      <Sidebar organizations={organizations || []} selectedOrganization={selectedOrganization} onOrganizationChange={setSelectedOrganization} />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        {/* Header */}
+        <header className="bg-white border-b border-gray-200 sticky top-0 z-40">
+          <div className="flex items-center justify-between p-6">
+            <div className="flex items-center space-x-4">
+              <Link href="/data-sources">
+                <Button variant="ghost" size="sm">
+                  <ArrowLeft className="h-4 w-4" />
+                </Button>
+              </Link>
+              <h1 className="text-2xl font-bold text-gray-900">{dataSource.name}</h1>
+              <Badge variant="secondary">{dataSource.type}</Badge>
+              <span className="text-sm text-gray-500">
+                {total.toLocaleString()} rows · {columns.length} columns
+              </span>
+            </div>
+
+            <div className="flex items-center space-x-4">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                <Input
+                  placeholder="Filter rows..."
+                  value={filter}
+                  onChange={(e) => setFilter(e.target.value)}
+                  className="pl-10 w-80"
+                />
+              </div>
+
+              <Button variant="outline" onClick={() => setIsCleaningOpen(true)}>
+                <Wand2 className="h-4 w-4 mr-2" />
+                Cleaning
+              </Button>
+              <Button variant="outline" onClick={() => setIsFieldsOpen(true)}>
+                <Calculator className="h-4 w-4 mr-2" />
+                Calculated Fields
+              </Button>
+              <Button variant="outline" onClick={() => setIsHistoryOpen(true)}>
+                <History className="h-4 w-4 mr-2" />
+                History
+              </Button>
+              {dataSource && CONNECTOR_TYPES.includes(dataSource.type) && (
+                <Button variant="outline" onClick={() => setIsScheduleOpen(true)}>
+                  <Clock className="h-4 w-4 mr-2" />
+                  Schedule
+                </Button>
+              )}
+              {dataSource && CONNECTOR_TYPES.includes(dataSource.type) ? (
+                <Button
+                  onClick={() => refreshMutation.mutate()}
+                  disabled={refreshMutation.isPending}
+                  className="bg-indigo-600 hover:bg-indigo-700"
+                >
+                  <RefreshCw className={`h-4 w-4 mr-2 ${refreshMutation.isPending ? "animate-spin" : ""}`} />
+                  Refresh Now
+                </Button>
+              ) : (
+                <Button onClick={() => setIsUploadOpen(true)} className="bg-indigo-600 hover:bg-indigo-700">
+                  <Upload className="h-4 w-4 mr-2" />
+                  Upload New Version
+                </Button>
+              )}
+            </div>
+          </div>
+        </header>
+
+        <main className="flex-1 overflow-hidden p-6 flex flex-col">
+          <div className="bg-white rounded-xl shadow-sm flex-1 overflow-auto">
+            <Table>
+              <TableHeader className="sticky top-0 bg-white z-10">
+                <TableRow>
+                  {columns.map((column) => (
+                    <TableHead key={column.name} className="whitespace-nowrap">
+                      <div className="flex items-center space-x-1">
+                        <button
+                          className="flex items-center space-x-1 hover:text-gray-900"
+                          onClick={() => toggleSort(column.name)}
+                        >
+                          <span>{column.name}</span>
+                          {sort?.column === column.name ? (
+                            sort.direction === "asc" ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />
+                          ) : (
+                            <ArrowUpDown className="h-3 w-3 text-gray-300" />
+                          )}
+                        </button>
+                        <Popover>
+                          <PopoverTrigger asChild>
+                            <Button variant="ghost" size="sm" className="h-6 w-6 p-0" title="Column statistics">
+                              <BarChart3 className="h-3 w-3" />
+                            </Button>
+                          </PopoverTrigger>
+                          <PopoverContent className="w-auto" align="start">
+                            <ColumnStatsPanel dataSourceId={dataSource.id} column={column} />
+                          </PopoverContent>
+                        </Popover>
+                      </div>
+                      <span className="text-xs font-normal text-gray-400" title={column.formula}>
+                        {column.type}{column.formula ? " · calculated" : ""}
+                      </span>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rowsLoading && !page ? (
+                  <TableRow>
+                    <TableCell colSpan={Math.max(columns.length, 1)} className="text-center py-12">
+                      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600 mx-auto"></div>
+                    </TableCell>
+                  </TableRow>
+                ) : (page?.rows || []).length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={Math.max(columns.length, 1)} className="text-center py-12 text-gray-500">
+                      No rows match this view.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  page!.rows.map((row, index) => (
+                    <TableRow key={offset + index}>
+                      {columns.map((column) => (
+                        <TableCell
+                          key={column.name}
+                          className={`whitespace-nowrap ${NUMERIC_TYPES.includes(column.type) ? "text-right tabular-nums" : ""}`}
+                        >
+                          {formatCell(row[column.name])}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {/* Pagination */}
+          <div className="flex items-center justify-between pt-4">
+            <span className="text-sm text-gray-600">
+              Showing {firstRow.toLocaleString()}–{lastRow.toLocaleString()} of {total.toLocaleString()}
+            </span>
+            <div className="flex items-center space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+                disabled={offset === 0}
+              >
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                Previous
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setOffset(offset + PAGE_SIZE)}
+                disabled={offset + PAGE_SIZE >= total}
+              >
+                Next
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </Button>
+            </div>
+          </div>
+        </main>
+      </div>
+
+      <UploadVersionModal
+        isOpen={isUploadOpen}
+        onClose={() => setIsUploadOpen(false)}
+        dataSource={dataSource}
+      />
+      <VersionHistory
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        dataSource={dataSource}
+      />
+      <RefreshScheduleSheet
+        isOpen={isScheduleOpen}
+        onClose={() => setIsScheduleOpen(false)}
+        dataSource={dataSource}
+      />
+      <CalculatedFieldsSheet
+        isOpen={isFieldsOpen}
+        onClose={() => setIsFieldsOpen(false)}
+        dataSource={dataSource}
+      />
+      <CleaningStepsSheet
+        isOpen={isCleaningOpen}
+        onClose={() => setIsCleaningOpen(false)}
+        dataSource={dataSource}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import Sidebar from "@/components/sidebar";
+import FileUploadModal from "@/components/file-upload-modal";
+import SemanticLayerSheet from "@/components/semantic-layer";
+import { describeSchedule, formatDuration, RefreshRunBadge } from "@/components/refresh-schedule";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Search, Database, Ruler } from "lucide-react";
+import type { DataSourceWithLastRefresh, Organization } from "@shared/schema";
+
+// Last run and next scheduled time; blank for uploaded sources, which are never refreshed
+function RefreshStatus({ dataSource }: { dataSource: DataSourceWithLastRefresh }) {
+  const run = dataSource.lastRefreshRun;
+  if (!run && !dataSource.refreshSchedule) {
+    return <span className="text-gray-400">—</span>;
+  }
+
+  return (
+    <div className="space-y-1 text-xs text-gray-500">
+      {run ? (
+        <div className="flex items-center space-x-2">
+          <RefreshRunBadge run={run} />
+          <span>
+            {run.startedAt && new Date(run.startedAt).toLocaleString()}
+            {run.durationMs !== null && ` · ${formatDuration(run.durationMs)}`}
+            {run.rowCount !== null && ` · ${run.rowCount.toLocaleString()} rows`}
+          </span>
+        </div>
+      ) : (
+        <div>Not refreshed yet</div>
+      )}
+      {run?.error && (
+        <div className="text-red-600 truncate max-w-xs" title={run.error}>{run.error}</div>
+      )}
+      <div>
+        {describeSchedule(dataSource.refreshSchedule)}
+        {dataSource.refreshSchedule && dataSource.nextRefreshAt && `, next ${new Date(dataSource.nextRefreshAt).toLocaleString()}`}
+      </div>
+    </div>
+  );
+}
+
+export default function DataSources() {
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading } = useAuth();
+  const [selectedOrganization, setSelectedOrganization] = useState<Organization | null>(null);
+  const [isUploadOpen, setIsUploadOpen] = useState(false);
+  const [isSemanticLayerOpen, setIsSemanticLayerOpen] = useState(false);
+  const [searchTerm, setSearchTerm] = useState("");
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  const { data: organizations, isLoading: organizationsLoading } = useQuery<Organization[]>({
+    queryKey: ["/api/organizations"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: dataSources, isLoading: dataSourcesLoading } = useQuery<DataSourceWithLastRefresh[]>({
+    queryKey: ["/api/data-sources", { organizationId: selectedOrganization?.id }],
+    enabled: !!selectedOrganization?.id,
+  });
+
+  // Set first organization as selected when organizations load
+  useEffect(() => {
+    if (organizations && organizations.length > 0 && !selectedOrganization) {
+      setSelectedOrganization(organizations[0]);
+    }
+  }, [organizations, selectedOrganization]);
+
+  const filteredDataSources = (dataSources || []).filter((dataSource) =>
+    dataSource.name.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  if (isLoading || organizationsLoading) {
+    return (
+      <div className="flex h-screen">
+        <Sidebar />
+        <div className="flex-1 flex items-center justify-center">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-screen bg-gray-50">
+      <Sidebar organizations={organizations || []} selectedOrganization={selectedOrganization} onOrganizationChange={setSelectedOrganization} />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        {/* Header */}
+        <header className="bg-white border-b border-gray-200 sticky top-0 z-40">
+          <div className="flex items-center justify-between p-6">
+            <div className="flex items-center space-x-4">
+              <h1 className="text-2xl font-bold text-gray-900">Data Sources</h1>
+              <span className="text-sm text-gray-500">
+                {filteredDataSources.length} sources
+              </span>
+            </div>
+
+            <div className="flex items-center space-x-4">
+              {/* Search */}
+              <div className="relative hidden md:block">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                <Input
+                  placeholder="Search data sources..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-10 w-80"
+                />
+              </div>
+
+              <Button variant="outline" onClick={() => setIsSemanticLayerOpen(true)} disabled={!selectedOrganization}>
+                <Ruler className="h-4 w-4 mr-2" />
+                Metrics &amp; Dimensions
+              </Button>
+
+              <Button onClick={() => setIsUploadOpen(true)} className="bg-indigo-600 hover:bg-indigo-700">
+                <Plus className="h-4 w-4 mr-2" />
+                Upload Data
+              </Button>
+            </div>
+          </div>
+        </header>
+
+        <main className="flex-1 overflow-y-auto p-6">
+          {dataSourcesLoading ? (
+            <div className="text-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600 mx-auto"></div>
+            </div>
+          ) : filteredDataSources.length > 0 ? (
+            <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead className="text-right">Rows</TableHead>
+                    <TableHead className="text-right">Columns</TableHead>
+                    <TableHead>Refresh</TableHead>
+                    <TableHead>Created</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredDataSources.map((dataSource) => {
+                    const config = (dataSource.config || {}) as Record<string, any>;
+                    return (
+                      <TableRow key={dataSource.id} className="cursor-pointer">
+                        <TableCell className="font-medium">
+                          <Link href={`/data-source/${dataSource.id}`} className="text-indigo-600 hover:underline">
+                            {dataSource.name}
+                          </Link>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="secondary">{dataSource.type}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {config.rowCount !== undefined ? Number(config.rowCount).toLocaleString() : "—"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {dataSource.schema ? dataSource.schema.length : config.columns?.length ?? "—"}
+                        </TableCell>
+                        <TableCell>
+                          <RefreshStatus dataSource={dataSource} />
+                        </TableCell>
+                        <TableCell className="text-gray-500">
+                          {dataSource.createdAt ? new Date(dataSource.createdAt).toLocaleDateString() : ""}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-6">
+                <Database className="h-12 w-12 text-gray-400" />
+              </div>
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">No data sources found</h3>
+              <p className="text-gray-600 mb-6">
+                Upload CSV, Excel or JSON files to start exploring your data.
+              </p>
+              <Button onClick={() => setIsUploadOpen(true)} className="bg-indigo-600 hover:bg-indigo-700">
+                <Plus className="h-4 w-4 mr-2" />
+                Upload Data
+              </Button>
+            </div>
+          )}
+        </main>
+      </div>
+
+      <FileUploadModal
+        isOpen={isUploadOpen}
+        onClose={() => setIsUploadOpen(false)}
+        organizationId={selectedOrganization?.id}
+      />
+
+      {selectedOrganization && (
+        <SemanticLayerSheet
+          isOpen={isSemanticLayerOpen}
+          onClose={() => setIsSemanticLayerOpen(false)}
+          organizationId={selectedOrganization.id}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+import { z } from "zod";
+import {
+  queryAggregations,
+  queryFilterOperators,
+  querySpecSchema,
+  tableBlockConfigSchema,
+  timeBuckets,
+  type Block,
+  type DataSource,
+  type QueryResult,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { getFieldSchema } from "./datasets";
+import { IngestError } from "./ingest";
+import { runCachedQuery } from "./query-engine";
+import { periodLabel } from "./ai-rules";
+import type { AgentChart, AgentEvent } from "./ai-provider";
+
+// The tools the Epesi Agent answers with: it finds the organization's data
+// sources, reads their columns, runs aggregation queries over the full data
+// and can add what it found to the dashboard as a block. Each chat gets a
+// toolbox with a step budget; every step is recorded with what went in and
+// what came back, and saved with the answer.
+
+export const MAX_AGENT_STEPS = 8;
+
+// Query results are cut to this many rows before the model sees them
+const MAX_TOOL_ROWS = 100;
+// Points of a chart drawn from a query result
+const MAX_CHART_POINTS = 50;
+
+export interface AgentToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON Schema
+}
+
+export interface AgentStep {
+  step: number;
+  tool: string;
+  input: unknown;
+  output?: unknown;
+  error?: string;
+  durationMs: number;
+}
+
+export interface AgentToolbox {
+  definitions: AgentToolDefinition[];
+  remaining(): number;
+  // Errors go back as the output, so the agent can correct its call
+  run(tool: string, input: unknown): Promise<{ output: unknown; events: AgentEvent[] }>;
+}
+
+export interface AgentToolContext {
+  dashboardId: number;
+  userId: string;
+  dataSources: DataSource[]; // The sources the agent may read
+  chartCount: number; // Charts it may show in one answer
+}
+
+const chartTypes = ["bar", "line", "pie"] as const;
+
+const describeSchemaInput = z.object({ dataSourceId: z.number().int() });
+
+const runQueryInput = z.object({
+  query: querySpecSchema,
+  chart: z.object({
+    type: z.enum(chartTypes),
+    title: z.string().min(1).max(255),
+    description: z.string().max(1000).optional(),
+  }).optional(),
+});
+
+const createBlockInput = z.object({
+  title: z.string().min(1).max(255),
+  description: z.string().max(1000).optional(),
+  type: z.enum([...chartTypes, "table"]),
+  query: querySpecSchema,
+});
+
+const oneOf = (values: readonly string[]) => values.map(value => `"${value}"`).join(" | ");
+
+const QUERY_PARAMETER = {
+  type: "object",
+  description:
+    'A query over one data source: {"dataSourceId": number, ' +
+    `"dimensions": [column name | {"column": string, "bucket": ${oneOf(timeBuckets)}} | {"dimension": semantic dimension id}], ` +
+    `"measures": [{"aggregation": ${oneOf(queryAggregations)}, "column": string, "percentile"?: 0-100} | {"metric": semantic metric id}], ` +
+    `"filters": [{"column": string, "operator": ${oneOf(queryFilterOperators)}, "value": any}], ` +
+    '"sort": [{"field": result column name, "direction": "asc" | "desc"}], "limit": number}. ' +
+    'Measures are named like "sum_revenue" in the result unless given an "as".',
+};
+
+export const agentToolDefinitions: AgentToolDefinition[] = [
+  {
+    name: "list_data_sources",
+    description: "Lists the data sources you can query, with their ids and row counts.",
+    parameters: { type: "object", properties: {}, additionalProperties: false },
+  },
+  {
+    name: "describe_schema",
+    description: "Describes the columns of a data source (type, distinct values, range) and the shared metrics and dimensions defined on it.",
+    parameters: {
+      type: "object",
+      properties: { dataSourceId: { type: "integer" } },
+      required: ["dataSourceId"],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: "run_query",
+    description:
+      `Runs an aggregation query over all rows of a data source and returns up to ${MAX_TOOL_ROWS} result rows. ` +
+      "Give a chart to show the result to the user; it is drawn from the first dimension and first measure.",
+    parameters: {
+      type: "object",
+      properties: {
+        query: QUERY_PARAMETER,
+        chart: {
+          type: "object",
+          properties: {
+            type: { type: "string", enum: chartTypes },
+            title: { type: "string" },
+            description: { type: "string" },
+          },
+          required: ["type", "title"],
+        },
+      },
+      required: ["query"],
+    },
+  },
+  {
+    name: "create_block",
+    description: "Adds a chart or table of a query's result to the user's dashboard. Only do this when the user asks for it.",
+    parameters: {
+      type: "object",
+      properties: {
+        title: { type: "string" },
+        description: { type: "string" },
+        type: { type: "string", enum: [...chartTypes, "table"] },
+        query: QUERY_PARAMETER,
+      },
+      required: ["title", "type", "query"],
+    },
+  },
+];
+
+// The first dimension against the first measure
+function chartPoints(result: QueryResult) {
+  const dimension = result.columns.find(column => column.role === "dimension");
+  const measure = result.columns.find(column => column.role === "measure");
+  if (!dimension || !measure) return [];
+  return result.rows.slice(0, MAX_CHART_POINTS).map(row => ({
+    name: row[dimension.name] === null ? "(blank)" : periodLabel(row[dimension.name], dimension.bucket),
+    value: typeof row[measure.name] === "number" ? (row[measure.name] as number) : 0,
+  }));
+}
+
+export function agentToolbox(context: AgentToolContext): AgentToolbox & { steps: AgentStep[] } {
+  const steps: AgentStep[] = [];
+  let charts = 0;
+
+  const dataSourceOf = (id: number) => {
+    const dataSource = context.dataSources.find(source => source.id === id);
+    if (!dataSource) throw new IngestError(`Unknown data source: ${id}`);
+    return dataSource;
+  };
+
+  async function runQuery(query: z.infer<typeof querySpecSchema>) {
+    const { result } = await runCachedQuery(dataSourceOf(query.dataSourceId), query);
+    return result;
+  }
+
+  async function createBlock(input: z.infer<typeof createBlockInput>): Promise<Block> {
+    const existing = await storage.getBlocksByDashboard(context.dashboardId);
+    let content: Record<string, unknown>;
+    if (input.type === "table") {
+      dataSourceOf(input.query.dataSourceId);
+      content = { table: tableBlockConfigSchema.parse({ dataSourceId: input.query.dataSourceId, query: input.query }) };
+    } else {
+      const result = await runQuery(input.query);
+      content = {
+        chartData: { type: input.type, title: input.title, data: chartPoints(result), insights: [] },
+        query: input.query,
+      };
+    }
+    return storage.createBlock({
+      id: `block_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      dashboardId: context.dashboardId,
+      title: input.title,
+      description: input.description ?? "",
+      type: input.type === "table" ? "table" : "ai",
+      size: 4,
+      content,
+      position: existing.length,
+      createdById: context.userId,
+    });
+  }
+
+  async function execute(tool: string, input: unknown): Promise<{ output: unknown; events: AgentEvent[] }> {
+    switch (tool) {
+      case "list_data_sources": {
+        const sources = await Promise.all(context.dataSources.map(async dataSource => ({
+          id: dataSource.id,
+          name: dataSource.name,
+          type: dataSource.type,
+          rows: await storage.countDataSourceRows(dataSource.id, dataSource.currentVersionId),
+        })));
+        return { output: sources, events: [] };
+      }
+
+      case "describe_schema": {
+        const dataSource = dataSourceOf(describeSchemaInput.parse(input).dataSourceId);
+        const [schema, metrics, dimensions] = await Promise.all([
+          getFieldSchema(dataSource),
+          storage.getSemanticMetrics(dataSource.organizationId),
+          storage.getSemanticDimensions(dataSource.organizationId),
+        ]);
+        return {
+          output: {
+            id: dataSource.id,
+            name: dataSource.name,
+            columns: schema.map(({ name, type, cardinality, min, max, nullRate, formula }) => ({ name, type, cardinality, min, max, nullRate, formula })),
+            metrics: metrics
+              .filter(metric => metric.dataSourceId === dataSource.id)
+              .map(({ id, name, description }) => ({ id, name, description })),
+            dimensions: dimensions
+              .filter(dimension => dimension.dataSourceId === dataSource.id)
+              .map(({ id, name, column, bucket }) => ({ id, name, column, bucket })),
+          },
+          events: [],
+        };
+      }
+
+      case "run_query": {
+        const { query, chart } = runQueryInput.parse(input);
+        const result = await runQuery(query);
+        const events: AgentEvent[] = [];
+        const points = chart ? chartPoints(result) : [];
+        if (chart && points.length > 0 && charts < context.chartCount) {
+          charts++;
+          const shown: AgentChart = { id: `chart_${charts}`, ...chart, description: chart.description ?? "", data: points, options: {} };
+          events.push({ type: "chart", chart: shown });
+        }
+        return {
+          output: {
+            columns: result.columns.map(({ name, type, role, bucket }) => ({ name, type, role, bucket })),
+            rows: result.rows.slice(0, MAX_TOOL_ROWS),
+            totalRows: result.totalRows,
+            truncated: result.rows.length > MAX_TOOL_ROWS,
+          },
+          events,
+        };
+      }
+
+      case "create_block": {
+        const block = await createBlock(createBlockInput.parse(input));
+        return { output: { blockId: block.id, title: block.title, type: block.type }, events: [] };
+      }
+
+      default:
+        throw new IngestError(`Unknown tool: ${tool}`);
+    }
+  }
+
+  return {
+    definitions: agentToolDefinitions,
+    steps,
+    remaining: () => Math.max(0, MAX_AGENT_STEPS - steps.length),
+
+    async run(tool, input) {
+      if (steps.length >= MAX_AGENT_STEPS) {
+        return { output: { error: "The step budget is used up. Answer with what you have found." }, events: [] };
+      }
+      const started = Date.now();
+      const step: AgentStep = { step: steps.length + 1, tool, input, durationMs: 0 };
+      steps.push(step);
+      try {
+        const { output, events } = await execute(tool, input);
+        step.output = output;
+        step.durationMs = Date.now() - started;
+        return { output, events: [{ type: "step", step }, ...events] };
+      } catch (error) {
+        if (!(error instanceof IngestError) && !(error instanceof z.ZodError)) throw error;
+        step.error = error instanceof z.ZodError
+          ? error.errors.map(issue => `${issue.path.join(".") || "input"}: ${issue.message}`).join("; ")
+          : error.message;
+        step.durationMs = Date.now() - started;
+        return { output: { error: step.error }, events: [{ type: "step", step }] };
+      }
+    },
+  };
+}
@@ -0,0 +1,248 @@
+import OpenAI from "openai";
+import { z } from "zod";
+import {
+  AIProviderError,
+  type AIProvider,
+  type AnalyzedDataSource,
+  type ChartRequest,
+  type GeneratedChart,
+} from "./ai-provider";
+
+// The provider for OpenAI-compatible chat completions endpoints. Answers are
+// asked for as JSON in the prompt rather than through response_format, which
+// not every local server supports, and checked before they go back.
+
+export interface OpenAIConnection {
+  baseUrl?: string;
+  apiKey: string;
+  model: string;
+}
+
+const SAMPLE_ROWS_FOR_ANALYSIS = 20;
+
+const chartPointSchema = z.object({ name: z.coerce.string(), value: z.coerce.number().catch(0) });
+
+const chartSchema = z.object({
+  type: z.enum(["bar", "line", "pie", "doughnut", "area"]).catch("bar"),
+  title: z.string().catch("Chart"),
+  data: z.array(chartPointSchema),
+  colors: z.array(z.string()).optional().catch(undefined),
+  insights: z.array(z.string()).optional().catch(undefined),
+});
+
+const smartInsightsSchema = z.object({
+  insights: z.array(z.object({
+    question: z.string(),
+    description: z.string().catch(""),
+    chart_type: z.enum(["bar", "column", "line", "pie", "doughnut", "area"]).catch("bar"),
+    insight_category: z.string().catch("general"),
+    chart_payload: z.object({
+      labels: z.array(z.coerce.string()),
+      datasets: z.array(z.object({
+        label: z.string().catch("Value"),
+        data: z.array(z.coerce.number().catch(0)),
+      })).min(1),
+    }),
+  })),
+});
+
+const insightsSchema = z.object({ insights: z.array(z.string()) });
+
+const rowsSchema = z.object({ rows: z.array(z.record(z.unknown())) });
+
+const analysisSchema = z.object({
+  summary: z.string(),
+  columns: z.array(z.object({ name: z.string(), type: z.string(), description: z.string().catch("") })).catch([]),
+  suggestedCharts: z.array(z.object({ type: z.string(), title: z.string(), description: z.string().catch("") })).catch([]),
+  insights: z.array(z.string()).catch([]),
+});
+
+// The JSON object in a reply, with or without a code fence around it
+function parseJsonReply<T>(text: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const body = (fenced ? fenced[1] : text).trim();
+  const start = body.indexOf("{");
+  const end = body.lastIndexOf("}");
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(start >= 0 && end > start ? body.slice(start, end + 1) : body);
+  } catch {
+    throw new AIProviderError("The model did not answer with JSON");
+  }
+  const result = schema.safeParse(parsed);
+  if (!result.success) {
+    throw new AIProviderError(`The model's answer was malformed: ${result.error.errors[0]?.message}`);
+  }
+  return result.data;
+}
+
+// A tool call as it streams in: the id and name come first, the arguments in
+// pieces after them
+interface PendingToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+function describeHistory(chatHistory: ChartRequest["chatHistory"]): string {
+  if (!chatHistory?.length) return "";
+  return `\n\nEarlier questions about this chart, most recent first:\n${chatHistory.map(turn => `- ${turn.question}`).join("\n")}`;
+}
+
+export function openAIProvider(connection: OpenAIConnection): AIProvider {
+  const client = new OpenAI({ apiKey: connection.apiKey, baseURL: connection.baseUrl });
+
+  async function complete(system: string, user: string): Promise<string> {
+    const completion = await client.chat.completions.create({
+      model: connection.model,
+      messages: [
+        { role: "system", content: system },
+        { role: "user", content: user },
+      ],
+    });
+    const content = completion.choices[0]?.message?.content;
+    if (!content) {
+      throw new AIProviderError("The model returned an empty answer");
+    }
+    return content;
+  }
+
+  const completeJson = async <T>(system: string, user: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>) =>
+    parseJsonReply(await complete(`${system}\nAnswer with a single JSON object and nothing else.`, user), schema);
+
+  return {
+    async generateChart({ prompt, chartType = "auto", context, chatHistory }): Promise<GeneratedChart> {
+      return completeJson(
+        "You design charts for a business dashboard. Reply with " +
+          '{"type": "bar" | "line" | "pie" | "doughnut" | "area", "title": string, ' +
+          '"data": [{"name": string, "value": number}], "insights": [string]}.',
+        `${prompt}\n\nChart type: ${chartType === "auto" ? "whichever suits the data best" : chartType}` +
+          (context ? `\nContext: ${context}` : "") +
+          describeHistory(chatHistory),
+        chartSchema,
+      );
+    },
+
+    async generateSyntheticData(prompt) {
+      const { rows } = await completeJson(
+        'You generate realistic sample datasets. Reply with {"rows": [...]}, an array of flat records that all have the same keys.',
+        prompt,
+        rowsSchema,
+      );
+      return rows;
+    },
+
+    async generateSmartInsights({ insightCount, dataContext, sampleData, existingInsightsContext }) {
+      const { insights } = await completeJson(
+        `You are a data analyst. Find ${insightCount} distinct, useful insights in the data below, each answered by a chart. ` +
+          'Reply with {"insights": [{"question": string, "description": string, ' +
+          '"chart_type": "bar" | "line" | "pie" | "doughnut" | "area", "insight_category": string, ' +
+          '"chart_payload": {"labels": [string], "datasets": [{"label": string, "data": [number]}]}}]}. ' +
+          "Compute the chart values from the data; never invent numbers.",
+        `Data sources:${dataContext}\n\nSample rows:${sampleData}${existingInsightsContext}`,
+        smartInsightsSchema,
+      );
+      return insights.slice(0, insightCount);
+    },
+
+    async generateInsights(data, prompt) {
+      const { insights } = await completeJson(
+        'You are a data analyst. Write two to four short observations about the chart data. Reply with {"insights": [string]}.',
+        `${prompt ? `Question: ${prompt}\n` : ""}Data: ${JSON.stringify(data)}`,
+        insightsSchema,
+      );
+      return insights;
+    },
+
+    async generateSQLQuery(prompt, schema) {
+      return complete(
+        "You write PostgreSQL SELECT queries. Reply with the query alone, without explanation.",
+        schema ? `Tables:\n${schema}\n\nRequest: ${prompt}` : prompt,
+      );
+    },
+
+    async analyzeDataSource(dataSource: AnalyzedDataSource) {
+      const columns = (dataSource.schema ?? []).map(column => `${column.name} (${column.type})`);
+      return completeJson(
+        "You are a data analyst describing a dataset for a dashboard builder. Reply with " +
+          '{"summary": string, "columns": [{"name": string, "type": string, "description": string}], ' +
+          '"suggestedCharts": [{"type": string, "title": string, "description": string}], "insights": [string]}.',
+        `Data source "${dataSource.name}" with ${dataSource.content.length} rows.` +
+          (columns.length > 0 ? `\nColumns: ${columns.join(", ")}` : "") +
+          `\nFirst rows: ${JSON.stringify(dataSource.content.slice(0, SAMPLE_ROWS_FOR_ANALYSIS))}`,
+        analysisSchema,
+      );
+    },
+
+    // Each round streams the model's text and collects the tools it calls;
+    // their results go back to it in the next round. Once the step budget is
+    // spent the model is no longer offered tools and has to answer.
+    async *streamEpesiAgentResponse({ prompt, context, chartCount, tools }, signal) {
+      const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+        {
+          role: "system",
+          content:
+            "You are Epesi Agent, an analytics assistant. Answer the user's question about their data. " +
+            "Use the tools to find the data sources, read their columns and run queries before you answer, and base every number you give on a query result; never invent numbers. " +
+            `Show up to ${chartCount} charts by giving a chart with a query. Only add blocks to the dashboard when the user asks for it. ` +
+            `You have ${tools.remaining()} tool calls, so plan them. Write the answer as plain text.${context}`,
+        },
+        { role: "user", content: prompt },
+      ];
+      const definitions: OpenAI.Chat.ChatCompletionTool[] = tools.definitions.map(definition => ({ type: "function", function: definition }));
+
+      let answered = false;
+      try {
+        while (true) {
+          const offerTools = tools.remaining() > 0;
+          const stream = await client.chat.completions.create({
+            model: connection.model,
+            stream: true,
+            messages,
+            ...(offerTools ? { tools: definitions } : {}),
+          }, { signal });
+
+          let text = "";
+          const calls: PendingToolCall[] = [];
+          for await (const chunk of stream) {
+            const delta = chunk.choices[0]?.delta;
+            if (delta?.content) {
+              // Text of a later round starts a new paragraph
+              yield { type: "text", text: !text && answered ? `\n\n${delta.content}` : delta.content };
+              text += delta.content;
+            }
+            delta?.tool_calls?.forEach(piece => {
+              const call = calls[piece.index] ?? (calls[piece.index] = { id: "", name: "", arguments: "" });
+              if (piece.id) call.id = piece.id;
+              if (piece.function?.name) call.name += piece.function.name;
+              if (piece.function?.arguments) call.arguments += piece.function.arguments;
+            });
+          }
+          if (text) answered = true;
+          const called = calls.filter(Boolean);
+          if (called.length === 0 || !offerTools || signal?.aborted) return;
+
+          messages.push({
+            role: "assistant",
+            content: text || null,
+            tool_calls: called.map(call => ({ id: call.id, type: "function", function: { name: call.name, arguments: call.arguments } })),
+          });
+          for (const call of called) {
+            let input: unknown;
+            try {
+              input = call.arguments ? JSON.parse(call.arguments) : {};
+            } catch {
+              input = call.arguments;
+            }
+            const { output, events } = await tools.run(call.name, input);
+            yield* events;
+            messages.push({ role: "tool", tool_call_id: call.id, content: JSON.stringify(output) });
+          }
+        }
+      } catch (error) {
+        if (signal?.aborted) return;
+        throw error;
+      }
+    },
+  };
+}
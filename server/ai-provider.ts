@@ -0,0 +1,159 @@
+import type { AIProviderSettings, DataSource, StoredAIProvider } from "@shared/schema";
+import { storage } from "./storage";
+import { decryptSecret, encryptSecret } from "./secrets";
+import type { DataRow } from "./datasets";
+import type { AgentStep, AgentToolbox } from "./agent-tools";
+import { openAIProvider, type OpenAIConnection } from "./ai-openai";
+import { rulesProvider } from "./ai-rules";
+
+// Every AI feature goes through a provider: an OpenAI-compatible endpoint
+// (the hosted API or a local server such as Ollama or vLLM), or the rules
+// provider for deployments that can't reach a model. Organizations pick their
+// own in their settings; the rest use the server default from the environment:
+// AI_PROVIDER ("openai" or "rules"), OPENAI_API_KEY, OPENAI_BASE_URL and
+// OPENAI_MODEL. Without any of those the server uses the rules provider.
+
+export interface ChatTurn {
+  question: string;
+  chartData?: unknown;
+}
+
+// Requests about data carry the data sources they describe. Model providers
+// read the prompt text; the rules provider queries the sources in full.
+export interface ChartRequest {
+  prompt: string;
+  chartType?: string;
+  context?: string;
+  chatHistory?: ChatTurn[];
+  dataSources?: DataSource[];
+}
+
+// What an AI block stores as its chartData
+export interface GeneratedChart {
+  type: "bar" | "line" | "pie" | "doughnut" | "area";
+  title: string;
+  data: { name: string; value: number }[];
+  colors?: string[];
+  insights?: string[];
+}
+
+// The agent answers by calling tools, within their step budget, rather than
+// from a sample of the data
+export interface AgentRequest {
+  prompt: string;
+  context: string; // The organization's shared metrics and dimensions
+  chartCount: number;
+  tools: AgentToolbox;
+}
+
+export interface AgentChart {
+  id: string;
+  type: "bar" | "line" | "pie";
+  title: string;
+  description: string;
+  data: { name: string; value: number }[];
+  options: Record<string, unknown>;
+  insights?: string[];
+  colors?: string[];
+}
+
+export interface AgentResponse {
+  response: string;
+  charts: AgentChart[];
+}
+
+// Agent answers stream as pieces of text, the tool calls made for them and
+// the charts they show, each sent as soon as it is ready
+export type AgentEvent =
+  | { type: "text"; text: string }
+  | { type: "chart"; chart: AgentChart }
+  | { type: "step"; step: AgentStep };
+
+export interface SmartInsightRequest {
+  insightCount: number;
+  dataContext: string;
+  sampleData: string;
+  existingInsightsContext: string;
+  dataSources?: DataSource[];
+}
+
+export interface SmartInsight {
+  question: string;
+  description: string;
+  chart_type: "bar" | "column" | "line" | "pie" | "doughnut" | "area";
+  insight_category: string;
+  chart_payload: { labels: string[]; datasets: { label: string; data: number[] }[] };
+}
+
+export interface DataSourceAnalysis {
+  summary: string;
+  columns: { name: string; type: string; description: string }[];
+  suggestedCharts: { type: string; title: string; description: string }[];
+  insights: string[];
+}
+
+export type AnalyzedDataSource = DataSource & { content: DataRow[] };
+
+export interface AIProvider {
+  generateChart(request: ChartRequest): Promise<GeneratedChart>;
+  generateSyntheticData(prompt: string): Promise<Record<string, unknown>[]>;
+  generateSmartInsights(request: SmartInsightRequest): Promise<SmartInsight[]>;
+  generateInsights(data: unknown, prompt?: string): Promise<string[]>;
+  generateSQLQuery(prompt: string, schema?: string): Promise<string>;
+  analyzeDataSource(dataSource: AnalyzedDataSource): Promise<DataSourceAnalysis>;
+  // Ends early, without an error, once the signal aborts
+  streamEpesiAgentResponse(request: AgentRequest, signal?: AbortSignal): AsyncIterable<AgentEvent>;
+}
+
+export class AIProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AIProviderError";
+  }
+}
+
+const DEFAULT_MODEL = "gpt-4o";
+
+function serverDefault(): StoredAIProvider {
+  const kind = process.env.AI_PROVIDER
+    ?? (process.env.OPENAI_API_KEY || process.env.OPENAI_BASE_URL ? "openai" : "rules");
+  if (kind === "rules") return { kind };
+  if (kind !== "openai") {
+    throw new AIProviderError(`Unsupported AI_PROVIDER: ${kind}`);
+  }
+  return { kind, baseUrl: process.env.OPENAI_BASE_URL || undefined, model: process.env.OPENAI_MODEL || undefined };
+}
+
+function connectionOf(settings: Extract<StoredAIProvider, { kind: "openai" }>, fromEnvironment: boolean): OpenAIConnection {
+  const apiKey = settings.credentials
+    ? decryptSecret<{ apiKey: string }>(settings.credentials).apiKey
+    : fromEnvironment ? process.env.OPENAI_API_KEY : undefined;
+  return {
+    baseUrl: settings.baseUrl,
+    model: settings.model ?? DEFAULT_MODEL,
+    // Local servers usually take any key, but the client insists on one
+    apiKey: apiKey || "not-needed",
+  };
+}
+
+// The provider for an organization's requests, or the server default
+export async function getAIProvider(organizationId?: number): Promise<AIProvider> {
+  const organization = organizationId !== undefined ? await storage.getOrganization(organizationId) : undefined;
+  const settings = organization?.aiProvider ?? serverDefault();
+  if (settings.kind === "rules") {
+    return rulesProvider;
+  }
+  return openAIProvider(connectionOf(settings, !organization?.aiProvider));
+}
+
+// Encrypt the API key of new provider settings. The key of the previous
+// settings is kept when the client doesn't send one and the endpoint is the
+// same, so changing the model doesn't mean entering the key again.
+export function prepareAIProvider(settings: AIProviderSettings, previous?: StoredAIProvider | null): StoredAIProvider {
+  if (settings.kind === "rules") return settings;
+  const { apiKey, ...connection } = settings;
+  const credentials = apiKey !== undefined
+    ? encryptSecret({ apiKey })
+    : previous?.kind === "openai" && previous.baseUrl === connection.baseUrl ? previous.credentials : undefined;
+  return { ...connection, credentials };
+}
@@ -0,0 +1,552 @@
+import type { ColumnSchema, DataSource, QueryDimension, QueryMeasure, QueryResult, TimeBucket } from "@shared/schema";
+import type { AIProvider, AgentChart, AgentEvent, GeneratedChart, SmartInsight } from "./ai-provider";
+import type { AgentToolbox } from "./agent-tools";
+import { getFieldSchema, isNumericColumn, type DataRow } from "./datasets";
+import { IngestError } from "./ingest";
+import { aggregateRows, runCachedQuery, QueryError, type ResolvedQuery } from "./query-engine";
+import { columnsOf, inferSchema } from "./schema-inference";
+
+// The "rules" provider answers without a model. Charts are picked from the
+// column types and cardinality: dates become line charts, categories with a
+// few values pie charts and the rest ranked bar charts. Insights are plain
+// statistics of the aggregated data (top values, shares and the change over
+// time), so the same data always gives the same charts and sentences.
+// Questions only steer which columns and chart come first.
+
+type Point = { name: string; value: number };
+
+// What picking a chart needs to know about a column
+type ColumnProfile = Pick<ColumnSchema, "name" | "type" | "cardinality" | "min" | "max">;
+
+type AnalysisKind = "trend" | "share" | "ranking";
+
+// The rows a provider call can read: a data source, the sample rows a route
+// passed in when it had no sources, or a source read through the agent's tools
+interface RulesTable {
+  name: string;
+  schema: ColumnProfile[];
+  run(query: ResolvedQuery): Promise<QueryResult>;
+}
+
+interface Candidate {
+  table: RulesTable;
+  kind: AnalysisKind;
+  dimension: ColumnProfile;
+  bucket?: TimeBucket;
+  measure?: ColumnProfile; // Rows are counted without one
+  score: number;
+}
+
+interface Analysis extends Candidate {
+  title: string;
+  question: string;
+  description: string;
+  points: Point[]; // What the chart shows
+  insights: string[];
+}
+
+// Categories with more values than this are identifiers or free text
+const MAX_CATEGORY_CARDINALITY = 50;
+// Categories with this few values are shown as shares of the whole
+const MAX_SHARE_SLICES = 6;
+const MAX_BARS = 10;
+const MAX_TREND_POINTS = 24;
+const SYNTHETIC_ROW_COUNT = 24;
+
+const TREND_WORDS = /\b(trend|trends|over time|growth|grow|grew|monthly|weekly|daily|yearly|quarterly|timeline|history|change|changed)\b/;
+const SHARE_WORDS = /\b(share|shares|breakdown|proportion|split|mix|composition|percentage|distribution)\b/;
+const RANKING_WORDS = /\b(top|best|worst|highest|lowest|largest|smallest|most|least|rank|ranking|compare|comparison)\b/;
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+// Tables
+
+function dataSourceTable(dataSource: DataSource, schema: ColumnSchema[]): RulesTable {
+  return {
+    name: dataSource.name,
+    schema,
+    run: async query => (await runCachedQuery(dataSource, { ...query, dataSourceId: dataSource.id })).result,
+  };
+}
+
+function rowsTable(name: string, rows: DataRow[]): RulesTable {
+  const schema = inferSchema(columnsOf(rows), rows);
+  return {
+    name,
+    schema,
+    run: query => aggregateRows((async function* () { yield rows; })(), schema, query),
+  };
+}
+
+// The agent's data sources, read through its tools: every query is a step.
+// Events of the steps wait in `events` until the caller passes them on.
+async function toolTables(tools: AgentToolbox, events: AgentEvent[], reserved: number): Promise<RulesTable[]> {
+  const call = async (tool: string, input: unknown) => {
+    const { output, events: stepEvents } = await tools.run(tool, input);
+    events.push(...stepEvents);
+    const error = (output as { error?: string } | null)?.error;
+    if (error) throw new QueryError(error);
+    return output;
+  };
+
+  const sources = await call("list_data_sources", {}) as { id: number; name: string; rows: number }[];
+  const tables: RulesTable[] = [];
+  for (const source of sources) {
+    // Steps are kept for the queries
+    if (tools.remaining() <= reserved) break;
+    if (source.rows === 0) continue;
+    try {
+      const { columns } = await call("describe_schema", { dataSourceId: source.id }) as { columns: ColumnProfile[] };
+      tables.push({
+        name: source.name,
+        schema: columns,
+        run: async query => call("run_query", { query: { ...query, dataSourceId: source.id } }) as Promise<QueryResult>,
+      });
+    } catch (error) {
+      if (!(error instanceof IngestError)) throw error;
+    }
+  }
+  return tables;
+}
+
+// The sample rows of each source, as written by describeDataSources
+function parseSamples(sampleData: string): RulesTable[] {
+  const parts = sampleData.split(/\n--- Data Source: (.*?) ---\n/);
+  const tables: RulesTable[] = [];
+  for (let i = 1; i + 1 < parts.length; i += 2) {
+    try {
+      const rows = JSON.parse(parts[i + 1]);
+      if (Array.isArray(rows) && rows.length > 0) tables.push(rowsTable(parts[i], rows));
+    } catch {
+      // A truncated sample says nothing reliable
+    }
+  }
+  return tables;
+}
+
+// The request's data sources, or its sample rows when none has columns yet
+async function tablesOf(dataSources: DataSource[] | undefined, sampleData = ""): Promise<RulesTable[]> {
+  const tables: RulesTable[] = [];
+  for (const dataSource of dataSources ?? []) {
+    try {
+      const schema = await getFieldSchema(dataSource);
+      if (schema.length > 0) tables.push(dataSourceTable(dataSource, schema));
+    } catch (error) {
+      console.error(`Error reading the schema of data source ${dataSource.id}:`, error);
+    }
+  }
+  return tables.length > 0 ? tables : parseSamples(sampleData);
+}
+
+// Picking charts
+
+const humanize = (name: string) => name.replace(/[_-]+/g, " ").trim();
+
+const normalize = (text: string) => ` ${text.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim()} `;
+
+// Whether the question names the column, in the singular or plural
+function mentions(question: string, column: ColumnProfile): boolean {
+  const name = normalize(humanize(column.name)).trim();
+  if (!name) return false;
+  return [name, `${name}s`, name.replace(/s$/, "")].some(form => question.includes(` ${form} `));
+}
+
+const isIdentifier = (column: ColumnProfile) => /(^|[ _-])id$/i.test(column.name) || column.name.toLowerCase() === "id";
+
+function bucketFor(column: ColumnProfile): TimeBucket {
+  const min = Date.parse(String(column.min ?? ""));
+  const max = Date.parse(String(column.max ?? ""));
+  if (isNaN(min) || isNaN(max)) return "month";
+  const days = (max - min) / 86_400_000;
+  if (days <= 62) return "day";
+  if (days <= 731) return "month";
+  if (days <= 366 * 8) return "quarter";
+  return "year";
+}
+
+// Every chart the tables allow, best first for the question. Ties keep the
+// column order, going through every dimension for each measure in turn so the
+// first charts cover different dimensions.
+function candidatesOf(tables: RulesTable[], prompt = ""): Candidate[] {
+  const question = normalize(prompt);
+  const intent: Record<AnalysisKind, boolean> = {
+    trend: TREND_WORDS.test(question),
+    share: SHARE_WORDS.test(question),
+    ranking: RANKING_WORDS.test(question),
+  };
+
+  const candidates: Candidate[] = [];
+  tables.forEach(table => {
+    const measures: (ColumnProfile | undefined)[] = table.schema.filter(column => isNumericColumn(column) && !isIdentifier(column));
+    if (measures.length === 0) measures.push(undefined);
+    const dimensions = table.schema.filter(column =>
+      column.type === "date" || column.type === "datetime" ||
+      ((column.type === "category" || column.type === "text" || column.type === "boolean") &&
+        column.cardinality >= 2 && column.cardinality <= MAX_CATEGORY_CARDINALITY));
+
+    measures.forEach(measure => {
+      dimensions.forEach(dimension => {
+        const isTime = dimension.type === "date" || dimension.type === "datetime";
+        const kind: AnalysisKind = isTime ? "trend" : dimension.cardinality <= MAX_SHARE_SLICES ? "share" : "ranking";
+        let score = 0;
+        if (mentions(question, dimension)) score += 3;
+        if (measure && mentions(question, measure)) score += 3;
+        if (intent[kind]) score += 2;
+        if (kind === "share" && intent.ranking) score += 1;
+        candidates.push({ table, kind, dimension, bucket: isTime ? bucketFor(dimension) : undefined, measure, score });
+      });
+    });
+  });
+
+  return candidates
+    .map((candidate, index) => ({ candidate, index }))
+    .sort((a, b) => b.candidate.score - a.candidate.score || a.index - b.index)
+    .map(({ candidate }) => candidate);
+}
+
+// The chart type a question asks for by name, if any
+function requestedChartType(prompt: string): GeneratedChart["type"] | undefined {
+  const question = normalize(prompt);
+  if (/ (doughnut|donut) /.test(question)) return "doughnut";
+  if (/ pie /.test(question)) return "pie";
+  if (/ area /.test(question)) return "area";
+  if (/ line /.test(question)) return "line";
+  if (/ (bar|column) /.test(question)) return "bar";
+  return undefined;
+}
+
+const chartTypeOf = (kind: AnalysisKind): "bar" | "line" | "pie" =>
+  kind === "trend" ? "line" : kind === "share" ? "pie" : "bar";
+
+// Statistics
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const formatNumber = (value: number) => round(value).toLocaleString("en-US");
+
+const formatPercent = (fraction: number) => `${round(fraction * 100, 1)}%`;
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const sumOf = (points: Point[]) => points.reduce((sum, point) => sum + point.value, 0);
+
+function rankingInsights(points: Point[], measure: string, dimension: string): string[] {
+  if (points.length === 0) return [];
+  const sorted = [...points].sort((a, b) => b.value - a.value);
+  const total = sumOf(sorted);
+  const [top, second] = sorted;
+  const insights = [
+    total > 0
+      ? `${top.name} has the highest ${measure} at ${formatNumber(top.value)}, ${formatPercent(top.value / total)} of the total.`
+      : `${top.name} has the highest ${measure} at ${formatNumber(top.value)}.`,
+  ];
+  if (sorted.length > 3 && total > 0) {
+    const topThree = sumOf(sorted.slice(0, 3));
+    insights.push(`The top 3 of ${sorted.length} ${dimension} values account for ${formatPercent(topThree / total)} of the total ${measure}.`);
+  }
+  if (second && second.value > 0 && top.value >= 2 * second.value) {
+    insights.push(`${top.name} is more than double the next highest, ${second.name} (${formatNumber(second.value)}).`);
+  }
+  if (sorted.length > 1) {
+    const last = sorted[sorted.length - 1];
+    insights.push(`${last.name} has the lowest ${measure} at ${formatNumber(last.value)}.`);
+  }
+  return insights;
+}
+
+function shareInsights(points: Point[], measure: string): string[] {
+  const total = sumOf(points);
+  if (points.length === 0 || total <= 0) return rankingInsights(points, measure, "");
+  const sorted = [...points].sort((a, b) => b.value - a.value);
+  const top = sorted[0];
+  const insights = [`${top.name} makes up the largest share of ${measure} at ${formatPercent(top.value / total)}.`];
+  if (sorted.length > 2) {
+    insights.push(`${top.name} and ${sorted[1].name} together make up ${formatPercent((top.value + sorted[1].value) / total)} of the total.`);
+  }
+  if (sorted.length > 1) {
+    const last = sorted[sorted.length - 1];
+    insights.push(`${last.name} has the smallest share at ${formatPercent(last.value / total)}.`);
+  }
+  return insights;
+}
+
+function changeOf(from: number, to: number): string {
+  if (from === to) return "unchanged";
+  const direction = to > from ? "up" : "down";
+  return from === 0 ? `${direction} from zero` : `${direction} ${formatPercent(Math.abs(to - from) / Math.abs(from))}`;
+}
+
+// Points in time order
+function trendInsights(points: Point[], measure: string): string[] {
+  if (points.length < 2) return rankingInsights(points, measure, "");
+  const first = points[0];
+  const last = points[points.length - 1];
+  const insights = [
+    `${capitalize(measure)} went from ${formatNumber(first.value)} in ${first.name} to ${formatNumber(last.value)} in ${last.name}, ${changeOf(first.value, last.value)}.`,
+  ];
+
+  let largest = 1;
+  for (let i = 2; i < points.length; i++) {
+    if (Math.abs(points[i].value - points[i - 1].value) > Math.abs(points[largest].value - points[largest - 1].value)) largest = i;
+  }
+  if (points.length > 2 && points[largest].value !== points[largest - 1].value) {
+    const previous = points[largest - 1];
+    insights.push(`The largest change was in ${points[largest].name}, ${changeOf(previous.value, points[largest].value)} on ${previous.name}.`);
+  }
+
+  const peak = points.reduce((best, point) => (point.value > best.value ? point : best), first);
+  insights.push(`${capitalize(measure)} peaked at ${formatNumber(peak.value)} in ${peak.name}.`);
+  return insights;
+}
+
+// Bucketed dates hold the first day of their bucket, so they are named by it
+export function periodLabel(value: unknown, bucket?: TimeBucket): string {
+  const text = String(value);
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(text);
+  if (!match) return text;
+  const [, year, month, day] = match;
+  switch (bucket) {
+    case "year":
+      return year;
+    case "quarter":
+      return `Q${Math.floor((parseInt(month) - 1) / 3) + 1} ${year}`;
+    case "month":
+      return `${MONTHS[parseInt(month) - 1]} ${year}`;
+    case "week":
+      return `week of ${year}-${month}-${day}`;
+    default:
+      return `${year}-${month}-${day}`;
+  }
+}
+
+function measureLabel(measure?: ColumnProfile): string {
+  if (!measure) return "records";
+  return measure.type === "percent" ? `average ${humanize(measure.name)}` : humanize(measure.name);
+}
+
+async function analyze(candidate: Candidate): Promise<Analysis> {
+  const { table, kind, dimension, bucket, measure } = candidate;
+  const aggregate: QueryMeasure = measure
+    ? { aggregation: measure.type === "percent" ? "avg" : "sum", column: measure.name, as: "value" }
+    : { aggregation: "count", as: "value" };
+  const group: QueryDimension = { column: dimension.name, bucket, as: "label" };
+  const result = await table.run({
+    dimensions: [group],
+    measures: [aggregate],
+    filters: [],
+    sort: kind === "trend" ? [] : [{ field: "value", direction: "desc" }],
+    timezone: "UTC",
+    fiscalYearStartMonth: 1,
+  });
+
+  const all = result.rows
+    .filter(row => kind !== "trend" || row.label !== null)
+    .map(row => ({
+      name: row.label === null ? "(blank)" : periodLabel(row.label, bucket),
+      value: typeof row.value === "number" ? round(row.value) : 0,
+    }));
+
+  const what = measureLabel(measure);
+  const by = humanize(dimension.name);
+  const capitalized = capitalize(what);
+  switch (kind) {
+    case "trend": {
+      const points = all.slice(-MAX_TREND_POINTS);
+      return {
+        ...candidate,
+        points,
+        title: `${capitalized} by ${bucket ?? by}`,
+        question: `How has ${what} changed over time?`,
+        description: `${capitalized} per ${bucket} of ${by} in ${table.name}`,
+        insights: trendInsights(points, what),
+      };
+    }
+    case "share":
+      return {
+        ...candidate,
+        points: all,
+        title: `${capitalized} by ${by}`,
+        question: `How is ${what} split across ${by}?`,
+        description: `Share of ${what} for each ${by} in ${table.name}`,
+        insights: shareInsights(all, what),
+      };
+    default:
+      return {
+        ...candidate,
+        points: all.slice(0, MAX_BARS),
+        title: all.length > MAX_BARS ? `Top ${MAX_BARS} ${by} by ${what}` : `${capitalized} by ${by}`,
+        question: `Which ${by} has the highest ${what}?`,
+        description: `${capitalized} for each ${by} in ${table.name}`,
+        insights: rankingInsights(all, what, by),
+      };
+  }
+}
+
+// Runs the best candidates until `count` have data, passing each on as soon
+// as it's done. Candidates whose query fails, say over a column a re-upload
+// dropped, are skipped.
+async function* analysesOf(candidates: Candidate[], count: number, skip: (analysis: Analysis) => boolean = () => false) {
+  let found = 0;
+  for (const candidate of candidates) {
+    if (found >= count) break;
+    try {
+      const analysis = await analyze(candidate);
+      if (analysis.points.length > 0 && !skip(analysis)) {
+        found++;
+        yield analysis;
+      }
+    } catch (error) {
+      if (!(error instanceof IngestError)) throw error;
+    }
+  }
+}
+
+async function analyses(candidates: Candidate[], count: number, skip?: (analysis: Analysis) => boolean) {
+  const results: Analysis[] = [];
+  for await (const analysis of analysesOf(candidates, count, skip)) results.push(analysis);
+  return results;
+}
+
+// Accepts chart data as [{name, value}], plain numbers or Chart.js datasets
+function pointsOf(data: unknown): Point[] {
+  if (Array.isArray(data)) {
+    return data.flatMap((item, index) => {
+      const record = typeof item === "object" && item !== null ? (item as Record<string, unknown>) : undefined;
+      const value = Number(record ? record.value : item);
+      if (item === null || isNaN(value)) return [];
+      return [{ name: String(record?.name ?? `Item ${index + 1}`), value }];
+    });
+  }
+  if (typeof data === "object" && data !== null && "labels" in data && "datasets" in data) {
+    const { labels, datasets } = data as { labels: unknown[]; datasets: { data: unknown[] }[] };
+    return pointsOf((datasets[0]?.data ?? []).map((value, index) => ({ name: String(labels[index] ?? `Item ${index + 1}`), value })));
+  }
+  return [];
+}
+
+const looksLikePeriods = (points: Point[]) =>
+  points.length > 1 && points.every(point => /^(\d{4}\b|Q[1-4] \d{4}|week of |(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\b)/.test(point.name));
+
+// A small deterministic generator so the same prompt gives the same rows
+function seededRandom(seed: string) {
+  let state = Array.from(seed).reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) >>> 0, 7) || 1;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 2 ** 32;
+  };
+}
+
+export const rulesProvider: AIProvider = {
+  async generateChart({ prompt, chartType, dataSources }) {
+    const [analysis] = await analyses(candidatesOf(await tablesOf(dataSources), prompt), 1);
+    if (!analysis) {
+      return {
+        type: "bar",
+        title: "No chart available",
+        data: [],
+        insights: ["None of the data sources has a date or category column to chart."],
+      };
+    }
+    const requested = chartType && chartType !== "auto" ? chartType : requestedChartType(prompt);
+    const type = ["bar", "line", "pie", "doughnut", "area"].includes(requested ?? "")
+      ? (requested as GeneratedChart["type"])
+      : chartTypeOf(analysis.kind);
+    return { type, title: analysis.title, data: analysis.points, insights: analysis.insights };
+  },
+
+  async generateSyntheticData(prompt) {
+    const random = seededRandom(prompt);
+    const regions = ["North", "South", "East", "West"];
+    return Array.from({ length: SYNTHETIC_ROW_COUNT }, (_, index) => ({
+      month: `2024-${String(Math.floor(index / regions.length) + 1).padStart(2, "0")}`,
+      region: regions[index % regions.length],
+      value: Math.round(1000 + random() * 9000),
+    }));
+  },
+
+  async generateSmartInsights({ insightCount, sampleData, existingInsightsContext, dataSources }) {
+    const candidates = candidatesOf(await tablesOf(dataSources, sampleData));
+    const existing = existingInsightsContext.toLowerCase();
+    const found = await analyses(candidates, insightCount, analysis => existing.includes(analysis.question.toLowerCase()));
+    return found.map((analysis): SmartInsight => ({
+      question: analysis.question,
+      description: analysis.insights[0] ?? analysis.description,
+      chart_type: chartTypeOf(analysis.kind),
+      insight_category: analysis.kind,
+      chart_payload: {
+        labels: analysis.points.map(point => point.name),
+        datasets: [{ label: measureLabel(analysis.measure), data: analysis.points.map(point => point.value) }],
+      },
+    }));
+  },
+
+  async generateInsights(data, prompt = "") {
+    const points = pointsOf(data);
+    if (TREND_WORDS.test(normalize(prompt)) || looksLikePeriods(points)) {
+      return trendInsights(points, "value");
+    }
+    return points.length <= MAX_SHARE_SLICES && points.every(point => point.value >= 0)
+      ? shareInsights(points, "value")
+      : rankingInsights(points, "value", "item");
+  },
+
+  async generateSQLQuery(_prompt, schema) {
+    const table = schema?.match(/^\s*([\w"]+) --/m)?.[1];
+    return table ? `SELECT * FROM ${table} LIMIT 100` : "SELECT 1";
+  },
+
+  async analyzeDataSource(dataSource) {
+    const schema = dataSource.schema ?? [];
+    const candidates = candidatesOf(await tablesOf([dataSource]));
+    const found = await analyses(candidates, 3);
+    return {
+      summary: `${dataSource.name} has ${dataSource.content.length.toLocaleString("en-US")} rows and ${schema.length} columns.`,
+      columns: schema.map(column => ({
+        name: column.name,
+        type: column.type,
+        description: isNumericColumn(column)
+          ? `Numbers from ${column.min ?? "?"} to ${column.max ?? "?"}`
+          : column.type === "date" || column.type === "datetime"
+            ? `Dates from ${column.min ?? "?"} to ${column.max ?? "?"}`
+            : `${column.cardinality} distinct values`,
+      })),
+      suggestedCharts: found.map(analysis => ({ type: chartTypeOf(analysis.kind), title: analysis.title, description: analysis.description })),
+      insights: found.flatMap(analysis => analysis.insights.slice(0, 1)),
+    };
+  },
+
+  // Each chart comes with a line of the answer about it. The sources are read
+  // through the tools, so every query shows up as a step.
+  async *streamEpesiAgentResponse({ prompt, chartCount, tools }, signal) {
+    const steps: AgentEvent[] = [];
+    let tables: RulesTable[] = [];
+    try {
+      tables = await toolTables(tools, steps, chartCount);
+    } catch (error) {
+      if (!(error instanceof IngestError)) throw error;
+    }
+    yield* steps.splice(0);
+
+    let charts = 0;
+    for await (const analysis of analysesOf(candidatesOf(tables, prompt), chartCount)) {
+      yield* steps.splice(0);
+      if (signal?.aborted) return;
+      yield { type: "text", text: `${charts === 0 ? "Here is what the data shows:\n\n" : "\n"}• ${analysis.insights[0]}` };
+      charts++;
+      const chart: AgentChart = {
+        id: `chart_${charts}`,
+        type: chartTypeOf(analysis.kind),
+        title: analysis.title,
+        description: analysis.description,
+        data: analysis.points,
+        options: {},
+        insights: analysis.insights,
+      };
+      yield { type: "chart", chart };
+    }
+    yield* steps.splice(0);
+    if (charts === 0) {
+      yield { type: "text", text: "I couldn't find a date or category column to analyze. Add a data source with one and ask again." };
+    }
+  },
+};
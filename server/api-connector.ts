@@ -0,0 +1,165 @@
+import type { ApiSource } from "@shared/schema";
+import { ConnectorError, ROW_BATCH_SIZE, type ParsedRow, type TableStream } from "./ingest";
+import { columnsOfRows, flattenRecord } from "./json-ingest";
+import { selectRecords, selectValue } from "./jsonpath";
+
+// Reads records from JSON HTTP APIs, following pagination until the API runs
+// out of pages or the source's page limit is reached.
+
+const REQUEST_TIMEOUT_MS = 30_000;
+const PREVIEW_ROWS = 20;
+
+// Where the next request goes; which fields are used depends on the pagination strategy
+interface PageRequest {
+  url: string;
+  page?: number;
+  cursor?: string;
+}
+
+interface Page {
+  rows: ParsedRow[];
+  next: PageRequest | null;
+}
+
+export interface ApiPreview {
+  columns: string[];
+  rows: ParsedRow[];
+  rowCount: number; // Rows on the first page
+  hasMore: boolean;
+}
+
+function withParams(url: string, params: Record<string, string | number | undefined>): string {
+  const result = new URL(url);
+  for (const [name, value] of Object.entries(params)) {
+    if (name && value !== undefined) result.searchParams.set(name, String(value));
+  }
+  return result.toString();
+}
+
+function requestUrl(source: ApiSource, request: PageRequest): string {
+  const { pagination, auth } = source;
+  let url = request.url;
+  if (pagination.strategy === "page") {
+    url = withParams(url, {
+      [pagination.pageParam]: request.page,
+      [pagination.pageSizeParam ?? ""]: pagination.pageSize,
+    });
+  } else if (pagination.strategy === "cursor" && request.cursor !== undefined) {
+    url = withParams(url, { [pagination.cursorParam]: request.cursor });
+  }
+  if (auth.scheme === "apiKey" && auth.in === "query") {
+    url = withParams(url, { [auth.name]: auth.value });
+  }
+  return url;
+}
+
+function requestHeaders(source: ApiSource): Record<string, string> {
+  const headers: Record<string, string> = { Accept: "application/json", ...source.headers };
+  const { auth } = source;
+  if (auth.scheme === "bearer") {
+    headers.Authorization = `Bearer ${auth.token}`;
+  } else if (auth.scheme === "basic") {
+    headers.Authorization = `Basic ${Buffer.from(`${auth.username}:${auth.password}`).toString("base64")}`;
+  } else if (auth.scheme === "apiKey" && auth.in === "header") {
+    headers[auth.name] = auth.value;
+  }
+  return headers;
+}
+
+// The rel="next" target of a Link header, e.g. `<https://api/x?page=2>; rel="next"`
+export function nextLink(header: string | null, base: string): string | null {
+  if (!header) return null;
+  for (const part of header.split(",")) {
+    const match = part.match(/<([^>]+)>(.*)/);
+    const rel = match?.[2].match(/rel\s*=\s*"?([^";]*)"?/i);
+    if (match && rel && rel[1].toLowerCase().split(/\s+/).includes("next")) {
+      return new URL(match[1].trim(), base).toString();
+    }
+  }
+  return null;
+}
+
+async function fetchJson(source: ApiSource, url: string): Promise<{ body: unknown; headers: Headers }> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: requestHeaders(source),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    // fetch reports network failures as "fetch failed" with the real reason as its cause
+    const cause = (error as { cause?: Error }).cause;
+    const reason = (error as Error).name === "TimeoutError" ? "the request timed out" : (cause ?? (error as Error)).message;
+    throw new ConnectorError(`Could not reach ${new URL(url).host}: ${reason}`);
+  }
+
+  const text = await response.text();
+  if (!response.ok) {
+    throw new ConnectorError(`The API answered ${response.status} ${response.statusText}: ${text.slice(0, 200)}`);
+  }
+  try {
+    return { body: JSON.parse(text), headers: response.headers };
+  } catch {
+    throw new ConnectorError("The API response is not JSON");
+  }
+}
+
+function firstRequest(source: ApiSource): PageRequest {
+  const { pagination } = source;
+  return { url: source.url, page: pagination.strategy === "page" ? pagination.startPage : undefined };
+}
+
+async function fetchPage(source: ApiSource, request: PageRequest): Promise<Page> {
+  const url = requestUrl(source, request);
+  const { body, headers } = await fetchJson(source, url);
+  const records = selectRecords(body, source.recordsPath);
+  const rows = records.flatMap(record => flattenRecord(record, source.arrayMode));
+
+  const { pagination } = source;
+  let next: PageRequest | null = null;
+  if (pagination.strategy === "page") {
+    const full = pagination.pageSize === undefined || records.length >= pagination.pageSize;
+    next = records.length > 0 && full ? { ...request, page: request.page! + 1 } : null;
+  } else if (pagination.strategy === "cursor") {
+    const cursor = selectValue(body, pagination.cursorPath);
+    const usable = cursor !== null && cursor !== undefined && cursor !== "" && String(cursor) !== request.cursor;
+    next = usable && records.length > 0 ? { ...request, cursor: String(cursor) } : null;
+  } else if (pagination.strategy === "link") {
+    const link = nextLink(headers.get("link"), url);
+    // Every request carries the source's credentials, so they only go where the source points
+    if (link && new URL(link).origin !== new URL(source.url).origin) {
+      throw new ConnectorError(`The API's next page is on another host (${new URL(link).host}); only links to ${new URL(source.url).host} are followed`);
+    }
+    next = link ? { url: link } : null;
+  }
+  return { rows, next };
+}
+
+// Fetch only the first page, to check the settings before saving them
+export async function previewApiSource(source: ApiSource): Promise<ApiPreview> {
+  const page = await fetchPage(source, firstRequest(source));
+  return {
+    columns: columnsOfRows(page.rows),
+    rows: page.rows.slice(0, PREVIEW_ROWS),
+    rowCount: page.rows.length,
+    hasMore: page.next !== null,
+  };
+}
+
+// The first page is fetched up front for the column names; later pages are
+// fetched as the rows are consumed
+export async function openApiSource(source: ApiSource): Promise<TableStream> {
+  const first = await fetchPage(source, firstRequest(source));
+
+  async function* batches(): AsyncGenerator<ParsedRow[]> {
+    let page: Page = first;
+    for (let fetched = 1; ; fetched++) {
+      for (let i = 0; i < page.rows.length; i += ROW_BATCH_SIZE) {
+        yield page.rows.slice(i, i + ROW_BATCH_SIZE);
+      }
+      if (!page.next || fetched >= source.maxPages) return;
+      page = await fetchPage(source, page.next);
+    }
+  }
+  return { columns: columnsOfRows(first.rows), batches: batches() };
+}
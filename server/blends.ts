@@ -0,0 +1,225 @@
+import type { BlendDefinition, BlendJoin, ColumnSchema, ColumnType, DataSource } from "@shared/schema";
+import { storage } from "./storage";
+import { getFieldSchema, isNumericColumn, iterateFieldRows, type DataRow } from "./datasets";
+import { ConnectorError, ROW_BATCH_SIZE, type CellValue, type ParsedRow, type TableStream } from "./ingest";
+import { coerceValue } from "./schema-inference";
+
+// Builds the rows of a blended data source by joining the current rows of other
+// data sources. Joined sources are held in memory by key while the rows of the
+// base source stream through each join in turn.
+//
+// Key columns of different types are reconciled before matching: numbers match
+// numbers however they were written, dates and date-times match on the day, and
+// anything else is compared as trimmed text. As in SQL, empty keys never match.
+// Key columns with the same name on both sides become one column.
+
+interface BlendColumn {
+  source: string; // Name in the input data source
+  name: string; // Name in the blend
+  type: ColumnType;
+}
+
+type KeyKind = "number" | "date" | "text";
+
+interface PreparedJoin {
+  join: BlendJoin;
+  keys: { left: BlendColumn; right: BlendColumn; kind: KeyKind }[];
+  added: { column: BlendColumn; as: string }[]; // Right columns copied into the result
+  merged: { column: BlendColumn; as: string }[]; // Right keys filling same-named left keys
+  index: Map<string, ParsedRow[]>;
+  unkeyed: ParsedRow[]; // Right rows with an empty key; only full joins keep them
+}
+
+async function loadInput(dataSourceId: number, rename: Record<string, string>, organizationId: number) {
+  const dataSource = await storage.getDataSource(dataSourceId);
+  if (!dataSource || dataSource.organizationId !== organizationId) {
+    throw new ConnectorError(`Data source ${dataSourceId} not found`);
+  }
+
+  const schema = await getFieldSchema(dataSource);
+  for (const original of Object.keys(rename)) {
+    if (!schema.some(column => column.name === original)) {
+      throw new ConnectorError(`${dataSource.name} has no column named ${original}`);
+    }
+  }
+  const columns: BlendColumn[] = schema.map((column: ColumnSchema) => ({
+    source: column.name,
+    name: rename[column.name] ?? column.name,
+    type: column.type,
+  }));
+  const names = new Set<string>();
+  for (const column of columns) {
+    if (names.has(column.name)) {
+      throw new ConnectorError(`${dataSource.name} would have two columns named ${column.name}`);
+    }
+    names.add(column.name);
+  }
+  return { dataSource, columns };
+}
+
+function kindOf(type: ColumnType): KeyKind {
+  if (isNumericColumn({ type })) return "number";
+  if (type === "date" || type === "datetime") return "date";
+  return "text";
+}
+
+function reconcileKeys(left: BlendColumn, right: BlendColumn): KeyKind {
+  const leftKind = kindOf(left.type);
+  const rightKind = kindOf(right.type);
+  if (leftKind === rightKind) return leftKind;
+  if (leftKind === "text" || rightKind === "text") return "text";
+  throw new ConnectorError(`Cannot join ${left.name} (${left.type}) with ${right.name} (${right.type})`);
+}
+
+function keyPart(value: unknown, type: ColumnType, kind: KeyKind): string | number | null {
+  const coerced = coerceValue(value, type);
+  if (coerced === null) return null;
+  if (kind === "number") return typeof coerced === "number" ? coerced : null;
+  const text = String(coerced).trim();
+  if (text === "") return null;
+  return kind === "date" ? text.slice(0, 10) : text;
+}
+
+function rowKey(row: ParsedRow, columns: { column: BlendColumn; kind: KeyKind }[]): string | null {
+  const parts = columns.map(({ column, kind }) => keyPart(row[column.name], column.type, kind));
+  return parts.some(part => part === null) ? null : JSON.stringify(parts);
+}
+
+async function* renamedRows(dataSource: DataSource, columns: BlendColumn[]): AsyncGenerator<ParsedRow[]> {
+  for await (const batch of iterateFieldRows(dataSource)) {
+    yield batch.map((row: DataRow) => {
+      const renamed: ParsedRow = {};
+      for (const column of columns) {
+        renamed[column.name] = (row[column.source] ?? null) as CellValue;
+      }
+      return renamed;
+    });
+  }
+}
+
+async function* joinRows(left: AsyncIterable<ParsedRow[]>, leftColumns: BlendColumn[], prepared: PreparedJoin): AsyncGenerator<ParsedRow[]> {
+  const { join, keys, added, merged, index } = prepared;
+  const leftKeys = keys.map(key => ({ column: key.left, kind: key.kind }));
+  const matched = new Set<string>();
+
+  const combine = (leftRow: ParsedRow | null, rightRow: ParsedRow | null): ParsedRow => {
+    const row: ParsedRow = {};
+    for (const column of leftColumns) {
+      row[column.name] = leftRow?.[column.name] ?? null;
+    }
+    for (const { column, as } of merged) {
+      if (row[as] === null) row[as] = rightRow?.[column.name] ?? null;
+    }
+    for (const { column, as } of added) {
+      row[as] = rightRow?.[column.name] ?? null;
+    }
+    return row;
+  };
+
+  let output: ParsedRow[] = [];
+  for await (const batch of left) {
+    for (const leftRow of batch) {
+      const key = rowKey(leftRow, leftKeys);
+      const matches = key === null ? undefined : index.get(key);
+      if (matches) {
+        matched.add(key!);
+        for (const rightRow of matches) output.push(combine(leftRow, rightRow));
+      } else if (join.type !== "inner") {
+        output.push(combine(leftRow, null));
+      }
+      if (output.length >= ROW_BATCH_SIZE) {
+        yield output;
+        output = [];
+      }
+    }
+  }
+
+  // Full joins also keep the joined rows nothing matched
+  if (join.type === "full") {
+    const unmatched = Array.from(index.entries())
+      .filter(([key]) => !matched.has(key))
+      .flatMap(([, rows]) => rows)
+      .concat(prepared.unkeyed);
+    for (const rightRow of unmatched) {
+      output.push(combine(null, rightRow));
+      if (output.length >= ROW_BATCH_SIZE) {
+        yield output;
+        output = [];
+      }
+    }
+  }
+  if (output.length > 0) yield output;
+}
+
+async function prepareJoin(join: BlendJoin, leftColumns: BlendColumn[], organizationId: number): Promise<{ prepared: PreparedJoin; columns: BlendColumn[] }> {
+  const { dataSource, columns: rightColumns } = await loadInput(join.dataSourceId, join.rename, organizationId);
+
+  const keys = join.on.map(({ left, right }) => {
+    const leftColumn = leftColumns.find(column => column.name === left);
+    const rightColumn = rightColumns.find(column => column.name === right);
+    if (!leftColumn) throw new ConnectorError(`No column named ${left} to join ${dataSource.name} on`);
+    if (!rightColumn) throw new ConnectorError(`${dataSource.name} has no column named ${right}`);
+    return { left: leftColumn, right: rightColumn, kind: reconcileKeys(leftColumn, rightColumn) };
+  });
+
+  const merged = keys
+    .filter(key => key.left.name === key.right.name)
+    .map(key => ({ column: key.right, as: key.left.name }));
+  const taken = new Set(leftColumns.map(column => column.name));
+  const added: PreparedJoin["added"] = [];
+  for (const column of rightColumns) {
+    if (merged.some(key => key.column === column)) continue;
+    let as = column.name;
+    for (let n = 2; taken.has(as); n++) {
+      as = n === 2 ? `${column.name} (${dataSource.name})` : `${column.name} (${dataSource.name} ${n})`;
+    }
+    taken.add(as);
+    added.push({ column, as });
+  }
+
+  const rightKeys = keys.map(key => ({ column: key.right, kind: key.kind }));
+  const index = new Map<string, ParsedRow[]>();
+  const unkeyed: ParsedRow[] = [];
+  for await (const batch of renamedRows(dataSource, rightColumns)) {
+    for (const row of batch) {
+      const key = rowKey(row, rightKeys);
+      if (key === null) {
+        if (join.type === "full") unkeyed.push(row);
+        continue;
+      }
+      const rows = index.get(key);
+      if (rows) rows.push(row);
+      else index.set(key, [row]);
+    }
+  }
+
+  const columns = [
+    ...leftColumns,
+    ...added.map(({ column, as }) => ({ ...column, name: as })),
+  ];
+  return { prepared: { join, keys, added, merged, index, unkeyed }, columns };
+}
+
+export async function openBlend(definition: BlendDefinition, organizationId: number): Promise<TableStream> {
+  const base = await loadInput(definition.base.dataSourceId, definition.base.rename, organizationId);
+  let columns = base.columns;
+  let batches: AsyncIterable<ParsedRow[]> = renamedRows(base.dataSource, base.columns);
+
+  for (const join of definition.joins) {
+    const { prepared, columns: joinedColumns } = await prepareJoin(join, columns, organizationId);
+    batches = joinRows(batches, columns, prepared);
+    columns = joinedColumns;
+  }
+  return { columns: columns.map(column => column.name), batches };
+}
+
+// One-line summary for AI prompts, e.g. "Orders left join Customers on customer_id = id"
+export async function describeBlend(definition: BlendDefinition): Promise<string> {
+  const nameOf = async (id: number) => (await storage.getDataSource(id))?.name ?? `data source ${id}`;
+  let description = await nameOf(definition.base.dataSourceId);
+  for (const join of definition.joins) {
+    const keys = join.on.map(({ left, right }) => (left === right ? left : `${left} = ${right}`)).join(", ");
+    description += ` ${join.type} join ${await nameOf(join.dataSourceId)} on ${keys}`;
+  }
+  return description;
+}
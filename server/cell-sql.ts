@@ -0,0 +1,90 @@
+import type { ColumnType } from "@shared/schema";
+
+// SQL expressions that read cells out of stored rows the way schema-inference's
+// coerceValue converts them, as far as SQL allows: dates are read from ISO,
+// Y/M/D and M/D/Y text only. Used by the SQL sandbox, the data grid and table
+// blocks.
+
+function literal(text: string): string {
+  return `'${text.replace(/'/g, "''")}'`;
+}
+
+// Same cleanup as parseNumber: "(1,200.50 USD)" is -1200.5
+function numberExpression(text: string, json: string): string {
+  const cleaned = `regexp_replace(regexp_replace(${text}, '[()$€£¥₹%,\\s]', '', 'g'), '[A-Z]{3}', '', 'g')`;
+  return `CASE
+      WHEN jsonb_typeof(${json}) = 'boolean' THEN CASE WHEN ${text} = 'true' THEN 1 ELSE 0 END
+      WHEN ${cleaned} ~ '^[-+]?(\\d+\\.?\\d*|\\.\\d+)([eE][-+]?\\d+)?$'
+        THEN ${cleaned}::numeric * CASE WHEN btrim(${text}) ~ '^\\(.*\\)$' THEN -1 ELSE 1 END
+    END`;
+}
+
+const YMD = "^(\\d{4})[-/](0?[1-9]|1[0-2])[-/](0?[1-9]|[12]\\d|3[01])$";
+const MDY = "^(0?[1-9]|1[0-2])/(0?[1-9]|[12]\\d|3[01])/(\\d{4})$";
+const ISO_DATETIME = "^\\d{4}-(0?[1-9]|1[0-2])-(0?[1-9]|[12]\\d|3[01])[T ]([01]?\\d|2[0-3]):[0-5]\\d(:[0-5]\\d(\\.\\d+)?)?(Z|[-+]\\d{2}:?\\d{2})?$";
+
+// Out-of-range days roll over into the next month, as Date.parse does
+function dateExpression(text: string): string {
+  const part = (pattern: string, n: number) => `(regexp_match(btrim(${text}), '${pattern}'))[${n}]::int`;
+  return `CASE
+      WHEN btrim(${text}) ~ '${YMD}' THEN make_date(${part(YMD, 1)}, ${part(YMD, 2)}, 1) + (${part(YMD, 3)} - 1)
+      WHEN btrim(${text}) ~ '${MDY}' THEN make_date(${part(MDY, 3)}, ${part(MDY, 1)}, 1) + (${part(MDY, 2)} - 1)
+    END`;
+}
+
+// The typed value of a column, read from the `data` of a data_source_rows row
+export function cellExpression(column: string, type: ColumnType): string {
+  const json = `data -> ${literal(column)}`;
+  const text = `(data ->> ${literal(column)})`;
+  switch (type) {
+    case "integer":
+    case "decimal":
+    case "currency":
+      return numberExpression(text, json);
+    case "percent":
+      return `(${numberExpression(text, json)}) / CASE WHEN strpos(${text}, '%') > 0 THEN 100 ELSE 1 END`;
+    case "boolean":
+      return `CASE WHEN btrim(${text}) <> '' THEN lower(btrim(${text})) IN ('true', 'yes', 'y', 't', '1') END`;
+    case "date":
+      return `CASE
+      WHEN btrim(${text}) ~ '${ISO_DATETIME}' THEN (btrim(${text})::timestamptz AT TIME ZONE 'UTC')::date
+      ELSE ${dateExpression(text)}
+    END`;
+    case "datetime":
+      return `CASE
+      WHEN btrim(${text}) ~ '${ISO_DATETIME}' THEN btrim(${text})::timestamptz
+      ELSE (${dateExpression(text)})::timestamp AT TIME ZONE 'UTC'
+    END`;
+    default:
+      return `NULLIF(btrim(${text}), '')`;
+  }
+}
+
+// A cell as the text JavaScript's String() gives its coerced value
+export function cellTextExpression(column: string, type: ColumnType): string {
+  const value = cellExpression(column, type);
+  switch (type) {
+    case "integer":
+    case "decimal":
+    case "currency":
+    case "percent":
+      return `(${value})::float8::text`;
+    case "boolean":
+      return `(${value})::text`;
+    case "date":
+      return `to_char(${value}, 'YYYY-MM-DD')`;
+    case "datetime":
+      return `to_char((${value}) AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')`;
+    default:
+      return value;
+  }
+}
+
+// A coerced value as a literal to compare cells of the column type with
+export function valueLiteral(value: string | number | boolean, type: ColumnType): string {
+  if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+  if (typeof value === "number") return `${literal(String(value))}::float8`;
+  if (type === "date") return `${literal(value)}::date`;
+  if (type === "datetime") return `${literal(value)}::timestamptz`;
+  return literal(value);
+}
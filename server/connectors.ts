@@ -0,0 +1,110 @@
+import { apiSourceSchema, blendDefinitionSchema, databaseSourceSchema, type ApiSource, type DataSource, type DatabaseConnection } from "@shared/schema";
+import { createDataSourceVersion } from "./datasets";
+import { openDatabaseSource } from "./database-connector";
+import { openApiSource } from "./api-connector";
+import { openBlend } from "./blends";
+import { ConnectorError, type TableStream } from "./ingest";
+import { queryJsonPath } from "./jsonpath";
+import { decryptSecret, encryptSecret } from "./secrets";
+
+// Connector data sources pull their rows from an external system instead of an
+// uploaded file. Each pull is stored as a new version, so dashboards read the
+// same snapshot until the next refresh and earlier pulls can be restored.
+// Blends are refreshed the same way, from the current rows of the sources they join.
+
+const CONNECTOR_TYPES = new Set(["database", "api", "blend"]);
+
+export function isConnectorType(type: string): boolean {
+  return CONNECTOR_TYPES.has(type);
+}
+
+interface StoredCredentials {
+  password?: string;
+}
+
+// Headers often carry keys too, so they are encrypted along with the auth settings
+interface StoredApiCredentials {
+  auth: ApiSource["auth"];
+  headers: ApiSource["headers"];
+}
+
+// Validate an API source from the client. Malformed JSONPaths fail here rather
+// than after the first request.
+export function parseApiSource(config: unknown): ApiSource {
+  const source = apiSourceSchema.parse(config);
+  queryJsonPath(null, source.recordsPath);
+  if (source.pagination.strategy === "cursor") {
+    queryJsonPath(null, source.pagination.cursorPath);
+  }
+  return source;
+}
+
+// Keep the secrets of an API source encrypted
+function prepareApiSource(config: unknown): Record<string, unknown> {
+  const { auth, headers, ...source } = parseApiSource(config);
+  const credentials = encryptSecret({ auth, headers } satisfies StoredApiCredentials);
+  return { ...source, authScheme: auth.scheme, credentials };
+}
+
+export function storedApiSource(config: Record<string, any>): ApiSource {
+  const { auth, headers }: StoredApiCredentials = decryptSecret(config.credentials);
+  return apiSourceSchema.parse({ ...config, auth, headers });
+}
+
+// Validate a connector config from the client and encrypt its credentials. The
+// password of an existing database source is kept when the client doesn't send
+// a new one.
+export function prepareConnectorConfig(type: string, config: unknown, previous?: Record<string, any>): Record<string, unknown> {
+  if (type === "api") {
+    return prepareApiSource(config);
+  }
+  if (type === "blend") {
+    return blendDefinitionSchema.parse(config);
+  }
+  if (type !== "database") {
+    throw new ConnectorError(`Unsupported connector type: ${type}`);
+  }
+
+  const { connection, table, query } = databaseSourceSchema.parse(config);
+  const { password, ...details } = connection;
+  const credentials = password !== undefined
+    ? encryptSecret({ password } satisfies StoredCredentials)
+    : previous?.credentials;
+  return { connection: details, credentials, table, query };
+}
+
+export function storedConnection(config: Record<string, any>): DatabaseConnection {
+  const credentials: StoredCredentials = config.credentials ? decryptSecret(config.credentials) : {};
+  return { ...config.connection, password: credentials.password };
+}
+
+export async function openConnectorSource(type: string, config: Record<string, any>, organizationId: number): Promise<TableStream> {
+  if (type === "api") {
+    return openApiSource(storedApiSource(config));
+  }
+  if (type === "blend") {
+    return openBlend(blendDefinitionSchema.parse(config), organizationId);
+  }
+  if (type !== "database") {
+    throw new ConnectorError(`Unsupported connector type: ${type}`);
+  }
+  return openDatabaseSource(storedConnection(config), config);
+}
+
+// A source's config without what the last version worked out from its rows
+function withoutDerivedConfig(config: Record<string, any>): Record<string, any> {
+  const { columns, rowCount, sourceColumns, ...settings } = config;
+  return settings;
+}
+
+// Pull the source's current rows into a new version
+export async function refreshDataSource(dataSource: DataSource, userId: string) {
+  const config = withoutDerivedConfig(dataSource.config as Record<string, any>);
+  const table = await openConnectorSource(dataSource.type, config, dataSource.organizationId);
+  return createDataSourceVersion(dataSource, {
+    mode: "refresh",
+    table,
+    config,
+    uploadedById: userId,
+  });
+}
@@ -0,0 +1,96 @@
+import { IngestError } from "./ingest";
+
+// Five-field cron expressions (minute hour day-of-month month day-of-week),
+// evaluated in UTC. Fields accept *, numbers, ranges (1-5), lists (1,15) and
+// steps (*/15, 0-30/10). Day of week runs 0-6 from Sunday; 7 is also Sunday.
+// As in standard cron, when both day fields are restricted a day matching
+// either one is used.
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  anyDay: boolean; // Day-of-month field is *
+  anyWeekday: boolean; // Day-of-week field is *
+}
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+];
+
+// Searching further ahead than this means the expression never matches (e.g. Feb 30)
+const MAX_SEARCH_DAYS = 366 * 5;
+
+function parseField(text: string, field: typeof FIELDS[number]): Set<number> {
+  const values = new Set<number>();
+  for (const part of text.split(",")) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new IngestError(`Invalid ${field.name} field: ${text}`);
+    }
+
+    const start = match[1] === "*" ? field.min : parseInt(match[2]);
+    const end = match[1] === "*" ? field.max : match[3] !== undefined ? parseInt(match[3]) : match[4] ? field.max : start;
+    const step = match[4] ? parseInt(match[4]) : 1;
+    if (start < field.min || end > field.max || start > end || step === 0) {
+      throw new IngestError(`Invalid ${field.name} field: ${text}`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new IngestError("Cron expressions need five fields: minute hour day-of-month month day-of-week");
+  }
+
+  const [minutes, hours, days, months, weekdays] = parts.map((part, i) => parseField(part, FIELDS[i]));
+  if (weekdays.has(7)) {
+    weekdays.add(0);
+  }
+  return { minutes, hours, days, months, weekdays, anyDay: parts[2] === "*", anyWeekday: parts[4] === "*" };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const day = schedule.days.has(date.getUTCDate());
+  const weekday = schedule.weekdays.has(date.getUTCDay());
+  if (schedule.anyDay || schedule.anyWeekday) {
+    return day && weekday;
+  }
+  return day || weekday;
+}
+
+// The first matching minute strictly after `after`
+export function nextCronTime(schedule: CronSchedule, after: Date): Date {
+  const time = new Date(after.getTime());
+  time.setUTCSeconds(0, 0);
+  time.setUTCMinutes(time.getUTCMinutes() + 1);
+  const limit = after.getTime() + MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000;
+
+  while (time.getTime() <= limit) {
+    if (!schedule.months.has(time.getUTCMonth() + 1)) {
+      time.setUTCMonth(time.getUTCMonth() + 1, 1);
+      time.setUTCHours(0, 0);
+    } else if (!matchesDay(schedule, time)) {
+      time.setUTCDate(time.getUTCDate() + 1);
+      time.setUTCHours(0, 0);
+    } else if (!schedule.hours.has(time.getUTCHours())) {
+      time.setUTCHours(time.getUTCHours() + 1, 0);
+    } else if (!schedule.minutes.has(time.getUTCMinutes())) {
+      time.setUTCMinutes(time.getUTCMinutes() + 1);
+    } else {
+      return time;
+    }
+  }
+  throw new IngestError("Cron expression never matches a date");
+}
@@ -0,0 +1,283 @@
+import pg from "pg";
+import mysql from "mysql2";
+import type { DatabaseConnection, DatabaseSource } from "@shared/schema";
+import { ConnectorError, ROW_BATCH_SIZE, type CellValue, type ParsedRow, type TableStream } from "./ingest";
+
+// Reads tables and read-only queries from external PostgreSQL and MySQL
+// databases. Every read runs inside a READ ONLY transaction, so a query that
+// slips past the statement check still can't change the source database.
+
+export interface DatabaseTable {
+  schema: string | null; // Null for MySQL, where the database is the schema
+  name: string;
+  type: "table" | "view";
+}
+
+const DEFAULT_PORTS = { postgres: 5432, mysql: 3306 };
+const CONNECT_TIMEOUT_MS = 10_000;
+const STATEMENT_TIMEOUT_MS = 5 * 60_000;
+
+function connectorError(error: unknown): ConnectorError {
+  if (error instanceof ConnectorError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  return new ConnectorError(message || "Could not connect to the database");
+}
+
+// Drivers hand back dates, big numbers and JSON as objects; rows only hold scalars
+function toCell(value: unknown): CellValue {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.toISOString();
+  if (Buffer.isBuffer(value)) return value.toString("base64");
+  if (typeof value === "bigint") return value.toString();
+  if (typeof value === "object") return JSON.stringify(value);
+  return value as CellValue;
+}
+
+function toRow(columns: string[], record: Record<string, unknown>): ParsedRow {
+  const row: ParsedRow = {};
+  for (const column of columns) {
+    row[column] = toCell(record[column]);
+  }
+  return row;
+}
+
+// Only a single SELECT (optionally with a WITH clause) is accepted
+export function assertReadOnlyQuery(query: string): string {
+  const statement = query.trim().replace(/;\s*$/, "").trim();
+  if (!/^(select|with)\b/i.test(statement)) {
+    throw new ConnectorError("Only SELECT queries can be used as a data source");
+  }
+  if (statement.includes(";")) {
+    throw new ConnectorError("Queries must be a single statement");
+  }
+  return statement;
+}
+
+function quotePostgres(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
+
+function quoteMysql(identifier: string): string {
+  return `\`${identifier.replace(/`/g, "``")}\``;
+}
+
+function sourceQuery(engine: DatabaseConnection["engine"], source: Pick<DatabaseSource, "table" | "query">): string {
+  if (source.query) {
+    return assertReadOnlyQuery(source.query);
+  }
+  if (!source.table) {
+    throw new ConnectorError("Choose either a table or a query");
+  }
+  const { schema, name } = source.table;
+  if (engine === "mysql") {
+    return `SELECT * FROM ${quoteMysql(name)}`;
+  }
+  return `SELECT * FROM ${schema ? `${quotePostgres(schema)}.` : ""}${quotePostgres(name)}`;
+}
+
+// Certificates are checked unless the source opts out, e.g. for a server with a
+// self-signed certificate
+function tlsOptions(connection: DatabaseConnection) {
+  return connection.ssl ? { rejectUnauthorized: !connection.skipCertificateCheck } : undefined;
+}
+
+async function connectPostgres(connection: DatabaseConnection): Promise<pg.Client> {
+  const client = new pg.Client({
+    host: connection.host,
+    port: connection.port ?? DEFAULT_PORTS.postgres,
+    database: connection.database,
+    user: connection.user,
+    password: connection.password,
+    ssl: tlsOptions(connection) ?? false,
+    connectionTimeoutMillis: CONNECT_TIMEOUT_MS,
+    statement_timeout: STATEMENT_TIMEOUT_MS,
+  });
+  // A dropped connection would otherwise crash the process
+  client.on("error", error => console.error("Database connector error:", error));
+  try {
+    await client.connect();
+  } catch (error) {
+    await client.end().catch(() => {});
+    throw connectorError(error);
+  }
+  return client;
+}
+
+// MySQL takes the limit in milliseconds, MariaDB as max_statement_time in seconds
+async function setMysqlTimeout(client: mysql.Connection) {
+  try {
+    await client.promise().query(`SET SESSION max_execution_time = ${STATEMENT_TIMEOUT_MS}`);
+  } catch (error: any) {
+    if (error?.code !== "ER_UNKNOWN_SYSTEM_VARIABLE") throw error;
+    await client.promise().query(`SET SESSION max_statement_time = ${STATEMENT_TIMEOUT_MS / 1000}`);
+  }
+}
+
+async function connectMysql(connection: DatabaseConnection): Promise<mysql.Connection> {
+  const client = mysql.createConnection({
+    host: connection.host,
+    port: connection.port ?? DEFAULT_PORTS.mysql,
+    database: connection.database,
+    user: connection.user,
+    password: connection.password,
+    ssl: tlsOptions(connection),
+    connectTimeout: CONNECT_TIMEOUT_MS,
+    dateStrings: true,
+    supportBigNumbers: true,
+    bigNumberStrings: true,
+  });
+  client.on("error", error => console.error("Database connector error:", error));
+  try {
+    await client.promise().connect();
+    await client.promise().query("SET SESSION TRANSACTION READ ONLY");
+    await setMysqlTimeout(client);
+  } catch (error) {
+    client.destroy();
+    throw connectorError(error);
+  }
+  return client;
+}
+
+export async function testConnection(connection: DatabaseConnection): Promise<{ version: string }> {
+  if (connection.engine === "mysql") {
+    const client = await connectMysql(connection);
+    try {
+      const [rows] = await client.promise().query("SELECT VERSION() AS version");
+      return { version: `MySQL ${(rows as { version: string }[])[0].version}` };
+    } catch (error) {
+      throw connectorError(error);
+    } finally {
+      client.destroy();
+    }
+  }
+
+  const client = await connectPostgres(connection);
+  try {
+    const result = await client.query("SELECT version() AS version");
+    return { version: result.rows[0].version };
+  } catch (error) {
+    throw connectorError(error);
+  } finally {
+    await client.end().catch(() => {});
+  }
+}
+
+export async function listTables(connection: DatabaseConnection): Promise<DatabaseTable[]> {
+  const tableType = (type: string): DatabaseTable["type"] => (type === "VIEW" ? "view" : "table");
+
+  if (connection.engine === "mysql") {
+    const client = await connectMysql(connection);
+    try {
+      const [rows] = await client.promise().query(
+        `SELECT table_name AS name, table_type AS type FROM information_schema.tables
+         WHERE table_schema = DATABASE() ORDER BY table_name`,
+      );
+      return (rows as { name: string; type: string }[]).map(row => ({
+        schema: null,
+        name: row.name,
+        type: tableType(row.type),
+      }));
+    } catch (error) {
+      throw connectorError(error);
+    } finally {
+      client.destroy();
+    }
+  }
+
+  const client = await connectPostgres(connection);
+  try {
+    const result = await client.query(
+      `SELECT table_schema AS schema, table_name AS name, table_type AS type FROM information_schema.tables
+       WHERE table_schema NOT IN ('pg_catalog', 'information_schema')
+       ORDER BY table_schema = 'public' DESC, table_schema, table_name`,
+    );
+    return result.rows.map(row => ({ schema: row.schema, name: row.name, type: tableType(row.type) }));
+  } catch (error) {
+    throw connectorError(error);
+  } finally {
+    await client.end().catch(() => {});
+  }
+}
+
+// PostgreSQL rows are fetched through a server-side cursor, a batch at a time
+async function openPostgresQuery(connection: DatabaseConnection, query: string): Promise<TableStream> {
+  const client = await connectPostgres(connection);
+  const close = () => client.end().catch(() => {});
+
+  let first: pg.QueryResult;
+  try {
+    await client.query("BEGIN READ ONLY");
+    await client.query(`DECLARE source_rows NO SCROLL CURSOR FOR ${query}`);
+    first = await client.query(`FETCH ${ROW_BATCH_SIZE} FROM source_rows`);
+  } catch (error) {
+    await close();
+    throw connectorError(error);
+  }
+
+  const columns = first.fields.map(field => field.name);
+  async function* batches(): AsyncGenerator<ParsedRow[]> {
+    try {
+      let result = first;
+      while (result.rows.length > 0) {
+        yield result.rows.map(record => toRow(columns, record));
+        if (result.rows.length < ROW_BATCH_SIZE) break;
+        result = await client.query(`FETCH ${ROW_BATCH_SIZE} FROM source_rows`);
+      }
+      await client.query("COMMIT");
+    } catch (error) {
+      throw connectorError(error);
+    } finally {
+      await close();
+    }
+  }
+  return { columns, batches: batches() };
+}
+
+// MySQL rows are streamed from the result set as the driver receives them
+async function openMysqlQuery(connection: DatabaseConnection, query: string): Promise<TableStream> {
+  const client = await connectMysql(connection);
+  const pending = client.query(query);
+  const stream = pending.stream({ highWaterMark: ROW_BATCH_SIZE });
+  // Errors before iteration starts surface through the field promise below
+  stream.on("error", () => {});
+
+  let columns: string[];
+  try {
+    const fields = await new Promise<{ name: string }[]>((resolve, reject) => {
+      pending.once("fields", resolve);
+      pending.once("error", reject);
+    });
+    columns = fields.map(field => field.name);
+  } catch (error) {
+    client.destroy();
+    throw connectorError(error);
+  }
+
+  async function* batches(): AsyncGenerator<ParsedRow[]> {
+    try {
+      let batch: ParsedRow[] = [];
+      for await (const record of stream) {
+        batch.push(toRow(columns, record));
+        if (batch.length >= ROW_BATCH_SIZE) {
+          yield batch;
+          batch = [];
+        }
+      }
+      if (batch.length > 0) {
+        yield batch;
+      }
+    } catch (error) {
+      throw connectorError(error);
+    } finally {
+      client.destroy();
+    }
+  }
+  return { columns, batches: batches() };
+}
+
+export async function openDatabaseSource(connection: DatabaseConnection, source: Pick<DatabaseSource, "table" | "query">): Promise<TableStream> {
+  const query = sourceQuery(connection.engine, source);
+  return connection.engine === "mysql"
+    ? openMysqlQuery(connection, query)
+    : openPostgresQuery(connection, query);
+}
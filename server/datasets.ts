@@ -0,0 +1,440 @@
+import type { CalculatedFieldStatus, ColumnSchema, DataSource, DataSourceVersion } from "@shared/schema";
+import { sql, type SQL } from "drizzle-orm";
+import { storage, type IStorage } from "./storage";
+import { IngestError, ROW_BATCH_SIZE, type TableStream } from "./ingest";
+import { compileCalculatedFields, type CalculatedColumns } from "./formulas";
+import { queryCache } from "./query-cache";
+import { applyTransforms, transformedTypes, transformsOf } from "./transforms";
+import { cellExpression } from "./cell-sql";
+import { coerceValue, columnsOf, describeColumn, findColumnConflicts, findSchemaConflicts, inferSchema, SchemaBuilder } from "./schema-inference";
+
+export type DataRow = Record<string, unknown>;
+
+export interface RowPageQuery {
+  offset: number;
+  limit: number;
+  sort?: { column: string; direction: "asc" | "desc" };
+  filter?: string;
+  where?: SQL; // Conditions on the stored rows, only applied in SQL
+}
+
+export type UploadMode = "create" | "replace" | "append" | "refresh";
+
+export interface VersionUpload {
+  mode: UploadMode;
+  table: TableStream;
+  config: Record<string, unknown>; // Details of the uploaded file or connector
+  uploadedById: string;
+}
+
+// Raised when appended rows don't fit the columns of the data source
+export class SchemaConflictError extends IngestError {
+  constructor(public conflicts: string[]) {
+    super(`The file doesn't match the data source's columns: ${conflicts.join("; ")}`);
+    this.name = "SchemaConflictError";
+  }
+}
+
+// Raised when an upload would grow a data source past its organization's row limit
+export class RowLimitError extends IngestError {
+  constructor(public limit: number) {
+    super(`Data sources are limited to ${limit.toLocaleString()} rows`);
+    this.name = "RowLimitError";
+  }
+}
+
+// Used for organizations that haven't set their own row limit
+const DEFAULT_ROW_LIMIT = parseInt(process.env.DATA_SOURCE_ROW_LIMIT || "") || 5_000_000;
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+export interface ColumnStats {
+  column: ColumnSchema;
+  histogram?: HistogramBin[];
+  timeline?: { period: string; count: number }[];
+  topValues?: { value: string; count: number }[];
+  otherCount?: number;
+}
+
+const HISTOGRAM_BINS = 10;
+const TOP_VALUES = 10;
+
+const NUMERIC_TYPES = new Set(["integer", "decimal", "currency", "percent"]);
+
+export function isNumericColumn(column: Pick<ColumnSchema, "type">): boolean {
+  return NUMERIC_TYPES.has(column.type);
+}
+
+export async function loadDataSourceRows(dataSource: DataSource, store: IStorage = storage): Promise<DataRow[]> {
+  const rows = await store.getDataSourceRows(dataSource.id, dataSource.currentVersionId);
+  return rows.map(row => row.data as DataRow);
+}
+
+// Reads the current rows batch by batch, for work that shouldn't hold them all.
+// Each batch starts after the last row index of the one before.
+export async function* iterateDataSourceRows(dataSource: DataSource, store: IStorage = storage): AsyncGenerator<DataRow[]> {
+  let last = -1;
+  while (true) {
+    const rows = await store.getDataSourceRowsAfter(dataSource.id, dataSource.currentVersionId, last, ROW_BATCH_SIZE);
+    if (rows.length > 0) {
+      yield rows.map(row => row.data as DataRow);
+      last = rows[rows.length - 1].rowIndex;
+    }
+    if (rows.length < ROW_BATCH_SIZE) return;
+  }
+}
+
+export async function getRowLimit(organizationId: number): Promise<number> {
+  const organization = await storage.getOrganization(organizationId);
+  return organization?.rowLimit ?? DEFAULT_ROW_LIMIT;
+}
+
+// Returns the stored data dictionary, inferring and saving it first for sources
+// created before schemas were tracked.
+export async function getDataSourceSchema(dataSource: DataSource): Promise<ColumnSchema[]> {
+  if (dataSource.schema) {
+    return dataSource.schema;
+  }
+
+  const schema = await inferStoredSchema(dataSource);
+  await storage.updateDataSource(dataSource.id, { schema });
+  return schema;
+}
+
+async function inferStoredSchema(dataSource: DataSource, store: IStorage = storage): Promise<ColumnSchema[]> {
+  const rows = await loadDataSourceRows(dataSource, store);
+  return inferSchema(columnsOf(rows), rows);
+}
+
+// A data source's calculated fields compiled against its current columns.
+// Fields that no longer compile are left out, so a broken formula doesn't take
+// every block reading the data source down with it.
+async function compileDataSourceFields(dataSource: DataSource): Promise<{ schema: ColumnSchema[]; calculated: CalculatedColumns }> {
+  const schema = await getDataSourceSchema(dataSource);
+  return { schema, calculated: compileCalculatedFields(schema, dataSource.calculatedFields ?? [], false) };
+}
+
+// Dictionary entry of a calculated field. Its profile depends on every row, so
+// it is left empty here and computed by calculatedFieldStats when asked for.
+function calculatedColumnSchema(column: CalculatedColumns["columns"][number]): ColumnSchema {
+  const { name, type, formula } = column;
+  return { name, type, detectedType: type, overridden: false, nullRate: 0, cardinality: 0, min: null, max: null, formula };
+}
+
+export function calculatedFieldStats(rows: DataRow[], column: ColumnSchema): ColumnSchema {
+  return { ...describeColumn(column.name, rows.map(row => row[column.name]), column.type), formula: column.formula };
+}
+
+export async function getCalculatedFields(dataSource: DataSource): Promise<CalculatedFieldStatus[]> {
+  const { calculated } = await compileDataSourceFields(dataSource);
+  return (dataSource.calculatedFields ?? []).map(field => ({
+    ...field,
+    type: calculated.columns.find(column => column.name === field.name.trim())?.type ?? null,
+    error: calculated.errors.find(error => error.name === field.name)?.message ?? null,
+  }));
+}
+
+// The data source's columns followed by its calculated fields. Blocks, queries,
+// blends and AI prompts read data sources through these.
+export async function getFieldSchema(dataSource: DataSource): Promise<ColumnSchema[]> {
+  const { schema, calculated } = await compileDataSourceFields(dataSource);
+  return [...schema, ...calculated.columns.map(calculatedColumnSchema)];
+}
+
+export async function loadFieldRows(dataSource: DataSource): Promise<DataRow[]> {
+  const { calculated } = await compileDataSourceFields(dataSource);
+  return (await loadDataSourceRows(dataSource)).map(calculated.calculate);
+}
+
+export async function* iterateFieldRows(dataSource: DataSource): AsyncGenerator<DataRow[]> {
+  const { calculated } = await compileDataSourceFields(dataSource);
+  for await (const batch of iterateDataSourceRows(dataSource)) {
+    yield batch.map(calculated.calculate);
+  }
+}
+
+// Store an uploaded table as the next version of a data source and make it current.
+// Rows are written batch by batch as the table streams in, after passing through
+// the data source's cleaning steps. Appends keep the current rows and require the
+// cleaned file to have the same columns. Everything happens in one transaction
+// holding the data source's row, so uploads to the same source take turns and
+// a failed one leaves nothing behind.
+export async function createDataSourceVersion(dataSource: DataSource, upload: VersionUpload) {
+  const { mode } = upload;
+  const rowLimit = await getRowLimit(dataSource.organizationId);
+
+  const result = await storage.transaction(async store => {
+    const current = await store.lockDataSource(dataSource.id);
+    if (!current) {
+      throw new IngestError("Data source not found");
+    }
+    const transforms = transformsOf(current.config);
+    const table = applyTransforms(upload.table, transforms);
+    // Sources created before schemas were tracked get theirs inferred for appends
+    const previousSchema = current.schema ?? (mode === "append" ? await inferStoredSchema(current, store) : null);
+
+    // Missing or extra columns are known from the header, before any rows are read
+    if (mode === "append" && previousSchema) {
+      const conflicts = findColumnConflicts(previousSchema, table.columns);
+      if (conflicts.length > 0) {
+        throw new SchemaConflictError(conflicts);
+      }
+    }
+
+    const versions = await store.getDataSourceVersions(current.id);
+    const version = await store.createDataSourceVersion({
+      dataSourceId: current.id,
+      version: (versions[0]?.version ?? 0) + 1,
+      mode,
+      fileName: typeof upload.config.originalName === "string" ? upload.config.originalName : null,
+      uploadedById: upload.uploadedById,
+    });
+
+    const appending = mode === "append" && previousSchema;
+    const schemaBuilder = new SchemaBuilder(appending ? previousSchema.map(column => column.name) : table.columns);
+    const incomingBuilder = new SchemaBuilder(table.columns);
+    let rowCount = 0;
+
+    if (appending) {
+      await store.copyDataSourceRows(current.id, current.currentVersionId, version.id);
+      for await (const batch of iterateDataSourceRows(current, store)) {
+        batch.forEach(row => schemaBuilder.add(row));
+        rowCount += batch.length;
+      }
+    }
+
+    for await (const batch of table.batches) {
+      if (rowCount + batch.length > rowLimit) {
+        throw new RowLimitError(rowLimit);
+      }
+      batch.forEach(row => {
+        schemaBuilder.add(row);
+        incomingBuilder.add(row);
+      });
+      await store.createDataSourceRows(current.id, version.id, batch, rowCount);
+      rowCount += batch.length;
+    }
+
+    if (appending) {
+      const conflicts = findSchemaConflicts(previousSchema, incomingBuilder.build());
+      if (conflicts.length > 0) {
+        throw new SchemaConflictError(conflicts);
+      }
+    }
+
+    const schema = schemaBuilder.build(previousSchema, transformedTypes(transforms));
+    // The steps stay with the data source; sourceColumns are the file's own, before cleaning
+    const config = {
+      ...upload.config,
+      ...(transforms.length > 0 ? { transforms } : {}),
+      sourceColumns: upload.table.columns,
+      columns: schemaBuilder.columns,
+      rowCount,
+    };
+    const finished = await store.updateDataSourceVersion(version.id, { rowCount, config, schema });
+    const updated = await store.updateDataSource(current.id, { currentVersionId: version.id, schema, config });
+    return { dataSource: updated ?? current, version: finished ?? version };
+  });
+  queryCache.invalidate(dataSource.id);
+  return result;
+}
+
+// Serve an earlier version's rows, schema and config again. The current cleaning
+// steps are kept for the next upload even if the version was cleaned differently.
+// It holds the data source's row like uploads do, so it waits for one in progress.
+export async function rollbackDataSource(dataSource: DataSource, version: DataSourceVersion) {
+  const { transforms: _, ...config } = version.config as Record<string, unknown>;
+  const updated = await storage.transaction(async store => {
+    const current = await store.lockDataSource(dataSource.id);
+    if (!current) {
+      throw new IngestError("Data source not found");
+    }
+    const transforms = transformsOf(current.config);
+    return store.updateDataSource(current.id, {
+      currentVersionId: version.id,
+      schema: version.schema,
+      config: transforms.length > 0 ? { ...config, transforms } : config,
+    });
+  });
+  queryCache.invalidate(dataSource.id);
+  return updated ?? dataSource;
+}
+
+export function compareValues(a: unknown, b: unknown): number {
+  // Nulls always sort last regardless of direction
+  if (a === null || a === undefined) return b === null || b === undefined ? 0 : 1;
+  if (b === null || b === undefined) return -1;
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+}
+
+export function pageRows(rows: DataRow[], schema: Pick<ColumnSchema, "name" | "type">[], query: RowPageQuery) {
+  let result = rows;
+
+  if (query.filter) {
+    const needle = query.filter.toLowerCase();
+    result = result.filter(row =>
+      Object.values(row).some(value => value !== null && String(value).toLowerCase().includes(needle)),
+    );
+  }
+
+  if (query.sort) {
+    const { column, direction } = query.sort;
+    const type = schema.find(c => c.name === column)?.type ?? "text";
+    const keyed = result.map(row => ({ row, key: coerceValue(row[column], type) }));
+    keyed.sort((a, b) => {
+      if (a.key === null || b.key === null) return compareValues(a.key, b.key);
+      const order = compareValues(a.key, b.key);
+      return direction === "desc" ? -order : order;
+    });
+    result = keyed.map(entry => entry.row);
+  }
+
+  return {
+    rows: result.slice(query.offset, query.offset + query.limit),
+    total: result.length,
+  };
+}
+
+export function columnStats(rows: DataRow[], column: ColumnSchema): ColumnStats {
+  const values = rows
+    .map(row => coerceValue(row[column.name], column.type))
+    .filter(value => value !== null);
+
+  if (isNumericColumn(column)) {
+    const numbers = values as number[];
+    if (numbers.length === 0) return { column, histogram: [] };
+
+    const min = numbers.reduce((a, b) => Math.min(a, b));
+    const max = numbers.reduce((a, b) => Math.max(a, b));
+    const width = (max - min) / HISTOGRAM_BINS || 1;
+    const bins: HistogramBin[] = Array.from({ length: max === min ? 1 : HISTOGRAM_BINS }, (_, i) => ({
+      start: min + i * width,
+      end: min + (i + 1) * width,
+      count: 0,
+    }));
+    for (const value of numbers) {
+      const index = Math.min(Math.floor((value - min) / width), bins.length - 1);
+      bins[index].count++;
+    }
+    return { column, histogram: bins };
+  }
+
+  if (column.type === "date" || column.type === "datetime") {
+    const counts = new Map<string, number>();
+    for (const value of values as string[]) {
+      const period = value.slice(0, 7); // YYYY-MM
+      counts.set(period, (counts.get(period) ?? 0) + 1);
+    }
+    const timeline = Array.from(counts.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([period, count]) => ({ period, count }));
+    return { column, timeline };
+  }
+
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    const key = String(value);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  const sorted = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  const topValues = sorted.slice(0, TOP_VALUES).map(([value, count]) => ({ value, count }));
+  const otherCount = sorted.slice(TOP_VALUES).reduce((sum, [, count]) => sum + count, 0);
+  return { column, topValues, otherCount };
+}
+
+// A page of the data grid, sorted, filtered and counted in SQL, where text
+// sorts in the database's collation. Calculated fields are worked out for the
+// page's rows only; sorting by one, or filtering a source that has them, needs
+// every row and is done in memory.
+export async function pageDataSourceRows(dataSource: DataSource, query: RowPageQuery): Promise<{ rows: DataRow[]; total: number }> {
+  const { schema, calculated } = await compileDataSourceFields(dataSource);
+  const { sort, filter, where } = query;
+  if (calculated.columns.some(column => column.name === sort?.column) || (filter && calculated.columns.length > 0)) {
+    if (where) throw new Error("Conditions in SQL can't apply to rows paged in memory");
+    return pageRows(await loadFieldRows(dataSource), [...schema, ...calculated.columns], query);
+  }
+
+  const page = await storage.getDataSourceRowPage(dataSource.id, dataSource.currentVersionId, {
+    offset: query.offset,
+    limit: query.limit,
+    orderBy: rowOrder(schema, sort),
+    filter,
+    where,
+  });
+  return { rows: page.rows.map(row => calculated.calculate(row.data as DataRow)), total: page.total };
+}
+
+// Every row in the order and under the conditions of a page query, batch by
+// batch, for exports. Sorting by a calculated field needs every row at once,
+// so it isn't done here.
+export async function forEachDataSourceRowBatch(
+  dataSource: DataSource,
+  query: Pick<RowPageQuery, "sort" | "where">,
+  onBatch: (rows: DataRow[]) => Promise<void>,
+): Promise<void> {
+  const { schema, calculated } = await compileDataSourceFields(dataSource);
+  if (calculated.columns.some(column => column.name === query.sort?.column)) {
+    throw new Error("Rows read in batches can't be sorted by a calculated field");
+  }
+  await storage.forEachDataSourceRowBatch(
+    dataSource.id,
+    dataSource.currentVersionId,
+    { orderBy: rowOrder(schema, query.sort), where: query.where },
+    rows => onBatch(rows.map(row => calculated.calculate(row as DataRow))),
+  );
+}
+
+function rowOrder(schema: ColumnSchema[], sort: RowPageQuery["sort"]): SQL | undefined {
+  if (!sort) return undefined;
+  const type = schema.find(column => column.name === sort.column)?.type ?? "text";
+  return sql.raw(`(${cellExpression(sort.column, type)}) ${sort.direction === "desc" ? "DESC" : "ASC"} NULLS LAST`);
+}
+
+// columnStats worked out in SQL. Calculated fields only exist once computed,
+// so theirs are still worked out from every row.
+export async function dataSourceColumnStats(dataSource: DataSource, column: ColumnSchema): Promise<ColumnStats> {
+  if (column.formula) {
+    const rows = await loadFieldRows(dataSource);
+    return columnStats(rows, calculatedFieldStats(rows, column));
+  }
+
+  const { id, currentVersionId } = dataSource;
+  const value = cellExpression(column.name, column.type);
+
+  if (isNumericColumn(column)) {
+    const number = `(${value})::float8`;
+    const { min, max } = await storage.getDataSourceValueRange(id, currentVersionId, sql.raw(number));
+    if (min === null || max === null) return { column, histogram: [] };
+
+    const width = (max - min) / HISTOGRAM_BINS || 1;
+    const bins: HistogramBin[] = Array.from({ length: max === min ? 1 : HISTOGRAM_BINS }, (_, i) => ({
+      start: min + i * width,
+      end: min + (i + 1) * width,
+      count: 0,
+    }));
+    const bin = `floor((${number} - (${min})) / (${width}))`;
+    const { counts } = await storage.countDataSourceValues(id, currentVersionId, sql.raw(bin));
+    counts.forEach(({ value, count }) => {
+      bins[Math.min(Number(value), bins.length - 1)].count += count;
+    });
+    return { column, histogram: bins };
+  }
+
+  if (column.type === "date" || column.type === "datetime") {
+    const utc = column.type === "datetime" ? `(${value}) AT TIME ZONE 'UTC'` : value;
+    const { counts } = await storage.countDataSourceValues(id, currentVersionId, sql.raw(`to_char(${utc}, 'YYYY-MM')`));
+    const timeline = counts
+      .sort((a, b) => a.value.localeCompare(b.value))
+      .map(({ value, count }) => ({ period: value, count }));
+    return { column, timeline };
+  }
+
+  const { counts, total } = await storage.countDataSourceValues(id, currentVersionId, sql.raw(value), TOP_VALUES);
+  const shown = counts.reduce((sum, { count }) => sum + count, 0);
+  return { column, topValues: counts, otherCount: total - shown };
+}
@@ -16,4 +16,7 @@ const poolConfig = {
 };
 
 export const pool = new Pool(poolConfig);
-export const db = drizzle(pool, { schema });
\ No newline at end of file
+export const db = drizzle(pool, { schema });
+
+// The pool, or a transaction on it
+export type Database = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
@@ -0,0 +1,164 @@
+import fs from "fs";
+import path from "path";
+import ExcelJS from "exceljs";
+import { IngestError, normalizeHeaders, type CellValue, type ParsedRow, type ParsedTable } from "./ingest";
+
+export interface SheetSummary {
+  name: string;
+  rowCount: number;
+  columnCount: number;
+}
+
+export function isExcelFile(filename: string): boolean {
+  const ext = path.extname(filename).toLowerCase();
+  return ext === ".xlsx" || ext === ".xls";
+}
+
+// Legacy binary workbooks are OLE compound files; the parser only reads the
+// zipped Office Open XML format
+const LEGACY_WORKBOOK_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0]);
+
+async function readWorkbook(filePath: string): Promise<ExcelJS.Workbook> {
+  const buffer = await fs.promises.readFile(filePath);
+  if (buffer.subarray(0, LEGACY_WORKBOOK_SIGNATURE.length).equals(LEGACY_WORKBOOK_SIGNATURE)) {
+    throw new IngestError("Legacy .xls workbooks are not supported; save the file as .xlsx and upload it again");
+  }
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(buffer);
+  } catch (error) {
+    throw new IngestError("File is not a readable Excel workbook");
+  }
+  return workbook;
+}
+
+const isEmptySheet = (sheet: ExcelJS.Worksheet) => sheet.actualRowCount === 0;
+
+export async function listSheets(filePath: string): Promise<SheetSummary[]> {
+  const workbook = await readWorkbook(filePath);
+  return workbook.worksheets.map(sheet => {
+    if (isEmptySheet(sheet)) {
+      return { name: sheet.name, rowCount: 0, columnCount: 0 };
+    }
+    const range = sheet.dimensions;
+    return {
+      name: sheet.name,
+      rowCount: Math.max(range.bottom - range.top, 0),
+      columnCount: range.right - range.left + 1,
+    };
+  });
+}
+
+export async function parseExcelFile(filePath: string, sheetNames?: string[]): Promise<Map<string, ParsedTable>> {
+  const workbook = await readWorkbook(filePath);
+  const selected = sheetNames && sheetNames.length > 0 ? sheetNames : workbook.worksheets.slice(0, 1).map(sheet => sheet.name);
+
+  const tables = new Map<string, ParsedTable>();
+  for (const name of selected) {
+    const sheet = workbook.getWorksheet(name);
+    if (!sheet) {
+      throw new IngestError(`Sheet "${name}" not found in workbook`);
+    }
+    tables.set(name, parseSheet(sheet));
+  }
+  return tables;
+}
+
+// Date cells arrive as Dates, already adjusted for 1904 workbooks. Whole days
+// are plain dates; anything with a time part keeps the timestamp.
+function dateToISO(date: Date): string {
+  const iso = date.toISOString();
+  return iso.endsWith("T00:00:00.000Z") ? iso.slice(0, 10) : iso.replace(/\.000Z$/, "Z");
+}
+
+function cellValue(value: ExcelJS.CellValue): CellValue {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return dateToISO(value);
+  }
+  if (typeof value === "string") {
+    return value.trim() === "" ? null : value;
+  }
+  if (typeof value === "number" || typeof value === "boolean") {
+    return value;
+  }
+  if ("richText" in value) {
+    return cellValue(value.richText.map(part => part.text).join(""));
+  }
+  if ("hyperlink" in value) {
+    return cellValue(value.text);
+  }
+  // Formulas keep the value Excel last calculated; errors are blanks
+  if ("result" in value) {
+    return value.result === undefined || (typeof value.result === "object" && "error" in value.result)
+      ? null
+      : cellValue(value.result);
+  }
+  return null;
+}
+
+// A header row whose cells are merged across several columns is treated as a
+// group label for the row below it, so "Q1" over "Revenue" and "Cost" becomes
+// "Q1 Revenue" and "Q1 Cost".
+function headerDepth(sheet: ExcelJS.Worksheet, range: ExcelJS.Range): number {
+  const mergedAcross = (row: number) => {
+    for (let c = range.left; c <= range.right; c++) {
+      const cell = sheet.getCell(row, c);
+      if (cell.isMerged && cell.master.fullAddress.row === row && cell.master.fullAddress.col !== c) return true;
+    }
+    return false;
+  };
+  let depth = 1;
+  while (range.top + depth - 1 <= range.bottom && mergedAcross(range.top + depth - 1)) {
+    depth++;
+  }
+  return depth;
+}
+
+function parseSheet(sheet: ExcelJS.Worksheet): ParsedTable {
+  if (isEmptySheet(sheet)) {
+    return { columns: [], rows: [] };
+  }
+
+  // Every cell of a merged range takes the value of its top-left cell
+  const range = sheet.dimensions;
+  const grid: CellValue[][] = [];
+  for (let r = range.top; r <= range.bottom; r++) {
+    const row: CellValue[] = [];
+    for (let c = range.left; c <= range.right; c++) {
+      const cell = sheet.getCell(r, c);
+      row.push(cellValue((cell.isMerged ? cell.master : cell).value));
+    }
+    grid.push(row);
+  }
+
+  if (grid.length === 0) {
+    throw new IngestError("Sheet is empty");
+  }
+
+  const depth = Math.min(headerDepth(sheet, range), grid.length);
+  const headerRows = grid.slice(0, depth);
+  const rawHeaders = headerRows[0].map((_, col) => {
+    const parts: string[] = [];
+    for (const headerRow of headerRows) {
+      const part = headerRow[col] === null ? "" : String(headerRow[col]).trim();
+      if (part && parts[parts.length - 1] !== part) parts.push(part);
+    }
+    return parts.join(" ");
+  });
+  const columns = normalizeHeaders(rawHeaders);
+
+  const rows: ParsedRow[] = [];
+  for (const values of grid.slice(depth)) {
+    if (values.every(value => value === null)) continue;
+    const row: ParsedRow = {};
+    columns.forEach((column, index) => {
+      row[column] = values[index] ?? null;
+    });
+    rows.push(row);
+  }
+
+  return { columns, rows };
+}
@@ -0,0 +1,75 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { compileCalculatedFields, compileFormula, FormulaError, type FormulaColumn } from "./formulas";
+
+const columns: FormulaColumn[] = [
+  { name: "price", type: "currency" },
+  { name: "qty", type: "integer" },
+  { name: "name", type: "text" },
+  { name: "day", type: "date" },
+];
+const row = { price: "$1,200.50", qty: "3", name: "  Widget ", day: "2024-02-28" };
+
+const evaluate = (formula: string) => {
+  const compiled = compileFormula(formula, columns);
+  return { type: compiled.type, value: compiled.evaluate(row) };
+};
+
+describe("compileFormula", () => {
+  it("does arithmetic on cells as they were written", () => {
+    assert.deepEqual(evaluate("[price] * [qty]"), { type: "currency", value: 3601.5 });
+    assert.deepEqual(evaluate("NUMBER(\"1,5\")"), { type: "decimal", value: 15 });
+  });
+
+  it("gives empty instead of infinity for division by zero", () => {
+    assert.equal(evaluate("[price] / 0").value, null);
+  });
+
+  it("evaluates functions", () => {
+    assert.equal(evaluate("IF([qty] > 2, \"many\", \"few\")").value, "many");
+    assert.equal(evaluate("LEFT([name], 3)").value, "Wid");
+    assert.equal(evaluate("CONCAT([name], \"-\", [qty])").value, "Widget-3");
+    assert.deepEqual(evaluate("COALESCE(NULL, 5)"), { type: "integer", value: 5 });
+  });
+
+  it("does date arithmetic across month ends", () => {
+    assert.deepEqual(evaluate("ADD_DAYS([day], 2)"), { type: "date", value: "2024-03-01" });
+    assert.deepEqual(evaluate("DAYS_BETWEEN([day], DATE(\"2024-03-01\"))"), { type: "integer", value: 2 });
+  });
+
+  it("rejects unknown columns, type mismatches and incomplete formulas", () => {
+    assert.throws(() => compileFormula("[missing] + 1", columns), { name: "FormulaError", message: "Unknown column missing at character 1" });
+    assert.throws(() => compileFormula("[name] + 1", columns), { message: "Cannot use + on text and integer values" });
+    assert.throws(() => compileFormula("1 +", columns), FormulaError);
+  });
+});
+
+describe("compileCalculatedFields", () => {
+  it("lets a field use the fields before it", () => {
+    const calculated = compileCalculatedFields(columns, [
+      { name: "total", formula: "[price] * [qty]" },
+      { name: "double", formula: "[total] * 2" },
+    ]);
+    assert.deepEqual(calculated.columns.map(({ name, type }) => ({ name, type })), [
+      { name: "total", type: "currency" },
+      { name: "double", type: "currency" },
+    ]);
+    assert.deepEqual(calculated.calculate(row), { ...row, total: 3601.5, double: 7203 });
+  });
+
+  it("rejects a field named like a column, ignoring case", () => {
+    assert.throws(() => compileCalculatedFields(columns, [{ name: "Price", formula: "1" }]), {
+      message: "Price: There is already a column named Price",
+    });
+  });
+
+  it("reports fields that no longer compile when not strict", () => {
+    const calculated = compileCalculatedFields(columns, [
+      { name: "bad", formula: "[nope]" },
+      { name: "next", formula: "[qty] + 1" },
+    ], false);
+    assert.deepEqual(calculated.errors, [{ name: "bad", message: "Unknown column nope at character 1" }]);
+    assert.deepEqual(calculated.columns.map(column => column.name), ["next"]);
+    assert.equal(calculated.calculate(row).next, 4);
+  });
+});
@@ -0,0 +1,745 @@
+import type { CalculatedField, ColumnType } from "@shared/schema";
+import { IngestError } from "./ingest";
+import { coerceValue, parseNumber } from "./schema-inference";
+
+// The expression language of calculated fields, e.g.
+//
+//   profit / revenue
+//   IF(region = "North", revenue * 1.1, revenue)
+//   YEAR([Order Date]) & "-Q" & QUARTER([Order Date])
+//
+// Columns are referred to by name, in brackets when the name isn't a plain
+// word. Formulas are parsed and type checked against the data source's
+// columns once, then evaluated row by row on the cells coerced to their column
+// types. Nothing is ever passed to eval: only the operators and functions below
+// exist. As in SQL, operations on an empty cell give an empty result, and so
+// does dividing by zero.
+
+export class FormulaError extends IngestError {
+  constructor(message: string) {
+    super(message);
+    this.name = "FormulaError";
+  }
+}
+
+type Value = string | number | boolean | null;
+type Row = Record<string, unknown>;
+
+// "null" is the type of the NULL literal, which fits anywhere
+type ValueType = ColumnType | "null";
+
+export interface FormulaColumn {
+  name: string;
+  type: ColumnType;
+}
+
+export interface CompiledFormula {
+  type: ColumnType;
+  evaluate(row: Row): Value;
+}
+
+// Parsing
+
+type Token =
+  | { kind: "number"; value: number; position: number }
+  | { kind: "string"; value: string; position: number }
+  | { kind: "column"; name: string; position: number } // [Bracketed Name]
+  | { kind: "word"; text: string; position: number }
+  | { kind: "operator"; text: string; position: number };
+
+type Node =
+  | { kind: "literal"; value: Value; type: ValueType }
+  | { kind: "column"; name: string; position: number }
+  | { kind: "unary"; operator: "-" | "not"; operand: Node }
+  | { kind: "binary"; operator: string; left: Node; right: Node }
+  | { kind: "call"; name: string; args: Node[]; position: number };
+
+const OPERATORS = ["<=", ">=", "<>", "!=", "==", "+", "-", "*", "/", "%", "&", "=", "<", ">", "(", ")", ","];
+
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < formula.length) {
+    const char = formula[i];
+    const position = i + 1;
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '"' || char === "'") {
+      // Quotes inside a string are doubled, as in "say ""hi"""
+      let value = "";
+      let j = i + 1;
+      for (; ; j++) {
+        if (j >= formula.length) throw new FormulaError(`Unterminated text starting at character ${position}`);
+        if (formula[j] === char && formula[j + 1] === char) {
+          value += char;
+          j++;
+        } else if (formula[j] === char) {
+          break;
+        } else {
+          value += formula[j];
+        }
+      }
+      tokens.push({ kind: "string", value, position });
+      i = j + 1;
+    } else if (char === "[") {
+      const end = formula.indexOf("]", i);
+      if (end === -1) throw new FormulaError(`Missing ] for the column name at character ${position}`);
+      tokens.push({ kind: "column", name: formula.slice(i + 1, end), position });
+      i = end + 1;
+    } else if (/[0-9.]/.test(char) && /^(\d+\.?\d*|\.\d+)/.test(formula.slice(i))) {
+      const text = formula.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/)![0];
+      tokens.push({ kind: "number", value: Number(text), position });
+      i += text.length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const text = formula.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/)![0];
+      tokens.push({ kind: "word", text, position });
+      i += text.length;
+    } else {
+      const operator = OPERATORS.find(candidate => formula.startsWith(candidate, i));
+      if (!operator) throw new FormulaError(`Unexpected "${char}" at character ${position}`);
+      tokens.push({ kind: "operator", text: operator, position });
+      i += operator.length;
+    }
+  }
+  return tokens;
+}
+
+// Recursive descent, from the loosest binding operators to the tightest:
+// OR, AND, NOT, comparisons, &, + and -, * / and %, unary minus
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): Node {
+    if (this.tokens.length === 0) throw new FormulaError("The formula is empty");
+    const node = this.or();
+    const extra = this.peek();
+    if (extra) throw new FormulaError(`Unexpected ${describeToken(extra)} at character ${extra.position}`);
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private isOperator(...operators: string[]): boolean {
+    const token = this.peek();
+    return token?.kind === "operator" && operators.includes(token.text);
+  }
+
+  private isKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token?.kind === "word" && token.text.toLowerCase() === keyword;
+  }
+
+  private expect(operator: string) {
+    const token = this.peek();
+    if (!this.isOperator(operator)) {
+      const where = token ? `${describeToken(token)} at character ${token.position}` : "the end of the formula";
+      throw new FormulaError(`Expected "${operator}" but found ${where}`);
+    }
+    this.index++;
+  }
+
+  private or(): Node {
+    let node = this.and();
+    while (this.isKeyword("or")) {
+      this.index++;
+      node = { kind: "binary", operator: "or", left: node, right: this.and() };
+    }
+    return node;
+  }
+
+  private and(): Node {
+    let node = this.not();
+    while (this.isKeyword("and")) {
+      this.index++;
+      node = { kind: "binary", operator: "and", left: node, right: this.not() };
+    }
+    return node;
+  }
+
+  private not(): Node {
+    if (this.isKeyword("not")) {
+      this.index++;
+      return { kind: "unary", operator: "not", operand: this.not() };
+    }
+    return this.comparison();
+  }
+
+  private comparison(): Node {
+    const node = this.concatenation();
+    if (this.isOperator("=", "==", "!=", "<>", "<", "<=", ">", ">=")) {
+      const token = this.tokens[this.index++] as { text: string };
+      const operator = token.text === "==" ? "=" : token.text === "<>" ? "!=" : token.text;
+      return { kind: "binary", operator, left: node, right: this.concatenation() };
+    }
+    return node;
+  }
+
+  private concatenation(): Node {
+    let node = this.additive();
+    while (this.isOperator("&")) {
+      this.index++;
+      node = { kind: "binary", operator: "&", left: node, right: this.additive() };
+    }
+    return node;
+  }
+
+  private additive(): Node {
+    let node = this.multiplicative();
+    while (this.isOperator("+", "-")) {
+      const { text } = this.tokens[this.index++] as { text: string };
+      node = { kind: "binary", operator: text, left: node, right: this.multiplicative() };
+    }
+    return node;
+  }
+
+  private multiplicative(): Node {
+    let node = this.unary();
+    while (this.isOperator("*", "/", "%")) {
+      const { text } = this.tokens[this.index++] as { text: string };
+      node = { kind: "binary", operator: text, left: node, right: this.unary() };
+    }
+    return node;
+  }
+
+  private unary(): Node {
+    if (this.isOperator("-")) {
+      this.index++;
+      return { kind: "unary", operator: "-", operand: this.unary() };
+    }
+    if (this.isOperator("+")) {
+      this.index++;
+      return this.unary();
+    }
+    return this.primary();
+  }
+
+  private primary(): Node {
+    const token = this.peek();
+    if (!token) throw new FormulaError("The formula ends too early");
+    this.index++;
+
+    switch (token.kind) {
+      case "number":
+        return { kind: "literal", value: token.value, type: Number.isInteger(token.value) ? "integer" : "decimal" };
+      case "string":
+        return { kind: "literal", value: token.value, type: "text" };
+      case "column":
+        return { kind: "column", name: token.name, position: token.position };
+      case "word": {
+        const word = token.text.toLowerCase();
+        if (this.isOperator("(")) {
+          this.index++;
+          const args: Node[] = [];
+          if (!this.isOperator(")")) {
+            args.push(this.or());
+            while (this.isOperator(",")) {
+              this.index++;
+              args.push(this.or());
+            }
+          }
+          this.expect(")");
+          return { kind: "call", name: token.text.toUpperCase(), args, position: token.position };
+        }
+        if (word === "true" || word === "false") return { kind: "literal", value: word === "true", type: "boolean" };
+        if (word === "null") return { kind: "literal", value: null, type: "null" };
+        return { kind: "column", name: token.text, position: token.position };
+      }
+      case "operator":
+        if (token.text === "(") {
+          const node = this.or();
+          this.expect(")");
+          return node;
+        }
+        throw new FormulaError(`Unexpected ${describeToken(token)} at character ${token.position}`);
+    }
+  }
+}
+
+function describeToken(token: Token): string {
+  switch (token.kind) {
+    case "number":
+      return String(token.value);
+    case "string":
+      return `"${token.value}"`;
+    case "column":
+      return `[${token.name}]`;
+    default:
+      return `"${token.text}"`;
+  }
+}
+
+// Types
+
+const NUMERIC_TYPES = new Set<ValueType>(["integer", "decimal", "currency", "percent"]);
+const isNumeric = (type: ValueType) => NUMERIC_TYPES.has(type);
+const isTemporal = (type: ValueType) => type === "date" || type === "datetime";
+const isText = (type: ValueType) => type === "text" || type === "category";
+
+// The common type of values that can stand in for each other, like the branches of IF
+function unify(types: ValueType[], what: string): ValueType {
+  const known = types.filter(type => type !== "null");
+  if (known.length === 0) return "null";
+  if (known.every(type => type === known[0])) return known[0];
+  if (known.every(isNumeric)) return "decimal";
+  if (known.every(isTemporal)) return "datetime";
+  if (known.every(isText)) return "text";
+  throw new FormulaError(`${what} mixes ${Array.from(new Set(known)).join(" and ")} values`);
+}
+
+function arithmeticType(operator: string, left: ValueType, right: ValueType): ValueType {
+  if (left === "null") left = right === "null" ? "integer" : right;
+  if (right === "null") right = left;
+  if (!isNumeric(left) || !isNumeric(right)) {
+    const hint = isTemporal(left) || isTemporal(right) ? "; use ADD_DAYS or DAYS_BETWEEN for dates" : "";
+    throw new FormulaError(`Cannot use ${operator} on ${left} and ${right} values${hint}`);
+  }
+  const currency = left === "currency" || right === "currency";
+  switch (operator) {
+    case "/":
+      return left === "currency" && right !== "currency" ? "currency" : "decimal";
+    case "%":
+      return left === "integer" && right === "integer" ? "integer" : "decimal";
+    case "*":
+      if (left === "integer" && right === "integer") return "integer";
+      return currency && left !== right ? "currency" : "decimal";
+    default:
+      if (left === right) return left;
+      if (currency && (left === "integer" || left === "decimal" || right === "integer" || right === "decimal")) return "currency";
+      return "decimal";
+  }
+}
+
+// Evaluation helpers
+
+function timestamp(value: Value): number {
+  return Date.parse(String(value));
+}
+
+function toText(value: Value): string {
+  return value === null ? "" : String(value);
+}
+
+function roundTo(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function requireTypes(name: string, types: ValueType[], accepts: (type: ValueType) => boolean, expected: string) {
+  types.forEach((type, i) => {
+    if (type !== "null" && !accepts(type)) {
+      throw new FormulaError(`Argument ${i + 1} of ${name} must be ${expected}, not ${type}`);
+    }
+  });
+}
+
+interface FunctionDefinition {
+  args: [number, number]; // Minimum and maximum count
+  description: string;
+  type(types: ValueType[], name: string): ValueType;
+  evaluate(values: Value[]): Value;
+  keepsNulls?: boolean; // Called with empty arguments instead of giving an empty result
+}
+
+const numberFunction = (description: string, apply: (x: number, ...rest: number[]) => number, type?: (types: ValueType[]) => ValueType, args: [number, number] = [1, 1]): FunctionDefinition => ({
+  args,
+  description,
+  type: (types, name) => {
+    requireTypes(name, types, isNumeric, "a number");
+    return type ? type(types) : types[0] === "null" ? "decimal" : types[0];
+  },
+  evaluate: (values) => {
+    const result = apply(...(values as [number, ...number[]]));
+    return Number.isFinite(result) ? result : null;
+  },
+});
+
+const textFunction = (description: string, apply: (text: string) => Value, type: ValueType = "text"): FunctionDefinition => ({
+  args: [1, 1],
+  description,
+  type: (types, name) => {
+    requireTypes(name, types, isText, "text");
+    return type === "text" && types[0] === "category" ? "category" : type;
+  },
+  evaluate: ([text]) => apply(String(text)),
+});
+
+const datePart = (description: string, part: (date: Date) => number): FunctionDefinition => ({
+  args: [1, 1],
+  description,
+  type: (types, name) => {
+    requireTypes(name, types, isTemporal, "a date");
+    return "integer";
+  },
+  evaluate: ([value]) => {
+    const date = new Date(timestamp(value));
+    return isNaN(date.getTime()) ? null : part(date);
+  },
+});
+
+// Available functions; the descriptions are listed in the formula editor
+export const FORMULA_FUNCTIONS: Record<string, FunctionDefinition> = {
+  IF: {
+    args: [2, 3],
+    description: "IF(condition, value, otherwise): the value when the condition holds, else the other value or empty",
+    type: ([condition, ...branches]) => {
+      if (condition !== "boolean" && condition !== "null") throw new FormulaError(`The condition of IF must be true or false, not ${condition}`);
+      return unify(branches, "IF");
+    },
+    evaluate: () => null, // Evaluated lazily by the compiler
+  },
+  COALESCE: {
+    args: [1, 100],
+    description: "COALESCE(a, b, ...): the first value that isn't empty",
+    type: (types) => unify(types, "COALESCE"),
+    evaluate: (values) => values.find(value => value !== null) ?? null,
+    keepsNulls: true,
+  },
+  ISNULL: {
+    args: [1, 1],
+    description: "ISNULL(value): whether the value is empty",
+    type: () => "boolean",
+    evaluate: ([value]) => value === null,
+    keepsNulls: true,
+  },
+  ABS: numberFunction("ABS(number)", Math.abs),
+  ROUND: numberFunction(
+    "ROUND(number, digits): rounded to a number of decimal places, 0 by default",
+    (x, digits = 0) => roundTo(x, Math.trunc(digits)),
+    ([type, digits]) => (type === "decimal" && digits === undefined ? "integer" : type === "null" ? "decimal" : type),
+    [1, 2],
+  ),
+  FLOOR: numberFunction("FLOOR(number): rounded down", Math.floor, ([type]) => (type === "decimal" || type === "null" ? "integer" : type)),
+  CEIL: numberFunction("CEIL(number): rounded up", Math.ceil, ([type]) => (type === "decimal" || type === "null" ? "integer" : type)),
+  SQRT: numberFunction("SQRT(number)", Math.sqrt, () => "decimal"),
+  POWER: numberFunction("POWER(number, exponent)", Math.pow, () => "decimal", [2, 2]),
+  LEAST: {
+    args: [1, 100],
+    description: "LEAST(a, b, ...): the smallest value that isn't empty",
+    type: (types) => unify(types, "LEAST"),
+    evaluate: (values) => values.reduce((a, b) => (a === null || (b !== null && compare(b, a) < 0) ? b : a)),
+    keepsNulls: true,
+  },
+  GREATEST: {
+    args: [1, 100],
+    description: "GREATEST(a, b, ...): the largest value that isn't empty",
+    type: (types) => unify(types, "GREATEST"),
+    evaluate: (values) => values.reduce((a, b) => (a === null || (b !== null && compare(b, a) > 0) ? b : a)),
+    keepsNulls: true,
+  },
+  UPPER: textFunction("UPPER(text)", text => text.toUpperCase()),
+  LOWER: textFunction("LOWER(text)", text => text.toLowerCase()),
+  TRIM: textFunction("TRIM(text): without surrounding spaces", text => text.trim()),
+  LEN: textFunction("LEN(text): number of characters", text => text.length, "integer"),
+  LEFT: {
+    args: [2, 2],
+    description: "LEFT(text, count): the first characters",
+    type: ([text, count], name) => {
+      requireTypes(name, [text], isText, "text");
+      requireTypes(name, [count], isNumeric, "a number");
+      return "text";
+    },
+    evaluate: ([text, count]) => String(text).slice(0, Math.max(0, count as number)),
+  },
+  RIGHT: {
+    args: [2, 2],
+    description: "RIGHT(text, count): the last characters",
+    type: ([text, count], name) => {
+      requireTypes(name, [text], isText, "text");
+      requireTypes(name, [count], isNumeric, "a number");
+      return "text";
+    },
+    evaluate: ([text, count]) => ((count as number) > 0 ? String(text).slice(-(count as number)) : ""),
+  },
+  CONTAINS: {
+    args: [2, 2],
+    description: "CONTAINS(text, search): whether the text includes the search, ignoring case",
+    type: (types, name) => {
+      requireTypes(name, types, isText, "text");
+      return "boolean";
+    },
+    evaluate: ([text, search]) => String(text).toLowerCase().includes(String(search).toLowerCase()),
+  },
+  REPLACE: {
+    args: [3, 3],
+    description: "REPLACE(text, search, replacement): every occurrence replaced",
+    type: (types, name) => {
+      requireTypes(name, types, isText, "text");
+      return "text";
+    },
+    evaluate: ([text, search, replacement]) => String(text).split(String(search)).join(String(replacement)),
+  },
+  CONCAT: {
+    args: [1, 100],
+    description: "CONCAT(a, b, ...): the values joined as text; empty values are skipped",
+    type: () => "text",
+    evaluate: (values) => values.map(toText).join(""),
+    keepsNulls: true,
+  },
+  TEXT: {
+    args: [1, 1],
+    description: "TEXT(value): the value as text",
+    type: () => "text",
+    evaluate: ([value]) => String(value),
+  },
+  NUMBER: {
+    args: [1, 1],
+    description: 'NUMBER(text): the number in a text such as "1,200"',
+    type: () => "decimal",
+    evaluate: ([value]) => parseNumber(value),
+  },
+  YEAR: datePart("YEAR(date)", date => date.getUTCFullYear()),
+  QUARTER: datePart("QUARTER(date): 1-4", date => Math.floor(date.getUTCMonth() / 3) + 1),
+  MONTH: datePart("MONTH(date): 1-12", date => date.getUTCMonth() + 1),
+  DAY: datePart("DAY(date): day of the month", date => date.getUTCDate()),
+  WEEKDAY: datePart("WEEKDAY(date): 1 for Monday to 7 for Sunday", date => ((date.getUTCDay() + 6) % 7) + 1),
+  HOUR: datePart("HOUR(date-time): 0-23, in UTC", date => date.getUTCHours()),
+  DATE: {
+    args: [1, 1],
+    description: 'DATE(value): the calendar day of a date-time (in UTC) or of a text such as "2024-03-31"',
+    type: (types, name) => {
+      requireTypes(name, types, type => isTemporal(type) || isText(type), "a date or text");
+      return "date";
+    },
+    evaluate: ([value]) => coerceValue(value, "date"),
+  },
+  DAYS_BETWEEN: {
+    args: [2, 2],
+    description: "DAYS_BETWEEN(start, end): whole days from the start date to the end date",
+    type: (types, name) => {
+      requireTypes(name, types, isTemporal, "a date");
+      return "integer";
+    },
+    evaluate: ([start, end]) => {
+      const days = (timestamp(end) - timestamp(start)) / DAY_MS;
+      return Number.isFinite(days) ? Math.trunc(days) : null;
+    },
+  },
+  ADD_DAYS: {
+    args: [2, 2],
+    description: "ADD_DAYS(date, days): the date moved by a number of days",
+    type: ([date, days], name) => {
+      requireTypes(name, [date], isTemporal, "a date");
+      requireTypes(name, [days], isNumeric, "a number");
+      return date === "null" ? "date" : date;
+    },
+    evaluate: ([date, days]) => {
+      const time = timestamp(date);
+      if (isNaN(time)) return null;
+      const moved = new Date(time + Math.round(days as number) * DAY_MS).toISOString();
+      return String(date).length === 10 ? moved.slice(0, 10) : moved;
+    },
+  },
+};
+
+// Compilation
+
+function compare(a: Value, b: Value): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "boolean" && typeof b === "boolean") return Number(a) - Number(b);
+  const timeA = timestamp(a);
+  const timeB = timestamp(b);
+  // Only dates reach here as parseable strings; text values compare as text
+  if (!isNaN(timeA) && !isNaN(timeB) && /^\d{4}-\d{2}-\d{2}/.test(String(a)) && /^\d{4}-\d{2}-\d{2}/.test(String(b))) {
+    return timeA - timeB;
+  }
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+}
+
+function comparable(left: ValueType, right: ValueType): boolean {
+  if (left === "null" || right === "null") return true;
+  return (isNumeric(left) && isNumeric(right))
+    || (isTemporal(left) && isTemporal(right))
+    || (isText(left) && isText(right))
+    || (left === "boolean" && right === "boolean");
+}
+
+interface Compiled {
+  type: ValueType;
+  evaluate(row: Row): Value;
+}
+
+function findColumn(name: string, columns: FormulaColumn[]): FormulaColumn | undefined {
+  const exact = columns.find(column => column.name === name);
+  if (exact) return exact;
+  const matches = columns.filter(column => column.name.toLowerCase() === name.toLowerCase());
+  return matches.length === 1 ? matches[0] : undefined;
+}
+
+function compileNode(node: Node, columns: FormulaColumn[]): Compiled {
+  switch (node.kind) {
+    case "literal":
+      return { type: node.type, evaluate: () => node.value };
+
+    case "column": {
+      const column = findColumn(node.name, columns);
+      if (!column) throw new FormulaError(`Unknown column ${node.name} at character ${node.position}`);
+      return { type: column.type, evaluate: row => coerceValue(row[column.name], column.type) };
+    }
+
+    case "unary": {
+      const operand = compileNode(node.operand, columns);
+      if (node.operator === "not") {
+        if (operand.type !== "boolean" && operand.type !== "null") throw new FormulaError(`NOT needs true or false, not ${operand.type}`);
+        return { type: "boolean", evaluate: row => {
+          const value = operand.evaluate(row);
+          return value === null ? null : !value;
+        } };
+      }
+      const type = arithmeticType("-", operand.type, operand.type);
+      return { type, evaluate: row => {
+        const value = operand.evaluate(row);
+        return value === null ? null : -(value as number);
+      } };
+    }
+
+    case "binary":
+      return compileBinary(node.operator, compileNode(node.left, columns), compileNode(node.right, columns));
+
+    case "call": {
+      const definition = FORMULA_FUNCTIONS[node.name];
+      if (!definition) throw new FormulaError(`Unknown function ${node.name} at character ${node.position}`);
+      const [min, max] = definition.args;
+      if (node.args.length < min || node.args.length > max) {
+        const expected = min === max ? `${min}` : max >= 100 ? `at least ${min}` : `${min} to ${max}`;
+        throw new FormulaError(`${node.name} takes ${expected} argument${max === 1 ? "" : "s"}, not ${node.args.length}`);
+      }
+      const args = node.args.map(arg => compileNode(arg, columns));
+      const type = definition.type(args.map(arg => arg.type), node.name);
+
+      if (node.name === "IF") {
+        const [condition, then, otherwise] = args;
+        return { type, evaluate: row => (condition.evaluate(row) === true ? then.evaluate(row) : otherwise?.evaluate(row) ?? null) };
+      }
+      return { type, evaluate: row => {
+        const values = args.map(arg => arg.evaluate(row));
+        if (!definition.keepsNulls && values.some(value => value === null)) return null;
+        return definition.evaluate(values);
+      } };
+    }
+  }
+}
+
+function compileBinary(operator: string, left: Compiled, right: Compiled): Compiled {
+  switch (operator) {
+    case "and":
+    case "or": {
+      for (const side of [left, right]) {
+        if (side.type !== "boolean" && side.type !== "null") {
+          throw new FormulaError(`${operator.toUpperCase()} needs true or false on both sides, not ${side.type}`);
+        }
+      }
+      // Empty only when the known side doesn't settle the result, as in SQL
+      const settles = operator === "or";
+      return { type: "boolean", evaluate: row => {
+        const a = left.evaluate(row);
+        if (a === settles) return settles;
+        const b = right.evaluate(row);
+        if (b === settles) return settles;
+        return a === null || b === null ? null : !settles;
+      } };
+    }
+
+    case "&":
+      return { type: "text", evaluate: row => toText(left.evaluate(row)) + toText(right.evaluate(row)) };
+
+    case "=":
+    case "!=":
+    case "<":
+    case "<=":
+    case ">":
+    case ">=": {
+      if (!comparable(left.type, right.type)) {
+        const hint = isTemporal(left.type) || isTemporal(right.type) ? '; write dates as DATE("2024-03-31")' : "";
+        throw new FormulaError(`Cannot compare ${left.type} with ${right.type}${hint}`);
+      }
+      const test: Record<string, (order: number) => boolean> = {
+        "=": order => order === 0,
+        "!=": order => order !== 0,
+        "<": order => order < 0,
+        "<=": order => order <= 0,
+        ">": order => order > 0,
+        ">=": order => order >= 0,
+      };
+      return { type: "boolean", evaluate: row => {
+        const a = left.evaluate(row);
+        const b = right.evaluate(row);
+        return a === null || b === null ? null : test[operator](compare(a, b));
+      } };
+    }
+
+    default: {
+      const type = arithmeticType(operator, left.type, right.type);
+      const apply: Record<string, (a: number, b: number) => number> = {
+        "+": (a, b) => a + b,
+        "-": (a, b) => a - b,
+        "*": (a, b) => a * b,
+        "/": (a, b) => a / b,
+        "%": (a, b) => a % b,
+      };
+      return { type, evaluate: row => {
+        const a = left.evaluate(row);
+        const b = right.evaluate(row);
+        if (a === null || b === null) return null;
+        const result = apply[operator](a as number, b as number);
+        return Number.isFinite(result) ? result : null;
+      } };
+    }
+  }
+}
+
+export function compileFormula(formula: string, columns: FormulaColumn[]): CompiledFormula {
+  const tokens = tokenize(formula);
+  const { type, evaluate } = compileNode(new Parser(tokens).parse(), columns);
+  return { type: type === "null" ? "text" : type, evaluate };
+}
+
+export interface CalculatedColumns {
+  columns: (FormulaColumn & { formula: string })[];
+  errors: { name: string; message: string }[];
+  calculate(row: Row): Row; // The row with the calculated fields added
+}
+
+// Compile a data source's calculated fields in order; each can use the columns
+// and the fields defined before it. When `strict` is off, fields that no longer
+// compile (say a column they use was removed by a re-upload) are left out and
+// reported in `errors` instead of failing every reader of the data source.
+export function compileCalculatedFields(columns: FormulaColumn[], fields: CalculatedField[], strict = true): CalculatedColumns {
+  const available = [...columns];
+  const compiled: { name: string; formula: string; compiled: CompiledFormula }[] = [];
+  const errors: CalculatedColumns["errors"] = [];
+
+  for (const field of fields) {
+    try {
+      const name = field.name.trim();
+      if (available.some(column => column.name.toLowerCase() === name.toLowerCase())) {
+        throw new FormulaError(`There is already a column named ${name}`);
+      }
+      const formula = compileFormula(field.formula, available);
+      available.push({ name, type: formula.type });
+      compiled.push({ name, formula: field.formula, compiled: formula });
+    } catch (error) {
+      if (!(error instanceof FormulaError)) throw error;
+      if (strict) throw new FormulaError(`${field.name}: ${error.message}`);
+      errors.push({ name: field.name, message: error.message });
+    }
+  }
+
+  return {
+    columns: compiled.map(({ name, formula, compiled }) => ({ name, type: compiled.type, formula })),
+    errors,
+    calculate: (row) => {
+      if (compiled.length === 0) return row;
+      const result = { ...row };
+      for (const { name, compiled: formula } of compiled) {
+        result[name] = formula.evaluate(result);
+      }
+      return result;
+    },
+  };
+}
@@ -1,6 +1,8 @@
 import 'dotenv/config';
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { startRefreshScheduler } from "./refresh-scheduler";
+import { prepareSqlSandbox } from "./sql-sandbox";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -65,4 +67,7 @@ const port = parseInt(process.env.PORT || '5000', 10);
 server.listen(port, "0.0.0.0", () => {
   log(`serving on port ${port}`);
 });
+
+  startRefreshScheduler().catch(error => console.error("Error starting refresh scheduler:", error));
+  prepareSqlSandbox().catch(error => console.error("Error setting up the SQL sandbox role:", error));
 })();
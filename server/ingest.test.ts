@@ -0,0 +1,35 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { DelimitedRecordParser, parseDelimitedRecords, parseDelimitedText } from "./ingest";
+
+describe("parseDelimitedText", () => {
+  it("reads quoted fields, blank lines and a byte order mark", () => {
+    const table = parseDelimitedText("\uFEFFname,,name\r\n\"a, \"\"b\"\"\",1,\r\n\r\n\"multi\nline\",2,3", "sales.csv");
+    assert.deepEqual(table.columns, ["name", "column_2", "name_2"]);
+    assert.deepEqual(table.rows, [
+      { name: "a, \"b\"", column_2: "1", name_2: null },
+      { name: "multi\nline", column_2: "2", name_2: "3" },
+    ]);
+  });
+
+  it("detects the delimiter", () => {
+    assert.equal(parseDelimitedText("a;b\n1;2").delimiter, ";");
+    assert.equal(parseDelimitedText("a\tb\n1\t2", "sales.tsv").delimiter, "\t");
+  });
+
+  it("rejects an empty file", () => {
+    assert.throws(() => parseDelimitedText(""), { name: "IngestError", message: "File is empty" });
+  });
+});
+
+describe("DelimitedRecordParser", () => {
+  it("carries quotes and line endings across chunks", () => {
+    const parser = new DelimitedRecordParser(",");
+    const records = [...parser.push("a,\"b\""), ...parser.push("\"c\"\r"), ...parser.push("\nd,e"), ...parser.end()];
+    assert.deepEqual(records, [["a", "b\"c"], ["d", "e"]]);
+  });
+
+  it("rejects an unterminated quoted field", () => {
+    assert.throws(() => parseDelimitedRecords("a,\"b", ","), { message: "Unterminated quoted field at end of file" });
+  });
+});
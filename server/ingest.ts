@@ -0,0 +1,311 @@
+import fs from "fs";
+import path from "path";
+
+export type CellValue = string | number | boolean | null;
+export type ParsedRow = Record<string, CellValue>;
+
+export interface ParsedTable {
+  columns: string[];
+  rows: ParsedRow[];
+  delimiter?: string;
+}
+
+// A table read incrementally, for files too large to hold in memory
+export interface TableStream {
+  columns: string[];
+  delimiter?: string;
+  batches: AsyncIterable<ParsedRow[]>;
+}
+
+// Raised for malformed uploads so routes can answer with a 400 instead of a 500
+export class IngestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IngestError";
+  }
+}
+
+// Raised when an external source can't be reached or read (bad credentials,
+// failing queries, HTTP errors) so routes answer with a 400 and its message
+export class ConnectorError extends IngestError {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConnectorError";
+  }
+}
+
+const CANDIDATE_DELIMITERS = [",", "\t", ";", "|"];
+
+// Rows handed to the database per batch while streaming a file
+export const ROW_BATCH_SIZE = 1000;
+
+// Amount of text read before the delimiter is chosen
+const DELIMITER_SAMPLE_SIZE = 64 * 1024;
+
+export function isDelimitedFile(filename: string): boolean {
+  const ext = path.extname(filename).toLowerCase();
+  return ext === ".csv" || ext === ".tsv" || ext === ".txt";
+}
+
+// Pick the delimiter that splits the first few lines into the most consistent,
+// non-trivial number of fields. Quoted sections are skipped while counting.
+export function detectDelimiter(text: string, filename?: string): string {
+  if (filename && path.extname(filename).toLowerCase() === ".tsv") {
+    return "\t";
+  }
+
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== "").slice(0, 10);
+  if (lines.length === 0) {
+    return ",";
+  }
+
+  let best = ",";
+  let bestScore = 0;
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const counts = lines.map(line => countOutsideQuotes(line, delimiter));
+    const first = counts[0];
+    if (first === 0) continue;
+
+    const consistent = counts.filter(c => c === first).length;
+    const score = first * consistent;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function countOutsideQuotes(line: string, delimiter: string): number {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === delimiter && !inQuotes) {
+      count++;
+    }
+  }
+  return count;
+}
+
+// RFC 4180 style tokenizer: quoted fields may contain delimiters, newlines and
+// doubled quotes ("") as an escaped quote. Text can be pushed in arbitrary
+// chunks; state carries over so fields split across chunks parse correctly.
+export class DelimitedRecordParser {
+  private record: string[] = [];
+  private field = "";
+  private inQuotes = false;
+  private quotePending = false; // saw a quote inside quotes at the end of a chunk
+  private skipLineFeed = false; // saw \r at the end of a chunk
+
+  constructor(private delimiter: string) {}
+
+  push(text: string): string[][] {
+    const records: string[][] = [];
+    let i = 0;
+
+    if (this.skipLineFeed) {
+      if (text[0] === "\n") i++;
+      this.skipLineFeed = false;
+    }
+
+    while (i < text.length) {
+      const char = text[i];
+
+      if (this.quotePending) {
+        this.quotePending = false;
+        if (char === '"') {
+          this.field += '"';
+          i++;
+          continue;
+        }
+        this.inQuotes = false;
+      }
+
+      if (this.inQuotes) {
+        if (char === '"') {
+          if (i + 1 === text.length) {
+            this.quotePending = true;
+          } else if (text[i + 1] === '"') {
+            this.field += '"';
+            i++;
+          } else {
+            this.inQuotes = false;
+          }
+        } else {
+          this.field += char;
+        }
+        i++;
+        continue;
+      }
+
+      if (char === '"' && this.field === "") {
+        this.inQuotes = true;
+      } else if (char === this.delimiter) {
+        this.record.push(this.field);
+        this.field = "";
+      } else if (char === "\n" || char === "\r") {
+        this.finishRecord(records);
+        if (char === "\r") {
+          if (i + 1 === text.length) this.skipLineFeed = true;
+          else if (text[i + 1] === "\n") i++;
+        }
+      } else {
+        this.field += char;
+      }
+      i++;
+    }
+
+    return records;
+  }
+
+  end(): string[][] {
+    if (this.quotePending) {
+      this.quotePending = false;
+      this.inQuotes = false;
+    }
+    if (this.inQuotes) {
+      throw new IngestError("Unterminated quoted field at end of file");
+    }
+
+    const records: string[][] = [];
+    if (this.field !== "" || this.record.length > 0) {
+      this.finishRecord(records);
+    }
+    return records;
+  }
+
+  private finishRecord(records: string[][]) {
+    this.record.push(this.field);
+    // Drop blank lines
+    if (!(this.record.length === 1 && this.record[0].trim() === "")) {
+      records.push(this.record);
+    }
+    this.record = [];
+    this.field = "";
+  }
+}
+
+export function parseDelimitedRecords(text: string, delimiter: string): string[][] {
+  const parser = new DelimitedRecordParser(delimiter);
+  return [...parser.push(text), ...parser.end()];
+}
+
+// Blank headers become column_N and duplicates get a numeric suffix so every
+// row object has one key per column.
+export function normalizeHeaders(headers: string[]): string[] {
+  const seen = new Map<string, number>();
+  return headers.map((raw, index) => {
+    let name = raw.trim() || `column_${index + 1}`;
+    const occurrences = seen.get(name) ?? 0;
+    seen.set(name, occurrences + 1);
+    if (occurrences > 0) {
+      name = `${name}_${occurrences + 1}`;
+    }
+    return name;
+  });
+}
+
+function recordToRow(columns: string[], values: string[]): ParsedRow {
+  const row: ParsedRow = {};
+  columns.forEach((column, index) => {
+    const value = values[index];
+    row[column] = value === undefined || value === "" ? null : value;
+  });
+  return row;
+}
+
+export function parseDelimitedText(text: string, filename?: string): ParsedTable {
+  const content = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(content, filename);
+  const records = parseDelimitedRecords(content, delimiter);
+
+  if (records.length === 0) {
+    throw new IngestError("File is empty");
+  }
+
+  const columns = normalizeHeaders(records[0]);
+  const rows = records.slice(1).map(values => recordToRow(columns, values));
+  return { columns, rows, delimiter };
+}
+
+// Read a delimited file in chunks. The header and delimiter are resolved up
+// front; rows are then yielded in batches as the rest of the file is read.
+export async function openDelimitedFile(filePath: string, filename?: string): Promise<TableStream> {
+  const stream = fs.createReadStream(filePath, { encoding: "utf8", highWaterMark: DELIMITER_SAMPLE_SIZE });
+  const chunks = stream[Symbol.asyncIterator]() as AsyncIterator<string>;
+
+  let sample = "";
+  let done = false;
+  while (!done && sample.length < DELIMITER_SAMPLE_SIZE) {
+    const next = await chunks.next();
+    if (next.done) done = true;
+    else sample += next.value;
+  }
+  sample = sample.replace(/^\uFEFF/, "");
+
+  const delimiter = detectDelimiter(sample, filename ?? filePath);
+  const parser = new DelimitedRecordParser(delimiter);
+  let pending = parser.push(sample);
+
+  // A header longer than the sample is rare but legal
+  while (pending.length === 0 && !done) {
+    const next = await chunks.next();
+    if (next.done) done = true;
+    else pending = parser.push(next.value);
+  }
+  if (done) {
+    pending = pending.concat(parser.end());
+  }
+  if (pending.length === 0) {
+    stream.destroy();
+    throw new IngestError("File is empty");
+  }
+
+  const columns = normalizeHeaders(pending[0]);
+  pending = pending.slice(1);
+
+  async function* batches(): AsyncGenerator<ParsedRow[]> {
+    try {
+      let batch: ParsedRow[] = [];
+      const take = function* (records: string[][]) {
+        for (const values of records) {
+          batch.push(recordToRow(columns, values));
+          if (batch.length >= ROW_BATCH_SIZE) {
+            yield batch;
+            batch = [];
+          }
+        }
+      };
+
+      yield* take(pending);
+      while (!done) {
+        const next = await chunks.next();
+        if (next.done) {
+          done = true;
+          yield* take(parser.end());
+        } else {
+          yield* take(parser.push(next.value));
+        }
+      }
+      if (batch.length > 0) {
+        yield batch;
+      }
+    } finally {
+      stream.destroy();
+    }
+  }
+
+  return { columns, delimiter, batches: batches() };
+}
+
+// Present an in-memory table through the streaming interface
+export function tableStream(table: ParsedTable): TableStream {
+  async function* batches(): AsyncGenerator<ParsedRow[]> {
+    for (let i = 0; i < table.rows.length; i += ROW_BATCH_SIZE) {
+      yield table.rows.slice(i, i + ROW_BATCH_SIZE);
+    }
+  }
+  return { columns: table.columns, delimiter: table.delimiter, batches: batches() };
+}
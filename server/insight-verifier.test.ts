@@ -0,0 +1,44 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { chartFacts, verifyInsight } from "./insight-verifier";
+
+// North is 140 of 380, a share of 36.8%
+const chart = { labels: ["North", "South", "East"], datasets: [{ label: "Sales", data: [140, 120, 120] }] };
+const facts = chartFacts(chart);
+
+const verify = (text: string) => verifyInsight(text, facts, chart.labels);
+
+describe("verifyInsight", () => {
+  it("checks a point's value and share", () => {
+    assert.equal(verify("North had 140 in sales").status, "verified");
+    assert.equal(verify("North accounts for 37% of sales").status, "verified");
+    assert.deepEqual(verify("North accounts for 50% of sales").claims, [
+      { text: "50%", value: 50, status: "contradicted", actual: 140 / 380 * 100 },
+    ]);
+  });
+
+  it("checks totals, allowing for rounding", () => {
+    assert.equal(verify("Total sales were 380").status, "verified");
+    assert.equal(verify("Total sales were 390").status, "approximate");
+  });
+
+  it("checks differences between two named points", () => {
+    assert.equal(verify("North is 20 higher than South").status, "verified");
+    assert.equal(verify("North is 17% higher than South").status, "verified");
+  });
+
+  it("leaves the growth of one point unchecked, since the earlier period isn't shown", () => {
+    assert.deepEqual(verify("North region grew 40% compared to last year"), {
+      status: "unchecked",
+      claims: [{ text: "40%", value: 40, status: "unchecked" }],
+    });
+  });
+
+  it("catches figures off by orders of magnitude", () => {
+    assert.equal(verify("North had $1.2M").status, "contradicted");
+  });
+
+  it("leaves sentences without figures unchecked", () => {
+    assert.deepEqual(verify("Sales were strong"), { status: "unchecked", claims: [] });
+  });
+});
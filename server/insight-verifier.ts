@@ -0,0 +1,256 @@
+import type { DataSource, QueryMeasure } from "@shared/schema";
+import { getFieldSchema, isNumericColumn } from "./datasets";
+import { IngestError } from "./ingest";
+import { runCachedQuery } from "./query-engine";
+import { rulesProvider } from "./ai-rules";
+
+// Checks the numbers in model-written insights against what they describe.
+// Every figure a chart or its data source supports is worked out first (each
+// value, totals, shares, the changes and differences between points, the top
+// values together), then each number in a sentence is looked up among the
+// figures the sentence names: those about the points it names, and totals or
+// top shares when its wording asks for them. Close enough to the shown
+// precision it's verified, within 5% approximate, and otherwise contradicted;
+// a number with nothing named to check it against is left unchecked. "Fell"
+// or "grew" only match changes in that direction. Contradicted sentences are
+// dropped; a chart left without any gets statements computed from its data
+// instead.
+
+export type ClaimStatus = "verified" | "approximate" | "contradicted" | "unchecked";
+
+export interface VerifiedClaim {
+  text: string; // As written, e.g. "$1.2M" or "40%"
+  value: number;
+  status: ClaimStatus;
+  actual?: number; // The closest supported figure, for contradicted claims
+}
+
+// "unchecked" sentences have numbers that can't all be checked, or none
+export interface InsightVerification {
+  status: ClaimStatus;
+  claims: VerifiedClaim[];
+}
+
+export interface VerifiedInsight {
+  text: string;
+  verification: InsightVerification;
+}
+
+interface Fact {
+  value: number;
+  percent: boolean;
+  labels: string[]; // The points the figure is about; none for totals
+  direction?: 1 | -1; // Changes and differences, from the earlier point
+  cue?: RegExp; // Wording the sentence needs for the figure to apply
+}
+
+interface ChartPayload {
+  labels?: unknown[];
+  datasets?: { label?: unknown; data?: unknown[] }[];
+}
+
+// Pairwise changes are only worked out for charts up to this many points
+const MAX_PAIRED_POINTS = 12;
+// Numeric columns of a data source that totals are worked out for
+const MAX_SOURCE_COLUMNS = 20;
+const APPROXIMATE_TOLERANCE = 0.05;
+// Percentage points a percentage may be off and still be approximate
+const APPROXIMATE_POINTS = 2;
+
+const NUMBER_PATTERN = /([$€£¥])?\s?(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?(?:\s*(k|mn|m|bn|b|thousand|million|billion)\b)?(?:\s*(%|percent\b|percentage points?\b|pp\b))?/gi;
+
+const SCALES: Record<string, number> = {
+  k: 1e3, thousand: 1e3, m: 1e6, mn: 1e6, million: 1e6, b: 1e9, bn: 1e9, billion: 1e9,
+};
+
+const TOP_WORDS = /\b(top|together|combined|account\w*|make up|makes up|leading)\b/i;
+
+const TOTAL_WORDS = /\b(total\w*|overall|altogether|combined|sum|in all|across|average|avg|mean|count|rows|records|highest|lowest|maximum|minimum)\b/i;
+
+// "A is 140% of B"
+const RATIO_WORDS = /(%|percent)\s+of\b/i;
+
+const RISE_WORDS = /\b(grew|grow|grows|growth|rose|rise|rises|increas\w*|up|gain\w*|higher|jump\w*|climb\w*|more)\b/i;
+const FALL_WORDS = /\b(fell|fall|falls|drop\w*|declin\w*|decreas\w*|down|lower|shrank|shrunk|lost|loss|less|fewer)\b/i;
+
+// Figures a chart supports, for every dataset in it
+export function chartFacts(payload: unknown): Fact[] {
+  const { labels = [], datasets = [] } = (typeof payload === "object" && payload !== null ? payload : {}) as ChartPayload;
+  const facts: Fact[] = [];
+  datasets.forEach(dataset => {
+    const points = (dataset.data ?? []).flatMap((raw, index) => {
+      const value = Number(raw);
+      return raw === null || isNaN(value) ? [] : [{ label: String(labels[index] ?? ""), value }];
+    });
+    if (points.length === 0) return;
+
+    const total = points.reduce((sum, point) => sum + point.value, 0);
+    // Rates and shares are read as percentages as well
+    const fractions = points.every(point => point.value >= 0 && point.value <= 1);
+    const percentages = /%|percent|rate|margin|share|ratio/i.test(String(dataset.label ?? ""));
+    facts.push(
+      { value: total, percent: false, labels: [], cue: TOTAL_WORDS },
+      { value: total / points.length, percent: false, labels: [], cue: TOTAL_WORDS },
+      { value: points.length, percent: false, labels: [], cue: TOTAL_WORDS },
+    );
+    points.forEach(point => {
+      facts.push({ value: point.value, percent: false, labels: [point.label] });
+      if (fractions) facts.push({ value: point.value * 100, percent: true, labels: [point.label] });
+      if (percentages) facts.push({ value: point.value, percent: true, labels: [point.label] });
+      if (total > 0) facts.push({ value: (point.value / total) * 100, percent: true, labels: [point.label] });
+    });
+
+    const sorted = [...points].sort((a, b) => b.value - a.value);
+    for (let k = 2; k <= Math.min(5, sorted.length - 1); k++) {
+      const top = sorted.slice(0, k);
+      const sum = top.reduce((total, point) => total + point.value, 0);
+      const names = top.map(point => point.label);
+      facts.push({ value: sum, percent: false, labels: names, cue: TOP_WORDS });
+      if (total > 0) facts.push({ value: (sum / total) * 100, percent: true, labels: names, cue: TOP_WORDS });
+    }
+
+    if (points.length > MAX_PAIRED_POINTS) return;
+    points.forEach((from, i) => {
+      points.forEach((to, j) => {
+        if (i === j) return;
+        const difference = to.value - from.value;
+        // Each pair is read both ways, since "A is 20% above B" and "B rose
+        // 20% to A" compare the same points
+        const direction = difference > 0 ? 1 : difference < 0 ? -1 : undefined;
+        const pair = [from.label, to.label];
+        facts.push({ value: Math.abs(difference), percent: false, labels: pair, direction });
+        if (from.value !== 0) {
+          facts.push({ value: Math.abs(difference / from.value) * 100, percent: true, labels: pair, direction });
+          facts.push({ value: (to.value / from.value) * 100, percent: true, labels: pair, cue: RATIO_WORDS });
+        }
+      });
+    });
+  });
+  return facts;
+}
+
+// Totals a data source supports: its row count and the sum, average, lowest
+// and highest value of each numeric column other than identifiers
+export async function sourceFacts(dataSources: DataSource[]): Promise<Fact[]> {
+  const facts: Fact[] = [];
+  for (const dataSource of dataSources) {
+    try {
+      const columns = (await getFieldSchema(dataSource))
+        .filter(column => isNumericColumn(column) && !/(^|[ _-])id$/i.test(column.name))
+        .slice(0, MAX_SOURCE_COLUMNS);
+      const measures: QueryMeasure[] = [{ aggregation: "count", as: "rows" }];
+      columns.forEach((column, index) => {
+        (["sum", "avg", "min", "max"] as const).forEach(aggregation => {
+          measures.push({ aggregation, column: column.name, as: `${aggregation}_${index}` });
+        });
+      });
+      const { result } = await runCachedQuery(dataSource, { dataSourceId: dataSource.id, dimensions: [], measures, filters: [], sort: [], timezone: "UTC", fiscalYearStartMonth: 1 });
+      Object.values(result.rows[0] ?? {}).forEach(value => {
+        if (typeof value === "number") facts.push({ value, percent: false, labels: [], cue: TOTAL_WORDS });
+      });
+    } catch (error) {
+      if (!(error instanceof IngestError)) throw error;
+    }
+  }
+  return facts;
+}
+
+// Point labels the sentence names, longest first
+function mentionedLabels(text: string, labels: string[]): string[] {
+  const lower = text.toLowerCase();
+  return Array.from(new Set(labels))
+    .filter(label => label.length > 1 && lower.includes(label.toLowerCase()))
+    .sort((a, b) => b.length - a.length);
+}
+
+// The numbers a sentence claims. Numbers in the names of points, dates,
+// quarters, years and ordinals are part of what is described, not claims.
+function claimsOf(text: string, mentioned: string[]) {
+  let rest = text;
+  mentioned
+    .filter(label => /[a-z]/i.test(label) || /\d{4}-\d{2}/.test(label))
+    .forEach(label => {
+      rest = rest.split(new RegExp(label.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "gi")).join(" ");
+    });
+  rest = rest
+    .replace(/\b\d{4}-\d{2}(-\d{2})?\b/g, " ")
+    .replace(/\b(Q[1-4]|H[12]|FY\s?\d{2,4})\b/gi, " ");
+
+  const claims: { text: string; value: number; percent: boolean; precision: number }[] = [];
+  let match: RegExpExecArray | null;
+  NUMBER_PATTERN.lastIndex = 0;
+  while ((match = NUMBER_PATTERN.exec(rest))) {
+    const [whole, currency, digits, fraction = "", scaleWord, percentWord] = match;
+    const next = rest.charAt(match.index + whole.length);
+    const unitless = !currency && !scaleWord && !percentWord;
+    if (unitless && /[a-z]/i.test(next)) continue; // 1st, 3rd, 10x
+    const value = parseFloat(digits.replace(/,/g, "") + fraction);
+    if (unitless && !fraction && !digits.includes(",") && value >= 1900 && value <= 2100) continue;
+    const scale = scaleWord ? SCALES[scaleWord.toLowerCase()] : 1;
+    claims.push({
+      text: whole.trim(),
+      value: value * scale,
+      percent: !!percentWord,
+      // Half of the last digit shown, so "1.2M" matches 1,240,000
+      precision: (0.5 / 10 ** Math.max(0, fraction.length - 1)) * scale,
+    });
+  }
+  return claims;
+}
+
+export function verifyInsight(text: string, facts: Fact[], labels: string[]): InsightVerification {
+  const mentioned = mentionedLabels(text, labels);
+  const rises = RISE_WORDS.test(text);
+  const falls = FALL_WORDS.test(text);
+  const direction = rises === falls ? undefined : rises ? 1 : -1;
+  // Figures about the points the sentence names, all of them for a change
+  // between two points, and totals and top shares its wording asks for. A
+  // change of one point ("North grew 40%") is against a period the chart
+  // doesn't show, so that point's value and share don't apply.
+  const named = (label: string) => mentioned.includes(label);
+  const unshownChange = (rises || falls) && mentioned.length === 1;
+  const relevant = facts.filter(fact =>
+    (fact.cue
+      ? fact.cue.test(text) && (fact.labels.length === 0 || mentioned.length === 0 || fact.labels.some(named))
+      : fact.labels.length > 0 && fact.labels.every(named) && !(unshownChange && fact.labels.length === 1)) &&
+    (direction === undefined || fact.direction === undefined || fact.direction === direction));
+
+  const claims = claimsOf(text, mentioned).flatMap((claim): VerifiedClaim[] => {
+    const candidates = relevant.filter(fact => fact.percent === claim.percent);
+    const { text: written, value } = claim;
+    if (candidates.length === 0) return [{ text: written, value, status: "unchecked" }];
+    let closest: Fact | undefined;
+    candidates.forEach(fact => {
+      if (!closest || Math.abs(fact.value - claim.value) < Math.abs(closest.value - claim.value)) closest = fact;
+    });
+    const off = closest ? Math.abs(closest.value - claim.value) : Infinity;
+    if (off <= Math.max(claim.precision, Math.abs(claim.value) * 0.005)) return [{ text: written, value, status: "verified" }];
+    const tolerance = Math.max(Math.abs(claim.value) * APPROXIMATE_TOLERANCE, claim.percent ? APPROXIMATE_POINTS : 0);
+    if (off <= tolerance) return [{ text: written, value, status: "approximate" }];
+    // Small bare counts ("top 3", "2 regions") are wording, not figures
+    if (!claim.percent && Number.isInteger(value) && value <= Math.max(10, labels.length) && !/[$€£¥.,]/.test(written)) return [];
+    return [{ text: written, value, status: "contradicted", actual: closest?.value }];
+  });
+
+  const statuses = claims.map(claim => claim.status);
+  return {
+    status: statuses.includes("contradicted") ? "contradicted"
+      : statuses.includes("approximate") ? "approximate"
+      : statuses.length > 0 && !statuses.includes("unchecked") ? "verified"
+      : "unchecked",
+    claims,
+  };
+}
+
+// Checks the insights written about a chart. Contradicted ones are dropped;
+// when none is left, statements computed from the chart take their place.
+export async function verifyChartInsights(insights: string[], payload: unknown, grounding: Fact[] = [], question = ""): Promise<VerifiedInsight[]> {
+  const facts = [...chartFacts(payload), ...grounding];
+  const labels = ((payload as ChartPayload | null)?.labels ?? []).map(String);
+  const verify = (text: string) => ({ text, verification: verifyInsight(text, facts, labels) });
+
+  const kept = insights.map(verify).filter(insight => insight.verification.status !== "contradicted");
+  if (kept.length > 0 || insights.length === 0) return kept;
+  const computed = await rulesProvider.generateInsights(payload, question);
+  return computed.map(verify);
+}
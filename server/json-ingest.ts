@@ -0,0 +1,242 @@
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+import type { JsonImportOptions } from "@shared/schema";
+import { IngestError, ROW_BATCH_SIZE, type CellValue, type ParsedRow, type TableStream } from "./ingest";
+
+// How arrays inside a record become table cells: "explode" emits one row per
+// element (repeating the parent fields), "join" keeps one row and joins the
+// elements into a single text value.
+type ArrayMode = JsonImportOptions["arrayMode"];
+
+export interface RecordPath {
+  path: string;
+  count: number;
+  keys: string[]; // Keys of the first record, to help users recognise the array
+}
+
+export interface JsonFileSummary {
+  format: "json" | "ndjson";
+  paths: RecordPath[];
+}
+
+// Whole-document JSON has to be parsed in one piece; larger exports should be NDJSON
+const MAX_JSON_DOCUMENT_SIZE = 256 * 1024 * 1024;
+
+// Exploding several arrays in one record multiplies its rows
+const MAX_ROWS_PER_RECORD = 10_000;
+
+// How deep to look for record arrays inside a wrapping object
+const MAX_PATH_DEPTH = 4;
+
+export function isJsonFile(filename: string): boolean {
+  const ext = path.extname(filename).toLowerCase();
+  return ext === ".json" || ext === ".ndjson" || ext === ".jsonl";
+}
+
+function isNdjsonFile(filename: string): boolean {
+  const ext = path.extname(filename).toLowerCase();
+  return ext === ".ndjson" || ext === ".jsonl";
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+async function readJsonDocument(filePath: string): Promise<unknown> {
+  const { size } = await fs.promises.stat(filePath);
+  if (size > MAX_JSON_DOCUMENT_SIZE) {
+    throw new IngestError("JSON files over 256MB must be uploaded as NDJSON (one record per line)");
+  }
+
+  const text = (await fs.promises.readFile(filePath, "utf8")).replace(/^\uFEFF/, "");
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new IngestError(`File is not valid JSON: ${(error as Error).message}`);
+  }
+}
+
+// Arrays of objects anywhere in the document, largest first
+function findRecordPaths(value: unknown, prefix: string[] = [], depth = 0): RecordPath[] {
+  if (Array.isArray(value)) {
+    const first = value.find(isPlainObject);
+    return first ? [{ path: prefix.join("."), count: value.length, keys: Object.keys(first).slice(0, 10) }] : [];
+  }
+  if (!isPlainObject(value) || depth >= MAX_PATH_DEPTH) {
+    return [];
+  }
+  return Object.entries(value)
+    .flatMap(([key, child]) => findRecordPaths(child, [...prefix, key], depth + 1))
+    .sort((a, b) => b.count - a.count);
+}
+
+export async function describeJsonFile(filePath: string, filename: string): Promise<JsonFileSummary> {
+  if (isNdjsonFile(filename)) {
+    return { format: "ndjson", paths: [] };
+  }
+  return { format: "json", paths: findRecordPaths(await readJsonDocument(filePath)) };
+}
+
+function resolvePath(document: unknown, recordsPath: string): unknown {
+  let current = document;
+  for (const segment of recordsPath.split(".").filter(Boolean)) {
+    if (Array.isArray(current) && /^\d+$/.test(segment)) {
+      current = current[parseInt(segment)];
+    } else if (isPlainObject(current)) {
+      current = current[segment];
+    } else {
+      current = undefined;
+    }
+    if (current === undefined) {
+      throw new IngestError(`Path "${recordsPath}" was not found in the file`);
+    }
+  }
+  return current;
+}
+
+function joinArray(values: unknown[]): CellValue {
+  if (values.length === 0) return null;
+  if (values.every(value => !isPlainObject(value) && !Array.isArray(value))) {
+    return values.filter(value => value !== null).map(String).join(", ");
+  }
+  return JSON.stringify(values);
+}
+
+// Cross every partial row with every alternative for the next field
+function crossJoin(rows: ParsedRow[], alternatives: ParsedRow[]): ParsedRow[] {
+  const result: ParsedRow[] = [];
+  for (const row of rows) {
+    for (const alternative of alternatives) {
+      result.push({ ...row, ...alternative });
+    }
+  }
+  if (result.length > MAX_ROWS_PER_RECORD) {
+    throw new IngestError(
+      `A record expands to more than ${MAX_ROWS_PER_RECORD.toLocaleString()} rows; join arrays into text instead`,
+    );
+  }
+  return result;
+}
+
+// Flatten one record into table rows. Nested objects become dotted column names
+// ({ customer: { name } } -> "customer.name").
+export function flattenRecord(record: unknown, arrayMode: ArrayMode, prefix = ""): ParsedRow[] {
+  if (!isPlainObject(record)) {
+    if (Array.isArray(record) && arrayMode === "explode") {
+      return record.length === 0
+        ? [{ [prefix || "value"]: null }]
+        : record.flatMap(element => flattenRecord(element, arrayMode, prefix));
+    }
+    const value = Array.isArray(record) ? joinArray(record) : (record as CellValue) ?? null;
+    return [{ [prefix || "value"]: value }];
+  }
+
+  let rows: ParsedRow[] = [{}];
+  for (const [key, value] of Object.entries(record)) {
+    const name = prefix ? `${prefix}.${key}` : key;
+
+    if (isPlainObject(value)) {
+      rows = crossJoin(rows, flattenRecord(value, arrayMode, name));
+    } else if (Array.isArray(value)) {
+      if (arrayMode === "join") {
+        rows = rows.map(row => ({ ...row, [name]: joinArray(value) }));
+      } else {
+        const children = value.length === 0
+          ? [{ [name]: null }]
+          : value.flatMap(element => flattenRecord(element, arrayMode, name));
+        rows = crossJoin(rows, children);
+      }
+    } else {
+      rows = rows.map(row => ({ ...row, [name]: value as CellValue }));
+    }
+  }
+  return rows;
+}
+
+export function columnsOfRows(rows: ParsedRow[]): string[] {
+  const columns = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(key => columns.add(key)));
+  return Array.from(columns);
+}
+
+async function openJsonDocument(filePath: string, options: JsonImportOptions): Promise<TableStream> {
+  const document = await readJsonDocument(filePath);
+  let records = resolvePath(document, options.recordsPath ?? "");
+
+  // Without a chosen path, an object wrapping a records array uses its largest
+  // array; an object with no arrays of records is imported as a single row
+  if (isPlainObject(records) && !options.recordsPath) {
+    const [largest] = findRecordPaths(records);
+    records = largest ? resolvePath(records, largest.path) : [records];
+  }
+  if (!Array.isArray(records)) {
+    throw new IngestError("The selected path does not contain a list of records");
+  }
+
+  const rows = records.flatMap(record => flattenRecord(record, options.arrayMode));
+  async function* batches(): AsyncGenerator<ParsedRow[]> {
+    for (let i = 0; i < rows.length; i += ROW_BATCH_SIZE) {
+      yield rows.slice(i, i + ROW_BATCH_SIZE);
+    }
+  }
+  return { columns: columnsOfRows(rows), batches: batches() };
+}
+
+// NDJSON is read line by line so files of any size stream through. Columns are
+// taken from the first batch; later records may still add more.
+async function openNdjsonFile(filePath: string, options: JsonImportOptions): Promise<TableStream> {
+  const stream = fs.createReadStream(filePath, { encoding: "utf8" });
+  const lines = readline.createInterface({ input: stream, crlfDelay: Infinity })[Symbol.asyncIterator]();
+  let lineNumber = 0;
+
+  const readBatch = async (): Promise<ParsedRow[] | null> => {
+    const batch: ParsedRow[] = [];
+    while (batch.length < ROW_BATCH_SIZE) {
+      const next = await lines.next();
+      if (next.done) break;
+      lineNumber++;
+
+      const line = (lineNumber === 1 ? next.value.replace(/^\uFEFF/, "") : next.value).trim();
+      if (line === "") continue;
+
+      let record: unknown;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        throw new IngestError(`Line ${lineNumber} is not valid JSON`);
+      }
+      batch.push(...flattenRecord(record, options.arrayMode));
+    }
+    return batch.length > 0 ? batch : null;
+  };
+
+  let first: ParsedRow[] | null;
+  try {
+    first = await readBatch();
+  } catch (error) {
+    stream.destroy();
+    throw error;
+  }
+  if (!first) {
+    stream.destroy();
+    throw new IngestError("File is empty");
+  }
+
+  async function* batches(): AsyncGenerator<ParsedRow[]> {
+    try {
+      yield first!;
+      let batch: ParsedRow[] | null;
+      while ((batch = await readBatch())) {
+        yield batch;
+      }
+    } finally {
+      stream.destroy();
+    }
+  }
+  return { columns: columnsOfRows(first), batches: batches() };
+}
+
+export async function openJsonFile(filePath: string, filename: string, options: JsonImportOptions): Promise<TableStream> {
+  return isNdjsonFile(filename) ? openNdjsonFile(filePath, options) : openJsonDocument(filePath, options);
+}
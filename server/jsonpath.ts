@@ -0,0 +1,114 @@
+import { IngestError } from "./ingest";
+
+// A small JSONPath subset for locating records in API responses:
+//   $            the document
+//   .name        child (also ['name'] or ["name"] for names with other characters)
+//   .* / [*]     every child
+//   [n]          array index, negative counts from the end
+//   ..name       any descendant named `name`
+
+type Segment =
+  | { kind: "child"; name: string }
+  | { kind: "index"; index: number }
+  | { kind: "wildcard" }
+  | { kind: "descendant"; name: string };
+
+const IDENTIFIER = /^[A-Za-z0-9_$-]+/;
+
+function parsePath(path: string): Segment[] {
+  const text = path.trim();
+  if (!text.startsWith("$")) {
+    throw new IngestError(`JSONPath must start with "$": ${path}`);
+  }
+
+  const segments: Segment[] = [];
+  let i = 1;
+  const fail = (): never => {
+    throw new IngestError(`Invalid JSONPath at position ${i + 1}: ${path}`);
+  };
+
+  while (i < text.length) {
+    if (text.startsWith("..", i)) {
+      const match = text.slice(i + 2).match(IDENTIFIER) ?? fail();
+      segments.push({ kind: "descendant", name: match[0] });
+      i += 2 + match[0].length;
+    } else if (text[i] === ".") {
+      if (text[i + 1] === "*") {
+        segments.push({ kind: "wildcard" });
+        i += 2;
+      } else {
+        const match = text.slice(i + 1).match(IDENTIFIER) ?? fail();
+        segments.push({ kind: "child", name: match[0] });
+        i += 1 + match[0].length;
+      }
+    } else if (text[i] === "[") {
+      const end = text.indexOf("]", i);
+      if (end === -1) fail();
+      const inner = text.slice(i + 1, end).trim();
+      if (inner === "*") {
+        segments.push({ kind: "wildcard" });
+      } else if (/^-?\d+$/.test(inner)) {
+        segments.push({ kind: "index", index: parseInt(inner) });
+      } else if (/^(['"]).*\1$/.test(inner)) {
+        segments.push({ kind: "child", name: inner.slice(1, -1) });
+      } else {
+        fail();
+      }
+      i = end + 1;
+    } else {
+      fail();
+    }
+  }
+  return segments;
+}
+
+function isContainer(value: unknown): value is Record<string, unknown> | unknown[] {
+  return typeof value === "object" && value !== null;
+}
+
+function descendants(value: unknown, name: string, found: unknown[] = []): unknown[] {
+  if (Array.isArray(value)) {
+    value.forEach(item => descendants(item, name, found));
+  } else if (isContainer(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      if (key === name) found.push(child);
+      descendants(child, name, found);
+    }
+  }
+  return found;
+}
+
+function step(value: unknown, segment: Segment): unknown[] {
+  switch (segment.kind) {
+    case "child":
+      return isContainer(value) && !Array.isArray(value) && segment.name in value ? [value[segment.name]] : [];
+    case "index": {
+      if (!Array.isArray(value)) return [];
+      const index = segment.index < 0 ? value.length + segment.index : segment.index;
+      return index >= 0 && index < value.length ? [value[index]] : [];
+    }
+    case "wildcard":
+      return isContainer(value) ? Object.values(value) : [];
+    case "descendant":
+      return descendants(value, segment.name);
+  }
+}
+
+export function queryJsonPath(document: unknown, path: string): unknown[] {
+  let matches = [document];
+  for (const segment of parsePath(path)) {
+    matches = matches.flatMap(value => step(value, segment));
+  }
+  return matches;
+}
+
+// Records at `path`: a path to an array yields its elements, a path ending in
+// a wildcard yields every match
+export function selectRecords(document: unknown, path: string): unknown[] {
+  const matches = queryJsonPath(document, path);
+  return matches.length === 1 && Array.isArray(matches[0]) ? matches[0] : matches;
+}
+
+export function selectValue(document: unknown, path: string): unknown {
+  return queryJsonPath(document, path)[0];
+}
@@ -0,0 +1,53 @@
+import {
+  getAIProvider,
+  type AgentChart,
+  type AgentRequest,
+  type AnalyzedDataSource,
+  type ChartRequest,
+  type SmartInsightRequest,
+} from "./ai-provider";
+import type { AgentStep } from "./agent-tools";
+
+// The AI functions the routes use. Each runs on the organization's provider,
+// or the server default when the organization isn't known.
+
+export async function generateChart(request: ChartRequest, organizationId?: number) {
+  return (await getAIProvider(organizationId)).generateChart(request);
+}
+
+export async function generateSyntheticData(prompt: string, organizationId?: number) {
+  return (await getAIProvider(organizationId)).generateSyntheticData(prompt);
+}
+
+export async function generateSmartInsights(request: SmartInsightRequest, organizationId?: number) {
+  return (await getAIProvider(organizationId)).generateSmartInsights(request);
+}
+
+export async function generateInsights(data: unknown, prompt?: string, organizationId?: number) {
+  return (await getAIProvider(organizationId)).generateInsights(data, prompt);
+}
+
+export async function generateSQLQuery(prompt: string, schema?: string, organizationId?: number) {
+  return (await getAIProvider(organizationId)).generateSQLQuery(prompt, schema);
+}
+
+export async function analyzeDataSource(dataSource: AnalyzedDataSource) {
+  return (await getAIProvider(dataSource.organizationId)).analyzeDataSource(dataSource);
+}
+
+export async function* streamEpesiAgentResponse(request: AgentRequest, signal?: AbortSignal, organizationId?: number) {
+  yield* (await getAIProvider(organizationId)).streamEpesiAgentResponse(request, signal);
+}
+
+// The whole answer at once, for clients that don't read the stream
+export async function generateEpesiAgentResponse(request: AgentRequest, organizationId?: number) {
+  let response = "";
+  const charts: AgentChart[] = [];
+  const steps: AgentStep[] = [];
+  for await (const event of streamEpesiAgentResponse(request, undefined, organizationId)) {
+    if (event.type === "text") response += event.text;
+    else if (event.type === "chart") charts.push(event.chart);
+    else steps.push(event.step);
+  }
+  return { response, charts, steps };
+}
@@ -0,0 +1,82 @@
+import type { DataSource, QueryResult } from "@shared/schema";
+
+// Aggregated query results, kept so dashboards refreshing every minute and many
+// viewers of the same blocks don't recompute them. Keys include the data
+// source's current version and the time it last changed, so a replace, append,
+// refresh, rollback or schema edit is never answered from an older result;
+// invalidating a data source only frees that memory early. The least recently
+// used results are dropped once the entry or row budget is exceeded.
+
+const MAX_ENTRIES = 500;
+const MAX_ROWS = 500_000;
+
+interface CacheEntry {
+  dataSourceId: number;
+  organizationId: number;
+  result: QueryResult;
+}
+
+export class QueryCache {
+  private entries = new Map<string, CacheEntry>();
+  private rows = 0;
+
+  get(key: string): QueryResult | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    // Map order is insertion order, so moving the entry to the end marks it as recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.result;
+  }
+
+  set(key: string, dataSource: DataSource, result: QueryResult) {
+    this.remove(key);
+    this.entries.set(key, { dataSourceId: dataSource.id, organizationId: dataSource.organizationId, result });
+    this.rows += result.rows.length;
+    for (const oldest of Array.from(this.entries.keys())) {
+      if (this.entries.size <= MAX_ENTRIES && this.rows <= MAX_ROWS) break;
+      this.remove(oldest);
+    }
+  }
+
+  // Drops the results computed from a data source; returns how many there were
+  invalidate(dataSourceId: number): number {
+    return this.removeWhere(entry => entry.dataSourceId === dataSourceId);
+  }
+
+  // Drops every result of an organization's data sources, or everything
+  purge(organizationId?: number): number {
+    return this.removeWhere(entry => organizationId === undefined || entry.organizationId === organizationId);
+  }
+
+  get size() {
+    return this.entries.size;
+  }
+
+  private remove(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.rows -= entry.result.rows.length;
+    this.entries.delete(key);
+  }
+
+  private removeWhere(matches: (entry: CacheEntry) => boolean): number {
+    let removed = 0;
+    for (const [key, entry] of Array.from(this.entries.entries())) {
+      if (matches(entry)) {
+        this.remove(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+// `query` must already have its semantic layer references resolved, so editing
+// a metric's definition changes the key as well
+export function queryCacheKey(dataSource: DataSource, query: unknown): string {
+  const version = `${dataSource.id}:${dataSource.currentVersionId ?? "legacy"}:${dataSource.updatedAt?.getTime() ?? 0}`;
+  return `${version}:${JSON.stringify(query)}`;
+}
+
+export const queryCache = new QueryCache();
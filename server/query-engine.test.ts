@@ -0,0 +1,103 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ColumnSchema, QueryFilter } from "@shared/schema";
+import { aggregateRows, compileFilter, filterCondition, type ResolvedQuery } from "./query-engine";
+import type { DataRow } from "./datasets";
+
+const schema: ColumnSchema[] = [
+  { name: "region", type: "text" },
+  { name: "amount", type: "decimal" },
+  { name: "day", type: "date" },
+] as ColumnSchema[];
+const amount = schema[1];
+
+const rows: DataRow[] = [
+  { region: "N", amount: "10", day: "2024-01-05" },
+  { region: "S", amount: "5", day: "2024-01-20" },
+  { region: "N", amount: "1,000", day: "2024-02-01" },
+  { region: "S", amount: null, day: "2024-02-03" },
+];
+
+async function* batches() {
+  yield rows;
+}
+
+const query = (spec: Partial<ResolvedQuery>): ResolvedQuery => ({
+  dimensions: [],
+  measures: [],
+  filters: [],
+  sort: [],
+  timezone: "UTC",
+  fiscalYearStartMonth: 1,
+  ...spec,
+});
+
+const matches = (filter: QueryFilter) => {
+  const matcher = compileFilter(filter, amount);
+  return [null, "1", "2", "3,000", 11].map(value => matcher({ amount: value }));
+};
+
+describe("compileFilter", () => {
+  it("compares numbers however they were written", () => {
+    assert.deepEqual(matches({ column: "amount", operator: "gt", value: 10 }), [false, false, false, true, true]);
+    assert.deepEqual(matches({ column: "amount", operator: "between", value: [1, 5] }), [false, true, true, false, false]);
+    assert.deepEqual(matches({ column: "amount", operator: "in", value: [1, "2"] }), [false, true, true, false, false]);
+    assert.deepEqual(matches({ column: "amount", operator: "is_null" }), [true, false, false, false, false]);
+  });
+
+  it("matches nothing when the value isn't of the column's type", () => {
+    assert.deepEqual(matches({ column: "amount", operator: "eq", value: "abc" }), [false, false, false, false, false]);
+  });
+
+  it("rejects a between without a pair", () => {
+    assert.throws(() => compileFilter({ column: "amount", operator: "between", value: 3 }, amount), {
+      name: "QueryError",
+      message: "Filter \"between\" on amount needs a [low, high] pair",
+    });
+  });
+});
+
+describe("filterCondition", () => {
+  it("escapes text in the SQL it writes", () => {
+    assert.equal(
+      filterCondition({ column: "name", operator: "contains", value: "o'b" }, { name: "name", type: "text" }),
+      "strpos(lower(NULLIF(btrim((data ->> 'name')), '')), 'o''b') > 0",
+    );
+  });
+
+  it("matches nothing when the value isn't of the column's type", () => {
+    assert.equal(filterCondition({ column: "amount", operator: "eq", value: "abc" }, amount), "FALSE");
+  });
+});
+
+describe("aggregateRows", () => {
+  it("groups and aggregates, skipping empty cells", async () => {
+    const result = await aggregateRows(batches(), schema, query({
+      dimensions: ["region"],
+      measures: [{ aggregation: "sum", column: "amount" }, { aggregation: "count" }],
+    }));
+    assert.deepEqual(result.rows, [
+      { region: "N", sum_amount: 1010, count: 2 },
+      { region: "S", sum_amount: 5, count: 2 },
+    ]);
+  });
+
+  it("buckets dates and applies filters", async () => {
+    const result = await aggregateRows(batches(), schema, query({
+      dimensions: [{ column: "day", bucket: "month" }],
+      measures: [{ aggregation: "avg", column: "amount" }],
+      filters: [{ column: "region", operator: "eq", value: "N" }],
+    }));
+    assert.deepEqual(result.rows, [
+      { month_day: "2024-01-01", avg_amount: 10 },
+      { month_day: "2024-02-01", avg_amount: 1000 },
+    ]);
+  });
+
+  it("rejects numeric aggregations of text columns", async () => {
+    await assert.rejects(aggregateRows(batches(), schema, query({ measures: [{ aggregation: "sum", column: "region" }] })), {
+      name: "QueryError",
+      message: "Cannot sum region: it holds text values, not numbers",
+    });
+  });
+});
@@ -0,0 +1,497 @@
+import {
+  maxQueryRows,
+  type ColumnSchema,
+  type ColumnType,
+  type DataSource,
+  type QueryColumn,
+  type QueryDimension,
+  type QueryFilter,
+  type QueryMeasure,
+  type QueryResult,
+  type QuerySpec,
+  type SemanticFormat,
+  type TimeBucket,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { queryCache, queryCacheKey } from "./query-cache";
+import { IngestError } from "./ingest";
+import { coerceValue } from "./schema-inference";
+import { cellExpression, cellTextExpression, valueLiteral } from "./cell-sql";
+import { assertTimezone, bucketStart, calendarDay, comparisonShift, formatDay, shiftDate, type PeriodShift } from "./time-buckets";
+import { compareValues, getFieldSchema, isNumericColumn, iterateFieldRows, type DataRow } from "./datasets";
+
+// Computes aggregated tables from a data source's rows. Cells are coerced to
+// their column types before filtering and grouping, so "1,200" and 1200 are the
+// same number and dates compare as ISO strings. As in SQL, a null cell matches
+// no filter except is_null, and aggregations other than count(*) skip nulls.
+// Date dimensions can be grouped into buckets and compared with the previous
+// period or the same period a year earlier. Measures may carry filters of their
+// own, like SQL's FILTER (WHERE ...), and queries may name the metrics and
+// dimensions of the organization's semantic layer instead of spelling them out.
+
+type Value = string | number | boolean | null;
+
+export class QueryError extends IngestError {
+  constructor(message: string) {
+    super(message);
+    this.name = "QueryError";
+  }
+}
+
+// Aggregations that only make sense over numbers
+const NUMERIC_AGGREGATIONS = new Set(["sum", "avg", "median", "percentile"]);
+
+interface Accumulator {
+  add(value: Value): void;
+  result(): Value;
+}
+
+// Linear interpolation between the closest ranks, as spreadsheets do
+function percentileOf(values: number[], percentile: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (percentile / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+function createAccumulator(measure: QueryMeasure): Accumulator {
+  switch (measure.aggregation) {
+    case "count": {
+      let count = 0;
+      // Without a column every row counts, like count(*)
+      return {
+        add: value => { if (measure.column === undefined || value !== null) count++; },
+        result: () => count,
+      };
+    }
+    case "count_distinct": {
+      const seen = new Set<Value>();
+      return { add: value => { if (value !== null) seen.add(value); }, result: () => seen.size };
+    }
+    case "sum":
+    case "avg": {
+      let sum = 0;
+      let count = 0;
+      return {
+        add: value => {
+          if (typeof value === "number") {
+            sum += value;
+            count++;
+          }
+        },
+        result: () => (count === 0 ? null : measure.aggregation === "sum" ? sum : sum / count),
+      };
+    }
+    case "min":
+    case "max": {
+      let best: Value = null;
+      const sign = measure.aggregation === "min" ? 1 : -1;
+      return {
+        add: value => {
+          if (value !== null && (best === null || sign * compareValues(value, best) < 0)) best = value;
+        },
+        result: () => best,
+      };
+    }
+    case "median":
+    case "percentile": {
+      const values: number[] = [];
+      const percentile = measure.aggregation === "median" ? 50 : measure.percentile!;
+      return {
+        add: value => { if (typeof value === "number") values.push(value); },
+        result: () => percentileOf(values, percentile),
+      };
+    }
+  }
+}
+
+export function measureName(measure: QueryMeasure): string {
+  if (measure.as) return measure.as;
+  if (measure.aggregation === "percentile") return `p${measure.percentile}_${measure.column}`;
+  return measure.column === undefined ? measure.aggregation : `${measure.aggregation}_${measure.column}`;
+}
+
+function measureType(measure: QueryMeasure, column: ColumnSchema | undefined): ColumnType {
+  if (measure.aggregation === "count" || measure.aggregation === "count_distinct") return "integer";
+  // Averages and percentiles of integers are fractional; otherwise the column's type carries over
+  const fractional = ["avg", "median", "percentile"].includes(measure.aggregation);
+  return column!.type === "integer" && fractional ? "decimal" : column!.type;
+}
+
+function columnOf(schema: ColumnSchema[], name: string): ColumnSchema {
+  const column = schema.find(c => c.name === name);
+  if (!column) {
+    throw new QueryError(`Unknown column: ${name}`);
+  }
+  return column;
+}
+
+// The filter's values coerced to the column's type, once its operator is known
+// to take them. "contains" looks for the text as given.
+function filterOperands(filter: QueryFilter, column: Pick<ColumnSchema, "name" | "type">): Value[] {
+  const coerce = (value: unknown) => coerceValue(value, column.type);
+  const { operator, value } = filter;
+
+  if (operator === "is_null" || operator === "is_not_null") return [];
+
+  if (operator === "in" || operator === "not_in") {
+    if (!Array.isArray(value)) {
+      throw new QueryError(`Filter "${operator}" on ${column.name} needs a list of values`);
+    }
+    return value.map(coerce);
+  }
+
+  if (operator === "between") {
+    if (!Array.isArray(value) || value.length !== 2) {
+      throw new QueryError(`Filter "between" on ${column.name} needs a [low, high] pair`);
+    }
+    return value.map(coerce);
+  }
+
+  if (value === undefined || Array.isArray(value)) {
+    throw new QueryError(`Filter "${operator}" on ${column.name} needs a single value`);
+  }
+  return [operator === "contains" ? String(value) : coerce(value)];
+}
+
+// Turns a filter into a row predicate, coercing its values to the column's type once
+export function compileFilter(filter: QueryFilter, column: Pick<ColumnSchema, "name" | "type">): (row: DataRow) => boolean {
+  const cell = (row: DataRow) => coerceValue(row[column.name], column.type);
+  const { operator } = filter;
+  const operands = filterOperands(filter, column);
+
+  if (operator === "is_null") return row => cell(row) === null;
+  if (operator === "is_not_null") return row => cell(row) !== null;
+
+  if (operator === "in" || operator === "not_in") {
+    const values = new Set(operands);
+    return operator === "in"
+      ? row => { const v = cell(row); return v !== null && values.has(v); }
+      : row => { const v = cell(row); return v !== null && !values.has(v); };
+  }
+
+  if (operator === "between") {
+    const [low, high] = operands;
+    return row => {
+      const v = cell(row);
+      return v !== null && compareValues(v, low) >= 0 && compareValues(v, high) <= 0;
+    };
+  }
+
+  if (operator === "contains") {
+    const needle = String(operands[0]).toLowerCase();
+    return row => { const v = cell(row); return v !== null && String(v).toLowerCase().includes(needle); };
+  }
+
+  const [target] = operands;
+  const test: Record<string, (order: number) => boolean> = {
+    eq: order => order === 0,
+    neq: order => order !== 0,
+    gt: order => order > 0,
+    gte: order => order >= 0,
+    lt: order => order < 0,
+    lte: order => order <= 0,
+  };
+  return row => {
+    const v = cell(row);
+    return v !== null && target !== null && test[operator](compareValues(v, target));
+  };
+}
+
+const COMPARISONS: Record<string, string> = { eq: "=", neq: "<>", gt: ">", gte: ">=", lt: "<", lte: "<=" };
+
+// compileFilter as a SQL condition on stored rows, for views read in SQL. Text
+// compares in the database's collation rather than as compareValues does.
+export function filterCondition(filter: QueryFilter, column: Pick<ColumnSchema, "name" | "type">): string {
+  const cell = `(${cellExpression(column.name, column.type)})`;
+  const literal = (value: string | number | boolean) => valueLiteral(value, column.type);
+  const { operator } = filter;
+  const operands = filterOperands(filter, column);
+
+  if (operator === "is_null") return `${cell} IS NULL`;
+  if (operator === "is_not_null") return `${cell} IS NOT NULL`;
+
+  if (operator === "in" || operator === "not_in") {
+    const values = operands.flatMap(value => value === null ? [] : [literal(value)]);
+    if (values.length === 0) return operator === "in" ? "FALSE" : `${cell} IS NOT NULL`;
+    return `${cell} ${operator === "in" ? "IN" : "NOT IN"} (${values.join(", ")})`;
+  }
+
+  if (operator === "between") {
+    // compareValues sorts nulls last, so a null low end matches nothing and a
+    // null high end leaves the range open
+    const [low, high] = operands;
+    if (low === null) return "FALSE";
+    return high === null ? `${cell} >= ${literal(low)}` : `${cell} BETWEEN ${literal(low)} AND ${literal(high)}`;
+  }
+
+  if (operator === "contains") {
+    const needle = valueLiteral(String(operands[0]).toLowerCase(), "text");
+    return `strpos(lower(${cellTextExpression(column.name, column.type)}), ${needle}) > 0`;
+  }
+
+  const [target] = operands;
+  return target === null ? "FALSE" : `${cell} ${COMPARISONS[operator]} ${literal(target)}`;
+}
+
+interface Group {
+  key: Value[];
+  accumulators: Accumulator[];
+}
+
+interface Dimension {
+  name: string;
+  column: ColumnSchema;
+  bucket?: TimeBucket;
+}
+
+function resolveDimension(schema: ColumnSchema[], dimension: QueryDimension): Dimension {
+  const { column: name, bucket, as } = typeof dimension === "string" ? { column: dimension, bucket: undefined, as: undefined } : dimension;
+  const column = columnOf(schema, name);
+  if (bucket && column.type !== "date" && column.type !== "datetime") {
+    throw new QueryError(`Cannot group ${column.name} by ${bucket}: it holds ${column.type} values, not dates`);
+  }
+  return { name: as ?? (bucket ? `${bucket}_${column.name}` : column.name), column, bucket };
+}
+
+// A query whose semantic layer references were replaced by what they stand for
+export type ResolvedQuery = Omit<QuerySpec, "dataSourceId" | "dimensions" | "measures"> & {
+  dimensions: QueryDimension[];
+  measures: QueryMeasure[];
+};
+
+// Runs a query over any stream of rows described by `schema`
+export async function aggregateRows(
+  batches: AsyncIterable<DataRow[]>,
+  schema: ColumnSchema[],
+  spec: ResolvedQuery,
+): Promise<QueryResult> {
+  assertTimezone(spec.timezone);
+  const dimensions = spec.dimensions.map(dimension => resolveDimension(schema, dimension));
+  const measureColumns = spec.measures.map(measure => {
+    if (measure.column === undefined) return undefined;
+    const column = columnOf(schema, measure.column);
+    if (NUMERIC_AGGREGATIONS.has(measure.aggregation) && !isNumericColumn(column)) {
+      throw new QueryError(`Cannot ${measure.aggregation} ${column.name}: it holds ${column.type} values, not numbers`);
+    }
+    return column;
+  });
+  const filters = spec.filters.map(filter => compileFilter(filter, columnOf(schema, filter.column)));
+  const measureFilters = spec.measures.map(measure =>
+    (measure.filters ?? []).map(filter => compileFilter(filter, columnOf(schema, filter.column))));
+
+  // Rows of the compared period are aggregated a second time with their date
+  // moved forward by one period, so they land in the bucket they compare with
+  // and the query's filters select the matching earlier range
+  let comparison: { dimension: Dimension; shift: PeriodShift } | undefined;
+  if (spec.compare) {
+    const dimension = dimensions.find(d => d.name === spec.compare!.dimension);
+    if (!dimension?.bucket) {
+      throw new QueryError(`Cannot compare periods of ${spec.compare.dimension}: it is not a dimension grouped by day, week, month, quarter or year`);
+    }
+    comparison = { dimension, shift: comparisonShift(dimension.bucket, spec.compare.period) };
+  }
+
+  const measureColumnsOut: QueryColumn[] = spec.measures.map((measure, i) => ({
+    name: measureName(measure),
+    type: measureType(measure, measureColumns[i]),
+    role: "measure",
+  }));
+  const columns: QueryColumn[] = [
+    ...dimensions.map(d => ({ name: d.name, type: d.bucket ? "date" as const : d.column.type, role: "dimension" as const, bucket: d.bucket })),
+    ...measureColumnsOut,
+    ...(comparison ? measureColumnsOut.flatMap(column => [
+      { name: `${column.name}_previous`, type: column.type, role: "comparison" as const },
+      { name: `${column.name}_change`, type: column.type, role: "comparison" as const },
+      { name: `${column.name}_change_pct`, type: "percent" as const, role: "comparison" as const },
+    ]) : []),
+  ];
+  const names = new Set<string>();
+  for (const column of columns) {
+    if (names.has(column.name)) {
+      throw new QueryError(`The result would have two columns named ${column.name}; give one of them another name`);
+    }
+    names.add(column.name);
+  }
+  for (const sort of spec.sort) {
+    if (!names.has(sort.field)) {
+      throw new QueryError(`Cannot sort by ${sort.field}: it is not a column of the query result`);
+    }
+  }
+
+  const dimensionValue = (dimension: Dimension, row: DataRow): Value => {
+    const value = coerceValue(row[dimension.column.name], dimension.column.type);
+    if (!dimension.bucket || value === null) return value;
+    const day = calendarDay(value as string, dimension.column.type, spec.timezone);
+    return formatDay(bucketStart(day, dimension.bucket, spec.fiscalYearStartMonth));
+  };
+
+  const addRow = (groups: Map<string, Group>, row: DataRow) => {
+    if (!filters.every(matches => matches(row))) return;
+
+    const key = dimensions.map(dimension => dimensionValue(dimension, row));
+    const id = JSON.stringify(key);
+    let group = groups.get(id);
+    if (!group) {
+      group = { key, accumulators: spec.measures.map(createAccumulator) };
+      groups.set(id, group);
+    }
+    group.accumulators.forEach((accumulator, i) => {
+      if (!measureFilters[i].every(matches => matches(row))) return;
+      const column = measureColumns[i];
+      accumulator.add(column ? coerceValue(row[column.name], column.type) : null);
+    });
+  };
+
+  const shiftRow = (row: DataRow, column: ColumnSchema, shift: PeriodShift): DataRow | null => {
+    const value = coerceValue(row[column.name], column.type) as string | null;
+    if (value === null) return null;
+    if (column.type === "date") {
+      return { ...row, [column.name]: formatDay(shiftDate(new Date(`${value}T00:00:00Z`), shift)) };
+    }
+    return { ...row, [column.name]: shiftDate(new Date(value), shift).toISOString() };
+  };
+
+  const groups = new Map<string, Group>();
+  const previousGroups = new Map<string, Group>();
+  for await (const batch of batches) {
+    for (const row of batch) {
+      addRow(groups, row);
+      if (comparison) {
+        const shifted = shiftRow(row, comparison.dimension.column, comparison.shift);
+        if (shifted) addRow(previousGroups, shifted);
+      }
+    }
+  }
+
+  // A query without dimensions always has one result row, even over no rows
+  if (dimensions.length === 0 && groups.size === 0) {
+    groups.set("[]", { key: [], accumulators: spec.measures.map(createAccumulator) });
+  }
+
+  const rows = Array.from(groups.entries()).map(([id, group]) => {
+    const row: Record<string, Value> = {};
+    dimensions.forEach((dimension, i) => { row[dimension.name] = group.key[i]; });
+    spec.measures.forEach((measure, i) => { row[measureName(measure)] = group.accumulators[i].result(); });
+
+    if (comparison) {
+      // A period without rows still has a count of zero
+      const previous = previousGroups.get(id)?.accumulators ?? spec.measures.map(createAccumulator);
+      spec.measures.forEach((measure, i) => {
+        const name = measureName(measure);
+        const current = row[name];
+        const before = previous[i].result();
+        const change = typeof current === "number" && typeof before === "number" ? current - before : null;
+        row[`${name}_previous`] = before;
+        row[`${name}_change`] = change;
+        row[`${name}_change_pct`] = change !== null && before !== 0 ? change / Math.abs(before as number) : null;
+      });
+    }
+    return row;
+  });
+
+  const order = spec.sort.length > 0
+    ? spec.sort
+    : dimensions.map(dimension => ({ field: dimension.name, direction: "asc" as const }));
+  rows.sort((a, b) => {
+    for (const { field, direction } of order) {
+      // Nulls stay last in both directions
+      if (a[field] === null || b[field] === null) {
+        const nulls = compareValues(a[field], b[field]);
+        if (nulls !== 0) return nulls;
+        continue;
+      }
+      const result = compareValues(a[field], b[field]);
+      if (result !== 0) return direction === "desc" ? -result : result;
+    }
+    return 0;
+  });
+
+  return {
+    columns,
+    rows: rows.slice(0, spec.limit ?? maxQueryRows),
+    totalRows: rows.length,
+  };
+}
+
+type ColumnLabel = Pick<QueryColumn, "format" | "description">;
+
+// Replaces metric and dimension references by their definitions. The labels map
+// result column names to the format and description they are shown with.
+async function resolveReferences(dataSource: DataSource, spec: QuerySpec) {
+  const labels = new Map<string, ColumnLabel>();
+  const label = (name: string, format: string, description: string | null) =>
+    labels.set(name, { format: format as SemanticFormat, description: description ?? undefined });
+
+  const measures: QueryMeasure[] = [];
+  for (const measure of spec.measures) {
+    if (!("metric" in measure)) {
+      measures.push(measure);
+      continue;
+    }
+    const metric = await storage.getSemanticMetric(measure.metric);
+    if (!metric) {
+      throw new QueryError(`Unknown metric: ${measure.metric}`);
+    }
+    if (metric.dataSourceId !== dataSource.id) {
+      throw new QueryError(`Metric "${metric.name}" is defined on another data source`);
+    }
+    const name = measure.as ?? metric.name;
+    label(name, metric.format, metric.description);
+    // Compared periods are shown like the metric itself
+    label(`${name}_previous`, metric.format, null);
+    label(`${name}_change`, metric.format, null);
+    measures.push({ ...metric.definition, as: name });
+  }
+
+  const dimensions: QueryDimension[] = [];
+  for (const dimension of spec.dimensions) {
+    if (typeof dimension === "string" || !("dimension" in dimension)) {
+      dimensions.push(dimension);
+      continue;
+    }
+    const saved = await storage.getSemanticDimension(dimension.dimension);
+    if (!saved) {
+      throw new QueryError(`Unknown dimension: ${dimension.dimension}`);
+    }
+    if (saved.dataSourceId !== dataSource.id) {
+      throw new QueryError(`Dimension "${saved.name}" is defined on another data source`);
+    }
+    const name = dimension.as ?? saved.name;
+    label(name, saved.format, saved.description);
+    dimensions.push({ column: saved.column, bucket: dimension.bucket ?? saved.bucket ?? undefined, as: name });
+  }
+
+  return { query: { ...spec, measures, dimensions }, labels };
+}
+
+async function executeQuery(dataSource: DataSource, query: ResolvedQuery, labels: Map<string, ColumnLabel>): Promise<QueryResult> {
+  const schema = await getFieldSchema(dataSource);
+  const result = await aggregateRows(iterateFieldRows(dataSource), schema, query);
+  return {
+    ...result,
+    columns: result.columns.map(column => ({ ...column, ...labels.get(column.name) })),
+  };
+}
+
+export async function runQuery(dataSource: DataSource, spec: QuerySpec): Promise<QueryResult> {
+  const { query, labels } = await resolveReferences(dataSource, spec);
+  return executeQuery(dataSource, query, labels);
+}
+
+// Like runQuery, answering from the query cache when the same query already ran
+// against the data source's current version
+export async function runCachedQuery(dataSource: DataSource, spec: QuerySpec): Promise<{ result: QueryResult; cached: boolean }> {
+  const { query, labels } = await resolveReferences(dataSource, spec);
+  const key = queryCacheKey(dataSource, { query, labels: Array.from(labels.entries()) });
+  const cached = queryCache.get(key);
+  if (cached) {
+    return { result: cached, cached: true };
+  }
+
+  const result = await executeQuery(dataSource, query, labels);
+  queryCache.set(key, dataSource, result);
+  return { result, cached: false };
+}
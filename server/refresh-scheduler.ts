@@ -0,0 +1,109 @@
+import type { DataSource, RefreshSchedule } from "@shared/schema";
+import { storage } from "./storage";
+import { refreshDataSource } from "./connectors";
+import { nextCronTime, parseCron } from "./cron";
+
+// Refreshes connector data sources on their schedules. Every refresh, whether
+// scheduled or started by hand, is recorded as a run with its outcome.
+
+const POLL_INTERVAL_MS = 60_000;
+const HEARTBEAT_INTERVAL_MS = 30_000;
+// A run that hasn't reported in this long is taken to have died with its server
+const HEARTBEAT_EXPIRY_MS = 5 * HEARTBEAT_INTERVAL_MS;
+
+// Sources being refreshed by this server, so a slow refresh is not started twice
+const running = new Set<number>();
+
+export function isRefreshRunning(dataSourceId: number): boolean {
+  return running.has(dataSourceId);
+}
+
+export function nextRefreshTime(schedule: RefreshSchedule, from: Date = new Date()): Date {
+  if (schedule.kind === "interval") {
+    return new Date(from.getTime() + schedule.minutes * 60_000);
+  }
+  return nextCronTime(parseCron(schedule.expression), from);
+}
+
+export async function runDataSourceRefresh(
+  dataSource: DataSource,
+  options: { trigger: "scheduled" | "manual"; userId: string },
+) {
+  const run = await storage.createRefreshRun({
+    dataSourceId: dataSource.id,
+    trigger: options.trigger,
+    status: "running",
+  });
+  const started = Date.now();
+  running.add(dataSource.id);
+  // Other servers fail runs whose heartbeat stops
+  const heartbeat = setInterval(() => {
+    storage.updateRefreshRun(run.id, { heartbeatAt: new Date() })
+      .catch(error => console.error(`Error recording heartbeat of refresh run ${run.id}:`, error));
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    const result = await refreshDataSource(dataSource, options.userId);
+    await storage.updateRefreshRun(run.id, {
+      status: "success",
+      versionId: result.version.id,
+      rowCount: result.version.rowCount,
+      durationMs: Date.now() - started,
+      finishedAt: new Date(),
+    });
+    return result;
+  } catch (error) {
+    await storage.updateRefreshRun(run.id, {
+      status: "error",
+      error: (error as Error).message,
+      durationMs: Date.now() - started,
+      finishedAt: new Date(),
+    });
+    throw error;
+  } finally {
+    clearInterval(heartbeat);
+    running.delete(dataSource.id);
+  }
+}
+
+async function runDueRefreshes() {
+  const now = new Date();
+  for (const dataSource of await storage.getDueDataSources(now)) {
+    if (running.has(dataSource.id) || !dataSource.refreshSchedule || !dataSource.nextRefreshAt) continue;
+
+    // The next time is computed before running, so a failing source waits for
+    // its next slot instead of being retried every poll
+    const claimed = await storage.claimDataSourceRefresh(
+      dataSource.id,
+      dataSource.nextRefreshAt,
+      nextRefreshTime(dataSource.refreshSchedule, now),
+    );
+    if (!claimed) continue;
+
+    try {
+      await runDataSourceRefresh(dataSource, { trigger: "scheduled", userId: dataSource.createdById });
+    } catch (error) {
+      console.error(`Scheduled refresh of data source ${dataSource.id} failed:`, error);
+    }
+  }
+}
+
+const failInterruptedRuns = () => storage.failInterruptedRefreshRuns(new Date(Date.now() - HEARTBEAT_EXPIRY_MS));
+
+export async function startRefreshScheduler() {
+  await failInterruptedRuns();
+
+  let polling = false;
+  setInterval(async () => {
+    if (polling) return;
+    polling = true;
+    try {
+      await failInterruptedRuns();
+      await runDueRefreshes();
+    } catch (error) {
+      console.error("Error running scheduled refreshes:", error);
+    } finally {
+      polling = false;
+    }
+  }, POLL_INTERVAL_MS);
+}
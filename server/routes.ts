@@ -1,19 +1,285 @@
-import type { Express } from "express";
+import express, { type Express, type Response } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
 import { storage } from "./storage";
 import { setupAuth, isAuthenticated } from "./auth";
-import { insertProjectSchema, insertDashboardSchema, insertDataSourceSchema, insertOrganizationSchema, insertBlockSchema } from "@shared/schema";
+import { insertProjectSchema, insertDashboardSchema, insertDataSourceSchema, insertOrganizationSchema, insertBlockSchema, blendDefinitionSchema, calculatedFieldsUpdateSchema, columnTypeOverridesSchema, createUploadSchema, databaseConnectionSchema, formulaPreviewSchema, jsonImportOptionsSchema, organizationSettingsSchema, querySpecSchema, refreshScheduleUpdateSchema, semanticDimensionInputSchema, transformsUpdateSchema, semanticMetricInputSchema, sheetSelectionSchema, sqlGenerationSchema, sqlRunSchema, tableViewSchema, uploadVersionSchema, type DataSource, type DataSourceWithLastRefresh, type EpesiConversation, type SqlAttempt } from "@shared/schema";
 import { z } from "zod";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
+import { IngestError, isDelimitedFile, openDelimitedFile, tableStream, type TableStream } from "./ingest";
+import { isExcelFile, listSheets, parseExcelFile } from "./excel";
+import { describeJsonFile, isJsonFile, openJsonFile } from "./json-ingest";
+import { listTables, testConnection } from "./database-connector";
+import { previewApiSource } from "./api-connector";
+import { describeBlend } from "./blends";
+import { isConnectorType, openConnectorSource, parseApiSource, prepareConnectorConfig } from "./connectors";
+import { isRefreshRunning, nextRefreshTime, runDataSourceRefresh } from "./refresh-scheduler";
+import { applyTypeOverrides, inferSchema } from "./schema-inference";
+import { runCachedQuery } from "./query-engine";
+import { queryCache } from "./query-cache";
+import { assertUniqueName, describeSemanticLayer, validateSemanticDimension, validateSemanticMetric } from "./semantic-layer";
+import { describeSandbox, extractSql, runSandboxQuery, sandboxTables } from "./sql-sandbox";
+import { appendUploadChunk, completedUploadPath, createUploadSession, getUploadSession, removeUploadSession, UploadError, UPLOAD_CHUNK_SIZE } from "./uploads";
+import { createDataSourceVersion, dataSourceColumnStats, getCalculatedFields, getDataSourceSchema, getFieldSchema, loadDataSourceRows, loadFieldRows, pageDataSourceRows, rollbackDataSource, SchemaConflictError } from "./datasets";
+import { compileCalculatedFields, compileFormula, FORMULA_FUNCTIONS } from "./formulas";
+import { transformColumns, transformsOf } from "./transforms";
+import { tablePage, writeTableCsv } from "./table-view";
+import { prepareAIProvider, type AgentChart, type AgentEvent, type AgentRequest } from "./ai-provider";
+import { agentToolbox, type AgentStep } from "./agent-tools";
+import { sourceFacts, verifyChartInsights } from "./insight-verifier";
 
+// Small files may be posted directly; larger ones go through /api/uploads in chunks
 const upload = multer({ 
   dest: 'uploads/',
   limits: { fileSize: 10 * 1024 * 1024 }, // 10MB limit
 });
 
+// Number of rows from each data source shown to the model as examples
+const SAMPLE_ROW_COUNT = 5;
+
+// Data sources described to the model for charts and insights. Blends go first
+// since they already relate the other sources to each other.
+const AGENT_SOURCE_COUNT = 4;
+// Charts the Epesi Agent shows with one answer
+const AGENT_CHART_COUNT = 4;
+
+// Times generated SQL is written, run and sent back with its error before giving up
+const SQL_GENERATION_ATTEMPTS = 3;
+
+// Rows whose values the formula editor shows for a formula
+const FORMULA_PREVIEW_ROWS = 10;
+
+// The organization a dashboard belongs to, whose AI provider its blocks use
+async function dashboardOrganizationId(dashboardId: number): Promise<number | undefined> {
+  const dashboard = await storage.getDashboard(dashboardId);
+  const project = dashboard ? await storage.getProject(dashboard.projectId) : undefined;
+  return project?.organizationId;
+}
+
+// Build the field list and sample rows that the AI prompts use to describe the
+// organization's data sources.
+async function describeDataSources(dataSources: DataSource[]) {
+  let dataContext = "";
+  let sampleData = "";
+
+  for (const dataSource of dataSources) {
+    try {
+      const rowCount = await storage.countDataSourceRows(dataSource.id, dataSource.currentVersionId);
+      if (rowCount === 0) continue;
+
+      const sample = (await storage.getDataSourceRows(dataSource.id, dataSource.currentVersionId, 0, SAMPLE_ROW_COUNT))
+        .map(row => row.data);
+      sampleData += `\n--- Data Source: ${dataSource.name} ---\n`;
+      sampleData += JSON.stringify(sample, null, 2);
+
+      const schema = await getFieldSchema(dataSource);
+      const fields = schema.map(column => `${column.name} (${column.type}${column.formula ? ` = ${column.formula}` : ''})`);
+      dataContext += `\nData Source "${dataSource.name}": ${fields.join(', ')} (${rowCount} records)`;
+      if (dataSource.type === "blend") {
+        dataContext += ` [blend: ${await describeBlend(blendDefinitionSchema.parse(dataSource.config))}]`;
+      }
+    } catch (error) {
+      console.error('Error processing data source:', error);
+    }
+  }
+
+  return { dataContext, sampleData };
+}
+
+const AGENT_GREETING = "Hello! I'm Epesi Agent, your AI analytics assistant. I can help you:\n\n• Analyze your data and generate insights\n• Create various types of charts and visualizations\n• Answer questions about your data\n• Generate comprehensive reports\n\nWhat would you like to explore today?";
+
+type AgentChat = { conversation: EpesiConversation } & (
+  | { greeting: string }
+  | { request: AgentRequest; organizationId?: number }
+);
+
+// Saves an Epesi Agent question to its conversation, a new one unless the
+// client continues one, and gathers the data the agent answers it from.
+// Greetings are answered without looking at the data.
+async function prepareAgentChat(body: any, userId: string): Promise<AgentChat | { status: number; message: string }> {
+  const { prompt, dashboardId, conversationId } = body;
+  console.log("Epesi Agent request:", { prompt, dashboardId, userId });
+
+  const numericDashboardId = parseInt(dashboardId);
+  if (isNaN(numericDashboardId)) {
+    return { status: 400, message: "Invalid dashboard ID" };
+  }
+  if (typeof prompt !== "string" || !prompt.trim()) {
+    return { status: 400, message: "Prompt is required" };
+  }
+
+  const dashboard = await storage.getDashboard(numericDashboardId);
+  if (!dashboard) {
+    return { status: 404, message: "Dashboard not found" };
+  }
+
+  // The agent only reads the data sources of the dashboard's organization
+  const project = await storage.getProject(dashboard.projectId);
+  if (!project || !(await isOrganizationMember(project.organizationId, userId))) {
+    return { status: 404, message: "Dashboard not found" };
+  }
+  const dataSources = await storage.getDataSourcesByOrganization(project.organizationId);
+
+  // Create or get existing conversation
+  let conversation;
+  if (conversationId) {
+    conversation = await storage.getEpesiConversation(conversationId);
+    if (!conversation || conversation.dashboardId !== numericDashboardId) {
+      return { status: 404, message: "Conversation not found" };
+    }
+  } else {
+    // Create new conversation with a title based on the prompt
+    const title = prompt.length > 50 ? prompt.substring(0, 50) + "..." : prompt;
+    conversation = await storage.createEpesiConversation({
+      id: `conv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      dashboardId: numericDashboardId,
+      title,
+      createdById: userId
+    });
+  }
+
+  await storage.createEpesiMessage({
+    conversationId: conversation.id,
+    role: 'user',
+    content: prompt
+  });
+
+  // Check if this is a greeting or general conversation
+  if (/^(hi|hello|hey|good morning|good afternoon|good evening|what's up|how are you|what can you do|help)$/i.test(prompt.trim())) {
+    return { conversation, greeting: AGENT_GREETING };
+  }
+
+  // The agent reads the data itself, through its tools
+  const tools = agentToolbox({
+    dashboardId: numericDashboardId,
+    userId,
+    dataSources: [...dataSources].sort((a, b) => Number(b.type === "blend") - Number(a.type === "blend")),
+    chartCount: AGENT_CHART_COUNT,
+  });
+  const context = dataSources.length > 0 ? await describeSemanticLayer(dataSources[0].organizationId, dataSources) : "";
+
+  return {
+    conversation,
+    organizationId: project.organizationId,
+    request: { prompt, context, chartCount: AGENT_CHART_COUNT, tools },
+  };
+}
+
+// Saves the agent's answer with the tool calls made for it, or as much of it
+// as was streamed before the user cancelled it
+async function saveAgentReply(conversation: EpesiConversation, content: string, charts: AgentChart[], steps: AgentStep[], cancelled = false) {
+  const message = await storage.createEpesiMessage({
+    conversationId: conversation.id,
+    role: 'assistant',
+    content,
+    metadata: cancelled ? { charts, steps, cancelled } : { charts, steps }
+  });
+
+  // Update conversation timestamp
+  await storage.updateEpesiConversation(conversation.id, {
+    title: conversation.title // Keep existing title
+  });
+  return message;
+}
+
+// Waits until a response can take more data, or fails once its client is gone
+function drained(res: Response): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const done = () => {
+      res.off("drain", done);
+      res.off("close", done);
+      if (res.destroyed) reject(new Error("The client closed the response"));
+      else resolve();
+    };
+    res.on("drain", done);
+    res.on("close", done);
+  });
+}
+
+// Whether the user belongs to the organization. The id may come straight from a
+// request body, so anything but a whole number is no organization.
+async function isOrganizationMember(organizationId: unknown, userId: string): Promise<boolean> {
+  const id = Number(organizationId);
+  return Number.isInteger(id) && !!(await storage.getOrganizationRole(id, userId));
+}
+
+// The data source a metric or dimension is defined on, if it belongs to the
+// organization and the user is a member of it
+async function semanticDataSource(organizationId: number, dataSourceId: number, userId: string) {
+  const role = await storage.getOrganizationRole(organizationId, userId);
+  const dataSource = await storage.getDataSource(dataSourceId);
+  return role && dataSource?.organizationId === organizationId ? dataSource : undefined;
+}
+
+// A data source's cleaning steps with the columns they start from: those of the
+// last file or refresh before cleaning, for sources stored before steps existed
+// the current columns
+async function describeTransforms(dataSource: DataSource) {
+  const config = dataSource.config as Record<string, any>;
+  const sourceColumns: string[] = config.sourceColumns
+    ?? config.columns
+    ?? (await getDataSourceSchema(dataSource)).map(column => column.name);
+  const transforms = transformsOf(config);
+  return { transforms, sourceColumns, columns: transformColumns(sourceColumns, transforms) };
+}
+
+interface UploadedFile {
+  path: string;
+  originalName: string;
+  config: Record<string, any>; // Details kept in the data source config
+  release(): Promise<void>; // Removes the file once it has been read
+}
+
+// The file of a request: either a multipart `file` field or the `uploadId` of a
+// completed chunked upload
+async function resolveUploadedFile(req: any): Promise<UploadedFile | undefined> {
+  if (req.file) {
+    const file: Express.Multer.File = req.file;
+    return {
+      path: file.path,
+      originalName: file.originalname,
+      config: {
+        filename: file.filename,
+        originalName: file.originalname,
+        size: file.size,
+        mimetype: file.mimetype,
+      },
+      release: () => fs.promises.unlink(file.path).catch(() => {}),
+    };
+  }
+
+  if (req.body?.uploadId) {
+    const session = await getUploadSession(String(req.body.uploadId), req.user.id);
+    return {
+      path: completedUploadPath(session),
+      originalName: session.fileName,
+      config: {
+        filename: session.id,
+        originalName: session.fileName,
+        size: session.size,
+      },
+      release: () => removeUploadSession(session.id),
+    };
+  }
+
+  return undefined;
+}
+
+// Open a JSON upload with the options sent alongside it, falling back to the
+// ones a data source was previously imported with
+async function openJsonUpload(file: UploadedFile, body: any, config: Record<string, any>, previous: Record<string, any> = {}) {
+  const options = jsonImportOptionsSchema.parse({
+    recordsPath: body.recordsPath ?? previous.recordsPath,
+    arrayMode: body.arrayMode ?? previous.arrayMode,
+  });
+  const table = await openJsonFile(file.path, file.originalName, options);
+  config.recordsPath = options.recordsPath;
+  config.arrayMode = options.arrayMode;
+  return table;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
@@ -91,6 +357,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Owners and admins can change organization-wide settings: the maximum number
+  // of rows per data source and the AI provider (null restores the server
+  // default). Settings left out of the request are unchanged.
+  app.patch('/api/organizations/:id/settings', isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { aiProvider, ...limits } = organizationSettingsSchema.parse(req.body);
+
+      const role = await storage.getOrganizationRole(id, req.user.id);
+      if (!role) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      if (role !== 'owner' && role !== 'admin') {
+        return res.status(403).json({ message: "Only owners and admins can change organization settings" });
+      }
+
+      const previous = await storage.getOrganization(id);
+      const organization = await storage.updateOrganization(id, aiProvider === undefined ? limits : {
+        ...limits,
+        aiProvider: aiProvider && prepareAIProvider(aiProvider, previous?.aiProvider),
+      });
+      res.json(organization);
+    } catch (error) {
+      console.error("Error updating organization settings:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid settings", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update organization settings" });
+    }
+  });
+
+  // Owners and admins can drop the cached query results of the organization's
+  // data sources, say after changing data behind a connector outside a refresh
+  app.delete('/api/organizations/:id/query-cache', isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const role = await storage.getOrganizationRole(id, req.user.id);
+      if (!role) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      if (role !== 'owner' && role !== 'admin') {
+        return res.status(403).json({ message: "Only owners and admins can purge the query cache" });
+      }
+
+      res.json({ purged: queryCache.purge(id) });
+    } catch (error) {
+      console.error("Error purging query cache:", error);
+      res.status(500).json({ message: "Failed to purge query cache" });
+    }
+  });
+
   // Project routes
   app.post('/api/projects', isAuthenticated, async (req: any, res) => {
     try {
@@ -143,171 +460,1107 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!project) {
         return res.status(404).json({ message: "Project not found" });
       }
-      res.json(project);
+      res.json(project);
+    } catch (error) {
+      console.error("Error updating project:", error);
+      res.status(500).json({ message: "Failed to update project" });
+    }
+  });
+
+  app.patch('/api/projects/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const updates = req.body;
+      
+      const project = await storage.updateProject(id, updates);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      res.json(project);
+    } catch (error) {
+      console.error("Error updating project:", error);
+      res.status(500).json({ message: "Failed to update project" });
+    }
+  });
+
+  app.delete('/api/projects/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      await storage.deleteProject(id);
+      res.json({ message: "Project deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting project:", error);
+      res.status(500).json({ message: "Failed to delete project" });
+    }
+  });
+
+  // Dashboard routes
+  app.post('/api/dashboards', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const data = insertDashboardSchema.parse({ ...req.body, createdById: userId });
+      
+      const dashboard = await storage.createDashboard(data);
+      res.json(dashboard);
+    } catch (error) {
+      console.error("Error creating dashboard:", error);
+      res.status(500).json({ message: "Failed to create dashboard" });
+    }
+  });
+
+  app.get('/api/dashboards', isAuthenticated, async (req: any, res) => {
+    try {
+      const { projectId } = req.query;
+      if (!projectId) {
+        return res.status(400).json({ message: "Project ID is required" });
+      }
+      
+      const dashboards = await storage.getDashboardsByProject(parseInt(projectId));
+      res.json(dashboards);
+    } catch (error) {
+      console.error("Error fetching dashboards:", error);
+      res.status(500).json({ message: "Failed to fetch dashboards" });
+    }
+  });
+
+  app.get('/api/dashboards/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const dashboard = await storage.getDashboard(id);
+      if (!dashboard) {
+        return res.status(404).json({ message: "Dashboard not found" });
+      }
+      res.json(dashboard);
+    } catch (error) {
+      console.error("Error fetching dashboard:", error);
+      res.status(500).json({ message: "Failed to fetch dashboard" });
+    }
+  });
+
+  app.put('/api/dashboards/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const updates = req.body;
+      
+      const dashboard = await storage.updateDashboard(id, updates);
+      if (!dashboard) {
+        return res.status(404).json({ message: "Dashboard not found" });
+      }
+      res.json(dashboard);
+    } catch (error) {
+      console.error("Error updating dashboard:", error);
+      res.status(500).json({ message: "Failed to update dashboard" });
+    }
+  });
+
+  app.patch('/api/dashboards/:id/access', isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const dashboard = await storage.updateDashboard(id, {
+        lastAccessedAt: new Date()
+      });
+      if (!dashboard) {
+        return res.status(404).json({ message: "Dashboard not found" });
+      }
+      res.json(dashboard);
+    } catch (error) {
+      console.error("Error updating dashboard access:", error);
+      res.status(500).json({ message: "Failed to update dashboard access" });
+    }
+  });
+
+  app.delete('/api/dashboards/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      await storage.deleteDashboard(id);
+      res.json({ message: "Dashboard deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting dashboard:", error);
+      res.status(500).json({ message: "Failed to delete dashboard" });
+    }
+  });
+
+  // Chunked upload routes. Large files are sent in pieces to /api/uploads/:id and
+  // then referenced by `uploadId` when creating a data source or a new version.
+  app.post('/api/uploads', isAuthenticated, async (req: any, res) => {
+    try {
+      const { fileName, size } = createUploadSchema.parse(req.body);
+      const session = await createUploadSession(req.user.id, fileName, size);
+      res.json({ ...session, chunkSize: UPLOAD_CHUNK_SIZE });
+    } catch (error) {
+      console.error("Error starting upload:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid upload", errors: error.errors });
+      }
+      if (error instanceof UploadError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to start upload" });
+    }
+  });
+
+  // Clients resuming an upload ask how many bytes already arrived
+  app.get('/api/uploads/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const session = await getUploadSession(req.params.id, req.user.id);
+      res.json({ ...session, chunkSize: UPLOAD_CHUNK_SIZE });
+    } catch (error) {
+      if (error instanceof UploadError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error fetching upload:", error);
+      res.status(500).json({ message: "Failed to fetch upload" });
+    }
+  });
+
+  app.put(
+    '/api/uploads/:id/chunks',
+    isAuthenticated,
+    express.raw({ type: 'application/octet-stream', limit: UPLOAD_CHUNK_SIZE }),
+    async (req: any, res) => {
+      try {
+        if (!Buffer.isBuffer(req.body)) {
+          return res.status(400).json({ message: "Chunk must be sent as application/octet-stream" });
+        }
+        const offset = parseInt(req.query.offset);
+        if (isNaN(offset)) {
+          return res.status(400).json({ message: "Offset is required" });
+        }
+
+        const session = await appendUploadChunk(req.params.id, req.user.id, offset, req.body);
+        res.json(session);
+      } catch (error) {
+        if (error instanceof UploadError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error receiving upload chunk:", error);
+        res.status(500).json({ message: "Failed to receive chunk" });
+      }
+    },
+  );
+
+  app.delete('/api/uploads/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const session = await getUploadSession(req.params.id, req.user.id);
+      await removeUploadSession(session.id);
+      res.json({ message: "Upload cancelled" });
+    } catch (error) {
+      if (error instanceof UploadError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error cancelling upload:", error);
+      res.status(500).json({ message: "Failed to cancel upload" });
+    }
+  });
+
+  // Data source routes
+  // Lists the sheets of an uploaded workbook so the user can choose which to import.
+  // A chunked upload is kept afterwards since the import request will read it again.
+  app.post('/api/data-sources/sheets', isAuthenticated, upload.single('file'), async (req: any, res) => {
+    try {
+      const file = await resolveUploadedFile(req);
+      if (!file) {
+        return res.status(400).json({ message: "File is required" });
+      }
+
+      try {
+        if (!isExcelFile(file.originalName)) {
+          return res.status(400).json({ message: "Only Excel workbooks have sheets" });
+        }
+        const sheets = await listSheets(file.path);
+        res.json(sheets);
+      } finally {
+        if (req.file) await file.release();
+      }
+    } catch (error) {
+      console.error("Error reading workbook sheets:", error);
+      if (error instanceof IngestError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof UploadError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to read workbook" });
+    }
+  });
+
+  // Lists the arrays of records found in an uploaded JSON document so the user can
+  // pick the one to import. NDJSON files have one record per line and no paths.
+  app.post('/api/data-sources/json-paths', isAuthenticated, upload.single('file'), async (req: any, res) => {
+    try {
+      const file = await resolveUploadedFile(req);
+      if (!file) {
+        return res.status(400).json({ message: "File is required" });
+      }
+
+      try {
+        if (!isJsonFile(file.originalName)) {
+          return res.status(400).json({ message: "Only JSON files have record paths" });
+        }
+        res.json(await describeJsonFile(file.path, file.originalName));
+      } finally {
+        if (req.file) await file.release();
+      }
+    } catch (error) {
+      console.error("Error reading JSON record paths:", error);
+      if (error instanceof IngestError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof UploadError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to read JSON file" });
+    }
+  });
+
+  // Excel uploads create one data source per selected sheet and respond with the
+  // list of created sources; every other upload responds with a single source.
+  app.post('/api/data-sources', isAuthenticated, upload.single('file'), async (req: any, res) => {
+    let file: UploadedFile | undefined;
+    try {
+      const userId = req.user.id;
+      const { name, type, organizationId } = req.body;
+
+      file = await resolveUploadedFile(req);
+      // Connectors and blends read data on the organization's behalf
+      if (!(await isOrganizationMember(organizationId, userId))) {
+        return res.status(403).json({ message: "You are not a member of this organization" });
+      }
+      const config: Record<string, any> = file ? { ...file.config } : {};
+      const tables = new Map<string | null, TableStream>();
+      if (file) {
+        if (isDelimitedFile(file.originalName)) {
+          const table = await openDelimitedFile(file.path, file.originalName);
+          config.delimiter = table.delimiter;
+          tables.set(null, table);
+        } else if (isExcelFile(file.originalName)) {
+          const sheetNames = req.body.sheets ? sheetSelectionSchema.parse(req.body.sheets) : [];
+          const sheets = await parseExcelFile(file.path, sheetNames);
+          for (const [sheetName, table] of Array.from(sheets.entries())) {
+            tables.set(sheetName, tableStream(table));
+          }
+        } else if (isJsonFile(file.originalName)) {
+          tables.set(null, await openJsonUpload(file, req.body, config));
+        }
+      } else if (isConnectorType(type)) {
+        Object.assign(config, prepareConnectorConfig(type, req.body.config));
+        tables.set(null, await openConnectorSource(type, config, parseInt(organizationId)));
+      }
+
+      const created: DataSource[] = [];
+      if (tables.size === 0) {
+        const data = insertDataSourceSchema.parse({
+          name,
+          type,
+          organizationId: parseInt(organizationId),
+          createdById: userId,
+          config,
+        });
+        created.push(await storage.createDataSource(data));
+      }
+
+      for (const [sheetName, table] of Array.from(tables.entries())) {
+        const sourceConfig = sheetName === null ? config : { ...config, sheet: sheetName };
+        const data = insertDataSourceSchema.parse({
+          name: tables.size > 1 ? `${name} - ${sheetName}` : name,
+          type,
+          organizationId: parseInt(organizationId),
+          createdById: userId,
+          config: sourceConfig,
+        });
+
+        const dataSource = await storage.createDataSource(data);
+        try {
+          const { dataSource: versioned } = await createDataSourceVersion(dataSource, {
+            mode: "create",
+            table,
+            config: sourceConfig,
+            uploadedById: userId,
+          });
+          created.push(versioned);
+        } catch (error) {
+          // Don't leave an empty data source behind
+          await storage.deleteDataSource(dataSource.id);
+          throw error;
+        }
+      }
+
+      const workbook = file && isExcelFile(file.originalName);
+      res.json(workbook ? created : created[0]);
+    } catch (error) {
+      console.error("Error creating data source:", error);
+      if (error instanceof IngestError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof UploadError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data source", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create data source" });
+    } finally {
+      // The parsed rows live in the database, so the uploaded file is no longer needed
+      await file?.release();
+    }
+  });
+
+  // Connector setup: check that a database is reachable and list what it holds
+  // before a data source is defined on it. The request names the organization
+  // the source is for along with the connection.
+  app.post('/api/connectors/database/test', isAuthenticated, async (req: any, res) => {
+    try {
+      if (!(await isOrganizationMember(req.body.organizationId, req.user.id))) {
+        return res.status(403).json({ message: "You are not a member of this organization" });
+      }
+      const connection = databaseConnectionSchema.parse(req.body);
+      res.json(await testConnection(connection));
+    } catch (error) {
+      console.error("Error testing database connection:", error);
+      if (error instanceof IngestError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid connection details", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to test connection" });
+    }
+  });
+
+  app.post('/api/connectors/database/tables', isAuthenticated, async (req: any, res) => {
+    try {
+      if (!(await isOrganizationMember(req.body.organizationId, req.user.id))) {
+        return res.status(403).json({ message: "You are not a member of this organization" });
+      }
+      const connection = databaseConnectionSchema.parse(req.body);
+      res.json(await listTables(connection));
+    } catch (error) {
+      console.error("Error listing database tables:", error);
+      if (error instanceof IngestError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid connection details", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to list tables" });
+    }
+  });
+
+  // Fetch the first page of an API source so the settings can be checked before saving
+  app.post('/api/connectors/api/preview', isAuthenticated, async (req: any, res) => {
+    try {
+      if (!(await isOrganizationMember(req.body.organizationId, req.user.id))) {
+        return res.status(403).json({ message: "You are not a member of this organization" });
+      }
+      const source = parseApiSource(req.body);
+      res.json(await previewApiSource(source));
+    } catch (error) {
+      console.error("Error previewing API source:", error);
+      if (error instanceof IngestError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid API settings", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch from API" });
+    }
+  });
+
+  // Pull fresh rows from a connector source into a new version
+  app.post('/api/data-sources/:id/refresh', isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const dataSource = await storage.getDataSource(id);
+      if (!dataSource || !(await isOrganizationMember(dataSource.organizationId, req.user.id))) {
+        return res.status(404).json({ message: "Data source not found" });
+      }
+      if (!isConnectorType(dataSource.type)) {
+        return res.status(400).json({ message: "Only connector data sources can be refreshed" });
+      }
+
+      if (isRefreshRunning(dataSource.id)) {
+        return res.status(409).json({ message: "A refresh of this data source is already running" });
+      }
+
+      res.json(await runDataSourceRefresh(dataSource, { trigger: "manual", userId: req.user.id }));
+    } catch (error) {
+      console.error("Error refreshing data source:", error);
+      if (error instanceof IngestError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to refresh data source" });
+    }
+  });
+
+  // Set or clear the refresh schedule of a connector source. Cron expressions are
+  // checked here so a bad one is reported instead of never firing.
+  app.put('/api/data-sources/:id/schedule', isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { schedule } = refreshScheduleUpdateSchema.parse(req.body);
+      const dataSource = await storage.getDataSource(id);
+      if (!dataSource || !(await isOrganizationMember(dataSource.organizationId, req.user.id))) {
+        return res.status(404).json({ message: "Data source not found" });
+      }
+      if (!isConnectorType(dataSource.type)) {
+        return res.status(400).json({ message: "Only connector data sources can be refreshed" });
+      }
+
+      const updated = await storage.updateDataSource(id, {
+        refreshSchedule: schedule,
+        nextRefreshAt: schedule ? nextRefreshTime(schedule) : null,
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating refresh schedule:", error);
+      if (error instanceof IngestError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid refresh schedule", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update refresh schedule" });
+    }
+  });
+
+  app.get('/api/data-sources/:id/refresh-runs', isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const dataSource = await storage.getDataSource(id);
+      if (!dataSource || !(await isOrganizationMember(dataSource.organizationId, req.user.id))) {
+        return res.status(404).json({ message: "Data source not found" });
+      }
+
+      const limit = Math.min(Math.max(parseInt(req.query.limit) || 20, 1), 100);
+      res.json(await storage.getRefreshRuns(id, limit));
+    } catch (error) {
+      console.error("Error fetching refresh runs:", error);
+      res.status(500).json({ message: "Failed to fetch refresh runs" });
+    }
+  });
+
+  // Upload a new file into an existing data source, replacing or appending to its
+  // rows. Blocks keep pointing at the same data source and pick up the new rows.
+  app.post('/api/data-sources/:id/versions', isAuthenticated, upload.single('file'), async (req: any, res) => {
+    let file: UploadedFile | undefined;
+    try {
+      const id = parseInt(req.params.id);
+      file = await resolveUploadedFile(req);
+      if (!file) {
+        return res.status(400).json({ message: "File is required" });
+      }
+
+      const { mode, sheet } = uploadVersionSchema.parse(req.body);
+      const dataSource = await storage.getDataSource(id);
+      if (!dataSource || !(await isOrganizationMember(dataSource.organizationId, req.user.id))) {
+        return res.status(404).json({ message: "Data source not found" });
+      }
+
+      let table: TableStream | undefined;
+      const config = { ...file.config };
+      if (isDelimitedFile(file.originalName)) {
+        table = await openDelimitedFile(file.path, file.originalName);
+        config.delimiter = table.delimiter;
+      } else if (isExcelFile(file.originalName)) {
+        // Default to the sheet this source was imported from
+        const sheetName = sheet ?? (dataSource.config as Record<string, any>).sheet;
+        const sheets = await parseExcelFile(file.path, sheetName ? [sheetName] : undefined);
+        const [first] = Array.from(sheets.entries());
+        if (first) {
+          config.sheet = first[0];
+          table = tableStream(first[1]);
+        }
+      } else if (isJsonFile(file.originalName)) {
+        table = await openJsonUpload(file, req.body, config, dataSource.config as Record<string, any>);
+      }
+      if (!table) {
+        return res.status(400).json({ message: "Unsupported file type" });
+      }
+
+      const result = await createDataSourceVersion(dataSource, {
+        mode,
+        table,
+        config,
+        uploadedById: req.user.id,
+      });
+      res.json(result);
+    } catch (error) {
+      console.error("Error uploading data source version:", error);
+      if (error instanceof SchemaConflictError) {
+        return res.status(409).json({ message: error.message, conflicts: error.conflicts });
+      }
+      if (error instanceof IngestError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof UploadError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid upload options", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to upload new version" });
+    } finally {
+      await file?.release();
+    }
+  });
+
+  app.get('/api/data-sources/:id/versions', isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const dataSource = await storage.getDataSource(id);
+      if (!dataSource || !(await isOrganizationMember(dataSource.organizationId, req.user.id))) {
+        return res.status(404).json({ message: "Data source not found" });
+      }
+
+      const versions = await storage.getDataSourceVersions(id);
+      res.json(versions);
+    } catch (error) {
+      console.error("Error fetching data source versions:", error);
+      res.status(500).json({ message: "Failed to fetch data source versions" });
+    }
+  });
+
+  app.post('/api/data-sources/:id/versions/:versionId/rollback', isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const dataSource = await storage.getDataSource(id);
+      if (!dataSource || !(await isOrganizationMember(dataSource.organizationId, req.user.id))) {
+        return res.status(404).json({ message: "Data source not found" });
+      }
+
+      const version = await storage.getDataSourceVersion(parseInt(req.params.versionId));
+      if (!version || version.dataSourceId !== id) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+
+      const updated = await rollbackDataSource(dataSource, version);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error rolling back data source:", error);
+      res.status(500).json({ message: "Failed to roll back data source" });
+    }
+  });
+
+  app.get('/api/data-sources', isAuthenticated, async (req: any, res) => {
+    try {
+      const { organizationId } = req.query;
+      if (!organizationId) {
+        return res.status(400).json({ message: "Organization ID is required" });
+      }
+      
+      const dataSources = await storage.getDataSourcesByOrganization(parseInt(organizationId));
+      const lastRuns = await storage.getLatestRefreshRuns(dataSources.map(dataSource => dataSource.id));
+      const result: DataSourceWithLastRefresh[] = dataSources.map(dataSource => ({
+        ...dataSource,
+        lastRefreshRun: lastRuns.find(run => run.dataSourceId === dataSource.id) ?? null,
+      }));
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching data sources:", error);
+      res.status(500).json({ message: "Failed to fetch data sources" });
+    }
+  });
+
+  app.get('/api/data-sources/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const dataSource = await storage.getDataSource(id);
+      if (!dataSource || !(await isOrganizationMember(dataSource.organizationId, req.user.id))) {
+        return res.status(404).json({ message: "Data source not found" });
+      }
+      res.json(dataSource);
+    } catch (error) {
+      console.error("Error fetching data source:", error);
+      res.status(500).json({ message: "Failed to fetch data source" });
+    }
+  });
+
+  // Paginated rows for the data grid. `sort` is "column:asc" or "column:desc" and
+  // `filter` matches rows where any cell contains the text.
+  app.get('/api/data-sources/:id/rows', isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const dataSource = await storage.getDataSource(id);
+      if (!dataSource || !(await isOrganizationMember(dataSource.organizationId, req.user.id))) {
+        return res.status(404).json({ message: "Data source not found" });
+      }
+
+      const offset = Math.max(parseInt(req.query.offset) || 0, 0);
+      const limit = Math.min(Math.max(parseInt(req.query.limit) || 50, 1), 500);
+      let sort: { column: string; direction: "asc" | "desc" } | undefined;
+      if (req.query.sort) {
+        const separator = String(req.query.sort).lastIndexOf(':');
+        const column = separator === -1 ? String(req.query.sort) : String(req.query.sort).slice(0, separator);
+        const direction = separator !== -1 && String(req.query.sort).slice(separator + 1) === 'desc' ? 'desc' : 'asc';
+        sort = { column, direction };
+      }
+
+      const schema = await getFieldSchema(dataSource);
+      const page = await pageDataSourceRows(dataSource, {
+        offset,
+        limit,
+        sort,
+        filter: req.query.filter ? String(req.query.filter) : undefined,
+      });
+
+      res.json({ ...page, offset, limit, columns: schema });
+    } catch (error) {
+      console.error("Error fetching data source rows:", error);
+      res.status(500).json({ message: "Failed to fetch data source rows" });
+    }
+  });
+
+  app.get('/api/data-sources/:id/columns/:column/stats', isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const dataSource = await storage.getDataSource(id);
+      if (!dataSource || !(await isOrganizationMember(dataSource.organizationId, req.user.id))) {
+        return res.status(404).json({ message: "Data source not found" });
+      }
+
+      const schema = await getFieldSchema(dataSource);
+      const column = schema.find(c => c.name === req.params.column);
+      if (!column) {
+        return res.status(404).json({ message: "Column not found" });
+      }
+
+      res.json(await dataSourceColumnStats(dataSource, column));
+    } catch (error) {
+      console.error("Error computing column stats:", error);
+      res.status(500).json({ message: "Failed to compute column stats" });
+    }
+  });
+
+  app.get('/api/data-sources/:id/schema', isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const dataSource = await storage.getDataSource(id);
+      if (!dataSource || !(await isOrganizationMember(dataSource.organizationId, req.user.id))) {
+        return res.status(404).json({ message: "Data source not found" });
+      }
+
+      const schema = await getFieldSchema(dataSource);
+      res.json(schema);
+    } catch (error) {
+      console.error("Error fetching data source schema:", error);
+      res.status(500).json({ message: "Failed to fetch data source schema" });
+    }
+  });
+
+  // Override detected column types, e.g. a numeric ID column that should be a category
+  app.patch('/api/data-sources/:id/schema', isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { overrides } = columnTypeOverridesSchema.parse(req.body);
+      const dataSource = await storage.getDataSource(id);
+      if (!dataSource || !(await isOrganizationMember(dataSource.organizationId, req.user.id))) {
+        return res.status(404).json({ message: "Data source not found" });
+      }
+
+      const calculated = Object.keys(overrides).filter(name => dataSource.calculatedFields?.some(field => field.name === name));
+      if (calculated.length > 0) {
+        return res.status(400).json({ message: `The types of calculated fields come from their formulas: ${calculated.join(', ')}` });
+      }
+
+      const current = await getDataSourceSchema(dataSource);
+      const unknownColumns = Object.keys(overrides).filter(name => !current.some(column => column.name === name));
+      if (unknownColumns.length > 0) {
+        return res.status(400).json({ message: `Unknown columns: ${unknownColumns.join(', ')}` });
+      }
+
+      const rows = await loadDataSourceRows(dataSource);
+      const schema = applyTypeOverrides(current, rows, overrides);
+      await storage.updateDataSource(id, { schema });
+      queryCache.invalidate(id);
+      res.json(schema);
+    } catch (error) {
+      console.error("Error updating data source schema:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid column types", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update data source schema" });
+    }
+  });
+
+  // Calculated fields, each with its result type or the reason it no longer compiles
+  app.get('/api/data-sources/:id/calculated-fields', isAuthenticated, async (req: any, res) => {
+    try {
+      const dataSource = await storage.getDataSource(parseInt(req.params.id));
+      if (!dataSource || !(await isOrganizationMember(dataSource.organizationId, req.user.id))) {
+        return res.status(404).json({ message: "Data source not found" });
+      }
+
+      res.json(await getCalculatedFields(dataSource));
+    } catch (error) {
+      console.error("Error fetching calculated fields:", error);
+      res.status(500).json({ message: "Failed to fetch calculated fields" });
+    }
+  });
+
+  app.put('/api/data-sources/:id/calculated-fields', isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { fields } = calculatedFieldsUpdateSchema.parse(req.body);
+      const dataSource = await storage.getDataSource(id);
+      if (!dataSource || !(await isOrganizationMember(dataSource.organizationId, req.user.id))) {
+        return res.status(404).json({ message: "Data source not found" });
+      }
+
+      // Saved fields must compile against the current columns
+      compileCalculatedFields(await getDataSourceSchema(dataSource), fields);
+      const updated = await storage.updateDataSource(id, { calculatedFields: fields });
+      queryCache.invalidate(id);
+      res.json(await getCalculatedFields(updated ?? dataSource));
+    } catch (error) {
+      console.error("Error updating calculated fields:", error);
+      if (error instanceof IngestError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid calculated fields", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update calculated fields" });
+    }
+  });
+
+  app.get('/api/data-sources/:id/transforms', isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const dataSource = await storage.getDataSource(id);
+      if (!dataSource || !(await isOrganizationMember(dataSource.organizationId, req.user.id))) {
+        return res.status(404).json({ message: "Data source not found" });
+      }
+      res.json(await describeTransforms(dataSource));
+    } catch (error) {
+      console.error("Error fetching cleaning steps:", error);
+      if (error instanceof IngestError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to fetch cleaning steps" });
+    }
+  });
+
+  // Replace the cleaning steps applied to every new version. They are checked
+  // against the columns of the last upload; connector sources can be refreshed
+  // straight away to clean their current rows.
+  app.put('/api/data-sources/:id/transforms', isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { transforms, apply } = transformsUpdateSchema.parse(req.body);
+      const dataSource = await storage.getDataSource(id);
+      if (!dataSource || !(await isOrganizationMember(dataSource.organizationId, req.user.id))) {
+        return res.status(404).json({ message: "Data source not found" });
+      }
+      if (apply && !isConnectorType(dataSource.type)) {
+        return res.status(400).json({ message: "Only connector data sources can be refreshed" });
+      }
+      if (apply && isRefreshRunning(dataSource.id)) {
+        return res.status(409).json({ message: "A refresh of this data source is already running" });
+      }
+
+      const { sourceColumns } = await describeTransforms(dataSource);
+      transformColumns(sourceColumns, transforms);
+      const { transforms: _, ...config } = dataSource.config as Record<string, any>;
+      let updated = await storage.updateDataSource(id, {
+        config: transforms.length > 0 ? { ...config, transforms } : config,
+      }) ?? dataSource;
+
+      if (apply) {
+        updated = (await runDataSourceRefresh(updated, { trigger: "manual", userId: req.user.id })).dataSource;
+      }
+      res.json(await describeTransforms(updated));
+    } catch (error) {
+      console.error("Error updating cleaning steps:", error);
+      if (error instanceof IngestError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid cleaning steps", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update cleaning steps" });
+    }
+  });
+
+  // Type check a formula from the editor and show its values for the first rows
+  app.post('/api/data-sources/:id/formulas/preview', isAuthenticated, async (req: any, res) => {
+    try {
+      const { formula, fields } = formulaPreviewSchema.parse(req.body);
+      const dataSource = await storage.getDataSource(parseInt(req.params.id));
+      if (!dataSource || !(await isOrganizationMember(dataSource.organizationId, req.user.id))) {
+        return res.status(404).json({ message: "Data source not found" });
+      }
+
+      const schema = await getDataSourceSchema(dataSource);
+      const calculated = compileCalculatedFields(schema, fields);
+      const compiled = compileFormula(formula, [...schema, ...calculated.columns]);
+      const rows = (await storage.getDataSourceRows(dataSource.id, dataSource.currentVersionId, 0, FORMULA_PREVIEW_ROWS))
+        .map(row => calculated.calculate(row.data as Record<string, unknown>));
+      res.json({ type: compiled.type, values: rows.map(row => compiled.evaluate(row)) });
+    } catch (error) {
+      console.error("Error previewing formula:", error);
+      if (error instanceof IngestError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid formula", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to preview formula" });
+    }
+  });
+
+  app.get('/api/formulas/functions', isAuthenticated, async (req: any, res) => {
+    res.json(Object.entries(FORMULA_FUNCTIONS).map(([name, definition]) => ({ name, description: definition.description })));
+  });
+
+  // Aggregate a data source's rows into a table of dimensions and measures. Charts,
+  // insights and the agent ask for a query spec so their numbers are computed here.
+  // X-Cache tells whether the result came from the query cache.
+  app.post('/api/query', isAuthenticated, async (req: any, res) => {
+    try {
+      const spec = querySpecSchema.parse(req.body);
+      const dataSource = await storage.getDataSource(spec.dataSourceId);
+      if (!dataSource || !(await isOrganizationMember(dataSource.organizationId, req.user.id))) {
+        return res.status(404).json({ message: "Data source not found" });
+      }
+
+      const { result, cached } = await runCachedQuery(dataSource, spec);
+      res.setHeader("X-Cache", cached ? "HIT" : "MISS");
+      res.json(result);
     } catch (error) {
-      console.error("Error updating project:", error);
-      res.status(500).json({ message: "Failed to update project" });
+      console.error("Error running query:", error);
+      if (error instanceof IngestError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to run query" });
     }
   });
 
-  app.patch('/api/projects/:id', isAuthenticated, async (req: any, res) => {
+  // Pages of a table block: a data source's rows or a query's result, filtered
+  // and sorted as a whole
+  app.post('/api/table', isAuthenticated, async (req: any, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const updates = req.body;
-      
-      const project = await storage.updateProject(id, updates);
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
+      const view = tableViewSchema.parse(req.body);
+      const dataSource = await storage.getDataSource(view.dataSourceId);
+      if (!dataSource || !(await isOrganizationMember(dataSource.organizationId, req.user.id))) {
+        return res.status(404).json({ message: "Data source not found" });
       }
-      res.json(project);
+
+      res.json(await tablePage(dataSource, view));
     } catch (error) {
-      console.error("Error updating project:", error);
-      res.status(500).json({ message: "Failed to update project" });
+      console.error("Error fetching table rows:", error);
+      if (error instanceof IngestError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid table view", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch table rows" });
     }
   });
 
-  app.delete('/api/projects/:id', isAuthenticated, async (req: any, res) => {
+  // The table's current view as CSV, all pages; offset and limit are ignored.
+  // The file streams out as its rows are read, waiting for the client to keep up.
+  app.post('/api/table/export', isAuthenticated, async (req: any, res) => {
     try {
-      const id = parseInt(req.params.id);
-      await storage.deleteProject(id);
-      res.json({ message: "Project deleted successfully" });
+      const view = tableViewSchema.parse(req.body);
+      const dataSource = await storage.getDataSource(view.dataSourceId);
+      if (!dataSource || !(await isOrganizationMember(dataSource.organizationId, req.user.id))) {
+        return res.status(404).json({ message: "Data source not found" });
+      }
+
+      const filename = dataSource.name.replace(/[^\w.-]+/g, "_") || "table";
+      await writeTableCsv(dataSource, view, async text => {
+        if (!res.headersSent) {
+          res.setHeader("Content-Type", "text/csv; charset=utf-8");
+          res.setHeader("Content-Disposition", `attachment; filename="${filename}.csv"`);
+        }
+        if (res.destroyed) throw new Error("The client closed the export");
+        if (!res.write(text)) await drained(res);
+      });
+      res.end();
     } catch (error) {
-      console.error("Error deleting project:", error);
-      res.status(500).json({ message: "Failed to delete project" });
+      console.error("Error exporting table:", error);
+      // A cut-off download shouldn't look like a complete file
+      if (res.headersSent) return res.destroy();
+      if (error instanceof IngestError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid table view", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to export table" });
     }
   });
 
-  // Dashboard routes
-  app.post('/api/dashboards', isAuthenticated, async (req: any, res) => {
+  // Semantic layer routes: metrics and dimensions defined once per organization
+  // and referenced by id from query specs
+  app.get('/api/semantic-metrics', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const data = insertDashboardSchema.parse({ ...req.body, createdById: userId });
-      
-      const dashboard = await storage.createDashboard(data);
-      res.json(dashboard);
+      const { organizationId } = req.query;
+      if (!organizationId) {
+        return res.status(400).json({ message: "Organization ID is required" });
+      }
+      if (!(await isOrganizationMember(organizationId, req.user.id))) {
+        return res.status(403).json({ message: "You are not a member of this organization" });
+      }
+      res.json(await storage.getSemanticMetrics(parseInt(organizationId)));
     } catch (error) {
-      console.error("Error creating dashboard:", error);
-      res.status(500).json({ message: "Failed to create dashboard" });
+      console.error("Error fetching metrics:", error);
+      res.status(500).json({ message: "Failed to fetch metrics" });
     }
   });
 
-  app.get('/api/dashboards', isAuthenticated, async (req: any, res) => {
+  app.post('/api/semantic-metrics', isAuthenticated, async (req: any, res) => {
     try {
-      const { projectId } = req.query;
-      if (!projectId) {
-        return res.status(400).json({ message: "Project ID is required" });
+      const input = semanticMetricInputSchema.parse(req.body);
+      const dataSource = await semanticDataSource(input.organizationId, input.dataSourceId, req.user.id);
+      if (!dataSource) {
+        return res.status(404).json({ message: "Data source not found" });
       }
-      
-      const dashboards = await storage.getDashboardsByProject(parseInt(projectId));
-      res.json(dashboards);
+
+      await assertUniqueName("metric", input.organizationId, input.name);
+      await validateSemanticMetric(dataSource, input);
+      res.json(await storage.createSemanticMetric({ ...input, createdById: req.user.id }));
     } catch (error) {
-      console.error("Error fetching dashboards:", error);
-      res.status(500).json({ message: "Failed to fetch dashboards" });
+      console.error("Error creating metric:", error);
+      if (error instanceof IngestError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid metric", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create metric" });
     }
   });
 
-  app.get('/api/dashboards/:id', isAuthenticated, async (req: any, res) => {
+  app.put('/api/semantic-metrics/:id', isAuthenticated, async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
-      const dashboard = await storage.getDashboard(id);
-      if (!dashboard) {
-        return res.status(404).json({ message: "Dashboard not found" });
+      const metric = await storage.getSemanticMetric(id);
+      if (!metric) {
+        return res.status(404).json({ message: "Metric not found" });
       }
-      res.json(dashboard);
+
+      // A metric stays in its organization
+      const input = semanticMetricInputSchema.parse({ ...req.body, organizationId: metric.organizationId });
+      const dataSource = await semanticDataSource(input.organizationId, input.dataSourceId, req.user.id);
+      if (!dataSource) {
+        return res.status(404).json({ message: "Data source not found" });
+      }
+
+      await assertUniqueName("metric", input.organizationId, input.name, id);
+      await validateSemanticMetric(dataSource, input);
+      res.json(await storage.updateSemanticMetric(id, input));
     } catch (error) {
-      console.error("Error fetching dashboard:", error);
-      res.status(500).json({ message: "Failed to fetch dashboard" });
+      console.error("Error updating metric:", error);
+      if (error instanceof IngestError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid metric", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update metric" });
     }
   });
 
-  app.put('/api/dashboards/:id', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/semantic-metrics/:id', isAuthenticated, async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
-      const updates = req.body;
-      
-      const dashboard = await storage.updateDashboard(id, updates);
-      if (!dashboard) {
-        return res.status(404).json({ message: "Dashboard not found" });
+      const metric = await storage.getSemanticMetric(id);
+      if (!metric || !(await storage.getOrganizationRole(metric.organizationId, req.user.id))) {
+        return res.status(404).json({ message: "Metric not found" });
       }
-      res.json(dashboard);
+      await storage.deleteSemanticMetric(id);
+      res.json({ message: "Metric deleted successfully" });
     } catch (error) {
-      console.error("Error updating dashboard:", error);
-      res.status(500).json({ message: "Failed to update dashboard" });
+      console.error("Error deleting metric:", error);
+      res.status(500).json({ message: "Failed to delete metric" });
     }
   });
 
-  app.patch('/api/dashboards/:id/access', isAuthenticated, async (req: any, res) => {
+  app.get('/api/semantic-dimensions', isAuthenticated, async (req: any, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const dashboard = await storage.updateDashboard(id, {
-        lastAccessedAt: new Date()
-      });
-      if (!dashboard) {
-        return res.status(404).json({ message: "Dashboard not found" });
+      const { organizationId } = req.query;
+      if (!organizationId) {
+        return res.status(400).json({ message: "Organization ID is required" });
       }
-      res.json(dashboard);
+      if (!(await isOrganizationMember(organizationId, req.user.id))) {
+        return res.status(403).json({ message: "You are not a member of this organization" });
+      }
+      res.json(await storage.getSemanticDimensions(parseInt(organizationId)));
     } catch (error) {
-      console.error("Error updating dashboard access:", error);
-      res.status(500).json({ message: "Failed to update dashboard access" });
+      console.error("Error fetching dimensions:", error);
+      res.status(500).json({ message: "Failed to fetch dimensions" });
     }
   });
 
-  app.delete('/api/dashboards/:id', isAuthenticated, async (req: any, res) => {
+  app.post('/api/semantic-dimensions', isAuthenticated, async (req: any, res) => {
     try {
-      const id = parseInt(req.params.id);
-      await storage.deleteDashboard(id);
-      res.json({ message: "Dashboard deleted successfully" });
+      const input = semanticDimensionInputSchema.parse(req.body);
+      const dataSource = await semanticDataSource(input.organizationId, input.dataSourceId, req.user.id);
+      if (!dataSource) {
+        return res.status(404).json({ message: "Data source not found" });
+      }
+
+      await assertUniqueName("dimension", input.organizationId, input.name);
+      await validateSemanticDimension(dataSource, input);
+      res.json(await storage.createSemanticDimension({ ...input, createdById: req.user.id }));
     } catch (error) {
-      console.error("Error deleting dashboard:", error);
-      res.status(500).json({ message: "Failed to delete dashboard" });
+      console.error("Error creating dimension:", error);
+      if (error instanceof IngestError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid dimension", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create dimension" });
     }
   });
 
-  // Data source routes
-  app.post('/api/data-sources', isAuthenticated, upload.single('file'), async (req: any, res) => {
+  app.put('/api/semantic-dimensions/:id', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const { name, type, organizationId } = req.body;
-      
-      let config = {};
-      if (req.file) {
-        config = {
-          filename: req.file.filename,
-          originalName: req.file.originalname,
-          size: req.file.size,
-          mimetype: req.file.mimetype,
-          path: req.file.path,
-        };
+      const id = parseInt(req.params.id);
+      const dimension = await storage.getSemanticDimension(id);
+      if (!dimension) {
+        return res.status(404).json({ message: "Dimension not found" });
       }
-      
-      const data = insertDataSourceSchema.parse({
-        name,
-        type,
-        organizationId: parseInt(organizationId),
-        createdById: userId,
-        config,
-      });
-      
-      const dataSource = await storage.createDataSource(data);
-      res.json(dataSource);
+
+      const input = semanticDimensionInputSchema.parse({ ...req.body, organizationId: dimension.organizationId });
+      const dataSource = await semanticDataSource(input.organizationId, input.dataSourceId, req.user.id);
+      if (!dataSource) {
+        return res.status(404).json({ message: "Data source not found" });
+      }
+
+      await assertUniqueName("dimension", input.organizationId, input.name, id);
+      await validateSemanticDimension(dataSource, input);
+      res.json(await storage.updateSemanticDimension(id, input));
     } catch (error) {
-      console.error("Error creating data source:", error);
-      res.status(500).json({ message: "Failed to create data source" });
+      console.error("Error updating dimension:", error);
+      if (error instanceof IngestError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid dimension", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update dimension" });
     }
   });
 
-  app.get('/api/data-sources', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/semantic-dimensions/:id', isAuthenticated, async (req: any, res) => {
     try {
-      const { organizationId } = req.query;
-      if (!organizationId) {
-        return res.status(400).json({ message: "Organization ID is required" });
+      const id = parseInt(req.params.id);
+      const dimension = await storage.getSemanticDimension(id);
+      if (!dimension || !(await storage.getOrganizationRole(dimension.organizationId, req.user.id))) {
+        return res.status(404).json({ message: "Dimension not found" });
       }
-      
-      const dataSources = await storage.getDataSourcesByOrganization(parseInt(organizationId));
-      res.json(dataSources);
+      await storage.deleteSemanticDimension(id);
+      res.json({ message: "Dimension deleted successfully" });
     } catch (error) {
-      console.error("Error fetching data sources:", error);
-      res.status(500).json({ message: "Failed to fetch data sources" });
+      console.error("Error deleting dimension:", error);
+      res.status(500).json({ message: "Failed to delete dimension" });
     }
   });
 
@@ -532,148 +1785,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Epesi Agent Chat Routes
   app.post('/api/epesi-agent/chat', isAuthenticated, async (req: any, res) => {
     try {
-      const { prompt, dashboardId, conversationId } = req.body;
-      const userId = req.user.id;
-      
-      console.log("Epesi Agent request:", { prompt, dashboardId, userId });
-      
-      // Ensure dashboardId is properly parsed
-      const numericDashboardId = parseInt(dashboardId);
-      if (isNaN(numericDashboardId)) {
-        console.error("Invalid dashboard ID:", dashboardId);
-        return res.status(400).json({ message: "Invalid dashboard ID" });
-      }
-      
-      // Get dashboard and data sources
-      console.log("Attempting to get dashboard with ID:", numericDashboardId);
-      const dashboard = await storage.getDashboard(numericDashboardId);
-      console.log("Dashboard query result:", dashboard);
-      
-      if (!dashboard) {
-        console.error("Dashboard not found for ID:", numericDashboardId);
-        console.log("Storage instance:", typeof storage);
-        console.log("getDashboard method:", typeof storage.getDashboard);
-        return res.status(404).json({ message: "Dashboard not found" });
-      }
-      
-      // Get data sources for the dashboard's organization
-      let dataSources = await storage.getDataSourcesByOrganization(dashboard.organizationId || 1);
-      console.log("Data sources found:", dataSources?.length || 0);
-      
-      // Fallback to default organization if no data sources found
-      if (!dataSources || dataSources.length === 0) {
-        dataSources = await storage.getDataSourcesByOrganization(1);
-        console.log("Fallback data sources found:", dataSources?.length || 0);
-      }
-      
-      // Create or get existing conversation
-      let conversation;
-      if (conversationId) {
-        conversation = await storage.getEpesiConversation(conversationId);
-        if (!conversation) {
-          return res.status(404).json({ message: "Conversation not found" });
-        }
-      } else {
-        // Create new conversation with a title based on the prompt
-        const title = prompt.length > 50 ? prompt.substring(0, 50) + "..." : prompt;
-        const newConversationId = `conv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-        
-        conversation = await storage.createEpesiConversation({
-          id: newConversationId,
-          dashboardId: numericDashboardId,
-          title,
-          createdById: userId
-        });
-      }
-      
-      // Save user message
-      await storage.createEpesiMessage({
-        conversationId: conversation.id,
-        role: 'user',
-        content: prompt
-      });
-      
-      // Check if this is a greeting or general conversation
-      const isGreeting = /^(hi|hello|hey|good morning|good afternoon|good evening|what's up|how are you|what can you do|help)$/i.test(prompt.trim());
-      
-      if (isGreeting) {
-        const response = "Hello! I'm Epesi Agent, your AI analytics assistant. I can help you:\n\n• Analyze your data and generate insights\n• Create various types of charts and visualizations\n• Answer questions about your data\n• Generate comprehensive reports\n\nWhat would you like to explore today?";
-        
-        // Save assistant message
-        await storage.createEpesiMessage({
-          conversationId: conversation.id,
-          role: 'assistant',
-          content: response
-        });
-        
-        return res.json({
-          response,
-          charts: [],
-          conversationId: conversation.id
-        });
-      }
-      
-      // For data analysis questions, generate multiple charts
-      let dataContext = "";
-      let sampleData = "";
-      
-      // Process data sources for context
-      for (const dataSource of dataSources.slice(0, 2)) {
-        try {
-          if (dataSource.content && typeof dataSource.content === 'object') {
-            const contentArray = Array.isArray(dataSource.content) ? dataSource.content : [dataSource.content];
-            if (contentArray.length > 0) {
-              const sample = contentArray.slice(0, 5);
-              sampleData += `\n--- Data Source: ${dataSource.name} ---\n`;
-              sampleData += JSON.stringify(sample, null, 2);
-              
-              const fields = Object.keys(contentArray[0] || {});
-              dataContext += `\nData Source "${dataSource.name}": ${fields.join(', ')} (${contentArray.length} records)`;
-            }
-          }
-        } catch (error) {
-          console.error('Error processing data source:', error);
-        }
-      }
-      
-      // If no data context, use sample data
-      if (!dataContext.trim()) {
-        dataContext = "\nData Source \"Sample Sales Data\": product_name, sales_value, quarter, region, sales_rep (100 records)";
-        sampleData = `\n--- Data Source: Sample Sales Data ---\n${JSON.stringify([
-          { product_name: "Product A", sales_value: 15000, quarter: "Q1", region: "North", sales_rep: "John Smith" },
-          { product_name: "Product B", sales_value: 22000, quarter: "Q1", region: "South", sales_rep: "Emily Johnson" },
-          { product_name: "Product C", sales_value: 18000, quarter: "Q2", region: "East", sales_rep: "Michael Williams" },
-          { product_name: "Product A", sales_value: 25000, quarter: "Q2", region: "West", sales_rep: "Jessica Brown" },
-          { product_name: "Product B", sales_value: 31000, quarter: "Q3", region: "North", sales_rep: "David Jones" }
-        ], null, 2)}`;
+      const chat = await prepareAgentChat(req.body, req.user.id);
+      if ("status" in chat) {
+        return res.status(chat.status).json({ message: chat.message });
       }
       
       // Generate charts using OpenAI
       const { generateEpesiAgentResponse } = await import('./openai');
+      const response = "greeting" in chat
+        ? { response: chat.greeting, charts: [], steps: [] }
+        : await generateEpesiAgentResponse(chat.request, chat.organizationId);
       
-      const response = await generateEpesiAgentResponse({
-        prompt,
-        dataContext,
-        sampleData,
-        chartCount: 4
-      });
-      
-      // Save assistant message
-      await storage.createEpesiMessage({
-        conversationId: conversation.id,
-        role: 'assistant',
-        content: response.response,
-        metadata: { charts: response.charts }
-      });
-      
-      // Update conversation timestamp
-      await storage.updateEpesiConversation(conversation.id, {
-        title: conversation.title // Keep existing title
-      });
+      await saveAgentReply(chat.conversation, response.response, response.charts, response.steps);
       
       res.json({
         ...response,
-        conversationId: conversation.id
+        conversationId: chat.conversation.id
       });
     } catch (error) {
       console.error("Error processing Epesi Agent chat:", error);
@@ -689,6 +1816,71 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The same chat streamed as server-sent events: "conversation" with its id,
+  // "text" pieces of the answer as they arrive, each tool call as a "step",
+  // each "chart" once it's ready, then "done". Closing the request cancels the answer upstream; what arrived
+  // until then is saved, marked as cancelled.
+  app.post('/api/epesi-agent/chat/stream', isAuthenticated, async (req: any, res) => {
+    const abort = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) abort.abort();
+    });
+    const send = (event: string, data: unknown) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+    try {
+      const chat = await prepareAgentChat(req.body, req.user.id);
+      if ("status" in chat) {
+        return res.status(chat.status).json({ message: chat.message });
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no', // Keeps proxies such as nginx from holding events back
+      });
+      send('conversation', { conversationId: chat.conversation.id });
+
+      const { streamEpesiAgentResponse } = await import('./openai');
+      const events: AsyncIterable<AgentEvent> = "greeting" in chat
+        ? (async function* () { yield { type: "text" as const, text: chat.greeting }; })()
+        : streamEpesiAgentResponse(chat.request, abort.signal, chat.organizationId);
+
+      let content = "";
+      const charts: AgentChart[] = [];
+      const steps: AgentStep[] = [];
+      for await (const event of events) {
+        if (abort.signal.aborted) break;
+        if (event.type === "text") {
+          content += event.text;
+          send('text', { text: event.text });
+        } else if (event.type === "chart") {
+          charts.push(event.chart);
+          send('chart', event.chart);
+        } else {
+          steps.push(event.step);
+          send('step', event.step);
+        }
+      }
+
+      const cancelled = abort.signal.aborted;
+      const message = await saveAgentReply(chat.conversation, content, charts, steps, cancelled);
+      if (!cancelled) {
+        send('done', { conversationId: chat.conversation.id, messageId: message.id });
+        res.end();
+      }
+    } catch (error) {
+      console.error("Error streaming Epesi Agent chat:", error);
+      if (!res.headersSent) {
+        return res.status(500).json({ message: "Failed to process your request" });
+      }
+      if (!res.writableEnded) {
+        send('error', { message: "Failed to process your request" });
+        res.end();
+      }
+    }
+  });
+
   // AI-first Dashboard Builder Routes
   app.get("/api/dashboards/:id/blocks", isAuthenticated, async (req: any, res) => {
     try {
@@ -797,13 +1989,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Import OpenAI functions
       const { generateChart } = await import('./openai');
       
+      const organizationId = dashboardId ? await dashboardOrganizationId(parseInt(dashboardId)) : undefined;
+      const dataSources = organizationId !== undefined
+        ? (await storage.getDataSourcesByOrganization(organizationId))
+          .sort((a, b) => Number(b.type === "blend") - Number(a.type === "blend"))
+          .slice(0, AGENT_SOURCE_COUNT)
+        : [];
+      
       // Generate chart using OpenAI with chat history context
       const chartConfig = await generateChart({
         prompt,
         chartType: "auto", // Let AI decide the best chart type
         context: "Dashboard chart generation",
-        chatHistory: chatHistory || []
-      });
+        chatHistory: chatHistory || [],
+        dataSources
+      }, organizationId);
       
       res.json(chartConfig);
     } catch (error) {
@@ -815,7 +2015,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // AI Synthetic Data Generation Route
   app.post("/api/ai/generate-synthetic-data", isAuthenticated, async (req: any, res) => {
     try {
-      const { prompt } = req.body;
+      const { prompt, organizationId } = req.body;
       
       if (!prompt) {
         return res.status(400).json({ message: "Prompt is required" });
@@ -825,7 +2025,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { generateSyntheticData } = await import('./openai');
       
       // Generate synthetic data using OpenAI
-      const syntheticData = await generateSyntheticData(prompt);
+      const syntheticData = await generateSyntheticData(prompt, organizationId ? parseInt(organizationId) : undefined);
       
       res.json(syntheticData);
     } catch (error) {
@@ -859,20 +2059,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Get existing data sources for this dashboard
-      // First try to get by organization, then fallback to all data sources
-      console.log('Dashboard:', dashboard);
-      let dataSources = await storage.getDataSourcesByOrganization(dashboard.organizationId || 1);
-      console.log('Data sources found:', dataSources?.length || 0);
-      
-      // If no data sources found by organization, get all data sources as fallback
-      if (!dataSources || dataSources.length === 0) {
-        const allDataSources = await storage.getDataSourcesByOrganization(1); // Default org
-        dataSources = allDataSources;
-        console.log('Fallback data sources found:', dataSources?.length || 0);
+      // Insights are only drawn from the data sources of the dashboard's organization
+      const project = await storage.getProject(dashboard.projectId);
+      if (!project || !(await isOrganizationMember(project.organizationId, req.user.id))) {
+        return res.status(404).json({ 
+          success: false, 
+          message: "Dashboard not found" 
+        });
       }
+      const dataSources = await storage.getDataSourcesByOrganization(project.organizationId);
       
-      if (!dataSources || dataSources.length === 0) {
+      if (dataSources.length === 0) {
         return res.status(400).json({ 
           success: false, 
           message: "No data sources found. Add data sources first to generate insights." 
@@ -885,36 +2082,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .filter(block => block.title && block.title !== 'Untitled Block')
         .map(block => block.title);
 
-      // Prepare data context for AI - sample from first available data source
-      let dataContext = "";
-      let sampleData = "";
-      
-      console.log('Processing data sources for insights:', dataSources);
-      
-      for (const dataSource of dataSources.slice(0, 2)) { // Limit to first 2 data sources
-        try {
-          console.log(`Processing data source: ${dataSource.name}`, dataSource.content);
-          
-          if (dataSource.content && typeof dataSource.content === 'object') {
-            const contentArray = Array.isArray(dataSource.content) ? dataSource.content : [dataSource.content];
-            if (contentArray.length > 0) {
-              // Take sample of first few records
-              const sample = contentArray.slice(0, 5);
-              sampleData += `\n--- Data Source: ${dataSource.name} ---\n`;
-              sampleData += JSON.stringify(sample, null, 2);
-              
-              // Extract field information
-              const fields = Object.keys(contentArray[0] || {});
-              dataContext += `\nData Source "${dataSource.name}": ${fields.join(', ')} (${contentArray.length} records)`;
-            }
-          }
-        } catch (error) {
-          console.error('Error processing data source:', error);
-        }
-      }
-      
-      console.log('Data context:', dataContext);
-      console.log('Sample data:', sampleData);
+      // Prepare data context for AI - sample from the first data sources
+      const agentSources = [...dataSources]
+        .sort((a, b) => Number(b.type === "blend") - Number(a.type === "blend"))
+        .slice(0, AGENT_SOURCE_COUNT);
+      let { dataContext, sampleData } = await describeDataSources(agentSources); // Limited to AGENT_SOURCE_COUNT sources
       
       // If no data context found, create sample data to generate insights
       if (!dataContext.trim()) {
@@ -927,6 +2099,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           { product_name: "Product B", sales_value: 31000, quarter: "Q3", region: "North", sales_rep: "David Jones" }
         ], null, 2)}`;
       }
+      if (dataSources.length > 0) {
+        dataContext += await describeSemanticLayer(dataSources[0].organizationId, dataSources);
+      }
 
       // Build context about existing insights to avoid duplicates
       let existingInsightsContext = "";
@@ -941,29 +2116,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
         insightCount,
         dataContext,
         sampleData,
-        existingInsightsContext
-      });
+        existingInsightsContext,
+        dataSources: agentSources
+      }, project.organizationId);
 
       // Add metadata to each insight and generate multiple insights per chart
       const { generateInsights } = await import('./openai');
+      // Totals of the sources, for sentences that go beyond the chart
+      const grounding = await sourceFacts(agentSources);
       
       const enrichedInsights = await Promise.all(insights.map(async (insight: any, index: number) => {
         // Generate multiple insights for each chart using the same function as AI Assistant
-        const chartData = insight.chart_payload.datasets?.[0]?.data || [];
         console.log(`Generating insights for insight ${index + 1}: ${insight.question}`);
-        console.log(`Chart data:`, chartData);
         
-        const chartInsights = await generateInsights(chartData, insight.question);
+        const chartInsights = await generateInsights(insight.chart_payload, insight.question, project.organizationId);
         console.log(`Generated ${chartInsights.length} insights:`, chartInsights);
+
+        // Every number is checked against the chart and its sources before it
+        // is shown; contradicted sentences don't make it through
+        const verified = await verifyChartInsights(
+          chartInsights.length > 0 ? chartInsights : [insight.description],
+          insight.chart_payload,
+          grounding,
+          insight.question
+        );
+        const [description] = await verifyChartInsights([insight.description], insight.chart_payload, grounding, insight.question);
+        const statuses = verified.map(checked => checked.verification.status);
         
         return {
           id: `insight_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
           question: insight.question,
-          description: insight.description,
+          description: description?.text ?? verified[0]?.text ?? insight.description,
           chart_type: insight.chart_type,
           insight_category: insight.insight_category,
           chart_payload: insight.chart_payload,
-          insights: chartInsights.length > 0 ? chartInsights : [insight.description],
+          insights: verified.map(checked => checked.text),
+          verification: {
+            status: statuses.includes("approximate") ? "approximate"
+              : statuses.includes("verified") ? "verified"
+              : "unchecked",
+            insights: verified,
+            dropped: chartInsights.filter(text => !verified.some(checked => checked.text === text)).length
+          },
           created_at: new Date().toISOString()
         };
       }));
@@ -995,7 +2189,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const { generateInsights } = await import('./openai');
       
-      const insights = await generateInsights(data, prompt);
+      const block = await storage.getBlock(blockId);
+      const insights = await generateInsights(data, prompt, block?.dashboardId ? await dashboardOrganizationId(block.dashboardId) : undefined);
       
       // Update the block with insights
       const updatedBlock = await storage.updateBlock(blockId, {
@@ -1010,39 +2205,89 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // AI SQL Query Generation Route
+  // AI SQL Query Generation Route. Given an organization, the SQL is written
+  // against its data sources and run read-only; errors go back to the generator
+  // so it can correct the query.
   app.post("/api/generate-sql", isAuthenticated, async (req: any, res) => {
     try {
-      const { prompt, schema } = req.body;
-      
-      if (!prompt) {
-        return res.status(400).json({ message: "Prompt is required" });
+      const { prompt, organizationId, schema } = sqlGenerationSchema.parse(req.body);
+      if (organizationId !== undefined && !(await isOrganizationMember(organizationId, req.user.id))) {
+        return res.status(403).json({ message: "You are not a member of this organization" });
       }
-      
       const { generateSQLQuery } = await import('./openai');
-      
-      const sqlQuery = await generateSQLQuery(prompt, schema);
-      
-      res.json({ sql: sqlQuery });
+
+      if (organizationId === undefined) {
+        const sqlQuery = await generateSQLQuery(prompt, schema);
+        return res.json({ sql: sqlQuery });
+      }
+
+      const tables = await sandboxTables(await storage.getDataSourcesByOrganization(organizationId));
+      if (tables.length === 0) {
+        return res.status(400).json({ message: "Add a data source before generating SQL" });
+      }
+      const tableSchema = describeSandbox(tables);
+
+      const attempts: SqlAttempt[] = [];
+      while (attempts.length < SQL_GENERATION_ATTEMPTS) {
+        const feedback = attempts
+          .map(attempt => `\n\nThis query failed:\n${attempt.sql}\nError: ${attempt.error}`)
+          .join("");
+        const sql = extractSql(await generateSQLQuery(`${prompt}${feedback}`, tableSchema, organizationId));
+        try {
+          const result = await runSandboxQuery(sql, tables);
+          return res.json({ ...result, attempts });
+        } catch (error) {
+          if (!(error instanceof IngestError)) throw error;
+          attempts.push({ sql, error: error.message });
+        }
+      }
+
+      const last = attempts[attempts.length - 1];
+      res.status(400).json({ message: `The generated SQL failed: ${last.error}`, sql: last.sql, attempts });
     } catch (error) {
       console.error("Error generating SQL:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to generate SQL query" });
     }
   });
 
+  // Run SQL, such as an edited generated query, over the organization's data sources
+  app.post("/api/sql/run", isAuthenticated, async (req: any, res) => {
+    try {
+      const { organizationId, sql } = sqlRunSchema.parse(req.body);
+      if (!(await isOrganizationMember(organizationId, req.user.id))) {
+        return res.status(403).json({ message: "You are not a member of this organization" });
+      }
+      const tables = await sandboxTables(await storage.getDataSourcesByOrganization(organizationId));
+      res.json(await runSandboxQuery(sql, tables));
+    } catch (error) {
+      console.error("Error running SQL:", error);
+      if (error instanceof IngestError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to run SQL" });
+    }
+  });
+
   // Data Source Analysis Route
   app.post("/api/data-sources/:id/analyze", isAuthenticated, async (req: any, res) => {
     try {
       const dataSourceId = parseInt(req.params.id);
       const dataSource = await storage.getDataSource(dataSourceId);
       
-      if (!dataSource) {
+      if (!dataSource || !(await isOrganizationMember(dataSource.organizationId, req.user.id))) {
         return res.status(404).json({ message: "Data source not found" });
       }
       
       const { analyzeDataSource } = await import('./openai');
       
-      const analysis = await analyzeDataSource(dataSource);
+      const rows = await loadFieldRows(dataSource);
+      const analysis = await analyzeDataSource({ ...dataSource, content: rows });
       
       res.json(analysis);
     } catch (error) {
@@ -0,0 +1,328 @@
+import type { ColumnSchema, ColumnType } from "@shared/schema";
+
+type RawValue = unknown;
+
+// Share of non-null values that must match a type for the column to get it,
+// so a handful of stray entries ("n/a", "-") don't demote a numeric column to text
+const MATCH_THRESHOLD = 0.95;
+
+// Text columns with few distinct values are treated as categories
+const MAX_CATEGORY_CARDINALITY = 50;
+const MAX_CATEGORY_RATIO = 0.5;
+
+const BOOLEAN_STRINGS = new Set(["true", "false", "yes", "no"]);
+const TRUE_STRINGS = new Set(["true", "yes", "y", "t", "1"]);
+
+const INTEGER_PATTERN = /^[-+]?(\d{1,3}(,\d{3})+|\d+)$/;
+const DECIMAL_PATTERN = /^[-+]?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?([eE][-+]?\d+)?$/;
+const PERCENT_PATTERN = /^[-+]?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?\s*%$/;
+const CURRENCY_PATTERN = /^\(?[-+]?\s*([$€£¥₹]|[A-Z]{3}\s)\s*[-+]?(\d{1,3}(,\d{3})+|\d+)(\.\d+)?\)?$|^[-+]?(\d{1,3}(,\d{3})+|\d+)(\.\d+)?\s?([$€£¥₹]|\s[A-Z]{3})$/;
+const DATE_PATTERN = /^(\d{4}-\d{1,2}-\d{1,2}|\d{1,2}\/\d{1,2}\/\d{4}|\d{4}\/\d{1,2}\/\d{1,2})$/;
+const DATETIME_PATTERN = /^\d{4}-\d{1,2}-\d{1,2}[T ]\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[-+]\d{2}:?\d{2})?$/;
+
+export function isNull(value: RawValue): boolean {
+  return value === null || value === undefined || (typeof value === "string" && value.trim() === "");
+}
+
+function asText(value: RawValue): string {
+  return String(value).trim();
+}
+
+const matchers: Record<Exclude<ColumnType, "category" | "text">, (value: RawValue) => boolean> = {
+  boolean: (value) => typeof value === "boolean" || BOOLEAN_STRINGS.has(asText(value).toLowerCase()),
+  integer: (value) => typeof value === "number" ? Number.isInteger(value) : INTEGER_PATTERN.test(asText(value)),
+  decimal: (value) => typeof value === "number" || (DECIMAL_PATTERN.test(asText(value)) && /\d/.test(asText(value))),
+  percent: (value) => typeof value === "string" && PERCENT_PATTERN.test(asText(value)) && /\d/.test(value),
+  currency: (value) => typeof value === "string" && CURRENCY_PATTERN.test(asText(value)),
+  date: (value) => typeof value === "string" && DATE_PATTERN.test(asText(value)) && !isNaN(Date.parse(asText(value))),
+  datetime: (value) => typeof value === "string" && DATETIME_PATTERN.test(asText(value)) && !isNaN(Date.parse(asText(value))),
+};
+
+// Checked in order; the first type that fits wins
+const DETECTION_ORDER: Array<keyof typeof matchers> = [
+  "boolean",
+  "integer",
+  "decimal",
+  "percent",
+  "currency",
+  "date",
+  "datetime",
+];
+
+export function parseNumber(value: RawValue): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (isNull(value)) return null;
+
+  let text = asText(value);
+  const negative = /^\(.*\)$/.test(text);
+  text = text.replace(/[()$€£¥₹%,\s]/g, "").replace(/[A-Z]{3}/g, "");
+  const parsed = Number(text);
+  if (text === "" || isNaN(parsed)) return null;
+  return negative ? -parsed : parsed;
+}
+
+function toISODate(value: RawValue, withTime: boolean): string | null {
+  const text = asText(value);
+  // Dates without a zone are read as UTC so the calendar day never shifts
+  const timestamp = DATE_PATTERN.test(text)
+    ? Date.parse(`${text.replace(/-/g, "/")} UTC`)
+    : Date.parse(text);
+  if (isNaN(timestamp)) return null;
+  const iso = new Date(timestamp).toISOString();
+  return withTime ? iso : iso.slice(0, 10);
+}
+
+// Convert a stored cell into the JavaScript value for its column type
+export function coerceValue(value: RawValue, type: ColumnType): number | string | boolean | null {
+  if (isNull(value)) return null;
+
+  switch (type) {
+    case "integer":
+    case "decimal":
+    case "currency":
+      return parseNumber(value);
+    case "percent": {
+      const number = parseNumber(value);
+      // "12.5%" is stored as a fraction; numeric cells are assumed to be fractions already
+      return number === null ? null : typeof value === "string" && value.includes("%") ? number / 100 : number;
+    }
+    case "boolean":
+      return typeof value === "boolean" ? value : TRUE_STRINGS.has(asText(value).toLowerCase());
+    case "date":
+      return toISODate(value, false);
+    case "datetime":
+      return toISODate(value, true);
+    default:
+      return asText(value);
+  }
+}
+
+// Distinct values tracked per column; cardinality is a lower bound beyond this
+const MAX_TRACKED_DISTINCT = 100_000;
+
+const NUMERIC_TYPES: ColumnType[] = ["integer", "decimal", "currency", "percent"];
+
+class Range<T extends number | string> {
+  min: T | null = null;
+  max: T | null = null;
+
+  add(value: T) {
+    if (this.min === null || value < this.min) this.min = value;
+    if (this.max === null || value > this.max) this.max = value;
+  }
+}
+
+// Running summary of one column's values. Rows are added one at a time, so a
+// schema can be inferred while a file streams in without keeping the rows.
+class ColumnProfile {
+  total = 0;
+  present = 0;
+  private matches = new Map<ColumnType, number>();
+  private distinct = new Set<string>();
+  private numbers = new Range<number>();
+  private percents = new Range<number>();
+  private datetimes = new Range<string>();
+
+  // Rows that were added before this column first appeared count as empty
+  constructor(emptyRows = 0) {
+    this.total = emptyRows;
+  }
+
+  add(value: RawValue) {
+    this.total++;
+    if (isNull(value)) return;
+    this.present++;
+
+    let isDate = false;
+    for (const type of DETECTION_ORDER) {
+      if (matchers[type](value)) {
+        this.matches.set(type, (this.matches.get(type) ?? 0) + 1);
+        isDate = isDate || type === "date" || type === "datetime";
+      }
+    }
+    if (this.distinct.size < MAX_TRACKED_DISTINCT) {
+      this.distinct.add(asText(value));
+    }
+
+    const number = coerceValue(value, "decimal");
+    if (typeof number === "number") {
+      this.numbers.add(number);
+      this.percents.add(coerceValue(value, "percent") as number);
+    }
+    // Only recognised date formats; Date.parse accepts too much free text
+    const datetime = isDate ? toISODate(value, true) : null;
+    if (datetime) {
+      this.datetimes.add(datetime);
+    }
+  }
+
+  detectType(): ColumnType {
+    if (this.present === 0) return "text";
+
+    for (const type of DETECTION_ORDER) {
+      if ((this.matches.get(type) ?? 0) / this.present >= MATCH_THRESHOLD) {
+        return type;
+      }
+    }
+
+    const distinct = this.distinct.size;
+    if (distinct <= MAX_CATEGORY_CARDINALITY && distinct / this.present <= MAX_CATEGORY_RATIO) {
+      return "category";
+    }
+    return "text";
+  }
+
+  describe(name: string, type: ColumnType, detectedType: ColumnType): ColumnSchema {
+    let range: { min: number | string | null; max: number | string | null } = { min: null, max: null };
+    if (type === "percent") {
+      range = this.percents;
+    } else if (NUMERIC_TYPES.includes(type)) {
+      range = this.numbers;
+    } else if (type === "datetime") {
+      range = this.datetimes;
+    } else if (type === "date") {
+      range = {
+        min: this.datetimes.min?.slice(0, 10) ?? null,
+        max: this.datetimes.max?.slice(0, 10) ?? null,
+      };
+    }
+
+    return {
+      name,
+      type,
+      detectedType,
+      overridden: type !== detectedType,
+      nullRate: this.total === 0 ? 0 : (this.total - this.present) / this.total,
+      cardinality: this.distinct.size,
+      min: range.min,
+      max: range.max,
+    };
+  }
+}
+
+function profileOf(values: RawValue[]): ColumnProfile {
+  const profile = new ColumnProfile();
+  values.forEach(value => profile.add(value));
+  return profile;
+}
+
+export function detectColumnType(values: RawValue[]): ColumnType {
+  return profileOf(values).detectType();
+}
+
+export function describeColumn(
+  name: string,
+  values: RawValue[],
+  type: ColumnType,
+  detectedType: ColumnType = type,
+): ColumnSchema {
+  return profileOf(values).describe(name, type, detectedType);
+}
+
+// Accumulates rows into a data dictionary. Columns are kept in the order they
+// were first seen, starting with the ones passed to the constructor.
+export class SchemaBuilder {
+  private profiles = new Map<string, ColumnProfile>();
+  private rowCount = 0;
+
+  constructor(columns: string[] = []) {
+    columns.forEach(name => this.profiles.set(name, new ColumnProfile()));
+  }
+
+  add(row: Record<string, unknown>) {
+    for (const name of Object.keys(row)) {
+      if (!this.profiles.has(name)) {
+        this.profiles.set(name, new ColumnProfile(this.rowCount));
+      }
+    }
+    this.profiles.forEach((profile, name) => profile.add(row[name]));
+    this.rowCount++;
+  }
+
+  get columns(): string[] {
+    return Array.from(this.profiles.keys());
+  }
+
+  // Type overrides from a previous schema are carried over so re-inference
+  // never undoes a user's correction; `types` set by cleaning steps win over both
+  build(previous?: ColumnSchema[] | null, types: Record<string, ColumnType> = {}): ColumnSchema[] {
+    const overrides = new Map(
+      (previous ?? []).filter(column => column.overridden).map(column => [column.name, column.type]),
+    );
+    Object.entries(types).forEach(([name, type]) => overrides.set(name, type));
+
+    return Array.from(this.profiles.entries()).map(([name, profile]) => {
+      const detectedType = profile.detectType();
+      return profile.describe(name, overrides.get(name) ?? detectedType, detectedType);
+    });
+  }
+}
+
+// Build the data dictionary for a set of rows
+export function inferSchema(
+  columns: string[],
+  rows: Record<string, unknown>[],
+  previous?: ColumnSchema[] | null,
+): ColumnSchema[] {
+  const builder = new SchemaBuilder(columns);
+  rows.forEach(row => builder.add(row));
+  return builder.build(previous);
+}
+
+// Apply user type overrides to an existing schema and recompute the stats
+export function applyTypeOverrides(
+  schema: ColumnSchema[],
+  rows: Record<string, unknown>[],
+  overrides: Record<string, ColumnType>,
+): ColumnSchema[] {
+  return schema.map(column => {
+    const type = overrides[column.name];
+    if (!type) return column;
+    return describeColumn(column.name, rows.map(row => row[column.name]), type, column.detectedType);
+  });
+}
+
+export function columnsOf(rows: Record<string, unknown>[]): string[] {
+  const columns = new Set<string>();
+  for (const row of rows) {
+    Object.keys(row).forEach(key => columns.add(key));
+  }
+  return Array.from(columns);
+}
+
+// Types that can hold every value of another type without losing meaning
+const WIDER_TYPES: Partial<Record<ColumnType, ColumnType[]>> = {
+  decimal: ["integer"],
+  currency: ["integer", "decimal"],
+  percent: ["integer", "decimal"],
+  datetime: ["date"],
+};
+
+// Columns that are missing from, or not part of, an existing schema
+export function findColumnConflicts(existing: ColumnSchema[], columns: string[]): string[] {
+  const existingNames = new Set(existing.map(column => column.name));
+  return [
+    ...existing.filter(column => !columns.includes(column.name)).map(column => `Missing column "${column.name}"`),
+    ...columns.filter(name => !existingNames.has(name)).map(name => `Unexpected column "${name}"`),
+  ];
+}
+
+// Describe why rows with the incoming schema can't be appended to a data source
+// with the existing one. An empty list means the two are compatible.
+export function findSchemaConflicts(existing: ColumnSchema[], incoming: ColumnSchema[]): string[] {
+  const conflicts = findColumnConflicts(existing, incoming.map(column => column.name));
+  const incomingByName = new Map(incoming.map(column => [column.name, column]));
+
+  for (const column of existing) {
+    const match = incomingByName.get(column.name);
+    // Empty columns carry no type information, and text and categories accept anything
+    if (!match || match.cardinality === 0 || match.detectedType === column.type) continue;
+    if (column.type === "text" || column.type === "category") continue;
+    if (!WIDER_TYPES[column.type]?.includes(match.detectedType)) {
+      conflicts.push(`Column "${column.name}" is ${column.type} but the file has ${match.detectedType} values`);
+    }
+  }
+
+  return conflicts;
+}
@@ -0,0 +1,43 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
+
+// Connector credentials are kept in data source configs encrypted with
+// AES-256-GCM. The key comes from CREDENTIALS_KEY, falling back to one derived
+// from SESSION_SECRET so existing deployments work without new configuration.
+// Changing the key makes stored credentials unreadable.
+
+const ALGORITHM = "aes-256-gcm";
+const FORMAT_VERSION = "v1";
+
+let cachedKey: Buffer | undefined;
+
+function encryptionKey(): Buffer {
+  if (!cachedKey) {
+    const secret = process.env.CREDENTIALS_KEY || process.env.SESSION_SECRET;
+    if (!secret) {
+      throw new Error("CREDENTIALS_KEY or SESSION_SECRET must be set to store connector credentials");
+    }
+    cachedKey = scryptSync(secret, "data-source-credentials", 32);
+  }
+  return cachedKey;
+}
+
+export function encryptSecret(value: unknown): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, encryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(value), "utf8"), cipher.final()]);
+  return [FORMAT_VERSION, iv, cipher.getAuthTag(), encrypted]
+    .map(part => (typeof part === "string" ? part : part.toString("base64")))
+    .join(":");
+}
+
+export function decryptSecret<T = unknown>(encoded: string): T {
+  const [version, iv, tag, encrypted] = encoded.split(":");
+  if (version !== FORMAT_VERSION || !encrypted) {
+    throw new Error("Unrecognized credential format");
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, encryptionKey(), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  const decrypted = Buffer.concat([decipher.update(Buffer.from(encrypted, "base64")), decipher.final()]);
+  return JSON.parse(decrypted.toString("utf8"));
+}
@@ -0,0 +1,114 @@
+import type { DataSource, QueryFilter, QueryMeasure, SemanticDimension, SemanticDimensionInput, SemanticMetric, SemanticMetricInput } from "@shared/schema";
+import { storage } from "./storage";
+import { getFieldSchema } from "./datasets";
+import { IngestError } from "./ingest";
+import { aggregateRows, type ResolvedQuery } from "./query-engine";
+
+// The organization-wide metrics and dimensions. Definitions are checked against
+// their data source's columns when saved, and written out for the AI prompts
+// so generated blocks reuse them instead of guessing from the raw columns.
+
+export class SemanticLayerError extends IngestError {
+  constructor(message: string) {
+    super(message);
+    this.name = "SemanticLayerError";
+  }
+}
+
+async function* noRows() {}
+
+// Runs the query over no rows, which resolves every column it names and checks
+// the aggregations, filters and buckets against the column types
+async function checkQuery(dataSource: DataSource, query: Pick<ResolvedQuery, "dimensions" | "measures">) {
+  const schema = await getFieldSchema(dataSource);
+  await aggregateRows(noRows(), schema, { ...query, filters: [], sort: [], timezone: "UTC", fiscalYearStartMonth: 1 });
+}
+
+export async function validateSemanticMetric(dataSource: DataSource, input: SemanticMetricInput) {
+  await checkQuery(dataSource, { dimensions: [], measures: [input.definition] });
+}
+
+export async function validateSemanticDimension(dataSource: DataSource, input: SemanticDimensionInput) {
+  await checkQuery(dataSource, { dimensions: [{ column: input.column, bucket: input.bucket ?? undefined }], measures: [] });
+}
+
+// Names are compared without case so "Revenue" and "revenue" can't both exist
+export async function assertUniqueName(
+  kind: "metric" | "dimension",
+  organizationId: number,
+  name: string,
+  id?: number,
+) {
+  const existing = kind === "metric"
+    ? await storage.getSemanticMetrics(organizationId)
+    : await storage.getSemanticDimensions(organizationId);
+  if (existing.some(item => item.id !== id && item.name.toLowerCase() === name.toLowerCase())) {
+    throw new SemanticLayerError(`There is already a ${kind} named "${name}"`);
+  }
+}
+
+const operatorText: Record<QueryFilter["operator"], string> = {
+  eq: "=",
+  neq: "!=",
+  gt: ">",
+  gte: ">=",
+  lt: "<",
+  lte: "<=",
+  in: "in",
+  not_in: "not in",
+  between: "between",
+  contains: "contains",
+  is_null: "is empty",
+  is_not_null: "is not empty",
+};
+
+function describeValue(value: QueryFilter["value"]): string {
+  if (Array.isArray(value)) return `(${value.map(describeValue).join(", ")})`;
+  return typeof value === "string" ? `"${value}"` : String(value);
+}
+
+function describeFilter(filter: QueryFilter): string {
+  if (filter.operator === "is_null" || filter.operator === "is_not_null") {
+    return `${filter.column} ${operatorText[filter.operator]}`;
+  }
+  if (filter.operator === "between" && Array.isArray(filter.value)) {
+    return `${filter.column} between ${describeValue(filter.value[0])} and ${describeValue(filter.value[1])}`;
+  }
+  return `${filter.column} ${operatorText[filter.operator]} ${describeValue(filter.value)}`;
+}
+
+// e.g. sum(amount) where status != "refunded"
+export function describeMeasure(measure: QueryMeasure): string {
+  const args = measure.aggregation === "percentile"
+    ? `${measure.column}, ${measure.percentile}`
+    : measure.column ?? "*";
+  const filters = measure.filters ?? [];
+  return `${measure.aggregation}(${args})${filters.length > 0 ? ` where ${filters.map(describeFilter).join(" and ")}` : ""}`;
+}
+
+function describeMetric(metric: SemanticMetric, source: string): string {
+  const description = metric.description ? ` - ${metric.description}` : "";
+  return `Metric #${metric.id} "${metric.name}" on "${source}": ${describeMeasure(metric.definition)} (${metric.format})${description}`;
+}
+
+function describeDimension(dimension: SemanticDimension, source: string): string {
+  const bucket = dimension.bucket ? ` by ${dimension.bucket}` : "";
+  const description = dimension.description ? ` - ${dimension.description}` : "";
+  return `Dimension #${dimension.id} "${dimension.name}" on "${source}": ${dimension.column}${bucket} (${dimension.format})${description}`;
+}
+
+// The definitions as prompt text, or "" when the organization has none
+export async function describeSemanticLayer(organizationId: number, dataSources: DataSource[]): Promise<string> {
+  const [metrics, dimensions] = await Promise.all([
+    storage.getSemanticMetrics(organizationId),
+    storage.getSemanticDimensions(organizationId),
+  ]);
+  if (metrics.length === 0 && dimensions.length === 0) return "";
+
+  const sourceName = (id: number) => dataSources.find(dataSource => dataSource.id === id)?.name ?? `#${id}`;
+  const lines = [
+    ...metrics.map(metric => describeMetric(metric, sourceName(metric.dataSourceId))),
+    ...dimensions.map(dimension => describeDimension(dimension, sourceName(dimension.dataSourceId))),
+  ];
+  return `\n\nShared definitions of this organization. Always compute these metrics and label these dimensions exactly as defined here rather than reinterpreting the raw columns:\n${lines.join("\n")}`;
+}
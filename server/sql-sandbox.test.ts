@@ -0,0 +1,56 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { DataSource } from "@shared/schema";
+import { extractSql, validateSandboxQuery, type SandboxTable } from "./sql-sandbox";
+
+const sales: SandboxTable = {
+  name: "sales",
+  dataSource: { id: 1 } as DataSource,
+  columns: [{ name: "region", source: "Region", type: "text" }],
+};
+const tables = [sales];
+
+const tablesOf = (sql: string) => validateSandboxQuery(sql, tables).map(table => table.name);
+
+describe("validateSandboxQuery", () => {
+  it("accepts SELECTs over the sandbox tables and returns the tables read", () => {
+    assert.deepEqual(tablesOf("SELECT region FROM sales;"), ["sales"]);
+    assert.deepEqual(tablesOf("with t as (select * from sales) select * from t"), ["sales"]);
+    assert.deepEqual(tablesOf("select * from sales s join (select 1) x on true"), ["sales"]);
+  });
+
+  it("doesn't take FROM inside function arguments for a table", () => {
+    assert.deepEqual(tablesOf("select extract(year from now()) from sales"), ["sales"]);
+  });
+
+  it("rejects anything but a single SELECT", () => {
+    assert.throws(() => tablesOf("DELETE FROM sales"), { name: "SqlSandboxError", message: "Only SELECT queries can be run" });
+    assert.throws(() => tablesOf("select * from sales; drop table sales"), { message: "Queries must be a single statement" });
+  });
+
+  it("rejects catalog tables, schema names and server functions however they are written", () => {
+    assert.throws(() => tablesOf("select * from pg_user"), { message: "pg_user is not available in queries" });
+    assert.throws(() => tablesOf("select * from \"pg_catalog\".\"pg_roles\""), { message: "pg_catalog is not available in queries" });
+    assert.throws(() => tablesOf("select * from public.sales"), { message: "Tables are referred to by name only: public.sales" });
+    assert.throws(() => tablesOf("select pg_sleep(1)"), { message: "pg_sleep is not available in queries" });
+    assert.throws(() => tablesOf("select 1::regclass"), { message: "regclass is not available in queries" });
+    assert.throws(() => tablesOf("select current_setting('x') from sales"), { message: "The function current_setting is not available in queries" });
+    assert.throws(() => tablesOf("select set_config('a','b',false)"), { message: "The function set_config is not available in queries" });
+  });
+
+  it("rejects tables other than the sandbox ones, in subqueries too", () => {
+    assert.throws(() => tablesOf("select * from other"), { message: "Unknown table: other. Available tables: sales" });
+    assert.throws(() => tablesOf("select (select count(*) from orders) from sales"), { message: /Unknown table: orders/ });
+    assert.throws(() => tablesOf("select * from sales, \"Other\""), { message: /Unknown table: Other/ });
+  });
+
+  it("rejects unbalanced parentheses", () => {
+    assert.throws(() => tablesOf("select * from sales where (1"), { message: "Unbalanced parentheses in query" });
+  });
+});
+
+describe("extractSql", () => {
+  it("takes the query out of a fenced block", () => {
+    assert.equal(extractSql("Here:\n```sql\nSELECT 1\n```\nthanks"), "SELECT 1");
+  });
+});
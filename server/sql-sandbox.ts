@@ -0,0 +1,456 @@
+import type { ColumnType, DataSource, SqlColumn, SqlResult } from "@shared/schema";
+import { pool } from "./db";
+import { getDataSourceSchema } from "./datasets";
+import { IngestError } from "./ingest";
+import { cellExpression } from "./cell-sql";
+
+// Runs SQL written against an organization's data sources, typically by the AI
+// generator. Each data source is exposed as a table named after it whose
+// columns hold the typed values of its current version, read from the stored
+// rows. Queries are checked before they run: only a single SELECT over those
+// tables is accepted, catalog tables and server functions are off limits, and
+// names can't be qualified with a schema. The statement then runs as a role
+// without privileges of its own, which reads the tables through temporary
+// views, in a read-only transaction with a timeout and a row cap. Cells are
+// typed by cell-sql.
+
+export const SQL_TIMEOUT_MS = 10_000;
+export const SQL_ROW_CAP = 1000;
+
+// Sandbox queries run as this role. It needs no grants: each query's views are
+// granted to it for the length of the query.
+const SANDBOX_ROLE = process.env.SQL_SANDBOX_ROLE || "epesi_sql_sandbox";
+
+export class SqlSandboxError extends IngestError {
+  constructor(message: string) {
+    super(message);
+    this.name = "SqlSandboxError";
+  }
+}
+
+export interface SandboxColumn {
+  name: string; // Column name in SQL
+  source: string; // Column name in the data source
+  type: ColumnType;
+}
+
+export interface SandboxTable {
+  name: string;
+  dataSource: DataSource;
+  columns: SandboxColumn[];
+}
+
+// Lowercase snake_case so generated SQL never needs quoted identifiers
+function sqlName(name: string, fallback: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+  if (!slug) return fallback;
+  return /^\d/.test(slug) ? `_${slug}` : slug;
+}
+
+function uniqueName(name: string, taken: Set<string>): string {
+  let unique = name;
+  for (let n = 2; taken.has(unique) || RESERVED_WORDS.has(unique); n++) {
+    unique = `${name}_${n}`;
+  }
+  taken.add(unique);
+  return unique;
+}
+
+export async function sandboxTables(dataSources: DataSource[]): Promise<SandboxTable[]> {
+  const tableNames = new Set<string>();
+  const tables: SandboxTable[] = [];
+  for (const dataSource of dataSources) {
+    const schema = await getDataSourceSchema(dataSource);
+    const columnNames = new Set<string>();
+    tables.push({
+      name: uniqueName(sqlName(dataSource.name, `source_${dataSource.id}`), tableNames),
+      dataSource,
+      columns: schema.map((column, i) => ({
+        name: uniqueName(sqlName(column.name, `column_${i + 1}`), columnNames),
+        source: column.name,
+        type: column.type,
+      })),
+    });
+  }
+  return tables;
+}
+
+const SQL_TYPES: Record<ColumnType, string> = {
+  integer: "numeric",
+  decimal: "numeric",
+  currency: "numeric",
+  percent: "numeric",
+  boolean: "boolean",
+  date: "date",
+  datetime: "timestamptz",
+  category: "text",
+  text: "text",
+};
+
+// Schema for the generator's prompt: each table with its columns and SQL types
+export function describeSandbox(tables: SandboxTable[]): string {
+  return tables.map(table => {
+    const columns = table.columns.map(column => {
+      const original = column.source !== column.name ? ` (${column.source})` : "";
+      return `${column.name} ${SQL_TYPES[column.type]}${original}`;
+    });
+    return `${table.name} -- ${table.dataSource.name}\n  (${columns.join(", ")})`;
+  }).join("\n");
+}
+
+// Models often wrap the query in a markdown code block
+export function extractSql(text: string): string {
+  const fenced = text.match(/```(?:sql)?\s*([\s\S]*?)```/i);
+  return (fenced ? fenced[1] : text).trim();
+}
+
+// Statement checks
+
+// Words that end a statement's read-only shape or reach outside the sandbox
+const FORBIDDEN_WORDS = new Set([
+  "insert", "update", "delete", "merge", "create", "alter", "drop", "truncate", "grant", "revoke",
+  "copy", "call", "do", "execute", "prepare", "deallocate", "lock", "listen", "notify", "vacuum",
+  "analyze", "set", "reset", "into", "table", "operator", "pg_catalog", "information_schema", "user",
+  "current_user", "session_user", "system_user", "current_role", "current_catalog", "current_schema",
+]);
+
+// Functions that read server state or files, or talk to other servers
+const FORBIDDEN_FUNCTIONS = [
+  /^pg_/, /^dblink/, /^lo_/, /xml/, /^(query|table|schema|database|cursor)_to_/, /^set_config$/,
+  /^current_setting$/, /^txid_/, /^has_\w+_privilege$/, /^version$/, /^inet_(client|server)_/,
+  /^(current|session|system)_(user|role|database|schema|schemas|catalog)$/, /^getpgusername$/,
+];
+
+// Casts to these types look up catalog objects by name
+const FORBIDDEN_TYPES = /^reg(class|collation|config|dictionary|namespace|oper|operator|proc|procedure|role|type)$/;
+
+// Keywords that end the FROM clause of a SELECT
+const FROM_CLAUSE_END = new Set([
+  "where", "group", "having", "order", "limit", "offset", "window", "union", "intersect", "except",
+  "fetch", "for", "returning",
+]);
+
+// Reserved words are avoided as table and column names so they never need quoting
+const RESERVED_WORDS = new Set([
+  "all", "and", "any", "array", "as", "asc", "between", "both", "case", "cast", "check", "collate",
+  "column", "constraint", "cross", "default", "desc", "distinct", "else", "end", "false", "from",
+  "full", "group", "having", "in", "inner", "is", "join", "leading", "left", "like", "limit", "natural",
+  "not", "null", "offset", "on", "only", "or", "order", "outer", "right", "select", "some", "then", "to",
+  "trailing", "true", "union", "unique", "using", "when", "where", "window", "with",
+  ...Array.from(FORBIDDEN_WORDS),
+]);
+
+interface Token {
+  kind: "word" | "identifier" | "string" | "number" | "symbol";
+  text: string; // Lowercased for words, unquoted for identifiers
+}
+
+export function tokenizeSql(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  const unterminated = (what: string) => new SqlSandboxError(`Unterminated ${what} in query`);
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const rest = sql.slice(i);
+    if (/\s/.test(char)) {
+      i++;
+    } else if (rest.startsWith("--")) {
+      const end = sql.indexOf("\n", i);
+      i = end === -1 ? sql.length : end + 1;
+    } else if (rest.startsWith("/*")) {
+      const end = sql.indexOf("*/", i + 2);
+      if (end === -1) throw unterminated("comment");
+      if (sql.slice(i + 2, end).includes("/*")) throw new SqlSandboxError("Nested comments are not allowed");
+      i = end + 2;
+    } else if (/[uU]/.test(char) && sql[i + 1] === "&" && /['"]/.test(sql[i + 2] ?? "")) {
+      // U&"..." spells names with escapes, out of reach of the checks below
+      throw new SqlSandboxError("Unicode escapes are not allowed in queries");
+    } else if (char === "'" || (/[eE]/.test(char) && sql[i + 1] === "'")) {
+      // Standard strings double their quotes; E'' strings also escape with backslashes
+      const escapes = char !== "'";
+      let j = escapes ? i + 2 : i + 1;
+      for (; ; j++) {
+        if (j >= sql.length) throw unterminated("string");
+        if (escapes && sql[j] === "\\") j++;
+        else if (sql[j] === "'" && sql[j + 1] === "'") j++;
+        else if (sql[j] === "'") break;
+      }
+      tokens.push({ kind: "string", text: sql.slice(i, j + 1) });
+      i = j + 1;
+    } else if (char === "$" && /^\$(\w*)\$/.test(rest)) {
+      const tag = rest.match(/^\$(\w*)\$/)![0];
+      const end = sql.indexOf(tag, i + tag.length);
+      if (end === -1) throw unterminated("string");
+      tokens.push({ kind: "string", text: sql.slice(i, end + tag.length) });
+      i = end + tag.length;
+    } else if (char === '"') {
+      let j = i + 1;
+      for (; ; j++) {
+        if (j >= sql.length) throw unterminated("identifier");
+        if (sql[j] === '"' && sql[j + 1] === '"') j++;
+        else if (sql[j] === '"') break;
+      }
+      tokens.push({ kind: "identifier", text: sql.slice(i + 1, j).replace(/""/g, '"') });
+      i = j + 1;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const word = rest.match(/^[A-Za-z_][A-Za-z0-9_$]*/)![0];
+      tokens.push({ kind: "word", text: word.toLowerCase() });
+      i += word.length;
+    } else if (/[0-9.]/.test(char) && /^(\d+\.?\d*|\.\d+)/.test(rest)) {
+      const number = rest.match(/^(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/)![0];
+      tokens.push({ kind: "number", text: number });
+      i += number.length;
+    } else {
+      tokens.push({ kind: "symbol", text: char });
+      i++;
+    }
+  }
+  return tokens;
+}
+
+const isWord = (token: Token | undefined, ...words: string[]) =>
+  token?.kind === "word" && (words.length === 0 || words.includes(token.text));
+
+const isSymbol = (token: Token | undefined, symbol: string) =>
+  token?.kind === "symbol" && token.text === symbol;
+
+const nameOf = (token: Token | undefined) =>
+  token?.kind === "word" || token?.kind === "identifier" ? token.text : null;
+
+// Names defined by the query's own WITH clauses: `name AS (` or `name (columns) AS (`
+function queryTableNames(tokens: Token[]): Set<string> {
+  const names = new Set<string>();
+  tokens.forEach((token, i) => {
+    const name = nameOf(token);
+    if (!name || isWord(token, "as")) return;
+    let next = i + 1;
+    if (isSymbol(tokens[next], "(")) {
+      while (next < tokens.length && !isSymbol(tokens[next], ")")) next++;
+      next++;
+    }
+    if (isWord(tokens[next], "as") && isSymbol(tokens[next + 1], "(")) {
+      names.add(name);
+    }
+  });
+  return names;
+}
+
+// Qualified names may only pick a column of a table, as in sales.amount.
+// Names of schemas, functions, types and collations are never qualified.
+function checkQualifiedNames(tokens: Token[]) {
+  tokens.forEach((token, i) => {
+    const qualifier = nameOf(tokens[i - 1]);
+    if (!isSymbol(token, ".") || qualifier === null) return; // Also (row).field
+    const next = tokens[i + 2];
+    const before = tokens[i - 2];
+    if (
+      isSymbol(next, ".") || isSymbol(next, "(") || next?.kind === "string" ||
+      isSymbol(before, ".") || isSymbol(before, ":") || isWord(before, "as", "collate")
+    ) {
+      const name = `${qualifier}.${tokens[i + 1]?.text ?? ""}`;
+      throw new SqlSandboxError(`Only columns can be qualified, as in table.column: ${name}`);
+    }
+  });
+}
+
+// Checks that the query is a single SELECT that only reads the sandbox tables
+// and returns the tables it reads
+export function validateSandboxQuery(sql: string, tables: SandboxTable[]): SandboxTable[] {
+  const tokens = tokenizeSql(sql);
+  while (isSymbol(tokens[tokens.length - 1], ";")) tokens.pop();
+
+  if (!isWord(tokens[0], "select", "with")) {
+    throw new SqlSandboxError("Only SELECT queries can be run");
+  }
+  if (tokens.some(token => isSymbol(token, ";"))) {
+    throw new SqlSandboxError("Queries must be a single statement");
+  }
+
+  tokens.forEach((token, i) => {
+    if (token.kind !== "word" && token.kind !== "identifier") return;
+    if (token.kind === "word" && FORBIDDEN_WORDS.has(token.text)) {
+      throw new SqlSandboxError(`${token.text.toUpperCase()} is not allowed in queries`);
+    }
+    if (token.text.startsWith("pg_") || FORBIDDEN_TYPES.test(token.text)) {
+      throw new SqlSandboxError(`${token.text} is not available in queries`);
+    }
+    if (isSymbol(tokens[i + 1], "(") && FORBIDDEN_FUNCTIONS.some(pattern => pattern.test(token.text))) {
+      throw new SqlSandboxError(`The function ${token.text} is not available in queries`);
+    }
+  });
+
+  checkQualifiedNames(tokens);
+
+  const cteNames = queryTableNames(tokens);
+  const used = new Set<SandboxTable>();
+
+  // Each parenthesis level is either a query (the top level, subqueries and
+  // parenthesized joins) or an expression such as function arguments, where
+  // FROM is just part of the syntax, as in extract(year FROM day)
+  const levels = [{ query: true, inFrom: false }];
+  let expectTable = false;
+
+  const checkTable = (i: number) => {
+    let token = tokens[i];
+    while (isWord(token, "lateral", "only")) token = tokens[++i];
+    if (isSymbol(token, "(")) return i; // Subquery, VALUES list or parenthesized join
+    const name = nameOf(token);
+    if (!name) throw new SqlSandboxError("Expected a table name after FROM or JOIN");
+    if (isSymbol(tokens[i + 1], ".")) {
+      throw new SqlSandboxError(`Tables are referred to by name only: ${name}.${nameOf(tokens[i + 2]) ?? ""}`);
+    }
+    if (isSymbol(tokens[i + 1], "(")) return i; // Set-returning function, checked above
+    const table = tables.find(table => table.name === name);
+    if (table) used.add(table);
+    else if (!cteNames.has(name)) {
+      throw new SqlSandboxError(`Unknown table: ${name}. Available tables: ${tables.map(table => table.name).join(", ")}`);
+    }
+    return i;
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const level = levels[levels.length - 1];
+
+    if (expectTable) {
+      expectTable = false;
+      i = checkTable(i);
+      if (isSymbol(tokens[i], "(")) {
+        const subquery = isWord(tokens[i + 1], "select", "with", "values");
+        levels.push({ query: true, inFrom: !subquery });
+        expectTable = !subquery;
+      }
+      continue;
+    }
+
+    if (isWord(token, "select", "values")) {
+      // Also marks levels like ((SELECT 1) UNION SELECT ...) as queries
+      level.query = true;
+      level.inFrom = false;
+    } else if (isSymbol(token, "(")) {
+      levels.push({ query: isWord(tokens[i + 1], "select", "with", "values"), inFrom: false });
+    } else if (isSymbol(token, ")")) {
+      if (levels.length === 1) throw new SqlSandboxError("Unbalanced parentheses in query");
+      levels.pop();
+    } else if (level.query && isWord(token, "from")) {
+      level.inFrom = true;
+      expectTable = true;
+    } else if (level.query && level.inFrom && (isWord(token, "join") || isSymbol(token, ","))) {
+      expectTable = true;
+    } else if (level.query && token.kind === "word" && FROM_CLAUSE_END.has(token.text)) {
+      level.inFrom = false;
+    }
+  }
+  if (levels.length !== 1) {
+    throw new SqlSandboxError("Unbalanced parentheses in query");
+  }
+  if (expectTable) {
+    throw new SqlSandboxError("Expected a table name after FROM or JOIN");
+  }
+  return Array.from(used);
+}
+
+// Table definitions
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function tableView(table: SandboxTable): string {
+  const { id, currentVersionId } = table.dataSource;
+  const columns = table.columns.map(column => `${cellExpression(column.source, column.type)} AS ${quoteIdentifier(column.name)}`);
+  const version = currentVersionId === null ? "version_id IS NULL" : `version_id = ${currentVersionId}`;
+  return `CREATE TEMPORARY VIEW ${quoteIdentifier(table.name)} AS
+  SELECT ${columns.join(",\n    ") || "NULL AS no_columns"}
+  FROM public.data_source_rows
+  WHERE data_source_id = ${id} AND ${version}`;
+}
+
+// Creates the sandbox role if it's missing and lets the server's database user
+// switch to it. Where that user can't create roles, set SQL_SANDBOX_ROLE to a
+// role made for it.
+export async function prepareSqlSandbox() {
+  const role = quoteIdentifier(SANDBOX_ROLE);
+  const { rows } = await pool.query(
+    "SELECT pg_has_role(current_user, oid, 'MEMBER') AS member FROM pg_roles WHERE rolname = $1",
+    [SANDBOX_ROLE],
+  );
+  if (rows.length === 0) await pool.query(`CREATE ROLE ${role} NOLOGIN`);
+  if (!rows[0]?.member) await pool.query(`GRANT ${role} TO CURRENT_USER`);
+}
+
+// Results
+
+const NUMBER_TYPES = new Set([20, 21, 23, 700, 701, 1700]); // int8, int2, int4, float4, float8, numeric
+const INTEGER_TYPES = new Set([20, 21, 23]);
+
+function columnType(dataTypeID: number): ColumnType {
+  if (INTEGER_TYPES.has(dataTypeID)) return "integer";
+  if (NUMBER_TYPES.has(dataTypeID)) return "decimal";
+  if (dataTypeID === 16) return "boolean";
+  if (dataTypeID === 1082) return "date";
+  if (dataTypeID === 1114 || dataTypeID === 1184) return "datetime";
+  return "text";
+}
+
+// Values arrive as text so dates keep their calendar day whatever the server's timezone
+function parseValue(value: string | null, dataTypeID: number): unknown {
+  if (value === null) return null;
+  if (NUMBER_TYPES.has(dataTypeID)) return Number(value);
+  if (dataTypeID === 16) return value === "t";
+  if (dataTypeID === 1114) return new Date(`${value.replace(" ", "T")}Z`).toISOString();
+  if (dataTypeID === 1184) return new Date(value.replace(" ", "T").replace(/([-+]\d{2})$/, "$1:00")).toISOString();
+  if (dataTypeID === 114 || dataTypeID === 3802) return JSON.parse(value); // json, jsonb
+  return value;
+}
+
+const rawText = { getTypeParser: () => (value: string) => value };
+
+export async function runSandboxQuery(sql: string, tables: SandboxTable[]): Promise<SqlResult> {
+  const used = validateSandboxQuery(sql, tables);
+  const statement = sql.trim().replace(/(\s*;)+$/, "");
+  // The line break keeps a trailing -- comment from swallowing the wrapper
+  const wrapped = `SELECT * FROM (
+${statement}
+) AS sandbox_result LIMIT ${SQL_ROW_CAP + 1}`;
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    await client.query(`SET LOCAL statement_timeout = ${SQL_TIMEOUT_MS}`);
+    await client.query("SET LOCAL TIME ZONE 'UTC'");
+    // Unqualified names only find the views, never the application's tables
+    await client.query("SET LOCAL search_path = pg_temp, pg_catalog");
+    // The views go with the transaction when it's rolled back
+    for (const table of used) {
+      await client.query(tableView(table));
+      await client.query(`GRANT SELECT ON ${quoteIdentifier(table.name)} TO ${quoteIdentifier(SANDBOX_ROLE)}`);
+    }
+    try {
+      await client.query(`SET LOCAL ROLE ${quoteIdentifier(SANDBOX_ROLE)}`);
+    } catch (error: any) {
+      throw new Error(`The SQL sandbox can't run as ${SANDBOX_ROLE}: ${error.message}`);
+    }
+    await client.query("SET LOCAL transaction_read_only = on");
+    const result = await client.query({ text: wrapped, types: rawText });
+    const columns: SqlColumn[] = result.fields.map(field => ({ name: field.name, type: columnType(field.dataTypeID) }));
+    const rows = result.rows.slice(0, SQL_ROW_CAP).map(row => Object.fromEntries(
+      result.fields.map(field => [field.name, parseValue(row[field.name], field.dataTypeID)]),
+    ));
+    return { sql: statement, columns, rows, truncated: result.rows.length > SQL_ROW_CAP };
+  } catch (error: any) {
+    if (error instanceof IngestError) throw error;
+    if (error?.code === "57014") {
+      throw new SqlSandboxError(`Query took longer than ${SQL_TIMEOUT_MS / 1000} seconds`);
+    }
+    // Postgres errors (syntax, unknown columns, bad casts) are the query's fault
+    if (typeof error?.code === "string" && /^(22|42)/.test(error.code)) {
+      throw new SqlSandboxError(error.message);
+    }
+    throw error;
+  } finally {
+    await client.query("ROLLBACK").catch(() => {});
+    client.release();
+  }
+}
@@ -16,6 +16,15 @@ import {
   type InsertDashboard,
   type DataSource,
   type InsertDataSource,
+  dataSourceRows,
+  type DataSourceRow,
+  dataSourceVersions,
+  type DataSourceVersion,
+  type InsertDataSourceVersion,
+  type DataSourceVersionWithUploader,
+  dataSourceRefreshRuns,
+  type DataSourceRefreshRun,
+  type InsertDataSourceRefreshRun,
   type DashboardComponent,
   type InsertDashboardComponent,
   blocks,
@@ -30,11 +39,54 @@ import {
   epesiMessages,
   type EpesiMessage,
   type InsertEpesiMessage,
+  semanticMetrics,
+  type SemanticMetric,
+  type InsertSemanticMetric,
+  semanticDimensions,
+  type SemanticDimension,
+  type InsertSemanticDimension,
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, and, desc, asc } from "drizzle-orm";
+import { db, type Database } from "./db";
+import { eq, and, desc, asc, count, gt, inArray, isNotNull, isNull, lt, lte, sql, type SQL } from "drizzle-orm";
+
+// Rows are inserted in chunks to stay well under Postgres' bind parameter limit
+const ROW_INSERT_BATCH_SIZE = 500;
+// Rows fetched at a time from a cursor
+const ROW_CURSOR_BATCH_SIZE = 1000;
+
+function rowsOf(dataSourceId: number, versionId: number | null): SQL | undefined {
+  return and(
+    eq(dataSourceRows.dataSourceId, dataSourceId),
+    versionId === null ? isNull(dataSourceRows.versionId) : eq(dataSourceRows.versionId, versionId),
+  );
+}
+
+export interface RowPage {
+  offset: number;
+  limit: number;
+  orderBy?: SQL; // Ties keep the stored row order
+  filter?: string; // Rows where any cell contains the text, ignoring case
+  where?: SQL; // Further conditions on the stored rows
+}
+
+function rowPageWhere(dataSourceId: number, versionId: number | null, page: Pick<RowPage, "filter" | "where">): SQL | undefined {
+  return and(
+    rowsOf(dataSourceId, versionId),
+    page.filter
+      ? sql`EXISTS (SELECT 1 FROM jsonb_each_text(${dataSourceRows.data}) AS cell WHERE strpos(lower(cell.value), lower(${page.filter})) > 0)`
+      : undefined,
+    page.where,
+  );
+}
+
+export interface ValueCount {
+  value: string;
+  count: number;
+}
 
 export interface IStorage {
+  transaction<T>(fn: (storage: IStorage) => Promise<T>): Promise<T>;
+
   // User operations
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
@@ -46,7 +98,9 @@ export interface IStorage {
   getOrganization(id: number): Promise<Organization | undefined>;
   getOrganizationBySlug(slug: string): Promise<Organization | undefined>;
   getUserOrganizations(userId: string): Promise<Organization[]>;
+  updateOrganization(id: number, updates: Partial<InsertOrganization>): Promise<Organization | undefined>;
   addUserToOrganization(organizationId: number, userId: string, role: string): Promise<void>;
+  getOrganizationRole(organizationId: number, userId: string): Promise<string | undefined>;
 
   // Project operations
   createProject(project: InsertProject): Promise<Project>;
@@ -65,10 +119,51 @@ export interface IStorage {
   // Data source operations
   createDataSource(dataSource: InsertDataSource): Promise<DataSource>;
   getDataSource(id: number): Promise<DataSource | undefined>;
+  lockDataSource(id: number): Promise<DataSource | undefined>;
   getDataSourcesByOrganization(organizationId: number): Promise<DataSource[]>;
   updateDataSource(id: number, updates: Partial<InsertDataSource>): Promise<DataSource | undefined>;
   deleteDataSource(id: number): Promise<void>;
 
+  // Data source row operations. A null versionId addresses the rows of sources
+  // created before versioning.
+  createDataSourceRows(dataSourceId: number, versionId: number | null, rows: Record<string, unknown>[], startIndex?: number): Promise<void>;
+  getDataSourceRows(dataSourceId: number, versionId: number | null, offset?: number, limit?: number): Promise<DataSourceRow[]>;
+  getDataSourceRowsAfter(dataSourceId: number, versionId: number | null, afterIndex: number, limit: number): Promise<DataSourceRow[]>;
+  countDataSourceRows(dataSourceId: number, versionId: number | null): Promise<number>;
+  getDataSourceRowPage(dataSourceId: number, versionId: number | null, page: RowPage): Promise<{ rows: DataSourceRow[]; total: number }>;
+  forEachDataSourceRowBatch(dataSourceId: number, versionId: number | null, page: Omit<RowPage, "offset" | "limit">, onBatch: (rows: Record<string, unknown>[]) => Promise<void>): Promise<void>;
+  getDataSourceValueRange(dataSourceId: number, versionId: number | null, value: SQL, where?: SQL): Promise<{ min: number | null; max: number | null }>;
+  countDataSourceValues(dataSourceId: number, versionId: number | null, value: SQL, limit?: number): Promise<{ counts: ValueCount[]; total: number }>;
+  copyDataSourceRows(dataSourceId: number, fromVersionId: number | null, toVersionId: number): Promise<void>;
+  deleteDataSourceRows(dataSourceId: number): Promise<void>;
+
+  // Data source version operations
+  createDataSourceVersion(version: InsertDataSourceVersion): Promise<DataSourceVersion>;
+  getDataSourceVersion(id: number): Promise<DataSourceVersion | undefined>;
+  getDataSourceVersions(dataSourceId: number): Promise<DataSourceVersionWithUploader[]>;
+  updateDataSourceVersion(id: number, updates: Partial<InsertDataSourceVersion>): Promise<DataSourceVersion | undefined>;
+
+  // Data source refresh operations
+  getDueDataSources(now: Date): Promise<DataSource[]>;
+  claimDataSourceRefresh(id: number, dueAt: Date, nextRefreshAt: Date | null): Promise<boolean>;
+  createRefreshRun(run: InsertDataSourceRefreshRun): Promise<DataSourceRefreshRun>;
+  updateRefreshRun(id: number, updates: Partial<InsertDataSourceRefreshRun>): Promise<DataSourceRefreshRun | undefined>;
+  getRefreshRuns(dataSourceId: number, limit: number): Promise<DataSourceRefreshRun[]>;
+  getLatestRefreshRuns(dataSourceIds: number[]): Promise<DataSourceRefreshRun[]>;
+  failInterruptedRefreshRuns(staleBefore: Date): Promise<void>;
+
+  // Semantic layer operations
+  createSemanticMetric(metric: InsertSemanticMetric): Promise<SemanticMetric>;
+  getSemanticMetric(id: number): Promise<SemanticMetric | undefined>;
+  getSemanticMetrics(organizationId: number): Promise<SemanticMetric[]>;
+  updateSemanticMetric(id: number, updates: Partial<InsertSemanticMetric>): Promise<SemanticMetric | undefined>;
+  deleteSemanticMetric(id: number): Promise<void>;
+  createSemanticDimension(dimension: InsertSemanticDimension): Promise<SemanticDimension>;
+  getSemanticDimension(id: number): Promise<SemanticDimension | undefined>;
+  getSemanticDimensions(organizationId: number): Promise<SemanticDimension[]>;
+  updateSemanticDimension(id: number, updates: Partial<InsertSemanticDimension>): Promise<SemanticDimension | undefined>;
+  deleteSemanticDimension(id: number): Promise<void>;
+
   // Dashboard component operations
   createDashboardComponent(component: InsertDashboardComponent): Promise<DashboardComponent>;
   getDashboardComponents(dashboardId: number): Promise<DashboardComponent[]>;
@@ -102,19 +197,26 @@ export interface IStorage {
 }
 
 export class DatabaseStorage implements IStorage {
+  constructor(private readonly db: Database) {}
+
+  // Runs fn with a storage whose reads and writes all commit or roll back together
+  async transaction<T>(fn: (storage: IStorage) => Promise<T>): Promise<T> {
+    return await this.db.transaction(tx => fn(new DatabaseStorage(tx)));
+  }
+
   // User operations
   async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user;
   }
 
   async getUserByEmail(email: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.email, email));
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
     return user;
   }
 
   async createUser(userData: UpsertUser): Promise<User> {
-    const [user] = await db
+    const [user] = await this.db
       .insert(users)
       .values(userData)
       .returning();
@@ -122,7 +224,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async upsertUser(userData: UpsertUser): Promise<User> {
-    const [user] = await db
+    const [user] = await this.db
       .insert(users)
       .values(userData)
       .onConflictDoUpdate({
@@ -138,7 +240,7 @@ export class DatabaseStorage implements IStorage {
 
   // Organization operations
   async createOrganization(org: InsertOrganization): Promise<Organization> {
-    const [organization] = await db
+    const [organization] = await this.db
       .insert(organizations)
       .values(org)
       .returning();
@@ -146,7 +248,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getOrganization(id: number): Promise<Organization | undefined> {
-    const [organization] = await db
+    const [organization] = await this.db
       .select()
       .from(organizations)
       .where(eq(organizations.id, id));
@@ -154,7 +256,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getOrganizationBySlug(slug: string): Promise<Organization | undefined> {
-    const [organization] = await db
+    const [organization] = await this.db
       .select()
       .from(organizations)
       .where(eq(organizations.slug, slug));
@@ -162,7 +264,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getUserOrganizations(userId: string): Promise<Organization[]> {
-    const result = await db
+    const result = await this.db
       .select({
         id: organizations.id,
         name: organizations.name,
@@ -170,6 +272,8 @@ export class DatabaseStorage implements IStorage {
         domain: organizations.domain,
         description: organizations.description,
         ownerId: organizations.ownerId,
+        rowLimit: organizations.rowLimit,
+        aiProvider: organizations.aiProvider,
         createdAt: organizations.createdAt,
         updatedAt: organizations.updatedAt,
       })
@@ -179,8 +283,17 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
+  async updateOrganization(id: number, updates: Partial<InsertOrganization>): Promise<Organization | undefined> {
+    const [updatedOrganization] = await this.db
+      .update(organizations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(organizations.id, id))
+      .returning();
+    return updatedOrganization;
+  }
+
   async addUserToOrganization(organizationId: number, userId: string, role: string): Promise<void> {
-    await db
+    await this.db
       .insert(organizationMemberships)
       .values({
         organizationId,
@@ -189,9 +302,20 @@ export class DatabaseStorage implements IStorage {
       });
   }
 
+  async getOrganizationRole(organizationId: number, userId: string): Promise<string | undefined> {
+    const [membership] = await this.db
+      .select({ role: organizationMemberships.role })
+      .from(organizationMemberships)
+      .where(and(
+        eq(organizationMemberships.organizationId, organizationId),
+        eq(organizationMemberships.userId, userId),
+      ));
+    return membership?.role;
+  }
+
   // Project operations
   async createProject(project: InsertProject): Promise<Project> {
-    const [newProject] = await db
+    const [newProject] = await this.db
       .insert(projects)
       .values(project)
       .returning();
@@ -199,7 +323,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getProject(id: number): Promise<Project | undefined> {
-    const [project] = await db
+    const [project] = await this.db
       .select()
       .from(projects)
       .where(eq(projects.id, id));
@@ -207,7 +331,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getProjectsByOrganization(organizationId: number): Promise<Project[]> {
-    const result = await db
+    const result = await this.db
       .select()
       .from(projects)
       .where(eq(projects.organizationId, organizationId))
@@ -216,7 +340,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateProject(id: number, updates: Partial<InsertProject>): Promise<Project | undefined> {
-    const [updatedProject] = await db
+    const [updatedProject] = await this.db
       .update(projects)
       .set({ ...updates, updatedAt: new Date() })
       .where(eq(projects.id, id))
@@ -225,12 +349,12 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteProject(id: number): Promise<void> {
-    await db.delete(projects).where(eq(projects.id, id));
+    await this.db.delete(projects).where(eq(projects.id, id));
   }
 
   // Dashboard operations
   async createDashboard(dashboard: InsertDashboard): Promise<Dashboard> {
-    const [newDashboard] = await db
+    const [newDashboard] = await this.db
       .insert(dashboards)
       .values(dashboard)
       .returning();
@@ -239,7 +363,7 @@ export class DatabaseStorage implements IStorage {
 
   async getDashboard(id: number): Promise<Dashboard | undefined> {
     console.log("DatabaseStorage.getDashboard called with id:", id, "type:", typeof id);
-    const [dashboard] = await db
+    const [dashboard] = await this.db
       .select()
       .from(dashboards)
       .where(eq(dashboards.id, id));
@@ -248,7 +372,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getDashboardsByProject(projectId: number): Promise<Dashboard[]> {
-    const result = await db
+    const result = await this.db
       .select()
       .from(dashboards)
       .where(eq(dashboards.projectId, projectId))
@@ -257,7 +381,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateDashboard(id: number, updates: Partial<InsertDashboard>): Promise<Dashboard | undefined> {
-    const [updatedDashboard] = await db
+    const [updatedDashboard] = await this.db
       .update(dashboards)
       .set({ ...updates, updatedAt: new Date() })
       .where(eq(dashboards.id, id))
@@ -266,12 +390,12 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteDashboard(id: number): Promise<void> {
-    await db.delete(dashboards).where(eq(dashboards.id, id));
+    await this.db.delete(dashboards).where(eq(dashboards.id, id));
   }
 
   // Data source operations
   async createDataSource(dataSource: InsertDataSource): Promise<DataSource> {
-    const [newDataSource] = await db
+    const [newDataSource] = await this.db
       .insert(dataSources)
       .values(dataSource)
       .returning();
@@ -279,15 +403,25 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getDataSource(id: number): Promise<DataSource | undefined> {
-    const [dataSource] = await db
+    const [dataSource] = await this.db
       .select()
       .from(dataSources)
       .where(eq(dataSources.id, id));
     return dataSource;
   }
 
+  // Reads the data source and holds its row until the transaction ends
+  async lockDataSource(id: number): Promise<DataSource | undefined> {
+    const [dataSource] = await this.db
+      .select()
+      .from(dataSources)
+      .where(eq(dataSources.id, id))
+      .for("update");
+    return dataSource;
+  }
+
   async getDataSourcesByOrganization(organizationId: number): Promise<DataSource[]> {
-    const result = await db
+    const result = await this.db
       .select()
       .from(dataSources)
       .where(eq(dataSources.organizationId, organizationId))
@@ -296,7 +430,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateDataSource(id: number, updates: Partial<InsertDataSource>): Promise<DataSource | undefined> {
-    const [updatedDataSource] = await db
+    const [updatedDataSource] = await this.db
       .update(dataSources)
       .set({ ...updates, updatedAt: new Date() })
       .where(eq(dataSources.id, id))
@@ -305,12 +439,326 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteDataSource(id: number): Promise<void> {
-    await db.delete(dataSources).where(eq(dataSources.id, id));
+    await this.db.delete(dataSources).where(eq(dataSources.id, id));
+  }
+
+  // Data source row operations
+  async createDataSourceRows(
+    dataSourceId: number,
+    versionId: number | null,
+    rows: Record<string, unknown>[],
+    startIndex = 0,
+  ): Promise<void> {
+    for (let i = 0; i < rows.length; i += ROW_INSERT_BATCH_SIZE) {
+      const batch = rows.slice(i, i + ROW_INSERT_BATCH_SIZE).map((data, j) => ({
+        dataSourceId,
+        versionId,
+        rowIndex: startIndex + i + j,
+        data,
+      }));
+      await this.db.insert(dataSourceRows).values(batch);
+    }
+  }
+
+  async getDataSourceRows(dataSourceId: number, versionId: number | null, offset = 0, limit?: number): Promise<DataSourceRow[]> {
+    const query = this.db
+      .select()
+      .from(dataSourceRows)
+      .where(rowsOf(dataSourceId, versionId))
+      .orderBy(asc(dataSourceRows.rowIndex))
+      .offset(offset);
+    return limit === undefined ? await query : await query.limit(limit);
+  }
+
+  // The next rows after a row index, for reading a version through in batches
+  // without OFFSET skipping over every earlier row again
+  async getDataSourceRowsAfter(dataSourceId: number, versionId: number | null, afterIndex: number, limit: number): Promise<DataSourceRow[]> {
+    return this.db
+      .select()
+      .from(dataSourceRows)
+      .where(and(rowsOf(dataSourceId, versionId), gt(dataSourceRows.rowIndex, afterIndex)))
+      .orderBy(asc(dataSourceRows.rowIndex))
+      .limit(limit);
+  }
+
+  async countDataSourceRows(dataSourceId: number, versionId: number | null): Promise<number> {
+    const [result] = await this.db
+      .select({ count: count() })
+      .from(dataSourceRows)
+      .where(rowsOf(dataSourceId, versionId));
+    return result?.count ?? 0;
+  }
+
+  async getDataSourceRowPage(dataSourceId: number, versionId: number | null, page: RowPage): Promise<{ rows: DataSourceRow[]; total: number }> {
+    const where = rowPageWhere(dataSourceId, versionId, page);
+    const [rows, [result]] = await Promise.all([
+      this.db
+        .select()
+        .from(dataSourceRows)
+        .where(where)
+        .orderBy(...(page.orderBy ? [page.orderBy] : []), asc(dataSourceRows.rowIndex))
+        .offset(page.offset)
+        .limit(page.limit),
+      this.db.select({ count: count() }).from(dataSourceRows).where(where),
+    ]);
+    return { rows, total: result?.count ?? 0 };
+  }
+
+  // Every row of a page query without the page, handed over batch by batch
+  // from a cursor so they are never all held at once
+  async forEachDataSourceRowBatch(
+    dataSourceId: number,
+    versionId: number | null,
+    page: Omit<RowPage, "offset" | "limit">,
+    onBatch: (rows: Record<string, unknown>[]) => Promise<void>,
+  ): Promise<void> {
+    const query = this.db
+      .select({ data: dataSourceRows.data })
+      .from(dataSourceRows)
+      .where(rowPageWhere(dataSourceId, versionId, page))
+      .orderBy(...(page.orderBy ? [page.orderBy] : []), asc(dataSourceRows.rowIndex));
+    await this.db.transaction(async tx => {
+      await tx.execute(sql`DECLARE data_source_rows_cursor NO SCROLL CURSOR FOR ${query}`);
+      while (true) {
+        const { rows } = await tx.execute(sql.raw(`FETCH ${ROW_CURSOR_BATCH_SIZE} FROM data_source_rows_cursor`));
+        if (rows.length > 0) {
+          await onBatch(rows.map(row => row.data as Record<string, unknown>));
+        }
+        if (rows.length < ROW_CURSOR_BATCH_SIZE) return;
+      }
+    });
+  }
+
+  // Lowest and highest of a numeric expression over the stored rows
+  async getDataSourceValueRange(dataSourceId: number, versionId: number | null, value: SQL, where?: SQL): Promise<{ min: number | null; max: number | null }> {
+    const [result] = await this.db
+      .select({
+        min: sql<number | null>`min(${value})`.mapWith(Number),
+        max: sql<number | null>`max(${value})`.mapWith(Number),
+      })
+      .from(dataSourceRows)
+      .where(and(rowsOf(dataSourceId, versionId), where));
+    return { min: result?.min ?? null, max: result?.max ?? null };
+  }
+
+  // How often each value of an expression occurs, the most frequent first.
+  // Nulls are left out; the total counts every other value, including those
+  // past the limit.
+  async countDataSourceValues(dataSourceId: number, versionId: number | null, value: SQL, limit?: number): Promise<{ counts: ValueCount[]; total: number }> {
+    const query = this.db
+      .select({
+        value: sql<string>`(${value})::text`,
+        count: count(),
+        total: sql<number>`sum(count(*)) OVER ()`.mapWith(Number),
+      })
+      .from(dataSourceRows)
+      .where(and(rowsOf(dataSourceId, versionId), sql`(${value}) IS NOT NULL`))
+      .groupBy(sql`1`)
+      .orderBy(desc(count()), sql`min(${dataSourceRows.rowIndex})`);
+    const rows = limit === undefined ? await query : await query.limit(limit);
+    return { counts: rows.map(({ value, count }) => ({ value, count })), total: rows[0]?.total ?? 0 };
+  }
+
+  // Copies rows between versions with a single INSERT ... SELECT
+  async copyDataSourceRows(dataSourceId: number, fromVersionId: number | null, toVersionId: number): Promise<void> {
+    await this.db.execute(sql`
+      INSERT INTO data_source_rows (data_source_id, version_id, row_index, data)
+      SELECT data_source_id, ${toVersionId}::integer, row_index, data
+      FROM data_source_rows
+      WHERE ${rowsOf(dataSourceId, fromVersionId)}
+    `);
+  }
+
+  async deleteDataSourceRows(dataSourceId: number): Promise<void> {
+    await this.db.delete(dataSourceRows).where(eq(dataSourceRows.dataSourceId, dataSourceId));
+  }
+
+  // Data source version operations
+  async createDataSourceVersion(version: InsertDataSourceVersion): Promise<DataSourceVersion> {
+    const [newVersion] = await this.db
+      .insert(dataSourceVersions)
+      .values(version)
+      .returning();
+    return newVersion;
+  }
+
+  async getDataSourceVersion(id: number): Promise<DataSourceVersion | undefined> {
+    const [version] = await this.db
+      .select()
+      .from(dataSourceVersions)
+      .where(eq(dataSourceVersions.id, id));
+    return version;
+  }
+
+  async getDataSourceVersions(dataSourceId: number): Promise<DataSourceVersionWithUploader[]> {
+    const result = await this.db
+      .select({
+        version: dataSourceVersions,
+        uploadedBy: {
+          id: users.id,
+          email: users.email,
+          firstName: users.firstName,
+          lastName: users.lastName,
+        },
+      })
+      .from(dataSourceVersions)
+      .leftJoin(users, eq(dataSourceVersions.uploadedById, users.id))
+      .where(eq(dataSourceVersions.dataSourceId, dataSourceId))
+      .orderBy(desc(dataSourceVersions.version));
+    return result.map(({ version, uploadedBy }) => ({ ...version, uploadedBy }));
+  }
+
+  async updateDataSourceVersion(id: number, updates: Partial<InsertDataSourceVersion>): Promise<DataSourceVersion | undefined> {
+    const [updatedVersion] = await this.db
+      .update(dataSourceVersions)
+      .set(updates)
+      .where(eq(dataSourceVersions.id, id))
+      .returning();
+    return updatedVersion;
+  }
+
+  // Data source refresh operations
+  async getDueDataSources(now: Date): Promise<DataSource[]> {
+    return await this.db
+      .select()
+      .from(dataSources)
+      .where(and(isNotNull(dataSources.refreshSchedule), lte(dataSources.nextRefreshAt, now)))
+      .orderBy(asc(dataSources.nextRefreshAt));
+  }
+
+  // Moves the due time forward only if no other server already did, so each
+  // scheduled refresh runs once even with several instances polling
+  async claimDataSourceRefresh(id: number, dueAt: Date, nextRefreshAt: Date | null): Promise<boolean> {
+    const claimed = await this.db
+      .update(dataSources)
+      .set({ nextRefreshAt })
+      .where(and(eq(dataSources.id, id), eq(dataSources.nextRefreshAt, dueAt)))
+      .returning({ id: dataSources.id });
+    return claimed.length > 0;
+  }
+
+  async createRefreshRun(run: InsertDataSourceRefreshRun): Promise<DataSourceRefreshRun> {
+    const [newRun] = await this.db
+      .insert(dataSourceRefreshRuns)
+      .values(run)
+      .returning();
+    return newRun;
+  }
+
+  async updateRefreshRun(id: number, updates: Partial<InsertDataSourceRefreshRun>): Promise<DataSourceRefreshRun | undefined> {
+    const [updatedRun] = await this.db
+      .update(dataSourceRefreshRuns)
+      .set(updates)
+      .where(eq(dataSourceRefreshRuns.id, id))
+      .returning();
+    return updatedRun;
+  }
+
+  async getRefreshRuns(dataSourceId: number, limit: number): Promise<DataSourceRefreshRun[]> {
+    return await this.db
+      .select()
+      .from(dataSourceRefreshRuns)
+      .where(eq(dataSourceRefreshRuns.dataSourceId, dataSourceId))
+      .orderBy(desc(dataSourceRefreshRuns.startedAt))
+      .limit(limit);
+  }
+
+  // The most recent run of each of the given data sources
+  async getLatestRefreshRuns(dataSourceIds: number[]): Promise<DataSourceRefreshRun[]> {
+    if (dataSourceIds.length === 0) return [];
+    return await this.db
+      .selectDistinctOn([dataSourceRefreshRuns.dataSourceId])
+      .from(dataSourceRefreshRuns)
+      .where(inArray(dataSourceRefreshRuns.dataSourceId, dataSourceIds))
+      .orderBy(dataSourceRefreshRuns.dataSourceId, desc(dataSourceRefreshRuns.startedAt));
+  }
+
+  // Running runs whose heartbeat stopped before staleBefore died with their server
+  async failInterruptedRefreshRuns(staleBefore: Date): Promise<void> {
+    await this.db
+      .update(dataSourceRefreshRuns)
+      .set({ status: "error", error: "Interrupted: the server running it stopped", finishedAt: new Date() })
+      .where(and(eq(dataSourceRefreshRuns.status, "running"), lt(dataSourceRefreshRuns.heartbeatAt, staleBefore)));
+  }
+
+  // Semantic layer operations
+  async createSemanticMetric(metric: InsertSemanticMetric): Promise<SemanticMetric> {
+    const [newMetric] = await this.db
+      .insert(semanticMetrics)
+      .values(metric)
+      .returning();
+    return newMetric;
+  }
+
+  async getSemanticMetric(id: number): Promise<SemanticMetric | undefined> {
+    const [metric] = await this.db
+      .select()
+      .from(semanticMetrics)
+      .where(eq(semanticMetrics.id, id));
+    return metric;
+  }
+
+  async getSemanticMetrics(organizationId: number): Promise<SemanticMetric[]> {
+    return await this.db
+      .select()
+      .from(semanticMetrics)
+      .where(eq(semanticMetrics.organizationId, organizationId))
+      .orderBy(asc(semanticMetrics.name));
+  }
+
+  async updateSemanticMetric(id: number, updates: Partial<InsertSemanticMetric>): Promise<SemanticMetric | undefined> {
+    const [updatedMetric] = await this.db
+      .update(semanticMetrics)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(semanticMetrics.id, id))
+      .returning();
+    return updatedMetric;
+  }
+
+  async deleteSemanticMetric(id: number): Promise<void> {
+    await this.db.delete(semanticMetrics).where(eq(semanticMetrics.id, id));
+  }
+
+  async createSemanticDimension(dimension: InsertSemanticDimension): Promise<SemanticDimension> {
+    const [newDimension] = await this.db
+      .insert(semanticDimensions)
+      .values(dimension)
+      .returning();
+    return newDimension;
+  }
+
+  async getSemanticDimension(id: number): Promise<SemanticDimension | undefined> {
+    const [dimension] = await this.db
+      .select()
+      .from(semanticDimensions)
+      .where(eq(semanticDimensions.id, id));
+    return dimension;
+  }
+
+  async getSemanticDimensions(organizationId: number): Promise<SemanticDimension[]> {
+    return await this.db
+      .select()
+      .from(semanticDimensions)
+      .where(eq(semanticDimensions.organizationId, organizationId))
+      .orderBy(asc(semanticDimensions.name));
+  }
+
+  async updateSemanticDimension(id: number, updates: Partial<InsertSemanticDimension>): Promise<SemanticDimension | undefined> {
+    const [updatedDimension] = await this.db
+      .update(semanticDimensions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(semanticDimensions.id, id))
+      .returning();
+    return updatedDimension;
+  }
+
+  async deleteSemanticDimension(id: number): Promise<void> {
+    await this.db.delete(semanticDimensions).where(eq(semanticDimensions.id, id));
   }
 
   // Dashboard component operations
   async createDashboardComponent(component: InsertDashboardComponent): Promise<DashboardComponent> {
-    const [newComponent] = await db
+    const [newComponent] = await this.db
       .insert(dashboardComponents)
       .values(component)
       .returning();
@@ -318,7 +766,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getDashboardComponents(dashboardId: number): Promise<DashboardComponent[]> {
-    const result = await db
+    const result = await this.db
       .select()
       .from(dashboardComponents)
       .where(eq(dashboardComponents.dashboardId, dashboardId));
@@ -326,7 +774,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateDashboardComponent(id: number, updates: Partial<InsertDashboardComponent>): Promise<DashboardComponent | undefined> {
-    const [updatedComponent] = await db
+    const [updatedComponent] = await this.db
       .update(dashboardComponents)
       .set({ ...updates, updatedAt: new Date() })
       .where(eq(dashboardComponents.id, id))
@@ -335,12 +783,12 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteDashboardComponent(id: number): Promise<void> {
-    await db.delete(dashboardComponents).where(eq(dashboardComponents.id, id));
+    await this.db.delete(dashboardComponents).where(eq(dashboardComponents.id, id));
   }
 
   // Block operations for AI-first dashboard builder
   async createBlock(block: InsertBlock): Promise<Block> {
-    const [createdBlock] = await db
+    const [createdBlock] = await this.db
       .insert(blocks)
       .values(block)
       .returning();
@@ -348,12 +796,12 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getBlock(id: string): Promise<Block | undefined> {
-    const [block] = await db.select().from(blocks).where(eq(blocks.id, id));
+    const [block] = await this.db.select().from(blocks).where(eq(blocks.id, id));
     return block;
   }
 
   async getBlocksByDashboard(dashboardId: number): Promise<Block[]> {
-    return await db
+    return await this.db
       .select()
       .from(blocks)
       .where(eq(blocks.dashboardId, dashboardId))
@@ -361,7 +809,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateBlock(id: string, updates: Partial<InsertBlock>): Promise<Block | undefined> {
-    const [updatedBlock] = await db
+    const [updatedBlock] = await this.db
       .update(blocks)
       .set({ ...updates, updatedAt: new Date() })
       .where(eq(blocks.id, id))
@@ -370,12 +818,12 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteBlock(id: string): Promise<void> {
-    await db.delete(blocks).where(eq(blocks.id, id));
+    await this.db.delete(blocks).where(eq(blocks.id, id));
   }
 
   async reorderBlocks(dashboardId: number, blockOrder: string[]): Promise<void> {
     for (let i = 0; i < blockOrder.length; i++) {
-      await db
+      await this.db
         .update(blocks)
         .set({ position: i })
         .where(and(eq(blocks.id, blockOrder[i]), eq(blocks.dashboardId, dashboardId)));
@@ -384,7 +832,7 @@ export class DatabaseStorage implements IStorage {
 
   // Block chat history operations
   async createBlockChatHistory(chatHistory: InsertBlockChatHistory): Promise<BlockChatHistory> {
-    const [newChatHistory] = await db
+    const [newChatHistory] = await this.db
       .insert(blockChatHistory)
       .values(chatHistory)
       .returning();
@@ -392,7 +840,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getBlockChatHistory(blockId: string): Promise<BlockChatHistory[]> {
-    return await db
+    return await this.db
       .select()
       .from(blockChatHistory)
       .where(eq(blockChatHistory.blockId, blockId))
@@ -400,12 +848,12 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteBlockChatHistory(id: string): Promise<void> {
-    await db.delete(blockChatHistory).where(eq(blockChatHistory.id, id));
+    await this.db.delete(blockChatHistory).where(eq(blockChatHistory.id, id));
   }
 
   // Epesi conversation operations
   async createEpesiConversation(conversation: InsertEpesiConversation): Promise<EpesiConversation> {
-    const [newConversation] = await db
+    const [newConversation] = await this.db
       .insert(epesiConversations)
       .values(conversation)
       .returning();
@@ -413,7 +861,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getEpesiConversation(id: string): Promise<EpesiConversation | undefined> {
-    const [conversation] = await db
+    const [conversation] = await this.db
       .select()
       .from(epesiConversations)
       .where(eq(epesiConversations.id, id));
@@ -421,7 +869,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getEpesiConversations(dashboardId: number): Promise<EpesiConversation[]> {
-    const result = await db
+    const result = await this.db
       .select()
       .from(epesiConversations)
       .where(eq(epesiConversations.dashboardId, dashboardId))
@@ -430,7 +878,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateEpesiConversation(id: string, updates: Partial<InsertEpesiConversation>): Promise<EpesiConversation | undefined> {
-    const [updatedConversation] = await db
+    const [updatedConversation] = await this.db
       .update(epesiConversations)
       .set({ ...updates, updatedAt: new Date() })
       .where(eq(epesiConversations.id, id))
@@ -439,12 +887,12 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteEpesiConversation(id: string): Promise<void> {
-    await db.delete(epesiConversations).where(eq(epesiConversations.id, id));
+    await this.db.delete(epesiConversations).where(eq(epesiConversations.id, id));
   }
 
   // Epesi message operations
   async createEpesiMessage(message: InsertEpesiMessage): Promise<EpesiMessage> {
-    const [newMessage] = await db
+    const [newMessage] = await this.db
       .insert(epesiMessages)
       .values(message)
       .returning();
@@ -452,7 +900,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getEpesiMessages(conversationId: string): Promise<EpesiMessage[]> {
-    const result = await db
+    const result = await this.db
       .select()
       .from(epesiMessages)
       .where(eq(epesiMessages.conversationId, conversationId))
@@ -461,8 +909,8 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteEpesiMessage(id: string): Promise<void> {
-    await db.delete(epesiMessages).where(eq(epesiMessages.id, id));
+    await this.db.delete(epesiMessages).where(eq(epesiMessages.id, id));
   }
 }
 
-export const storage = new DatabaseStorage();
+export const storage = new DatabaseStorage(db);
@@ -0,0 +1,172 @@
+import type { ColumnSchema, DataSource, QueryFilter, TableColumn, TablePage, TableView } from "@shared/schema";
+import { and, sql, type SQL } from "drizzle-orm";
+import {
+  forEachDataSourceRowBatch,
+  getFieldSchema,
+  isNumericColumn,
+  loadFieldRows,
+  pageDataSourceRows,
+  pageRows,
+  type DataRow,
+} from "./datasets";
+import { compileFilter, filterCondition, QueryError, runCachedQuery } from "./query-engine";
+import { coerceValue } from "./schema-inference";
+import { storage } from "./storage";
+import { cellExpression } from "./cell-sql";
+
+// The rows behind a table block: a data source's own rows, or the result of a
+// query over it. Column filters and the sort apply to the whole view before a
+// page is cut from it, and numeric columns report their range over the view so
+// color scales and data bars look the same on every page. A data source's rows
+// are filtered, sorted, paged and measured in SQL, and exported batch by batch;
+// views that filter or sort by a calculated field, or show the range of one,
+// need every row and are worked out in memory, as are query results.
+
+interface ResolvedView {
+  available: TableColumn[];
+  columns: TableColumn[]; // The shown columns
+  filters: { filter: QueryFilter; column: TableColumn }[];
+}
+
+function resolveView(available: TableColumn[], view: TableView): ResolvedView {
+  const columnOf = (name: string) => {
+    const column = available.find(c => c.name === name);
+    if (!column) throw new QueryError(`Unknown column: ${name}`);
+    return column;
+  };
+
+  const columns = view.columns.length > 0 ? view.columns.map(columnOf) : available;
+  const filters = view.filters.map(filter => ({ filter, column: columnOf(filter.column) }));
+  if (view.sort) columnOf(view.sort.column);
+  return { available, columns, filters };
+}
+
+// The data source's columns and the view over them, unless the view needs every
+// row in memory. Export doesn't show ranges, so numeric calculated fields are
+// fine there.
+async function storedView(dataSource: DataSource, view: TableView, ranges: boolean): Promise<ResolvedView | undefined> {
+  if (view.query) return undefined;
+  const schema: ColumnSchema[] = await getFieldSchema(dataSource);
+  const resolved = resolveView(schema.map(({ name, type }) => ({ name, type })), view);
+  const calculated = (name: string) => schema.some(column => column.name === name && column.formula);
+  const inMemory = resolved.filters.some(({ column }) => calculated(column.name))
+    || (view.sort !== undefined && calculated(view.sort.column))
+    || (ranges && resolved.columns.some(column => isNumericColumn(column) && calculated(column.name)));
+  return inMemory ? undefined : resolved;
+}
+
+function whereOf(resolved: ResolvedView): SQL | undefined {
+  return and(...resolved.filters.map(({ filter, column }) => sql.raw(filterCondition(filter, column))));
+}
+
+// The whole view in memory, filtered and sorted
+async function loadView(dataSource: DataSource, view: TableView): Promise<ResolvedView & { rows: DataRow[] }> {
+  let available: TableColumn[];
+  let rows: DataRow[];
+  if (view.query) {
+    const { result } = await runCachedQuery(dataSource, view.query);
+    available = result.columns.map(({ name, type }) => ({ name, type }));
+    rows = result.rows;
+  } else {
+    const [schema, fieldRows] = await Promise.all([getFieldSchema(dataSource), loadFieldRows(dataSource)]);
+    available = schema.map(({ name, type }) => ({ name, type }));
+    rows = fieldRows;
+  }
+
+  const resolved = resolveView(available, view);
+  const filters = resolved.filters.map(({ filter, column }) => compileFilter(filter, column));
+  const filtered = filters.length > 0 ? rows.filter(row => filters.every(matches => matches(row))) : rows;
+  const { rows: sorted } = pageRows(filtered, available, { offset: 0, limit: filtered.length, sort: view.sort });
+  return { ...resolved, rows: sorted };
+}
+
+// Cells go out as their column types, e.g. "1,200" as 1200
+const pick = (row: DataRow, columns: TableColumn[]) =>
+  Object.fromEntries(columns.map(column => [column.name, coerceValue(row[column.name], column.type)]));
+
+export async function tablePage(dataSource: DataSource, view: TableView): Promise<TablePage> {
+  const stored = await storedView(dataSource, view, true);
+  if (stored) {
+    const where = whereOf(stored);
+    const [page, ranges] = await Promise.all([
+      pageDataSourceRows(dataSource, { offset: view.offset, limit: view.limit, sort: view.sort, where }),
+      storedRanges(dataSource, stored.columns, where),
+    ]);
+    return {
+      columns: stored.columns,
+      available: stored.available,
+      rows: page.rows.map(row => pick(row, stored.columns)),
+      total: page.total,
+      offset: view.offset,
+      limit: view.limit,
+      ranges,
+    };
+  }
+
+  const { available, columns, rows } = await loadView(dataSource, view);
+  const ranges: TablePage["ranges"] = {};
+  for (const column of columns.filter(isNumericColumn)) {
+    let min = Infinity;
+    let max = -Infinity;
+    for (const row of rows) {
+      const value = coerceValue(row[column.name], column.type);
+      if (typeof value !== "number") continue;
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+    if (min <= max) ranges[column.name] = { min, max };
+  }
+
+  return {
+    columns,
+    available,
+    rows: rows.slice(view.offset, view.offset + view.limit).map(row => pick(row, columns)),
+    total: rows.length,
+    offset: view.offset,
+    limit: view.limit,
+    ranges,
+  };
+}
+
+async function storedRanges(dataSource: DataSource, columns: TableColumn[], where: SQL | undefined): Promise<TablePage["ranges"]> {
+  const ranges: TablePage["ranges"] = {};
+  await Promise.all(columns.filter(isNumericColumn).map(async column => {
+    const value = sql.raw(`(${cellExpression(column.name, column.type)})::float8`);
+    const { min, max } = await storage.getDataSourceValueRange(dataSource.id, dataSource.currentVersionId, value, where);
+    if (min !== null && max !== null) ranges[column.name] = { min, max };
+  }));
+  return ranges;
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const csvLines = (rows: DataRow[], columns: TableColumn[]) =>
+  rows.map(row => columns.map(column => csvCell(coerceValue(row[column.name], column.type))).join(",") + "\r\n").join("");
+
+// Rows of an in-memory view written at a time
+const CSV_CHUNK_ROWS = 1000;
+
+// The whole view as CSV, every page of it, with the shown columns in order.
+// It is handed to write piece by piece; nothing is written when the view is
+// invalid.
+export async function writeTableCsv(dataSource: DataSource, view: TableView, write: (text: string) => Promise<void>): Promise<void> {
+  const header = (columns: TableColumn[]) => columns.map(column => csvCell(column.name)).join(",") + "\r\n";
+
+  const stored = await storedView(dataSource, view, false);
+  if (stored) {
+    const where = whereOf(stored);
+    await write(header(stored.columns));
+    await forEachDataSourceRowBatch(dataSource, { sort: view.sort, where }, rows => write(csvLines(rows, stored.columns)));
+    return;
+  }
+
+  const { columns, rows } = await loadView(dataSource, view);
+  await write(header(columns));
+  for (let i = 0; i < rows.length; i += CSV_CHUNK_ROWS) {
+    await write(csvLines(rows.slice(i, i + CSV_CHUNK_ROWS), columns));
+  }
+}
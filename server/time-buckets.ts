@@ -0,0 +1,101 @@
+import type { ColumnType, TimeBucket } from "@shared/schema";
+import { IngestError } from "./ingest";
+
+// Calendar arithmetic for bucketed query dimensions. Dates are handled as
+// UTC-midnight Date objects standing for a calendar day; date-time cells are
+// first converted to their calendar day in the query's timezone.
+
+export interface PeriodShift {
+  months: number;
+  days: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat("en-US", { timeZone: timezone, year: "numeric", month: "numeric", day: "numeric" });
+    } catch {
+      throw new IngestError(`Unknown timezone: ${timezone}`);
+    }
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+export function assertTimezone(timezone: string) {
+  formatterFor(timezone);
+}
+
+// The calendar day of an ISO date or date-time cell
+export function calendarDay(value: string, type: ColumnType, timezone: string): Date {
+  if (type === "date" || timezone === "UTC") {
+    return new Date(`${value.slice(0, 10)}T00:00:00Z`);
+  }
+  const parts = Object.fromEntries(
+    formatterFor(timezone).formatToParts(new Date(value)).map(part => [part.type, part.value]),
+  );
+  return new Date(Date.UTC(parseInt(parts.year), parseInt(parts.month) - 1, parseInt(parts.day)));
+}
+
+export function bucketStart(day: Date, bucket: TimeBucket, fiscalYearStartMonth: number): Date {
+  const year = day.getUTCFullYear();
+  const month = day.getUTCMonth();
+  // Months since the start of the fiscal year, 0-11
+  const fiscalMonth = (month - (fiscalYearStartMonth - 1) + 12) % 12;
+
+  switch (bucket) {
+    case "day":
+      return day;
+    case "week":
+      return new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS);
+    case "month":
+      return new Date(Date.UTC(year, month, 1));
+    case "quarter":
+      return new Date(Date.UTC(year, month - (fiscalMonth % 3), 1));
+    case "year":
+      return new Date(Date.UTC(year, month - fiscalMonth, 1));
+  }
+}
+
+export function formatDay(day: Date): string {
+  return day.toISOString().slice(0, 10);
+}
+
+// Adds months first, keeping the day within the target month (Jan 31 + 1 month
+// is Feb 28 or 29), then days. Time of day is kept.
+export function shiftDate(date: Date, shift: PeriodShift): Date {
+  const result = new Date(date.getTime());
+  if (shift.months !== 0) {
+    const day = result.getUTCDate();
+    result.setUTCDate(1);
+    result.setUTCMonth(result.getUTCMonth() + shift.months);
+    const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+    result.setUTCDate(Math.min(day, lastDay));
+  }
+  return new Date(result.getTime() + shift.days * DAY_MS);
+}
+
+// How far the compared period lies before the current one. Weeks compare with
+// the same weekday 52 weeks earlier rather than the same date.
+export function comparisonShift(bucket: TimeBucket, period: "previous_period" | "same_period_last_year"): PeriodShift {
+  if (period === "same_period_last_year") {
+    return bucket === "week" ? { months: 0, days: 364 } : { months: 12, days: 0 };
+  }
+  switch (bucket) {
+    case "day":
+      return { months: 0, days: 1 };
+    case "week":
+      return { months: 0, days: 7 };
+    case "month":
+      return { months: 1, days: 0 };
+    case "quarter":
+      return { months: 3, days: 0 };
+    case "year":
+      return { months: 12, days: 0 };
+  }
+}
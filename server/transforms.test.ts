@@ -0,0 +1,60 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Transform } from "@shared/schema";
+import { tableStream, type ParsedRow } from "./ingest";
+import { applyTransforms, transformColumns, transformsOf } from "./transforms";
+
+async function transformed(columns: string[], rows: ParsedRow[], transforms: Transform[]) {
+  const table = applyTransforms(tableStream({ columns, rows, delimiter: "," }), transforms);
+  const out: ParsedRow[] = [];
+  for await (const batch of table.batches) out.push(...batch);
+  return { columns: table.columns, rows: out };
+}
+
+describe("applyTransforms", () => {
+  it("replays the steps in order", async () => {
+    const result = await transformed(["name", "amount", "full"], [
+      { name: " a ", amount: "1", full: "x|y|z" },
+      { name: "a", amount: "1", full: "x|y|z" },
+      { name: "b", amount: null, full: "p" },
+    ], [
+      { kind: "trim" },
+      { kind: "drop_duplicates" },
+      { kind: "fill_nulls", column: "amount", value: 0 },
+      { kind: "split_column", column: "full", separator: "|", into: ["first", "rest"], keepOriginal: false },
+    ]);
+    assert.deepEqual(result.columns, ["name", "amount", "first", "rest"]);
+    assert.deepEqual(result.rows, [
+      { name: "a", amount: "1", first: "x", rest: "y|z" },
+      { name: "b", amount: 0, first: "p", rest: null },
+    ]);
+  });
+
+  it("leaves the table alone without steps", async () => {
+    const rows = [{ a: "1" }];
+    assert.deepEqual(await transformed(["a"], rows, []), { columns: ["a"], rows });
+  });
+});
+
+describe("transformColumns", () => {
+  it("gives the columns the steps produce", () => {
+    assert.deepEqual(transformColumns(["a", "b"], [
+      { kind: "merge_columns", columns: ["a", "b"], separator: " ", into: "ab", keepOriginals: false },
+    ]), ["ab"]);
+  });
+
+  it("rejects a step naming a missing column", () => {
+    assert.throws(() => transformColumns(["a"], [{ kind: "fill_nulls", column: "b", value: 1 }]), {
+      name: "TransformError",
+      message: "Cleaning step 1 (fill empty cells): There is no column named b",
+    });
+  });
+});
+
+describe("transformsOf", () => {
+  it("reads unreadable steps as none", () => {
+    assert.deepEqual(transformsOf({ transforms: [{ kind: "nope" }] }), []);
+    assert.deepEqual(transformsOf(null), []);
+    assert.deepEqual(transformsOf({ transforms: [{ kind: "trim" }] }), [{ kind: "trim" }]);
+  });
+});
@@ -0,0 +1,274 @@
+import { transformSchema, type ColumnType, type Transform } from "@shared/schema";
+import { z } from "zod";
+import { IngestError, type CellValue, type ParsedRow, type TableStream } from "./ingest";
+import { coerceValue, isNull, parseNumber } from "./schema-inference";
+
+// Replays a data source's cleaning steps over an incoming table. Every step is
+// checked against the columns the steps before it produce when the table is
+// opened, so a step naming a missing column fails before any row is stored.
+// Rows then stream through the steps batch by batch. Duplicates are dropped
+// within the incoming table; an append doesn't compare with the rows it keeps.
+
+export class TransformError extends IngestError {
+  constructor(message: string) {
+    super(message);
+    this.name = "TransformError";
+  }
+}
+
+interface CompiledStep {
+  columns: string[]; // Columns after this step
+  apply(rows: ParsedRow[]): ParsedRow[];
+}
+
+const STEP_NAMES: Record<Transform["kind"], string> = {
+  trim: "trim whitespace",
+  change_type: "change type",
+  fill_nulls: "fill empty cells",
+  drop_duplicates: "drop duplicates",
+  split_column: "split column",
+  merge_columns: "merge columns",
+  find_replace: "find and replace",
+  filter_rows: "filter rows",
+  unpivot: "unpivot",
+};
+
+// The steps saved with a data source; anything unreadable counts as no steps
+export function transformsOf(config: unknown): Transform[] {
+  const parsed = z.array(transformSchema).safeParse((config as Record<string, unknown> | null)?.transforms);
+  return parsed.success ? parsed.data : [];
+}
+
+// Column types set by change_type steps, for the data dictionary
+export function transformedTypes(transforms: Transform[]): Record<string, ColumnType> {
+  const types: Record<string, ColumnType> = {};
+  for (const transform of transforms) {
+    if (transform.kind === "change_type") types[transform.column] = transform.type;
+  }
+  return types;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Numbers compare as numbers however they were written; anything else as text
+function compareCells(a: CellValue, b: CellValue): number {
+  const x = parseNumber(a);
+  const y = parseNumber(b);
+  if (x !== null && y !== null) return x - y;
+  const left = String(a).trim();
+  const right = String(b).trim();
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function rowFilter(transform: Extract<Transform, { kind: "filter_rows" }>): (cell: CellValue) => boolean {
+  const { operator, value, column } = transform;
+  if (operator === "is_null") return cell => isNull(cell);
+  if (operator === "is_not_null") return cell => !isNull(cell);
+
+  if (operator === "in" || operator === "not_in" || operator === "between") {
+    if (!Array.isArray(value) || (operator === "between" && value.length !== 2)) {
+      throw new TransformError(`Filter "${operator}" on ${column} needs ${operator === "between" ? "a [low, high] pair" : "a list of values"}`);
+    }
+    if (operator === "between") {
+      return cell => !isNull(cell) && compareCells(cell, value[0]) >= 0 && compareCells(cell, value[1]) <= 0;
+    }
+    const found = (cell: CellValue) => value.some(candidate => compareCells(cell, candidate) === 0);
+    return operator === "in"
+      ? cell => !isNull(cell) && found(cell)
+      : cell => !isNull(cell) && !found(cell);
+  }
+
+  if (value === undefined || value === null || Array.isArray(value)) {
+    throw new TransformError(`Filter "${operator}" on ${column} needs a single value`);
+  }
+  if (operator === "contains") {
+    const needle = String(value).toLowerCase();
+    return cell => !isNull(cell) && String(cell).toLowerCase().includes(needle);
+  }
+
+  const test: Record<string, (order: number) => boolean> = {
+    eq: order => order === 0,
+    neq: order => order !== 0,
+    gt: order => order > 0,
+    gte: order => order >= 0,
+    lt: order => order < 0,
+    lte: order => order <= 0,
+  };
+  return cell => !isNull(cell) && test[operator](compareCells(cell, value));
+}
+
+function compileStep(transform: Transform, columns: string[]): CompiledStep {
+  const need = (name: string) => {
+    if (!columns.includes(name)) throw new TransformError(`There is no column named ${name}`);
+  };
+  const fresh = (name: string, replaced: string[] = []) => {
+    if (columns.includes(name) && !replaced.includes(name)) {
+      throw new TransformError(`There is already a column named ${name}`);
+    }
+  };
+  const mapCells = (targets: string[], map: (value: CellValue) => CellValue) => (rows: ParsedRow[]) =>
+    rows.map(row => {
+      const next = { ...row };
+      targets.forEach(name => { next[name] = map(row[name] ?? null); });
+      return next;
+    });
+
+  switch (transform.kind) {
+    case "trim": {
+      const targets = transform.columns ?? columns;
+      targets.forEach(need);
+      return { columns, apply: mapCells(targets, value => (typeof value === "string" ? value.trim() : value)) };
+    }
+
+    case "change_type": {
+      need(transform.column);
+      return { columns, apply: mapCells([transform.column], value => coerceValue(value, transform.type)) };
+    }
+
+    case "fill_nulls": {
+      need(transform.column);
+      return { columns, apply: mapCells([transform.column], value => (isNull(value) ? transform.value : value)) };
+    }
+
+    case "drop_duplicates": {
+      const keyColumns = transform.columns ?? columns;
+      keyColumns.forEach(need);
+      const seen = new Set<string>();
+      return {
+        columns,
+        apply: rows => rows.filter(row => {
+          const key = JSON.stringify(keyColumns.map(name => row[name] ?? null));
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        }),
+      };
+    }
+
+    case "split_column": {
+      need(transform.column);
+      const replaced = transform.keepOriginal ? [] : [transform.column];
+      transform.into.forEach(name => fresh(name, replaced));
+      if (new Set(transform.into).size !== transform.into.length) {
+        throw new TransformError("Split columns need different names");
+      }
+      const index = columns.indexOf(transform.column);
+      const next = [...columns];
+      next.splice(index + (transform.keepOriginal ? 1 : 0), transform.keepOriginal ? 0 : 1, ...transform.into);
+      return {
+        columns: next,
+        apply: rows => rows.map(row => {
+          const value = row[transform.column];
+          const parts = isNull(value) ? [] : String(value).split(transform.separator);
+          const result = { ...row };
+          if (!transform.keepOriginal) delete result[transform.column];
+          transform.into.forEach((name, i) => {
+            const part = i === transform.into.length - 1 ? parts.slice(i).join(transform.separator) : parts[i];
+            result[name] = part === undefined || part === "" ? null : part.trim();
+          });
+          return result;
+        }),
+      };
+    }
+
+    case "merge_columns": {
+      transform.columns.forEach(need);
+      const replaced = transform.keepOriginals ? [] : transform.columns;
+      fresh(transform.into, replaced);
+      // The merged column takes the place of the first of its columns
+      const first = Math.min(...transform.columns.map(name => columns.indexOf(name)));
+      const next = columns.filter(name => transform.keepOriginals || !transform.columns.includes(name));
+      const at = transform.keepOriginals ? first + 1 : columns.slice(0, first).filter(name => next.includes(name)).length;
+      next.splice(at, 0, transform.into);
+      return {
+        columns: next,
+        apply: rows => rows.map(row => {
+          const parts = transform.columns.map(name => row[name]).filter(value => !isNull(value));
+          const result = { ...row };
+          if (!transform.keepOriginals) transform.columns.forEach(name => { delete result[name]; });
+          result[transform.into] = parts.length > 0 ? parts.map(String).join(transform.separator) : null;
+          return result;
+        }),
+      };
+    }
+
+    case "find_replace": {
+      const targets = transform.column ? [transform.column] : columns;
+      targets.forEach(need);
+      const flags = transform.matchCase ? "g" : "gi";
+      const pattern = transform.wholeCell
+        ? new RegExp(`^${escapeRegExp(transform.find)}$`, flags.replace("g", ""))
+        : new RegExp(escapeRegExp(transform.find), flags);
+      return {
+        columns,
+        apply: mapCells(targets, value => {
+          if (isNull(value)) return value;
+          const text = String(value);
+          return text.search(pattern) === -1 ? value : text.replace(pattern, () => transform.replace);
+        }),
+      };
+    }
+
+    case "filter_rows": {
+      need(transform.column);
+      const matches = rowFilter(transform);
+      return { columns, apply: rows => rows.filter(row => matches(row[transform.column] ?? null) === transform.keep) };
+    }
+
+    case "unpivot": {
+      transform.columns.forEach(need);
+      const kept = columns.filter(name => !transform.columns.includes(name));
+      [transform.nameColumn, transform.valueColumn].forEach(name => fresh(name, transform.columns));
+      if (transform.nameColumn === transform.valueColumn) {
+        throw new TransformError("The name and value columns need different names");
+      }
+      return {
+        columns: [...kept, transform.nameColumn, transform.valueColumn],
+        apply: rows => rows.flatMap(row => transform.columns.map(name => {
+          const result: ParsedRow = {};
+          kept.forEach(column => { result[column] = row[column] ?? null; });
+          result[transform.nameColumn] = name;
+          result[transform.valueColumn] = row[name] ?? null;
+          return result;
+        })),
+      };
+    }
+  }
+}
+
+// Compiles every step against the columns before it, naming the failing step
+function compileSteps(columns: string[], transforms: Transform[]): CompiledStep[] {
+  const steps: CompiledStep[] = [];
+  transforms.forEach((transform, i) => {
+    try {
+      const step = compileStep(transform, columns);
+      steps.push(step);
+      columns = step.columns;
+    } catch (error) {
+      if (error instanceof TransformError) {
+        throw new TransformError(`Cleaning step ${i + 1} (${STEP_NAMES[transform.kind]}): ${error.message}`);
+      }
+      throw error;
+    }
+  });
+  return steps;
+}
+
+// The columns the steps turn `columns` into; throws if a step doesn't fit them
+export function transformColumns(columns: string[], transforms: Transform[]): string[] {
+  const steps = compileSteps(columns, transforms);
+  return steps.length > 0 ? steps[steps.length - 1].columns : columns;
+}
+
+export function applyTransforms(table: TableStream, transforms: Transform[]): TableStream {
+  if (transforms.length === 0) return table;
+  const steps = compileSteps(table.columns, transforms);
+
+  async function* batches() {
+    for await (const batch of table.batches) {
+      const rows = steps.reduce((rows, step) => step.apply(rows), batch);
+      if (rows.length > 0) yield rows;
+    }
+  }
+  return { ...table, columns: steps[steps.length - 1].columns, batches: batches() };
+}
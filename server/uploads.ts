@@ -0,0 +1,143 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+
+// Chunked uploads let large files arrive in pieces that can be retried or
+// resumed. Each session is a `<id>.part` file that grows chunk by chunk plus a
+// `<id>.json` file describing it, so sessions survive server restarts.
+
+const UPLOAD_DIR = "uploads";
+
+export const UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024;
+export const MAX_UPLOAD_SIZE = parseInt(process.env.MAX_UPLOAD_SIZE || "") || 2 * 1024 * 1024 * 1024;
+
+// Sessions untouched for this long are removed
+const STALE_UPLOAD_MS = 24 * 60 * 60 * 1000;
+
+const UPLOAD_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+export interface UploadSession {
+  id: string;
+  userId: string;
+  fileName: string;
+  size: number;
+  receivedBytes: number;
+  createdAt: string;
+}
+
+// Carries the HTTP status the route should answer with
+export class UploadError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "UploadError";
+  }
+}
+
+// Chunks of one session are appended strictly one at a time
+const sessionsInProgress = new Set<string>();
+
+function metadataPath(id: string) {
+  return path.join(UPLOAD_DIR, `${id}.json`);
+}
+
+function dataPath(id: string) {
+  return path.join(UPLOAD_DIR, `${id}.part`);
+}
+
+async function saveSession(session: UploadSession) {
+  await fs.promises.writeFile(metadataPath(session.id), JSON.stringify(session));
+}
+
+export async function createUploadSession(userId: string, fileName: string, size: number): Promise<UploadSession> {
+  if (size > MAX_UPLOAD_SIZE) {
+    throw new UploadError(`Files are limited to ${Math.floor(MAX_UPLOAD_SIZE / (1024 * 1024))}MB`, 413);
+  }
+
+  await fs.promises.mkdir(UPLOAD_DIR, { recursive: true });
+  removeStaleUploads().catch(error => console.error("Error removing stale uploads:", error));
+
+  const session: UploadSession = {
+    id: randomUUID(),
+    userId,
+    fileName: path.basename(fileName),
+    size,
+    receivedBytes: 0,
+    createdAt: new Date().toISOString(),
+  };
+  await fs.promises.writeFile(dataPath(session.id), "");
+  await saveSession(session);
+  return session;
+}
+
+export async function getUploadSession(id: string, userId: string): Promise<UploadSession> {
+  if (!UPLOAD_ID_PATTERN.test(id)) {
+    throw new UploadError("Upload not found", 404);
+  }
+
+  let session: UploadSession;
+  try {
+    session = JSON.parse(await fs.promises.readFile(metadataPath(id), "utf8"));
+  } catch {
+    throw new UploadError("Upload not found", 404);
+  }
+  if (session.userId !== userId) {
+    throw new UploadError("Upload not found", 404);
+  }
+  return session;
+}
+
+// Chunks must arrive in order. A chunk for an offset other than the number of
+// bytes received so far is rejected with 409 so the client can resync.
+export async function appendUploadChunk(id: string, userId: string, offset: number, chunk: Buffer): Promise<UploadSession> {
+  if (sessionsInProgress.has(id)) {
+    throw new UploadError("Another chunk of this upload is being written", 409);
+  }
+
+  sessionsInProgress.add(id);
+  try {
+    // Read inside the lock so the offset check sees the latest chunk
+    const session = await getUploadSession(id, userId);
+    if (offset !== session.receivedBytes) {
+      throw new UploadError(`Expected a chunk at offset ${session.receivedBytes}`, 409);
+    }
+    if (session.receivedBytes + chunk.length > session.size) {
+      throw new UploadError("Chunk goes past the end of the file");
+    }
+
+    // Drop bytes of a chunk that was written but never recorded, e.g. after a crash
+    await fs.promises.truncate(dataPath(session.id), session.receivedBytes);
+    await fs.promises.appendFile(dataPath(session.id), chunk);
+    const updated = { ...session, receivedBytes: session.receivedBytes + chunk.length };
+    await saveSession(updated);
+    return updated;
+  } finally {
+    sessionsInProgress.delete(id);
+  }
+}
+
+// Path of the assembled file once every byte has arrived
+export function completedUploadPath(session: UploadSession): string {
+  if (session.receivedBytes < session.size) {
+    throw new UploadError(`Upload is incomplete (${session.receivedBytes} of ${session.size} bytes received)`, 409);
+  }
+  return dataPath(session.id);
+}
+
+export async function removeUploadSession(id: string) {
+  await Promise.all([
+    fs.promises.unlink(metadataPath(id)).catch(() => {}),
+    fs.promises.unlink(dataPath(id)).catch(() => {}),
+  ]);
+}
+
+async function removeStaleUploads() {
+  const now = Date.now();
+  for (const entry of await fs.promises.readdir(UPLOAD_DIR)) {
+    if (!entry.endsWith(".json")) continue;
+    const id = entry.slice(0, -".json".length);
+    const stats = await fs.promises.stat(metadataPath(id)).catch(() => null);
+    if (stats && now - stats.mtimeMs > STALE_UPLOAD_MS) {
+      await removeUploadSession(id);
+    }
+  }
+}
@@ -5,6 +5,7 @@ import {
   timestamp,
   jsonb,
   index,
+  uniqueIndex,
   serial,
   boolean,
   integer,
@@ -44,6 +45,8 @@ export const organizations = pgTable("organizations", {
   domain: varchar("domain", { length: 255 }),
   description: text("description"),
   ownerId: varchar("owner_id").notNull(),
+  rowLimit: integer("row_limit"), // Max rows per data source; null uses the server default
+  aiProvider: jsonb("ai_provider").$type<StoredAIProvider>(), // null uses the server default
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -84,18 +87,131 @@ export const dashboards = pgTable("dashboards", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Column types detected for data source fields
+export const columnTypes = [
+  "integer",
+  "decimal",
+  "currency",
+  "percent",
+  "date",
+  "datetime",
+  "boolean",
+  "category",
+  "text",
+] as const;
+
+export type ColumnType = typeof columnTypes[number];
+
+// Data dictionary entry for one column of a data source
+export const columnSchemaSchema = z.object({
+  name: z.string(),
+  type: z.enum(columnTypes), // effective type, either detected or overridden by a user
+  detectedType: z.enum(columnTypes),
+  overridden: z.boolean(),
+  nullRate: z.number(), // 0-1
+  cardinality: z.number(), // distinct non-null values
+  min: z.union([z.number(), z.string()]).nullable(),
+  max: z.union([z.number(), z.string()]).nullable(),
+  formula: z.string().optional(), // Calculated fields only
+});
+
+export type ColumnSchema = z.infer<typeof columnSchemaSchema>;
+
+// A column computed from the others by a formula, e.g. margin = profit / revenue
+export const calculatedFieldSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(255),
+  formula: z.string().trim().min(1, "Formula is required").max(2000),
+});
+
+export type CalculatedField = z.infer<typeof calculatedFieldSchema>;
+
+// A saved calculated field with its result type, or why it no longer compiles
+// (say a column it uses was removed by a re-upload)
+export interface CalculatedFieldStatus extends CalculatedField {
+  type: ColumnType | null;
+  error: string | null;
+}
+
+// How often a connector data source pulls fresh rows: every N minutes, or on a
+// five-field cron expression evaluated in UTC
+export const refreshScheduleSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("interval"), minutes: z.number().int().min(5).max(60 * 24 * 30) }),
+  z.object({ kind: z.literal("cron"), expression: z.string().min(1) }),
+]);
+
+export type RefreshSchedule = z.infer<typeof refreshScheduleSchema>;
+
 // Data Sources
 export const dataSources = pgTable("data_sources", {
   id: serial("id").primaryKey(),
   name: varchar("name", { length: 255 }).notNull(),
   type: varchar("type", { length: 50 }).notNull(), // csv, json, database, api
   config: jsonb("config").notNull().default("{}"), // Connection/file details
+  schema: jsonb("schema").$type<ColumnSchema[]>(), // Inferred column dictionary
+  currentVersionId: integer("current_version_id"), // Version whose rows are served; null for sources created before versioning
+  refreshSchedule: jsonb("refresh_schedule").$type<RefreshSchedule>(), // Connector sources only; null when refreshed by hand
+  calculatedFields: jsonb("calculated_fields").$type<CalculatedField[]>(), // In order; each may use the fields before it
+  nextRefreshAt: timestamp("next_refresh_at"),
   organizationId: integer("organization_id").notNull(),
   createdById: varchar("created_by_id").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Upload history of a data source. Each version owns a full copy of its rows so
+// any version can be restored by pointing the data source back at it.
+export const dataSourceVersions = pgTable(
+  "data_source_versions",
+  {
+    id: serial("id").primaryKey(),
+    dataSourceId: integer("data_source_id").notNull().references(() => dataSources.id, { onDelete: "cascade" }),
+    version: integer("version").notNull(), // 1-based, increasing per data source
+    mode: varchar("mode", { length: 20 }).notNull(), // create, replace, append, refresh
+    fileName: varchar("file_name", { length: 255 }),
+    rowCount: integer("row_count").notNull().default(0),
+    config: jsonb("config").notNull().default("{}"), // Data source config as of this version
+    schema: jsonb("schema").$type<ColumnSchema[]>(),
+    uploadedById: varchar("uploaded_by_id").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_data_source_versions_version").on(table.dataSourceId, table.version)],
+);
+
+// One scheduled or manual refresh of a connector data source
+export const dataSourceRefreshRuns = pgTable(
+  "data_source_refresh_runs",
+  {
+    id: serial("id").primaryKey(),
+    dataSourceId: integer("data_source_id").notNull().references(() => dataSources.id, { onDelete: "cascade" }),
+    trigger: varchar("trigger", { length: 20 }).notNull(), // scheduled, manual
+    status: varchar("status", { length: 20 }).notNull(), // running, success, error
+    versionId: integer("version_id").references(() => dataSourceVersions.id, { onDelete: "set null" }),
+    rowCount: integer("row_count"),
+    durationMs: integer("duration_ms"),
+    error: text("error"),
+    startedAt: timestamp("started_at").defaultNow(),
+    heartbeatAt: timestamp("heartbeat_at").notNull().defaultNow(), // Moved forward while the run is going
+    finishedAt: timestamp("finished_at"),
+  },
+  (table) => [index("IDX_data_source_refresh_runs_source").on(table.dataSourceId, table.startedAt)],
+);
+
+// Parsed rows of file-backed data sources
+export const dataSourceRows = pgTable(
+  "data_source_rows",
+  {
+    id: serial("id").primaryKey(),
+    dataSourceId: integer("data_source_id").notNull().references(() => dataSources.id, { onDelete: "cascade" }),
+    versionId: integer("version_id").references(() => dataSourceVersions.id, { onDelete: "cascade" }),
+    rowIndex: integer("row_index").notNull(),
+    data: jsonb("data").notNull(),
+  },
+  (table) => [
+    index("IDX_data_source_rows_source").on(table.dataSourceId, table.rowIndex),
+    index("IDX_data_source_rows_version").on(table.versionId, table.rowIndex),
+  ],
+);
+
 // Dashboard Components (blocks)
 export const dashboardComponents = pgTable("dashboard_components", {
   id: serial("id").primaryKey(),
@@ -114,7 +230,7 @@ export const blocks = pgTable("blocks", {
   dashboardId: integer("dashboard_id").references(() => dashboards.id, { onDelete: "cascade" }),
   title: varchar("title", { length: 255 }).notNull(),
   description: text("description"),
-  type: varchar("type", { length: 50 }).notNull().default("ai"), // ai, chart, table, text, metric
+  type: varchar("type", { length: 50 }).notNull().default("ai"), // ai, chart, table, text, metric, pivot
   size: integer("size").notNull().default(4), // 1-12 grid columns
   content: jsonb("content").default({}),
   position: integer("position").notNull().default(0),
@@ -217,6 +333,43 @@ export const dataSourcesRelations = relations(dataSources, ({ one, many }) => ({
     references: [users.id],
   }),
   components: many(dashboardComponents),
+  rows: many(dataSourceRows),
+  versions: many(dataSourceVersions),
+  refreshRuns: many(dataSourceRefreshRuns),
+}));
+
+export const dataSourceRefreshRunsRelations = relations(dataSourceRefreshRuns, ({ one }) => ({
+  dataSource: one(dataSources, {
+    fields: [dataSourceRefreshRuns.dataSourceId],
+    references: [dataSources.id],
+  }),
+  version: one(dataSourceVersions, {
+    fields: [dataSourceRefreshRuns.versionId],
+    references: [dataSourceVersions.id],
+  }),
+}));
+
+export const dataSourceVersionsRelations = relations(dataSourceVersions, ({ one, many }) => ({
+  dataSource: one(dataSources, {
+    fields: [dataSourceVersions.dataSourceId],
+    references: [dataSources.id],
+  }),
+  uploadedBy: one(users, {
+    fields: [dataSourceVersions.uploadedById],
+    references: [users.id],
+  }),
+  rows: many(dataSourceRows),
+}));
+
+export const dataSourceRowsRelations = relations(dataSourceRows, ({ one }) => ({
+  dataSource: one(dataSources, {
+    fields: [dataSourceRows.dataSourceId],
+    references: [dataSources.id],
+  }),
+  version: one(dataSourceVersions, {
+    fields: [dataSourceRows.versionId],
+    references: [dataSourceVersions.id],
+  }),
 }));
 
 export const dashboardComponentsRelations = relations(dashboardComponents, ({ one }) => ({
@@ -268,8 +421,36 @@ export const epesiMessagesRelations = relations(epesiMessages, ({ one }) => ({
   }),
 }));
 
+// AI providers. "openai" talks to any OpenAI-compatible chat completions
+// endpoint, hosted or a local server; "rules" answers from the data with plain
+// statistics and no model.
+export const aiProviderKinds = ["openai", "rules"] as const;
+
+const openAIProviderSchema = z.object({
+  kind: z.literal("openai"),
+  baseUrl: z.string().url().optional(),
+  model: z.string().min(1).max(255).optional(),
+  apiKey: z.string().min(1).max(1000).optional(),
+});
+
+const rulesProviderSchema = z.object({ kind: z.literal("rules") });
+
+export const aiProviderSettingsSchema = z.discriminatedUnion("kind", [openAIProviderSchema, rulesProviderSchema]);
+
+// As kept on the organization, with the API key encrypted into credentials
+export const storedAIProviderSchema = z.discriminatedUnion("kind", [
+  openAIProviderSchema.omit({ apiKey: true }).extend({ credentials: z.string().optional() }),
+  rulesProviderSchema,
+]);
+
+export type AIProviderKind = typeof aiProviderKinds[number];
+export type AIProviderSettings = z.infer<typeof aiProviderSettingsSchema>;
+export type StoredAIProvider = z.infer<typeof storedAIProviderSchema>;
+
 // Insert schemas
-export const insertOrganizationSchema = createInsertSchema(organizations).omit({
+export const insertOrganizationSchema = createInsertSchema(organizations, {
+  aiProvider: storedAIProviderSchema.nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
@@ -287,12 +468,32 @@ export const insertDashboardSchema = createInsertSchema(dashboards).omit({
   updatedAt: true,
 });
 
-export const insertDataSourceSchema = createInsertSchema(dataSources).omit({
+export const insertDataSourceSchema = createInsertSchema(dataSources, {
+  schema: z.array(columnSchemaSchema).nullable().optional(),
+  refreshSchedule: refreshScheduleSchema.nullable().optional(),
+  calculatedFields: z.array(calculatedFieldSchema).nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertDataSourceRowSchema = createInsertSchema(dataSourceRows).omit({
+  id: true,
+});
+
+export const insertDataSourceVersionSchema = createInsertSchema(dataSourceVersions, {
+  schema: z.array(columnSchemaSchema).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertDataSourceRefreshRunSchema = createInsertSchema(dataSourceRefreshRuns).omit({
+  id: true,
+  startedAt: true,
+});
+
 export const insertDashboardComponentSchema = createInsertSchema(dashboardComponents).omit({
   id: true,
   createdAt: true,
@@ -330,6 +531,16 @@ export type Dashboard = typeof dashboards.$inferSelect;
 export type InsertDashboard = z.infer<typeof insertDashboardSchema>;
 export type DataSource = typeof dataSources.$inferSelect;
 export type InsertDataSource = z.infer<typeof insertDataSourceSchema>;
+export type DataSourceRow = typeof dataSourceRows.$inferSelect;
+export type InsertDataSourceRow = z.infer<typeof insertDataSourceRowSchema>;
+export type DataSourceVersion = typeof dataSourceVersions.$inferSelect;
+export type InsertDataSourceVersion = z.infer<typeof insertDataSourceVersionSchema>;
+export type DataSourceVersionWithUploader = DataSourceVersion & {
+  uploadedBy: Pick<User, "id" | "email" | "firstName" | "lastName"> | null;
+};
+export type DataSourceRefreshRun = typeof dataSourceRefreshRuns.$inferSelect;
+export type InsertDataSourceRefreshRun = z.infer<typeof insertDataSourceRefreshRunSchema>;
+export type DataSourceWithLastRefresh = DataSource & { lastRefreshRun: DataSourceRefreshRun | null };
 export type DashboardComponent = typeof dashboardComponents.$inferSelect;
 export type InsertDashboardComponent = z.infer<typeof insertDashboardComponentSchema>;
 export type Block = typeof blocks.$inferSelect;
@@ -341,6 +552,545 @@ export type InsertEpesiConversation = z.infer<typeof insertEpesiConversationSche
 export type EpesiMessage = typeof epesiMessages.$inferSelect;
 export type InsertEpesiMessage = z.infer<typeof insertEpesiMessageSchema>;
 
+// Organization schemas
+export const organizationSettingsSchema = z.object({
+  rowLimit: z.number().int().positive().nullable().optional(),
+  aiProvider: aiProviderSettingsSchema.nullable().optional(),
+});
+
+// Data source schemas
+export const columnTypeOverridesSchema = z.object({
+  overrides: z.record(z.enum(columnTypes)),
+});
+
+// Chunked uploads are announced before their first chunk is sent
+export const createUploadSchema = z.object({
+  fileName: z.string().min(1).max(255),
+  size: z.number().int().nonnegative(),
+});
+
+// Replaces all calculated fields of a data source
+export const calculatedFieldsUpdateSchema = z.object({
+  fields: z.array(calculatedFieldSchema).max(100),
+});
+
+// Checks a formula in the editor, after the fields defined before it
+export const formulaPreviewSchema = z.object({
+  formula: z.string().min(1, "Formula is required").max(2000),
+  fields: z.array(calculatedFieldSchema).max(100).default([]),
+});
+
+// Null turns scheduled refreshes off
+export const refreshScheduleUpdateSchema = z.object({
+  schedule: refreshScheduleSchema.nullable(),
+});
+
+// The sheets to import from a workbook, sent as a JSON array of names in a
+// multipart form field
+export const sheetSelectionSchema = z.string().transform((text, ctx) => {
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Sheets must be a JSON array of sheet names" });
+    return z.NEVER;
+  }
+}).pipe(z.array(z.string().min(1)).max(100));
+
+// Re-uploads either replace every row or append to the current ones
+export const uploadVersionSchema = z.object({
+  mode: z.enum(["replace", "append"]),
+  sheet: z.string().optional(), // Sheet to import when the file is a workbook
+});
+
+// JSON imports read records from an array at `recordsPath` (dotted, empty for
+// the top level). Nested arrays are exploded into extra rows or joined into text.
+export const jsonImportOptionsSchema = z.object({
+  recordsPath: z.string().optional(),
+  arrayMode: z.enum(["explode", "join"]).default("join"),
+});
+
+export type JsonImportOptions = z.infer<typeof jsonImportOptionsSchema>;
+
+// Database connector sources. The password is only ever accepted from the
+// client; the server stores it encrypted and never sends it back.
+export const databaseEngines = ["postgres", "mysql"] as const;
+
+export const databaseConnectionSchema = z.object({
+  engine: z.enum(databaseEngines),
+  host: z.string().min(1, "Host is required"),
+  port: z.coerce.number().int().positive().optional(),
+  database: z.string().min(1, "Database is required"),
+  user: z.string().min(1, "User is required"),
+  password: z.string().optional(),
+  ssl: z.boolean().default(false),
+  skipCertificateCheck: z.boolean().default(false), // Accept any certificate the server presents
+});
+
+// A database source reads either a whole table or view, or the result of a
+// read-only query
+export const databaseSourceSchema = z.object({
+  connection: databaseConnectionSchema,
+  table: z.object({ schema: z.string().optional(), name: z.string().min(1) }).optional(),
+  query: z.string().min(1).optional(),
+}).refine(source => !!source.table !== !!source.query, "Choose either a table or a query");
+
+export type DatabaseConnection = z.infer<typeof databaseConnectionSchema>;
+export type DatabaseSource = z.infer<typeof databaseSourceSchema>;
+
+// HTTP API connector sources. Auth secrets and headers are stored encrypted
+// like database passwords.
+export const apiAuthSchema = z.discriminatedUnion("scheme", [
+  z.object({ scheme: z.literal("none") }),
+  z.object({ scheme: z.literal("bearer"), token: z.string().min(1, "Token is required") }),
+  z.object({ scheme: z.literal("basic"), username: z.string().min(1, "Username is required"), password: z.string() }),
+  z.object({
+    scheme: z.literal("apiKey"),
+    name: z.string().min(1, "Key name is required"),
+    value: z.string().min(1, "Key is required"),
+    in: z.enum(["header", "query"]).default("header"),
+  }),
+]);
+
+// How further pages are requested: an increasing page number, a cursor taken
+// from each response, or the rel="next" URL of the Link header
+export const apiPaginationSchema = z.discriminatedUnion("strategy", [
+  z.object({ strategy: z.literal("none") }),
+  z.object({
+    strategy: z.literal("page"),
+    pageParam: z.string().min(1).default("page"),
+    startPage: z.coerce.number().int().nonnegative().default(1),
+    pageSizeParam: z.string().optional(),
+    pageSize: z.coerce.number().int().positive().optional(),
+  }),
+  z.object({
+    strategy: z.literal("cursor"),
+    cursorParam: z.string().min(1).default("cursor"),
+    cursorPath: z.string().min(1), // JSONPath to the next cursor in each response
+  }),
+  z.object({ strategy: z.literal("link") }),
+]);
+
+export const apiSourceSchema = z.object({
+  url: z.string().url().refine(url => /^https?:\/\//i.test(url), "Use an http or https URL"),
+  headers: z.record(z.string()).default({}),
+  auth: apiAuthSchema.default({ scheme: "none" }),
+  pagination: apiPaginationSchema.default({ strategy: "none" }),
+  recordsPath: z.string().min(1).default("$"), // JSONPath to the records array
+  arrayMode: z.enum(["explode", "join"]).default("join"),
+  maxPages: z.coerce.number().int().min(1).max(1000).default(100),
+});
+
+export type ApiSource = z.infer<typeof apiSourceSchema>;
+
+// Blended sources join other data sources of the same organization on key
+// columns. Joins apply in order, each to the result so far. Columns can be
+// renamed before joining; names that still clash get the source's name added.
+export const blendJoinTypes = ["inner", "left", "full"] as const;
+
+export const blendInputSchema = z.object({
+  dataSourceId: z.coerce.number().int(),
+  rename: z.record(z.string().min(1)).default({}), // Original column name to new name
+});
+
+export const blendJoinSchema = blendInputSchema.extend({
+  type: z.enum(blendJoinTypes),
+  // `left` names a column of the result so far, `right` one of this source, both after renaming
+  on: z.array(z.object({ left: z.string().min(1), right: z.string().min(1) })).min(1, "Choose at least one key column"),
+});
+
+export const blendDefinitionSchema = z.object({
+  base: blendInputSchema,
+  joins: z.array(blendJoinSchema).min(1, "Join at least one other data source"),
+});
+
+export type BlendJoin = z.infer<typeof blendJoinSchema>;
+export type BlendDefinition = z.infer<typeof blendDefinitionSchema>;
+
+// Aggregation queries over a data source's rows. Rows are filtered, grouped by
+// the dimension columns and each measure is computed per group; with no
+// dimensions the whole source is one group.
+export const queryAggregations = ["sum", "avg", "count", "count_distinct", "min", "max", "median", "percentile"] as const;
+
+export const queryFilterOperators = [
+  "eq", "neq", "gt", "gte", "lt", "lte", "in", "not_in", "between", "contains", "is_null", "is_not_null",
+] as const;
+
+export const timeBuckets = ["day", "week", "month", "quarter", "year"] as const;
+
+export const comparisonPeriods = ["previous_period", "same_period_last_year"] as const;
+
+export const maxQueryRows = 10_000;
+
+const queryValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+// `in`/`not_in` take a list of values, `between` an inclusive [low, high] pair
+// and the null checks no value
+export const queryFilterSchema = z.object({
+  column: z.string(),
+  operator: z.enum(queryFilterOperators),
+  value: z.union([queryValueSchema, z.array(queryValueSchema)]).optional(),
+});
+
+export const queryMeasureSchema = z.object({
+  aggregation: z.enum(queryAggregations),
+  column: z.string().optional(), // Omitted to count rows
+  percentile: z.number().min(0).max(100).optional(), // For percentile measures, e.g. 90
+  filters: z.array(queryFilterSchema).optional(), // Only matching rows count towards this measure
+  as: z.string().min(1).optional(), // Result column name; defaults to e.g. "sum_revenue"
+})
+  .refine(measure => measure.column !== undefined || measure.aggregation === "count", "Only count measures can omit the column")
+  .refine(measure => measure.aggregation !== "percentile" || measure.percentile !== undefined, "Percentile measures need a percentile");
+
+// A plain column name, or a date column truncated to the start of its day,
+// week (from Monday), month, quarter or year
+export const queryDimensionSchema = z.union([
+  z.string(),
+  z.object({
+    column: z.string(),
+    bucket: z.enum(timeBuckets).optional(),
+    as: z.string().min(1).optional(), // Result column name; defaults to e.g. "month_order_date"
+  }),
+]);
+
+// Adds the previous period's value of every measure next to each bucket of a
+// bucketed dimension, with the change from it
+export const queryComparisonSchema = z.object({
+  dimension: z.string(), // Result name of a bucketed dimension
+  period: z.enum(comparisonPeriods),
+});
+
+// Metrics and dimensions of the organization's semantic layer, by id. Their
+// result columns are named by their display names unless renamed here.
+export const semanticMetricReferenceSchema = z.object({
+  metric: z.number().int(),
+  as: z.string().min(1).optional(),
+});
+
+export const semanticDimensionReferenceSchema = z.object({
+  dimension: z.number().int(),
+  bucket: z.enum(timeBuckets).optional(), // Overrides the dimension's own bucket
+  as: z.string().min(1).optional(),
+});
+
+export const querySortSchema = z.object({
+  field: z.string(), // A dimension or measure name of the result
+  direction: z.enum(["asc", "desc"]).default("asc"),
+});
+
+export const querySpecSchema = z.object({
+  dataSourceId: z.number().int(),
+  dimensions: z.array(z.union([queryDimensionSchema, semanticDimensionReferenceSchema])).default([]),
+  measures: z.array(z.union([queryMeasureSchema, semanticMetricReferenceSchema])).default([]),
+  filters: z.array(queryFilterSchema).default([]),
+  sort: z.array(querySortSchema).default([]), // Dimensions ascending when empty
+  limit: z.number().int().min(1).max(maxQueryRows).optional(),
+  timezone: z.string().default("UTC"), // Date-times are bucketed by their local date here
+  fiscalYearStartMonth: z.number().int().min(1).max(12).default(1), // Quarters and years start from this month
+  compare: queryComparisonSchema.optional(),
+}).refine(spec => spec.dimensions.length + spec.measures.length > 0, "A query needs at least one dimension or measure");
+
+export type TimeBucket = typeof timeBuckets[number];
+export type QueryDimension = z.infer<typeof queryDimensionSchema>;
+export type QueryComparison = z.infer<typeof queryComparisonSchema>;
+export type QueryMeasure = z.infer<typeof queryMeasureSchema>;
+export type QueryFilter = z.infer<typeof queryFilterSchema>;
+export type SemanticMetricReference = z.infer<typeof semanticMetricReferenceSchema>;
+export type SemanticDimensionReference = z.infer<typeof semanticDimensionReferenceSchema>;
+export type QuerySpec = z.infer<typeof querySpecSchema>;
+
+// A pivot block's settings, kept under `pivot` in the block's content. Row
+// dimensions nest in order and can be collapsed; every measure is shown under
+// each combination of the column dimensions. Subtotals and totals are queried
+// at their own level rather than added up, so averages and distinct counts
+// stay correct.
+export const pivotConfigSchema = z.object({
+  dataSourceId: z.number().int(),
+  rows: z.array(z.union([queryDimensionSchema, semanticDimensionReferenceSchema])).max(5).default([]),
+  columns: z.array(z.union([queryDimensionSchema, semanticDimensionReferenceSchema])).max(3).default([]),
+  measures: z.array(z.union([queryMeasureSchema, semanticMetricReferenceSchema])).min(1, "Add at least one measure").max(10),
+  filters: z.array(queryFilterSchema).default([]),
+  subtotals: z.boolean().default(true),
+  grandTotals: z.boolean().default(true),
+});
+
+export type PivotConfig = z.infer<typeof pivotConfigSchema>;
+
+export interface QueryColumn {
+  name: string;
+  type: ColumnType;
+  role: "dimension" | "measure" | "comparison";
+  bucket?: TimeBucket; // Bucketed dimensions hold the first date of each bucket
+  format?: SemanticFormat; // Set for metrics and dimensions of the semantic layer
+  description?: string;
+}
+
+export interface QueryResult {
+  columns: QueryColumn[];
+  rows: Record<string, string | number | boolean | null>[];
+  totalRows: number; // Groups before the limit was applied
+}
+
+// Table blocks show a data source's rows, or the result of a query over it.
+// Column filters and the sort apply to the whole view before it is paged.
+export const tableFormats = ["auto", "number", "currency", "percent", "date", "datetime", "text"] as const;
+
+const hexColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Colors are written like #4f46e5");
+
+export const tableSortSchema = z.object({
+  column: z.string(),
+  direction: z.enum(["asc", "desc"]).default("asc"),
+});
+
+export const tableColumnFormatSchema = z.object({
+  format: z.enum(tableFormats).default("auto"), // "auto" formats by the column type
+  decimals: z.number().int().min(0).max(10).optional(),
+  currency: z.string().length(3).optional(), // ISO code, e.g. "EUR"; amounts show no symbol without it
+});
+
+// Color scales and data bars are scaled to the column's range over the whole
+// view; thresholds color the cells they match
+export const tableRuleSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("color_scale"),
+    column: z.string(),
+    minColor: hexColorSchema.default("#f8fafc"),
+    maxColor: hexColorSchema.default("#6366f1"),
+  }),
+  z.object({
+    kind: z.literal("threshold"),
+    column: z.string(),
+    operator: z.enum(["eq", "neq", "gt", "gte", "lt", "lte"]),
+    value: z.union([z.number(), z.string()]),
+    color: hexColorSchema,
+    textColor: hexColorSchema.optional(),
+  }),
+  z.object({
+    kind: z.literal("data_bar"),
+    column: z.string(),
+    color: hexColorSchema.default("#a5b4fc"),
+  }),
+]);
+
+const tableSourceSchema = z.object({
+  dataSourceId: z.number().int(),
+  query: querySpecSchema.optional(), // Shows the query's result instead of the rows
+  columns: z.array(z.string()).default([]), // Shown in this order; every column when empty
+  filters: z.array(queryFilterSchema).default([]),
+  sort: tableSortSchema.optional(),
+});
+
+const readsItsDataSource = (source: z.infer<typeof tableSourceSchema>) =>
+  !source.query || source.query.dataSourceId === source.dataSourceId;
+
+export const tableViewSchema = tableSourceSchema.extend({
+  offset: z.number().int().min(0).default(0),
+  limit: z.number().int().min(1).max(500).default(25),
+}).refine(readsItsDataSource, "The query must read the table's data source");
+
+// A table block's settings, kept under `table` in the block's content
+export const tableBlockConfigSchema = tableSourceSchema.extend({
+  pageSize: z.number().int().min(5).max(500).default(25),
+  formats: z.record(z.string(), tableColumnFormatSchema).default({}),
+  rules: z.array(tableRuleSchema).max(50).default([]),
+}).refine(readsItsDataSource, "The query must read the table's data source");
+
+export type TableFormat = typeof tableFormats[number];
+export type TableSort = z.infer<typeof tableSortSchema>;
+export type TableColumnFormat = z.infer<typeof tableColumnFormatSchema>;
+export type TableRule = z.infer<typeof tableRuleSchema>;
+export type TableView = z.infer<typeof tableViewSchema>;
+export type TableBlockConfig = z.infer<typeof tableBlockConfigSchema>;
+
+export interface TableColumn {
+  name: string;
+  type: ColumnType;
+}
+
+export interface TablePage {
+  columns: TableColumn[]; // The shown columns
+  available: TableColumn[]; // Every column of the view
+  rows: Record<string, unknown>[];
+  total: number; // Rows of the view after filtering
+  offset: number;
+  limit: number;
+  ranges: Record<string, { min: number; max: number }>; // Numeric shown columns over the whole view
+}
+
+// Cleaning steps applied in order to the rows of every new version of a data
+// source, uploaded or refreshed, before they are stored. Each step names columns
+// as the steps before it left them.
+export const transformKinds = [
+  "trim", "change_type", "fill_nulls", "drop_duplicates", "split_column", "merge_columns", "find_replace", "filter_rows", "unpivot",
+] as const;
+
+export const transformSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("trim"),
+    columns: z.array(z.string().min(1)).optional(), // Every column when omitted
+  }),
+  z.object({
+    kind: z.literal("change_type"),
+    column: z.string().min(1),
+    type: z.enum(columnTypes),
+  }),
+  z.object({
+    kind: z.literal("fill_nulls"),
+    column: z.string().min(1),
+    value: z.union([z.string(), z.number(), z.boolean()]),
+  }),
+  z.object({
+    kind: z.literal("drop_duplicates"),
+    columns: z.array(z.string().min(1)).optional(), // Whole rows are compared when omitted
+  }),
+  z.object({
+    kind: z.literal("split_column"),
+    column: z.string().min(1),
+    separator: z.string().min(1),
+    into: z.array(z.string().min(1)).min(2), // The last column takes whatever is left over
+    keepOriginal: z.boolean().default(false),
+  }),
+  z.object({
+    kind: z.literal("merge_columns"),
+    columns: z.array(z.string().min(1)).min(2),
+    separator: z.string().default(" "),
+    into: z.string().min(1),
+    keepOriginals: z.boolean().default(false),
+  }),
+  z.object({
+    kind: z.literal("find_replace"),
+    column: z.string().min(1).optional(), // Every column when omitted
+    find: z.string().min(1),
+    replace: z.string().default(""),
+    matchCase: z.boolean().default(false),
+    wholeCell: z.boolean().default(false), // Only replace cells equal to `find`
+  }),
+  z.object({
+    kind: z.literal("filter_rows"),
+    column: z.string().min(1),
+    operator: z.enum(queryFilterOperators),
+    value: z.union([queryValueSchema, z.array(queryValueSchema)]).optional(),
+    keep: z.boolean().default(true), // Keep the matching rows, or drop them
+  }),
+  z.object({
+    kind: z.literal("unpivot"),
+    columns: z.array(z.string().min(1)).min(1), // Become rows; the other columns are repeated
+    nameColumn: z.string().min(1).default("attribute"),
+    valueColumn: z.string().min(1).default("value"),
+  }),
+]);
+
+export const transformsUpdateSchema = z.object({
+  transforms: z.array(transformSchema).max(50),
+  apply: z.boolean().default(false), // Refresh a connector source right away
+});
+
+export type Transform = z.infer<typeof transformSchema>;
+export type TransformKind = typeof transformKinds[number];
+
+// Named metrics and dimensions shared by an organization, so every block and
+// the agent compute "revenue" the same way. A metric is a measure of one data
+// source, optionally restricted by its own filters; a dimension gives a column
+// a display name, a format and a default date bucket.
+export const semanticFormats = ["number", "integer", "currency", "percent", "date", "text"] as const;
+
+export const semanticMetrics = pgTable("semantic_metrics", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull(),
+  dataSourceId: integer("data_source_id").notNull().references(() => dataSources.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  definition: jsonb("definition").$type<QueryMeasure>().notNull(),
+  format: varchar("format", { length: 20 }).notNull().default("number"),
+  createdById: varchar("created_by_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const semanticDimensions = pgTable("semantic_dimensions", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull(),
+  dataSourceId: integer("data_source_id").notNull().references(() => dataSources.id, { onDelete: "cascade" }),
+  column: varchar("column", { length: 255 }).notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  format: varchar("format", { length: 20 }).notNull().default("text"),
+  bucket: varchar("bucket", { length: 20 }).$type<TimeBucket>(),
+  createdById: varchar("created_by_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const semanticMetricsRelations = relations(semanticMetrics, ({ one }) => ({
+  dataSource: one(dataSources, {
+    fields: [semanticMetrics.dataSourceId],
+    references: [dataSources.id],
+  }),
+}));
+
+export const semanticDimensionsRelations = relations(semanticDimensions, ({ one }) => ({
+  dataSource: one(dataSources, {
+    fields: [semanticDimensions.dataSourceId],
+    references: [dataSources.id],
+  }),
+}));
+
+export const semanticMetricInputSchema = z.object({
+  organizationId: z.coerce.number().int(),
+  dataSourceId: z.coerce.number().int(),
+  name: z.string().trim().min(1, "Name is required").max(255),
+  description: z.string().trim().max(2000).nullish(),
+  definition: queryMeasureSchema,
+  format: z.enum(semanticFormats).default("number"),
+});
+
+export const semanticDimensionInputSchema = z.object({
+  organizationId: z.coerce.number().int(),
+  dataSourceId: z.coerce.number().int(),
+  column: z.string().min(1, "Column is required"),
+  name: z.string().trim().min(1, "Name is required").max(255),
+  description: z.string().trim().max(2000).nullish(),
+  format: z.enum(semanticFormats).default("text"),
+  bucket: z.enum(timeBuckets).nullish(),
+});
+
+export type SemanticFormat = typeof semanticFormats[number];
+export type SemanticMetric = typeof semanticMetrics.$inferSelect;
+export type InsertSemanticMetric = typeof semanticMetrics.$inferInsert;
+export type SemanticMetricInput = z.infer<typeof semanticMetricInputSchema>;
+export type SemanticDimension = typeof semanticDimensions.$inferSelect;
+export type InsertSemanticDimension = typeof semanticDimensions.$inferInsert;
+export type SemanticDimensionInput = z.infer<typeof semanticDimensionInputSchema>;
+
+// SQL over an organization's data sources, run read-only with each source as a table
+export const sqlRunSchema = z.object({
+  organizationId: z.coerce.number().int(),
+  sql: z.string().min(1, "SQL is required"),
+});
+
+// Without an organization the SQL is only generated, against the schema given
+export const sqlGenerationSchema = z.object({
+  prompt: z.string().min(1, "Prompt is required"),
+  organizationId: z.coerce.number().int().optional(),
+  schema: z.string().optional(),
+});
+
+export interface SqlColumn {
+  name: string;
+  type: ColumnType;
+}
+
+export interface SqlResult {
+  sql: string;
+  columns: SqlColumn[];
+  rows: Record<string, unknown>[];
+  truncated: boolean; // More rows than the cap were returned
+}
+
+export interface SqlAttempt {
+  sql: string;
+  error: string;
+}
+
 // Authentication schemas
 export const registerSchema = z.object({
   email: z.string().email("Invalid email address"),